@@ -0,0 +1,314 @@
+'use client'
+
+import AdminLayout from '@/components/AdminLayout'
+import { useAuth } from '@/components/AuthProvider'
+import { useTranslation } from '@/components/LanguageProvider'
+import PageControls from '@/components/PageControls'
+import {
+  ADMIN_PAGE_SIZE,
+  AdminMerchant,
+  MERCHANT_STATUSES,
+  MerchantStatus,
+  getAdminMerchant,
+  listAdminMerchants,
+  setMerchantSuspended,
+} from '@/lib/admin'
+import { PageRequest, useCursorPagination } from '@/lib/pagination'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+export const runtime = 'nodejs'
+
+export default function AdminMerchantsPage() {
+  const { userRecord, startImpersonation } = useAuth()
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [status, setStatus] = useState<MerchantStatus | ''>('')
+  const [listLoading, setListLoading] = useState(true)
+  const [pendingMerchantId, setPendingMerchantId] = useState<number | null>(null)
+  const [merchantToSuspend, setMerchantToSuspend] = useState<AdminMerchant | null>(null)
+  const isAdmin = userRecord?.role === 'admin'
+
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+  const dateFormatter = useMemo(() => new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }), [locale])
+
+  const fetchMerchantsPage = useCallback(
+    (request: PageRequest) => listAdminMerchants({ search, status: status || null }, request),
+    [search, status]
+  )
+
+  const { visibleRows, setRows, page, hasNextPage, loadingMore, reset, nextPage, previousPage } =
+    useCursorPagination<AdminMerchant>(fetchMerchantsPage, ADMIN_PAGE_SIZE)
+
+  useEffect(() => {
+    if (!isAdmin) return
+
+    setListLoading(true)
+    reset()
+      .catch((error) => {
+        console.error('Error fetching merchants:', error)
+        toast.error(t('admin.fetchError'))
+      })
+      .finally(() => setListLoading(false))
+  }, [isAdmin, reset, t])
+
+  const showNextPage = async () => {
+    try {
+      await nextPage()
+    } catch (error) {
+      console.error('Error fetching merchants:', error)
+      toast.error(t('admin.fetchError'))
+    }
+  }
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault()
+    setSearch(searchInput.trim())
+  }
+
+  const updateSuspension = async (merchant: AdminMerchant, suspended: boolean, reason?: string) => {
+    try {
+      setPendingMerchantId(merchant.id)
+      await setMerchantSuspended(merchant.id, suspended, reason)
+      // Reactivation picks the status from the subscription period, so read the row back
+      const updated = await getAdminMerchant(merchant.id)
+      if (updated) {
+        setRows((prev) => prev.map((row) => (row.id === merchant.id ? updated : row)))
+      }
+      setMerchantToSuspend(null)
+      toast.success(
+        suspended
+          ? t('admin.suspendSuccess', { name: merchant.name })
+          : t('admin.reactivateSuccess', { name: merchant.name })
+      )
+    } catch (error) {
+      console.error('Error updating merchant suspension:', error)
+      toast.error(t('admin.suspendError'))
+    } finally {
+      setPendingMerchantId(null)
+    }
+  }
+
+  const handleImpersonate = async (merchant: AdminMerchant) => {
+    try {
+      setPendingMerchantId(merchant.id)
+      await startImpersonation(merchant.id)
+      router.push('/dashboard')
+    } catch (error) {
+      console.error('Error opening merchant dashboard:', error)
+      toast.error(t('admin.impersonationError'))
+      setPendingMerchantId(null)
+    }
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <header>
+          <h1 className="text-3xl font-semibold text-gray-900">{t('admin.merchantsTitle')}</h1>
+          <p className="mt-2 text-gray-600">{t('admin.merchantsSubtitle')}</p>
+        </header>
+
+        <form onSubmit={handleSearch} className="grid gap-4 sm:grid-cols-[1fr_12rem_auto] sm:items-end">
+          <div>
+            <label className="form-label" htmlFor="merchant_search">{t('admin.search')}</label>
+            <input
+              id="merchant_search"
+              type="search"
+              className="input mt-1"
+              value={searchInput}
+              onChange={(event) => setSearchInput(event.target.value)}
+              placeholder={t('admin.searchPlaceholder')}
+            />
+          </div>
+          <div>
+            <label className="form-label" htmlFor="merchant_status">{t('admin.status')}</label>
+            <select
+              id="merchant_status"
+              className="input mt-1"
+              value={status}
+              onChange={(event) => setStatus(event.target.value as MerchantStatus | '')}
+            >
+              <option value="">{t('admin.allStatuses')}</option>
+              {MERCHANT_STATUSES.map((item) => (
+                <option key={item} value={item}>{t(`admin.status_${item}`)}</option>
+              ))}
+            </select>
+          </div>
+          <button type="submit" className="btn btn-primary">{t('admin.search')}</button>
+        </form>
+
+        {listLoading ? (
+          <p className="py-8 text-center text-sm text-gray-500">{t('common.loading')}</p>
+        ) : visibleRows.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">{t('admin.merchantsEmpty')}</p>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-gray-100">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  <tr>
+                    <th className="px-4 py-3">{t('admin.merchant')}</th>
+                    <th className="px-4 py-3">{t('admin.status')}</th>
+                    <th className="px-4 py-3">{t('admin.validUntil')}</th>
+                    <th className="px-4 py-3 text-right">{t('admin.balance')}</th>
+                    <th className="px-4 py-3 text-right">{t('admin.actions')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 bg-white">
+                  {visibleRows.map((merchant) => {
+                    const isSuspended = merchant.subscription_status === 'suspended'
+                    const isPending = pendingMerchantId === merchant.id
+                    return (
+                      <tr key={merchant.id}>
+                        <td className="px-4 py-3">
+                          <p className="font-medium text-gray-900">{merchant.name}</p>
+                          <p className="text-xs text-gray-500">
+                            #{merchant.id}
+                            {merchant.owner_email ? ` · ${merchant.owner_email}` : ''}
+                          </p>
+                        </td>
+                        <td className="px-4 py-3">
+                          <StatusBadge status={merchant.subscription_status} />
+                          {isSuspended && merchant.suspension_reason && (
+                            <p className="mt-1 max-w-xs text-xs text-gray-500">{merchant.suspension_reason}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {merchant.subscription_valid_until
+                            ? dateFormatter.format(new Date(merchant.subscription_valid_until))
+                            : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-right font-medium text-gray-900">
+                          {currencyFormatter.format(merchant.balance_cents / 100)}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex justify-end gap-3">
+                            <button
+                              type="button"
+                              onClick={() => handleImpersonate(merchant)}
+                              disabled={isPending}
+                              className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                            >
+                              {t('admin.viewDashboard')}
+                            </button>
+                            {isSuspended ? (
+                              <button
+                                type="button"
+                                onClick={() => updateSuspension(merchant, false)}
+                                disabled={isPending}
+                                className="text-sm font-medium text-green-600 hover:text-green-700 disabled:opacity-50"
+                              >
+                                {t('admin.reactivate')}
+                              </button>
+                            ) : (
+                              <button
+                                type="button"
+                                onClick={() => setMerchantToSuspend(merchant)}
+                                disabled={isPending}
+                                className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                              >
+                                {t('admin.suspend')}
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <PageControls
+              page={page}
+              hasNextPage={hasNextPage}
+              loading={loadingMore}
+              onPrevious={previousPage}
+              onNext={showNextPage}
+            />
+          </div>
+        )}
+      </div>
+
+      {merchantToSuspend && (
+        <SuspendModal
+          merchant={merchantToSuspend}
+          pending={pendingMerchantId === merchantToSuspend.id}
+          onCancel={() => setMerchantToSuspend(null)}
+          onConfirm={(reason) => updateSuspension(merchantToSuspend, true, reason)}
+        />
+      )}
+    </AdminLayout>
+  )
+}
+
+function StatusBadge({ status }: { status: MerchantStatus }) {
+  const { t } = useTranslation()
+  const colors =
+    status === 'active'
+      ? 'bg-green-50 text-green-700'
+      : status === 'suspended' || status === 'past_due'
+        ? 'bg-red-50 text-red-700'
+        : status === 'trial' || status === 'trialing'
+          ? 'bg-blue-50 text-blue-700'
+          : 'bg-gray-100 text-gray-600'
+
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${colors}`}>
+      {t(`admin.status_${status}`)}
+    </span>
+  )
+}
+
+function SuspendModal({
+  merchant,
+  pending,
+  onCancel,
+  onConfirm,
+}: {
+  merchant: AdminMerchant
+  pending: boolean
+  onCancel: () => void
+  onConfirm: (reason: string) => void
+}) {
+  const { t } = useTranslation()
+  const [reason, setReason] = useState('')
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4 py-6">
+      <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-xl">
+        <h3 className="text-lg font-semibold text-gray-900">{t('admin.suspendTitle')}</h3>
+        <p className="mt-2 text-sm text-gray-600">{t('admin.suspendConfirm', { name: merchant.name })}</p>
+        <div className="form-group mt-4">
+          <label className="form-label" htmlFor="suspension_reason">{t('admin.suspendReason')}</label>
+          <textarea
+            id="suspension_reason"
+            className="input"
+            rows={3}
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+          />
+        </div>
+        <div className="mt-6 flex justify-end gap-3">
+          <button type="button" onClick={onCancel} className="btn btn-secondary">
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(reason)}
+            disabled={pending}
+            className="btn btn-danger disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {t('admin.suspend')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
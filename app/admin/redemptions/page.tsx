@@ -0,0 +1,172 @@
+'use client'
+
+import AdminLayout from '@/components/AdminLayout'
+import { useAuth } from '@/components/AuthProvider'
+import { useTranslation } from '@/components/LanguageProvider'
+import PageControls from '@/components/PageControls'
+import {
+  ADMIN_PAGE_SIZE,
+  FlaggedRedemption,
+  REPORT_STATUSES,
+  ReportStatus,
+  listFlaggedRedemptions,
+  reviewFlaggedRedemption,
+} from '@/lib/admin'
+import { PageRequest, useCursorPagination } from '@/lib/pagination'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+export const runtime = 'nodejs'
+
+// Reviewing moves a report out of the pending queue
+const REVIEW_ACTIONS: ReportStatus[] = ['in_review', 'resolved', 'rejected']
+
+export default function AdminFlaggedRedemptionsPage() {
+  const { userRecord } = useAuth()
+  const { t, locale } = useTranslation()
+  const [status, setStatus] = useState<ReportStatus | ''>('pending')
+  const [listLoading, setListLoading] = useState(true)
+  const [pendingReportId, setPendingReportId] = useState<number | null>(null)
+  const isAdmin = userRecord?.role === 'admin'
+
+  const dateFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    [locale]
+  )
+
+  const fetchReportsPage = useCallback(
+    (request: PageRequest) => listFlaggedRedemptions(status || null, request),
+    [status]
+  )
+
+  const { visibleRows, setRows, page, hasNextPage, loadingMore, reset, nextPage, previousPage } =
+    useCursorPagination<FlaggedRedemption>(fetchReportsPage, ADMIN_PAGE_SIZE)
+
+  useEffect(() => {
+    if (!isAdmin) return
+
+    setListLoading(true)
+    reset()
+      .catch((error) => {
+        console.error('Error fetching flagged redemptions:', error)
+        toast.error(t('admin.fetchError'))
+      })
+      .finally(() => setListLoading(false))
+  }, [isAdmin, reset, t])
+
+  const showNextPage = async () => {
+    try {
+      await nextPage()
+    } catch (error) {
+      console.error('Error fetching flagged redemptions:', error)
+      toast.error(t('admin.fetchError'))
+    }
+  }
+
+  const handleReview = async (report: FlaggedRedemption, nextStatus: ReportStatus) => {
+    if (!userRecord) return
+    try {
+      setPendingReportId(report.id)
+      await reviewFlaggedRedemption(report.id, nextStatus, userRecord.id)
+      setRows((prev) =>
+        status && nextStatus !== status
+          ? prev.filter((row) => row.id !== report.id)
+          : prev.map((row) =>
+              row.id === report.id ? { ...row, status: nextStatus, reviewed_at: new Date().toISOString() } : row
+            )
+      )
+      toast.success(t('admin.reviewSuccess'))
+    } catch (error) {
+      console.error('Error reviewing flagged redemption:', error)
+      toast.error(t('admin.reviewError'))
+    } finally {
+      setPendingReportId(null)
+    }
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <header className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-gray-900">{t('admin.flaggedTitle')}</h1>
+            <p className="mt-2 text-gray-600">{t('admin.flaggedSubtitle')}</p>
+          </div>
+          <div className="w-full md:w-48">
+            <label className="form-label" htmlFor="report_status">{t('admin.status')}</label>
+            <select
+              id="report_status"
+              className="input mt-1"
+              value={status}
+              onChange={(event) => setStatus(event.target.value as ReportStatus | '')}
+            >
+              <option value="">{t('admin.allStatuses')}</option>
+              {REPORT_STATUSES.map((item) => (
+                <option key={item} value={item}>{t(`admin.report_${item}`)}</option>
+              ))}
+            </select>
+          </div>
+        </header>
+
+        {listLoading ? (
+          <p className="py-8 text-center text-sm text-gray-500">{t('common.loading')}</p>
+        ) : visibleRows.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">{t('admin.flaggedEmpty')}</p>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-gray-100">
+            <ul className="divide-y divide-gray-100">
+              {visibleRows.map((report) => (
+                <li key={report.id} className="flex flex-col gap-4 p-4 lg:flex-row lg:items-start lg:justify-between">
+                  <div className="space-y-1 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="rounded-full bg-red-50 px-2 py-0.5 text-xs font-semibold text-red-700">
+                        {t(`admin.category_${report.category}`)}
+                      </span>
+                      <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                        {t(`admin.report_${report.status}`)}
+                      </span>
+                      <span className="text-xs text-gray-500">{dateFormatter.format(new Date(report.created_at))}</span>
+                    </div>
+                    <p className="font-medium text-gray-900">
+                      {report.offer?.title ?? t('admin.unknownOffer')}
+                      {report.merchant ? ` · ${report.merchant.name}` : ''}
+                    </p>
+                    <p className="text-gray-600">
+                      {t('admin.flaggedClaim', {
+                        claim: report.claim_id,
+                        student: report.student_email ?? '—',
+                        date: report.redeemed_at ? dateFormatter.format(new Date(report.redeemed_at)) : '—',
+                      })}
+                    </p>
+                    <p className="text-gray-500">{t('admin.flaggedBy', { email: report.reporter_email ?? '—' })}</p>
+                    {report.description && <p className="whitespace-pre-line text-gray-700">{report.description}</p>}
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    {REVIEW_ACTIONS.filter((action) => action !== report.status).map((action) => (
+                      <button
+                        key={action}
+                        type="button"
+                        onClick={() => handleReview(report, action)}
+                        disabled={pendingReportId === report.id}
+                        className={`btn ${action === 'resolved' ? 'btn-primary' : 'btn-secondary'} disabled:cursor-not-allowed disabled:opacity-50`}
+                      >
+                        {t(`admin.review_${action}`)}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <PageControls
+              page={page}
+              hasNextPage={hasNextPage}
+              loading={loadingMore}
+              onPrevious={previousPage}
+              onNext={showNextPage}
+            />
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  )
+}
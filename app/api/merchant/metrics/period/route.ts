@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase'
+import { getRequestMembership } from '@/lib/auth'
+import { hasPermission } from '@/lib/team'
+import { getDateKey, isValidTimeZone } from '@/lib/metrics'
+import { computePeriodComparison, parseBillingPeriod } from '@/lib/billing-periods'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  // Collects refreshed auth cookies so they can be forwarded on the final response
+  const cookieSink = new NextResponse()
+  const supabase = createServerSupabaseClient(req, cookieSink)
+
+  const respond = (body: unknown, init?: ResponseInit) => {
+    const response = NextResponse.json(body, init)
+    cookieSink.cookies.getAll().forEach(cookie => response.cookies.set(cookie))
+    return response
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    return respond({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const membership = await getRequestMembership(user.id, supabase, req.nextUrl.searchParams.get('merchant_id'))
+
+  if (!membership) {
+    return respond({ error: 'Merchant not found' }, { status: 404 })
+  }
+
+  if (!hasPermission(membership.role, 'view_billing')) {
+    return respond({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const { merchant } = membership
+
+  const requestedTimeZone = req.nextUrl.searchParams.get('tz') || 'UTC'
+  const timeZone = isValidTimeZone(requestedTimeZone) ? requestedTimeZone : 'UTC'
+  const period = parseBillingPeriod(req.nextUrl.searchParams)
+  const today = getDateKey(new Date(), timeZone)
+
+  if (!period || (period.kind === 'month' && `${period.month}-01` > today) || (period.kind === 'custom' && period.from > today)) {
+    return respond({ error: 'Invalid period' }, { status: 400 })
+  }
+
+  try {
+    const comparison = await computePeriodComparison(supabase, merchant.id, period, { timeZone })
+    return respond(comparison, { headers: { 'Cache-Control': 'private, no-store' } })
+  } catch (error) {
+    console.error('Error computing period metrics:', error)
+    return respond({ error: 'Failed to compute period metrics' }, { status: 500 })
+  }
+}
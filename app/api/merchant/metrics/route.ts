@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase'
+import { getRequestMembership } from '@/lib/auth'
+import { MerchantMetrics, computeMerchantMetrics, isValidTimeZone, withoutCharges } from '@/lib/metrics'
+import { resolveTimeZone } from '@/lib/offer-schedule'
+import { hasPermission } from '@/lib/team'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const CACHE_TTL_MS = 60 * 1000
+const MAX_CACHE_ENTRIES = 500
+
+// Per-instance cache so repeated page loads don't re-run the redemption queries
+const metricsCache = new Map<string, { expiresAt: number; metrics: MerchantMetrics }>()
+
+export async function GET(req: NextRequest) {
+  // Collects refreshed auth cookies so they can be forwarded on the final response
+  const cookieSink = new NextResponse()
+  const supabase = createServerSupabaseClient(req, cookieSink)
+
+  const respond = (body: unknown, init?: ResponseInit) => {
+    const response = NextResponse.json(body, init)
+    cookieSink.cookies.getAll().forEach(cookie => response.cookies.set(cookie))
+    return response
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    return respond({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const membership = await getRequestMembership(user.id, supabase, req.nextUrl.searchParams.get('merchant_id'))
+
+  if (!membership) {
+    return respond({ error: 'Merchant not found' }, { status: 404 })
+  }
+
+  const { merchant } = membership
+  // Managers see redemption counts on the dashboard, but charges only with billing access
+  const visible = (metrics: MerchantMetrics) =>
+    hasPermission(membership.role, 'view_billing') ? metrics : withoutCharges(metrics)
+
+  const requestedTimeZone = req.nextUrl.searchParams.get('tz')
+  const timeZone =
+    requestedTimeZone && isValidTimeZone(requestedTimeZone) ? requestedTimeZone : resolveTimeZone(merchant.timezone)
+  const cacheKey = `${merchant.id}:${timeZone}`
+  const bypassCache = req.nextUrl.searchParams.get('fresh') === '1'
+  const cached = metricsCache.get(cacheKey)
+
+  if (!bypassCache && cached && cached.expiresAt > Date.now()) {
+    return respond(visible(cached.metrics), {
+      headers: { 'Cache-Control': 'private, max-age=60', 'X-Metrics-Cache': 'hit' },
+    })
+  }
+
+  try {
+    const metrics = await computeMerchantMetrics(supabase, merchant.id, { timeZone })
+
+    if (metricsCache.size >= MAX_CACHE_ENTRIES) {
+      metricsCache.clear()
+    }
+    metricsCache.set(cacheKey, { expiresAt: Date.now() + CACHE_TTL_MS, metrics })
+
+    return respond(visible(metrics), {
+      headers: { 'Cache-Control': 'private, max-age=60', 'X-Metrics-Cache': 'miss' },
+    })
+  } catch (error) {
+    console.error('Error computing merchant metrics:', error)
+    return respond({ error: 'Failed to compute metrics' }, { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase'
+import { getRequestMembership } from '@/lib/auth'
+import { hasPermission } from '@/lib/team'
+import { DEFAULT_LANGUAGE, isLanguageCode } from '@/lib/i18n'
+import { renderInvoicePdf } from '@/lib/invoice'
+import { getDateKey } from '@/lib/metrics'
+import { resolveTimeZone } from '@/lib/offer-schedule'
+import { computeMonthlyStatements, getInvoiceNumber, isStatementMonth } from '@/lib/statements'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ month: string }> }) {
+  // Collects refreshed auth cookies so they can be forwarded on the final response
+  const cookieSink = new NextResponse()
+  const supabase = createServerSupabaseClient(req, cookieSink)
+
+  const withCookies = <T extends NextResponse>(response: T) => {
+    cookieSink.cookies.getAll().forEach(cookie => response.cookies.set(cookie))
+    return response
+  }
+
+  const respond = (body: unknown, init?: ResponseInit) => withCookies(NextResponse.json(body, init))
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    return respond({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const membership = await getRequestMembership(user.id, supabase, req.nextUrl.searchParams.get('merchant_id'))
+
+  if (!membership) {
+    return respond({ error: 'Merchant not found' }, { status: 404 })
+  }
+
+  if (!hasPermission(membership.role, 'view_billing')) {
+    return respond({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const { merchant } = membership
+
+  const { month } = await params
+  // An invoice's month is the merchant's, whichever browser downloads it
+  const timeZone = resolveTimeZone(merchant.timezone)
+  const currentMonth = getDateKey(new Date(), timeZone).slice(0, 7)
+
+  // Invoices exist only for closed months
+  if (!isStatementMonth(month) || month >= currentMonth) {
+    return respond({ error: 'Invalid month' }, { status: 400 })
+  }
+
+  const requestedLanguage = req.nextUrl.searchParams.get('lang')
+  const language = isLanguageCode(requestedLanguage)
+    ? requestedLanguage
+    : isLanguageCode(merchant.preferred_language)
+      ? merchant.preferred_language
+      : DEFAULT_LANGUAGE
+
+  try {
+    const [statement] = await computeMonthlyStatements(supabase, merchant, {
+      fromMonth: month,
+      toMonth: month,
+      timeZone,
+    })
+
+    const pdf = renderInvoicePdf({ merchant, statement, language })
+    const filename = `${getInvoiceNumber(merchant.id, month)}.pdf`
+
+    return withCookies(
+      new NextResponse(Buffer.from(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'private, no-store',
+        },
+      })
+    )
+  } catch (error) {
+    console.error('Error generating invoice:', error)
+    return respond({ error: 'Failed to generate invoice' }, { status: 500 })
+  }
+}
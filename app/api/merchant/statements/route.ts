@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase'
+import { getRequestMembership } from '@/lib/auth'
+import { hasPermission } from '@/lib/team'
+import { isValidTimeZone } from '@/lib/metrics'
+import { computeStatementsSummary } from '@/lib/statements'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  // Collects refreshed auth cookies so they can be forwarded on the final response
+  const cookieSink = new NextResponse()
+  const supabase = createServerSupabaseClient(req, cookieSink)
+
+  const respond = (body: unknown, init?: ResponseInit) => {
+    const response = NextResponse.json(body, init)
+    cookieSink.cookies.getAll().forEach(cookie => response.cookies.set(cookie))
+    return response
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    return respond({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const membership = await getRequestMembership(user.id, supabase, req.nextUrl.searchParams.get('merchant_id'))
+
+  if (!membership) {
+    return respond({ error: 'Merchant not found' }, { status: 404 })
+  }
+
+  if (!hasPermission(membership.role, 'view_billing')) {
+    return respond({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const { merchant } = membership
+
+  const requestedTimeZone = req.nextUrl.searchParams.get('tz') || 'UTC'
+  const timeZone = isValidTimeZone(requestedTimeZone) ? requestedTimeZone : 'UTC'
+
+  try {
+    const summary = await computeStatementsSummary(supabase, merchant, { timeZone })
+    return respond(summary, { headers: { 'Cache-Control': 'private, no-store' } })
+  } catch (error) {
+    console.error('Error computing statements:', error)
+    return respond({ error: 'Failed to compute statements' }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient, getSupabaseAdmin } from '@/lib/supabase'
+import { getMerchantMembership, getUserRecord } from '@/lib/auth'
+import { MERCHANT_ROLES, MerchantRole, hasPermission } from '@/lib/team'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export async function POST(req: NextRequest) {
+  // Collects refreshed auth cookies so they can be forwarded on the final response
+  const cookieSink = new NextResponse()
+  const supabase = createServerSupabaseClient(req, cookieSink)
+
+  const respond = (body: unknown, init?: ResponseInit) => {
+    const response = NextResponse.json(body, init)
+    cookieSink.cookies.getAll().forEach(cookie => response.cookies.set(cookie))
+    return response
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    return respond({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const membership = await getMerchantMembership(user.id, supabase)
+
+  if (!membership) {
+    return respond({ error: 'Merchant not found' }, { status: 404 })
+  }
+
+  if (!hasPermission(membership.role, 'manage_team')) {
+    return respond({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const body = await req.json().catch(() => null)
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : ''
+  const role = body?.role as MerchantRole
+
+  if (!EMAIL_PATTERN.test(email) || !MERCHANT_ROLES.includes(role)) {
+    return respond({ error: 'Invalid invite' }, { status: 400 })
+  }
+
+  if (email === user.email?.toLowerCase()) {
+    return respond({ error: 'Already a member' }, { status: 409 })
+  }
+
+  const userRecord = await getUserRecord(user.id, supabase)
+
+  const { data: member, error: insertError } = await supabase
+    .from('merchant_members')
+    .insert({
+      merchant_id: membership.merchant.id,
+      email,
+      role,
+      invited_by_user_id: userRecord?.id ?? null,
+    })
+    .select('id, merchant_id, email, role, user_id, invited_by_user_id, created_at, accepted_at')
+    .single()
+
+  if (insertError) {
+    // merchant_members_merchant_email_key
+    if (insertError.code === '23505') {
+      return respond({ error: 'Already a member' }, { status: 409 })
+    }
+    console.error('Error recording team invite:', insertError)
+    return respond({ error: 'Failed to invite' }, { status: 500 })
+  }
+
+  // People who already have an account are linked the next time they sign in
+  const { error: inviteError } = await getSupabaseAdmin().auth.admin.inviteUserByEmail(email, {
+    data: { role: 'merchant' },
+    redirectTo: `${req.nextUrl.origin}/login`,
+  })
+
+  if (inviteError && inviteError.status !== 422) {
+    console.error('Error sending team invite email:', inviteError)
+  }
+
+  return respond(member, { status: 201 })
+}
@@ -0,0 +1,336 @@
+'use client'
+
+import { useAuth } from '@/components/AuthProvider'
+import Chart from '@/components/Chart'
+import DashboardLayout from '@/components/DashboardLayout'
+import { useTranslation } from '@/components/LanguageProvider'
+import {
+  ANALYTICS_WINDOWS,
+  AnalyticsWindow,
+  BELOW_TIERS,
+  OfferAnalytics,
+  RedemptionHeatmap,
+  fetchOfferAnalytics,
+  getConversionRate,
+  getCostPerRedemption,
+  sumOfferAnalytics,
+} from '@/lib/analytics'
+import { FOLLOWER_TIERS } from '@/lib/offer-tiers'
+import { WEEKDAYS, resolveTimeZone } from '@/lib/offer-schedule'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+export const runtime = 'nodejs'
+
+export default function AnalyticsPage() {
+  const { user, merchant, loadingContext } = useAuth()
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const [analyticsWindow, setAnalyticsWindow] = useState<AnalyticsWindow>(30)
+  const [offerId, setOfferId] = useState<number | null>(null)
+  const [analytics, setAnalytics] = useState<OfferAnalytics | null>(null)
+  const [analyticsLoading, setAnalyticsLoading] = useState(true)
+  const redirectingRef = useRef(false)
+  const timeZone = resolveTimeZone(merchant?.timezone)
+
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+  const percentFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 }),
+    [locale]
+  )
+
+  useEffect(() => {
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
+      redirectingRef.current = true
+      router.replace('/login')
+    }
+  }, [user, merchant, loadingContext, router])
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!merchant) return
+
+    setAnalyticsLoading(true)
+
+    try {
+      const result = await fetchOfferAnalytics(merchant.id, analyticsWindow, timeZone)
+      setAnalytics(result)
+      // Deleted offers drop out of windows where they had no activity
+      setOfferId((prev) => (prev !== null && result.offers.some((offer) => offer.offerId === prev) ? prev : null))
+    } catch (error) {
+      console.error('Error fetching offer analytics:', error)
+      toast.error(t('analytics.fetchError'))
+    } finally {
+      setAnalyticsLoading(false)
+    }
+  }, [merchant, analyticsWindow, timeZone, t])
+
+  useEffect(() => {
+    if (merchant) {
+      fetchAnalytics()
+    }
+  }, [merchant, fetchAnalytics])
+
+  const selectedOffers = useMemo(
+    () => (analytics ? analytics.offers.filter((offer) => offerId === null || offer.offerId === offerId) : []),
+    [analytics, offerId]
+  )
+  const chargePerRedemption = analytics?.chargePerRedemption ?? 0
+  const totals = useMemo(
+    () => sumOfferAnalytics(selectedOffers, chargePerRedemption),
+    [selectedOffers, chargePerRedemption]
+  )
+  const totalCost = totals.charges + totals.couponValue
+  const conversion = getConversionRate(totals.claims, totals.convertedClaims)
+
+  const tierLabels = useMemo(() => [BELOW_TIERS, ...FOLLOWER_TIERS.map((tier) => tier.value)].map(String), [])
+  const formatTierLabel = useCallback(
+    (value: string) => {
+      const tier = FOLLOWER_TIERS.find((item) => String(item.value) === value)
+      return tier
+        ? `${tier.label} ${t('offers.newFormFollowers')}`
+        : t('analytics.tierBelow', { label: FOLLOWER_TIERS[0].label.replace('+', '') })
+    },
+    [t]
+  )
+
+  if (loadingContext) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user || !merchant) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <header className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-gray-900">{t('analytics.title')}</h1>
+            <p className="mt-2 text-gray-600">{t('analytics.subtitle')}</p>
+          </div>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="sm:w-64">
+              <label className="form-label" htmlFor="analytics_offer">{t('analytics.filterOffer')}</label>
+              <select
+                id="analytics_offer"
+                className="input mt-1"
+                value={offerId ?? ''}
+                onChange={(event) => setOfferId(event.target.value ? Number(event.target.value) : null)}
+              >
+                <option value="">{t('analytics.filterAllOffers')}</option>
+                {analytics?.offers.map((offer) => (
+                  <option key={offer.offerId} value={offer.offerId}>{offer.title}</option>
+                ))}
+              </select>
+            </div>
+            <div
+              className="inline-flex self-start rounded-lg border border-gray-200 bg-white p-0.5 sm:self-auto"
+              role="group"
+              aria-label={t('analytics.windowLabel')}
+            >
+              {ANALYTICS_WINDOWS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setAnalyticsWindow(option)}
+                  aria-pressed={analyticsWindow === option}
+                  className={`rounded-md px-3 py-2 text-sm font-medium ${
+                    analyticsWindow === option ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {t('analytics.window', { days: option })}
+                </button>
+              ))}
+            </div>
+          </div>
+        </header>
+
+        {analyticsLoading && !analytics ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="h-12 w-12 animate-spin rounded-full border-b-2 border-primary-600"></div>
+          </div>
+        ) : !analytics || analytics.offers.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-2xl border border-dashed border-gray-200 bg-white py-16 text-center">
+            <h2 className="text-xl font-semibold text-gray-900">{t('analytics.emptyTitle')}</h2>
+            <p className="mt-2 max-w-md text-sm text-gray-500">{t('analytics.emptyDescription')}</p>
+          </div>
+        ) : (
+          <div className={`space-y-8 ${analyticsLoading ? 'opacity-60' : ''}`}>
+            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+              <SummaryCard label={t('analytics.redemptions')} value={numberFormatter.format(totals.redemptions)} />
+              <SummaryCard label={t('analytics.claims')} value={numberFormatter.format(totals.claims)} />
+              <SummaryCard
+                label={t('analytics.conversion')}
+                value={conversion !== null ? percentFormatter.format(conversion) : '—'}
+                hint={t('analytics.conversionHint', {
+                  redeemed: numberFormatter.format(totals.convertedClaims),
+                  claims: numberFormatter.format(totals.claims),
+                })}
+              />
+              <SummaryCard
+                label={t('analytics.costPerRedemption')}
+                value={totals.redemptions > 0 ? currencyFormatter.format(totalCost / totals.redemptions) : '—'}
+                hint={t('analytics.totalCost', { amount: currencyFormatter.format(totalCost) })}
+              />
+            </div>
+
+            <section className="card">
+              <h2 className="text-lg font-semibold text-gray-900">{t('analytics.offersTitle')}</h2>
+              <p className="mt-1 text-sm text-gray-500">
+                {t('analytics.costExplanation', { amount: currencyFormatter.format(chargePerRedemption) })}
+              </p>
+              <div className="mt-6 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">{t('analytics.tableOffer')}</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider text-gray-500">{t('analytics.claims')}</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider text-gray-500">{t('analytics.redemptions')}</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider text-gray-500">{t('analytics.conversion')}</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider text-gray-500">{t('analytics.costPerRedemption')}</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider text-gray-500">{t('analytics.tableTotalCost')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 bg-white">
+                    {selectedOffers.map((offer) => {
+                      const offerConversion = getConversionRate(offer.claims, offer.convertedClaims)
+                      const costPerRedemption = getCostPerRedemption(offer, chargePerRedemption)
+                      return (
+                        <tr key={offer.offerId}>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            {offer.title}
+                            {offer.deleted && (
+                              <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-500">
+                                {t('analytics.deletedOffer')}
+                              </span>
+                            )}
+                          </td>
+                          <td className="whitespace-nowrap px-4 py-3 text-right text-sm text-gray-700">{numberFormatter.format(offer.claims)}</td>
+                          <td className="whitespace-nowrap px-4 py-3 text-right text-sm text-gray-700">{numberFormatter.format(offer.redemptions)}</td>
+                          <td className="whitespace-nowrap px-4 py-3 text-right text-sm text-gray-700">
+                            {offerConversion !== null ? percentFormatter.format(offerConversion) : '—'}
+                          </td>
+                          <td className="whitespace-nowrap px-4 py-3 text-right text-sm text-gray-700">{currencyFormatter.format(costPerRedemption)}</td>
+                          <td className="whitespace-nowrap px-4 py-3 text-right text-sm font-semibold text-gray-900">
+                            {currencyFormatter.format(costPerRedemption * offer.redemptions)}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <section className="card">
+                <h2 className="text-lg font-semibold text-gray-900">{t('analytics.tiersTitle')}</h2>
+                <p className="mt-1 text-sm text-gray-500">{t('analytics.tiersDescription')}</p>
+                <div className="mt-6">
+                  <Chart
+                    type="bar"
+                    title={t('analytics.tiersTitle')}
+                    labels={tierLabels}
+                    series={[
+                      {
+                        key: 'redemptions',
+                        label: t('analytics.redemptions'),
+                        values: tierLabels.map((value) => totals.tiers[Number(value)] ?? 0),
+                      },
+                    ]}
+                    formatValue={(value) => numberFormatter.format(value)}
+                    formatTick={(value) => FOLLOWER_TIERS.find((tier) => String(tier.value) === value)?.label ?? `<${FOLLOWER_TIERS[0].value}`}
+                    formatLabel={formatTierLabel}
+                  />
+                </div>
+              </section>
+
+              <section className="card">
+                <h2 className="text-lg font-semibold text-gray-900">{t('analytics.heatmapTitle')}</h2>
+                <p className="mt-1 text-sm text-gray-500">{t('analytics.heatmapDescription')}</p>
+                <div className="mt-6">
+                  <HeatmapGrid heatmap={totals.heatmap} />
+                </div>
+              </section>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
+
+function SummaryCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="card">
+      <p className="text-sm font-medium text-gray-600">{label}</p>
+      <p className="mt-2 text-3xl font-semibold text-gray-900">{value}</p>
+      {hint && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+    </div>
+  )
+}
+
+function HeatmapGrid({ heatmap }: { heatmap: RedemptionHeatmap }) {
+  const { t, locale } = useTranslation()
+  const max = Math.max(0, ...heatmap.flat())
+  const weekdayFormatter = useMemo(() => new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' }), [locale])
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+  // 2024-01-07 was a Sunday, so day n of that week has getDay() === n
+  const dayName = (day: number) => weekdayFormatter.format(new Date(Date.UTC(2024, 0, 7 + day, 12)))
+  const hourLabel = (hour: number) => `${String(hour).padStart(2, '0')}:00`
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-separate" style={{ borderSpacing: 2 }}>
+        <caption className="sr-only">{t('analytics.heatmapTitle')}</caption>
+        <thead>
+          <tr>
+            <th scope="col" className="w-10"></th>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <th key={hour} scope="col" className="text-[10px] font-normal text-gray-400">
+                {hour % 3 === 0 ? String(hour).padStart(2, '0') : <span className="sr-only">{hourLabel(hour)}</span>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {WEEKDAYS.map((day) => (
+            <tr key={day}>
+              <th scope="row" className="pr-2 text-left text-xs font-medium text-gray-500">{dayName(day)}</th>
+              {heatmap[day].map((count, hour) => {
+                const label = t('analytics.heatmapCell', {
+                  day: dayName(day),
+                  hour: hourLabel(hour),
+                  count: numberFormatter.format(count),
+                })
+                return (
+                  <td
+                    key={hour}
+                    title={label}
+                    className={`h-6 min-w-[14px] rounded-sm ${count === 0 ? 'bg-gray-100' : 'bg-primary-600'}`}
+                    style={count > 0 ? { opacity: 0.2 + 0.8 * (count / max) } : undefined}
+                  >
+                    <span className="sr-only">{label}</span>
+                  </td>
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
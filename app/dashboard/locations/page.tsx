@@ -0,0 +1,302 @@
+'use client'
+
+import { useAuth } from '@/components/AuthProvider'
+import DashboardLayout from '@/components/DashboardLayout'
+import { useTranslation } from '@/components/LanguageProvider'
+import { useLocations } from '@/components/LocationProvider'
+import OfferScheduleEditor from '@/components/OfferScheduleEditor'
+import { LocationInput, MerchantLocation, createLocation, formatLocationAddress, updateLocation } from '@/lib/locations'
+import { formatScheduleWindows, hasSchedule, resolveTimeZone, validateSchedule } from '@/lib/offer-schedule'
+import { useRouter } from 'next/navigation'
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+export const runtime = 'nodejs'
+
+const EMPTY_LOCATION: LocationInput = {
+  name: '',
+  street: '',
+  city: '',
+  postal_code: '',
+  country: '',
+  opening_hours: null,
+  is_visible: true,
+}
+
+export default function LocationsPage() {
+  const { user, merchant, loadingContext } = useAuth()
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const { locations, locationsLoading, refreshLocations } = useLocations()
+  // 'new' while creating, the location while editing
+  const [editing, setEditing] = useState<MerchantLocation | 'new' | null>(null)
+  const [togglingId, setTogglingId] = useState<number | null>(null)
+  const redirectingRef = useRef(false)
+  const timeZone = resolveTimeZone(merchant?.timezone)
+
+  useEffect(() => {
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
+      redirectingRef.current = true
+      router.replace('/login')
+    }
+  }, [user, merchant, loadingContext, router])
+
+  const toggleVisibility = async (location: MerchantLocation) => {
+    if (!merchant) return
+    try {
+      setTogglingId(location.id)
+      await updateLocation(merchant.id, location.id, { is_visible: !location.is_visible })
+      await refreshLocations()
+    } catch (error) {
+      console.error('Error updating location visibility:', error)
+      toast.error(t('locations.saveError'))
+    } finally {
+      setTogglingId(null)
+    }
+  }
+
+  const handleSaved = async () => {
+    setEditing(null)
+    await refreshLocations()
+  }
+
+  if (loadingContext || locationsLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user || !merchant) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <header className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-gray-900">{t('locations.title')}</h1>
+            <p className="mt-2 text-gray-600">{t('locations.subtitle')}</p>
+          </div>
+          {editing === null && (
+            <button type="button" onClick={() => setEditing('new')} className="btn btn-primary">
+              {t('locations.add')}
+            </button>
+          )}
+        </header>
+
+        {editing !== null && (
+          <LocationForm
+            key={editing === 'new' ? 'new' : editing.id}
+            merchantId={merchant.id}
+            location={editing === 'new' ? null : editing}
+            timeZone={timeZone}
+            onCancel={() => setEditing(null)}
+            onSaved={handleSaved}
+          />
+        )}
+
+        {locations.length === 0 ? (
+          <p className="card text-center text-sm text-gray-500">{t('locations.empty')}</p>
+        ) : (
+          <ul className="space-y-4">
+            {locations.map((location) => {
+              const address = formatLocationAddress(location)
+              const hours = hasSchedule(location.opening_hours) && location.opening_hours.windows.length > 0
+                ? formatScheduleWindows(location.opening_hours, locale).join(', ')
+                : t('locations.hoursAlways')
+              return (
+                <li key={location.id} className="card flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h2 className="text-lg font-semibold text-gray-900">{location.name}</h2>
+                      {!location.is_visible && (
+                        <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                          {t('locations.hidden')}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">{address || t('locations.noAddress')}</p>
+                    <p className="text-sm text-gray-500">{hours}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => toggleVisibility(location)}
+                      disabled={togglingId === location.id}
+                      className="btn btn-secondary disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {location.is_visible ? t('locations.hide') : t('locations.show')}
+                    </button>
+                    <button type="button" onClick={() => setEditing(location)} className="btn btn-secondary">
+                      {t('locations.edit')}
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
+
+function LocationForm({
+  merchantId,
+  location,
+  timeZone,
+  onCancel,
+  onSaved,
+}: {
+  merchantId: number
+  location: MerchantLocation | null
+  timeZone: string
+  onCancel: () => void
+  onSaved: () => Promise<void>
+}) {
+  const { t } = useTranslation()
+  const [form, setForm] = useState<LocationInput>(() =>
+    location
+      ? {
+          name: location.name,
+          street: location.street ?? '',
+          city: location.city ?? '',
+          postal_code: location.postal_code ?? '',
+          country: location.country ?? '',
+          opening_hours: location.opening_hours,
+          is_visible: location.is_visible,
+        }
+      : EMPTY_LOCATION
+  )
+  const [nameError, setNameError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const hoursErrors = form.opening_hours ? validateSchedule(form.opening_hours) : []
+
+  const updateField = <K extends keyof LocationInput>(field: K, value: LocationInput[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!form.name.trim()) {
+      setNameError(t('locations.validationName'))
+      return
+    }
+    if (hoursErrors.length > 0) return
+
+    try {
+      setSaving(true)
+      if (location) {
+        await updateLocation(merchantId, location.id, form)
+      } else {
+        await createLocation(merchantId, form)
+      }
+      toast.success(location ? t('locations.saveSuccess') : t('locations.createSuccess'))
+      await onSaved()
+    } catch (error) {
+      console.error('Error saving location:', error)
+      toast.error(t('locations.saveError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="card space-y-6">
+      <h2 className="text-lg font-semibold text-gray-900">
+        {location ? t('locations.editTitle') : t('locations.createTitle')}
+      </h2>
+
+      <div className="form-group">
+        <label className="form-label" htmlFor="location_name">{t('locations.name')}</label>
+        <input
+          id="location_name"
+          className="input"
+          value={form.name}
+          onChange={(event) => {
+            updateField('name', event.target.value)
+            setNameError(null)
+          }}
+        />
+        {nameError && <p className="form-error">{nameError}</p>}
+      </div>
+
+      <div className="form-group">
+        <label className="form-label" htmlFor="location_street">{t('locations.street')}</label>
+        <textarea
+          id="location_street"
+          className="input"
+          rows={2}
+          value={form.street ?? ''}
+          onChange={(event) => updateField('street', event.target.value)}
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="form-group">
+          <label className="form-label" htmlFor="location_postal_code">{t('locations.postalCode')}</label>
+          <input
+            id="location_postal_code"
+            className="input"
+            value={form.postal_code ?? ''}
+            onChange={(event) => updateField('postal_code', event.target.value)}
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor="location_city">{t('locations.city')}</label>
+          <input
+            id="location_city"
+            className="input"
+            value={form.city ?? ''}
+            onChange={(event) => updateField('city', event.target.value)}
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor="location_country">{t('locations.country')}</label>
+          <input
+            id="location_country"
+            className="input"
+            value={form.country ?? ''}
+            onChange={(event) => updateField('country', event.target.value)}
+          />
+        </div>
+      </div>
+
+      <OfferScheduleEditor
+        value={form.opening_hours}
+        onChange={(schedule) => updateField('opening_hours', schedule)}
+        timeZone={timeZone}
+        errors={hoursErrors}
+        variant="opening_hours"
+      />
+
+      <label className="flex items-start gap-3 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={form.is_visible}
+          onChange={(event) => updateField('is_visible', event.target.checked)}
+          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>
+          <span className="font-medium text-gray-900">{t('locations.visible')}</span>
+          <span className="block text-xs text-gray-500">{t('locations.visibleDescription')}</span>
+        </span>
+      </label>
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className="btn btn-secondary">
+          {t('common.cancel')}
+        </button>
+        <button type="submit" disabled={saving} className="btn btn-primary disabled:cursor-not-allowed disabled:opacity-50">
+          {saving ? t('common.saving') : location ? t('common.saveChanges') : t('common.create')}
+        </button>
+      </div>
+    </form>
+  )
+}
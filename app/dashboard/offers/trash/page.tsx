@@ -0,0 +1,195 @@
+'use client'
+
+import { useAuth } from '@/components/AuthProvider'
+import DashboardLayout from '@/components/DashboardLayout'
+import { useTranslation } from '@/components/LanguageProvider'
+import {
+  OFFER_TRASH_RETENTION_DAYS,
+  Offer,
+  getOfferErrorKey,
+  getOfferPurgeDate,
+  listDeletedOffers,
+  purgeOffers,
+  restoreOffers,
+} from '@/lib/offers'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+export const runtime = 'nodejs'
+
+export default function OfferTrashPage() {
+  const { user, merchant, loadingContext } = useAuth()
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const [offers, setOffers] = useState<Offer[]>([])
+  const [offersLoading, setOffersLoading] = useState(true)
+  // Offer ids with a restore or purge in flight; 'all' while emptying the trash
+  const [pending, setPending] = useState<number | 'all' | null>(null)
+  const redirectingRef = useRef(false)
+  const isSuspended = merchant?.subscription_status === 'suspended'
+
+  const dateFormatter = useMemo(() => new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }), [locale])
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+
+  const formatDiscountValue = useCallback(
+    (offer: Offer) =>
+      offer.discount_type === 'percent'
+        ? t('offers.discountPercent', { value: offer.discount_value })
+        : t('offers.discountFixed', { amount: currencyFormatter.format(offer.discount_value) }),
+    [currencyFormatter, t]
+  )
+
+  useEffect(() => {
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
+      redirectingRef.current = true
+      router.replace('/')
+    }
+  }, [user, merchant, loadingContext, router])
+
+  const fetchTrash = useCallback(async () => {
+    if (!merchant) return
+    try {
+      setOffersLoading(true)
+      setOffers(await listDeletedOffers(merchant.id))
+    } catch (error) {
+      console.error('Error fetching deleted offers:', error)
+      toast.error(t('offers.fetchError'))
+    } finally {
+      setOffersLoading(false)
+    }
+  }, [merchant, t])
+
+  useEffect(() => {
+    if (merchant) {
+      fetchTrash()
+    }
+  }, [merchant, fetchTrash])
+
+  const restoreOffer = async (offer: Offer) => {
+    if (isSuspended || !merchant) return
+    try {
+      setPending(offer.id)
+      await restoreOffers(merchant.id, [offer.id])
+      setOffers((prev) => prev.filter((item) => item.id !== offer.id))
+      toast.success(t('offers.restoreSuccess'))
+    } catch (error) {
+      console.error('Error restoring offer:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.restoreError')))
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const purge = async (offerIds: number[], confirmMessage: string) => {
+    if (isSuspended || !merchant || offerIds.length === 0) return
+    if (!confirm(confirmMessage)) return
+
+    try {
+      setPending(offerIds.length === 1 ? offerIds[0] : 'all')
+      await purgeOffers(merchant.id, offerIds)
+      const purged = new Set(offerIds)
+      setOffers((prev) => prev.filter((item) => !purged.has(item.id)))
+      toast.success(t('offers.purgeSuccess', { count: offerIds.length }))
+    } catch (error) {
+      console.error('Error purging offers:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.purgeError')))
+    } finally {
+      setPending(null)
+    }
+  }
+
+  if (loadingContext || offersLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !merchant) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <Link href="/dashboard/offers" className="text-sm font-medium text-primary-600 hover:text-primary-700">
+              ← {t('offers.trashBack')}
+            </Link>
+            <h1 className="mt-2 text-3xl font-semibold text-gray-900">{t('offers.trashTitle')}</h1>
+            <p className="text-gray-600">{t('offers.trashSubtitle', { days: OFFER_TRASH_RETENTION_DAYS })}</p>
+          </div>
+          {offers.length > 0 && (
+            <button
+              onClick={() => purge(offers.map((offer) => offer.id), t('offers.purgeAllConfirm', { count: offers.length }))}
+              className="btn btn-secondary text-red-600 hover:text-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+              disabled={isSuspended || pending !== null}
+            >
+              {pending === 'all' ? t('offers.formSaving') : t('offers.emptyTrash')}
+            </button>
+          )}
+        </header>
+
+        {isSuspended && (
+          <div className="rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+            {t('offers.suspendedNotice')}
+          </div>
+        )}
+
+        {offers.length === 0 ? (
+          <div className="rounded-2xl border border-dashed border-gray-200 bg-white py-16 text-center">
+            <h2 className="text-xl font-semibold text-gray-900">{t('offers.trashEmptyTitle')}</h2>
+            <p className="mt-2 text-sm text-gray-500">{t('offers.trashEmptyDescription')}</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white shadow-sm">
+            {offers.map((offer) => {
+              const purgeDate = getOfferPurgeDate(offer)
+              return (
+                <li key={offer.id} className="flex flex-col gap-3 px-4 py-4 md:flex-row md:items-center md:justify-between md:px-6">
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900">{offer.title}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatDiscountValue(offer)}
+                      {offer.deleted_at
+                        ? ` · ${t('offers.trashDeletedOn', { date: dateFormatter.format(new Date(offer.deleted_at)) })}`
+                        : null}
+                    </p>
+                    {purgeDate ? (
+                      <p className="text-xs text-gray-400">
+                        {t('offers.trashPurgeOn', { date: dateFormatter.format(purgeDate) })}
+                      </p>
+                    ) : null}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => restoreOffer(offer)}
+                      className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:cursor-not-allowed disabled:opacity-50"
+                      disabled={isSuspended || pending !== null}
+                    >
+                      {pending === offer.id ? t('offers.formSaving') : t('offers.restore')}
+                    </button>
+                    <button
+                      onClick={() => purge([offer.id], t('offers.purgeConfirm', { title: offer.title }))}
+                      className="text-sm font-medium text-red-600 hover:text-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+                      disabled={isSuspended || pending !== null}
+                    >
+                      {t('offers.purge')}
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
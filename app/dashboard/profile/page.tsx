@@ -8,6 +8,8 @@ import { useEffect, useMemo, useRef, useState } from 'react'
 import { toast } from 'react-hot-toast'
 import { useTranslation } from '@/components/LanguageProvider'
 import { getMerchantLogoUrl, uploadMerchantLogo } from '@/lib/storage'
+import { Merchant } from '@/lib/auth'
+import { resolveTimeZone } from '@/lib/offer-schedule'
 import Image from 'next/image'
 
 interface ProfileFormData {
@@ -19,18 +21,69 @@ interface ProfileFormData {
   city: string
   postal_code: string
   country: string
+  timezone: string
   contact_email: string
   instagram_handle: string
   logo_url: string
 }
 
+const parseStreetLines = (street: string | null | undefined) => {
+  if (!street) {
+    return {
+      street_line1: '',
+      street_line2: '',
+    }
+  }
+
+  const lines = street
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+
+  const [street_line1 = '', street_line2 = ''] = lines
+
+  return {
+    street_line1,
+    street_line2,
+  }
+}
+
+/**
+ * Form fields for a merchant; the account email stands in for a missing contact email
+ */
+function toProfileFormData(merchant: Merchant, userEmail?: string | null): ProfileFormData {
+  const { street_line1, street_line2 } = parseStreetLines('street' in merchant ? (merchant.street as string) : null)
+  return {
+    name: merchant.name || '',
+    legal_name: merchant.legal_name || '',
+    vat_number: merchant.vat_number || '',
+    street_line1,
+    street_line2,
+    city: 'city' in merchant && merchant.city ? (merchant.city as string) : '',
+    postal_code: 'postal_code' in merchant && merchant.postal_code ? (merchant.postal_code as string) : '',
+    country: 'country' in merchant && merchant.country ? (merchant.country as string) : '',
+    timezone: resolveTimeZone(merchant.timezone),
+    contact_email:
+      'contact_email' in merchant && merchant.contact_email
+        ? (merchant.contact_email as string)
+        : userEmail || '',
+    instagram_handle: 'instagram_handle' in merchant && merchant.instagram_handle ? (merchant.instagram_handle as string) : '',
+    logo_url: merchant.logo_url ? (merchant.logo_url as string) : '',
+  }
+}
+
+function getLogoPreview(merchant: Merchant | null) {
+  return merchant?.logo_signed_url || (merchant?.logo_url?.startsWith('http') ? merchant.logo_url : null)
+}
+
 export const runtime = 'nodejs'
 
 export default function ProfilePage() {
-  const { user, merchant, loading, refreshMerchant } = useAuth()
+  const { user, merchant, loadingContext, refreshMerchant } = useAuth()
   const router = useRouter()
   const { t, locale } = useTranslation()
-  const [formData, setFormData] = useState<ProfileFormData>({
+  // The merchant is loaded on the server, so the form renders filled in
+  const [formData, setFormData] = useState<ProfileFormData>(() => merchant ? toProfileFormData(merchant, user?.email) : {
     name: '',
     legal_name: '',
     vat_number: '',
@@ -39,42 +92,35 @@ export default function ProfilePage() {
     city: '',
     postal_code: '',
     country: '',
+    timezone: '',
     contact_email: '',
     instagram_handle: '',
     logo_url: ''
   })
   const [logoFile, setLogoFile] = useState<File | null>(null)
-  const [logoPreview, setLogoPreview] = useState<string | null>(null)
+  const [logoPreview, setLogoPreview] = useState<string | null>(() => getLogoPreview(merchant))
   const [saving, setSaving] = useState(false)
   const [showDeactivateModal, setShowDeactivateModal] = useState(false)
   const redirectingRef = useRef(false)
 
-  useEffect(() => {
-    if (!loading && (!user || !merchant)) {
-      router.push('/')
-    }
-  }, [user, merchant, loading, router])
-
-  const parseStreetLines = (street: string | null | undefined) => {
-    if (!street) {
-      return {
-        street_line1: '',
-        street_line2: '',
-      }
-    }
+  // Read after hydration: the server's list of zones can differ from the browser's
+  const [supportedZones, setSupportedZones] = useState<string[]>([])
 
-    const lines = street
-      .split('\n')
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
+  useEffect(() => {
+    setSupportedZones(Intl.supportedValuesOf('timeZone'))
+  }, [])
 
-    const [street_line1 = '', street_line2 = ''] = lines
+  const timeZones = useMemo(() => {
+    return formData.timezone && !supportedZones.includes(formData.timezone)
+      ? [formData.timezone, ...supportedZones]
+      : supportedZones
+  }, [formData.timezone, supportedZones])
 
-    return {
-      street_line1,
-      street_line2,
+  useEffect(() => {
+    if (!loadingContext && (!user || !merchant)) {
+      router.push('/')
     }
-  }
+  }, [user, merchant, loadingContext, router])
 
   const mergeStreetLines = (fields: Pick<ProfileFormData, 'street_line1' | 'street_line2'>) => {
     const lines = [fields.street_line1, fields.street_line2]
@@ -85,29 +131,11 @@ export default function ProfilePage() {
   }
 
   useEffect(() => {
-    if (merchant && !loading) {
-      const { street_line1, street_line2 } = parseStreetLines('street' in merchant ? (merchant.street as string) : null)
-      setFormData({
-        name: merchant.name || '',
-        legal_name: merchant.legal_name || '',
-        vat_number: merchant.vat_number || '',
-        street_line1,
-        street_line2,
-        city: 'city' in merchant && merchant.city ? (merchant.city as string) : '',
-        postal_code: 'postal_code' in merchant && merchant.postal_code ? (merchant.postal_code as string) : '',
-        country: 'country' in merchant && merchant.country ? (merchant.country as string) : '',
-        contact_email:
-          'contact_email' in merchant && merchant.contact_email
-            ? (merchant.contact_email as string)
-            : user?.email || '',
-        instagram_handle: 'instagram_handle' in merchant && merchant.instagram_handle ? (merchant.instagram_handle as string) : '',
-        logo_url: merchant.logo_url ? (merchant.logo_url as string) : '',
-      })
-      const initialPreview = merchant.logo_signed_url
-        || (merchant.logo_url?.startsWith('http') ? merchant.logo_url : null)
-      setLogoPreview(initialPreview)
+    if (merchant && !loadingContext) {
+      setFormData(toProfileFormData(merchant, user?.email))
+      setLogoPreview(getLogoPreview(merchant))
     }
-  }, [merchant, user, loading])
+  }, [merchant, user, loadingContext])
 
   useEffect(() => {
     if (!logoFile) return
@@ -116,7 +144,7 @@ export default function ProfilePage() {
     return () => URL.revokeObjectURL(preview)
   }, [logoFile])
 
-  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = event.target
     setFormData((prev) => ({ ...prev, [name]: value }))
   }
@@ -200,6 +228,8 @@ export default function ProfilePage() {
         updatePayload.contact_email = formData.contact_email || null
       }
 
+      updatePayload.timezone = formData.timezone || null
+
       // Instagram handle is always supported as it's in the schema
       updatePayload.instagram_handle = formData.instagram_handle.trim() || null
 
@@ -269,13 +299,13 @@ export default function ProfilePage() {
   }
 
   useEffect(() => {
-    if (!loading && (!user || !merchant) && !redirectingRef.current) {
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
       redirectingRef.current = true
       router.replace('/')
     }
-  }, [user, merchant, loading, router])
+  }, [user, merchant, loadingContext, router])
 
-  if (loading) {
+  if (loadingContext) {
     return (
       <div className="flex min-h-screen items-center justify-center">
         <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600"></div>
@@ -418,6 +448,21 @@ export default function ProfilePage() {
                   onChange={handleInputChange}
                 />
               </div>
+              <div>
+                <label htmlFor="timezone" className="form-label">{t('profile.timezone')}</label>
+                <select
+                  id="timezone"
+                  name="timezone"
+                  className="input"
+                  value={formData.timezone}
+                  onChange={handleInputChange}
+                >
+                  {timeZones.map((zone) => (
+                    <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">{t('profile.timezoneHint')}</p>
+              </div>
             </div>
           </div>
         </section>
@@ -0,0 +1,486 @@
+'use client'
+
+import { useAuth } from '@/components/AuthProvider'
+import DashboardLayout from '@/components/DashboardLayout'
+import ExportButton from '@/components/ExportButton'
+import InfiniteScrollSentinel from '@/components/InfiniteScrollSentinel'
+import { useTranslation } from '@/components/LanguageProvider'
+import { useLocations } from '@/components/LocationProvider'
+import PageControls from '@/components/PageControls'
+import { listOffers } from '@/lib/offers'
+import { FOLLOWER_TIERS, getTierForFollowers } from '@/lib/offer-tiers'
+import { resolveTimeZone } from '@/lib/offer-schedule'
+import { PageRequest, useCursorPagination } from '@/lib/pagination'
+import {
+  LEDGER_PAGE_SIZE,
+  RedemptionLedgerFilters,
+  RedemptionLedgerRow,
+  fetchRedemptionLedger,
+} from '@/lib/redemptions'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+interface OfferOption {
+  id: number
+  title: string
+}
+
+const EMPTY_FILTERS: RedemptionLedgerFilters = {
+  offerId: null,
+  tier: null,
+  from: null,
+  to: null,
+}
+
+export const runtime = 'nodejs'
+
+export default function RedemptionsPage() {
+  const { user, merchant, loadingContext } = useAuth()
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const { selectedLocationId } = useLocations()
+  const [filters, setFilters] = useState<RedemptionLedgerFilters>(EMPTY_FILTERS)
+  const [offerOptions, setOfferOptions] = useState<OfferOption[]>([])
+  const [ledgerLoading, setLedgerLoading] = useState(true)
+  const [selected, setSelected] = useState<RedemptionLedgerRow | null>(null)
+  const redirectingRef = useRef(false)
+
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+  const dateTimeFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    [locale]
+  )
+
+  useEffect(() => {
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
+      redirectingRef.current = true
+      router.replace('/login')
+    }
+  }, [user, merchant, loadingContext, router])
+
+  const fetchOfferOptions = useCallback(async () => {
+    if (!merchant) return
+
+    try {
+      const offers = await listOffers(merchant.id)
+      setOfferOptions(
+        offers
+          .map((offer) => ({ id: offer.id, title: offer.title }))
+          .sort((a, b) => a.title.localeCompare(b.title, locale))
+      )
+    } catch (error) {
+      console.error('Error fetching offer options:', error)
+    }
+  }, [merchant, locale])
+
+  const fetchLedgerPage = useCallback(
+    async (request: PageRequest) => {
+      if (!merchant) return { rows: [], nextCursor: null }
+      // The location switcher applies on top of the page's own filters
+      return fetchRedemptionLedger(merchant.id, { ...filters, locationId: selectedLocationId }, request)
+    },
+    [merchant, filters, selectedLocationId]
+  )
+
+  const {
+    rows,
+    visibleRows,
+    page,
+    hasMore,
+    hasNextPage,
+    loadingMore,
+    reset,
+    loadMore,
+    nextPage,
+    previousPage,
+  } = useCursorPagination<RedemptionLedgerRow>(fetchLedgerPage, LEDGER_PAGE_SIZE)
+
+  const fetchLedger = useCallback(async () => {
+    if (!merchant) return
+
+    setLedgerLoading(true)
+
+    try {
+      await reset()
+    } catch (error) {
+      console.error('Error fetching redemptions:', error)
+      toast.error(t('redemptions.fetchError'))
+    } finally {
+      setLedgerLoading(false)
+    }
+  }, [merchant, reset, t])
+
+  const showMore = async (load: () => Promise<unknown>) => {
+    try {
+      await load()
+    } catch (error) {
+      console.error('Error fetching redemptions:', error)
+      toast.error(t('redemptions.fetchError'))
+    }
+  }
+
+  useEffect(() => {
+    if (merchant) {
+      fetchOfferOptions()
+    }
+  }, [merchant, fetchOfferOptions])
+
+  useEffect(() => {
+    if (merchant) {
+      fetchLedger()
+    }
+  }, [merchant, fetchLedger])
+
+  const updateFilter = <K extends keyof RedemptionLedgerFilters>(field: K, value: RedemptionLedgerFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS)
+  }
+
+  const formatDiscount = useCallback(
+    (offer: RedemptionLedgerRow['offer']) => {
+      if (offer.discount_type === 'percent') {
+        return t('offers.discountPercent', { value: offer.discount_value })
+      }
+      return t('offers.discountFixed', { amount: currencyFormatter.format(offer.discount_value) })
+    },
+    [currencyFormatter, t]
+  )
+
+  const formatStudent = useCallback(
+    (row: RedemptionLedgerRow) => {
+      if (!row.student) return t('redemptions.unknownStudent')
+      if (row.student.instagram_handle) return `@${row.student.instagram_handle.replace(/^@/, '')}`
+      return row.student.email || t('redemptions.unknownStudent')
+    },
+    [t]
+  )
+
+  const formatTier = useCallback(
+    (minFollowers: number) => {
+      const tier = getTierForFollowers(minFollowers)
+      return tier
+        ? `${tier.label} ${t('offers.newFormFollowers')}`
+        : t('redemptions.tierAll')
+    },
+    [t]
+  )
+
+  const hasFilters = Boolean(filters.offerId || filters.tier || filters.from || filters.to)
+  const firstRow = visibleRows.length === 0 ? 0 : page * LEDGER_PAGE_SIZE + 1
+  const lastRow = page * LEDGER_PAGE_SIZE + visibleRows.length
+
+  if (loadingContext) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user || !merchant) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-gray-900">{t('redemptions.title')}</h1>
+            <p className="mt-2 text-gray-600">{t('redemptions.subtitle')}</p>
+          </div>
+          <ExportButton
+            dataset="redemptions"
+            merchantId={merchant.id}
+            timeZone={resolveTimeZone(merchant.timezone)}
+            initialRange={{ from: filters.from ?? undefined, to: filters.to ?? undefined }}
+          />
+        </header>
+
+        <section className="card">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <label className="form-label" htmlFor="filter_offer">{t('redemptions.filterOffer')}</label>
+              <select
+                id="filter_offer"
+                className="input mt-1"
+                value={filters.offerId ?? ''}
+                onChange={(event) => updateFilter('offerId', event.target.value ? Number(event.target.value) : null)}
+              >
+                <option value="">{t('redemptions.filterAllOffers')}</option>
+                {offerOptions.map((offer) => (
+                  <option key={offer.id} value={offer.id}>{offer.title}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label" htmlFor="filter_tier">{t('redemptions.filterTier')}</label>
+              <select
+                id="filter_tier"
+                className="input mt-1"
+                value={filters.tier ?? ''}
+                onChange={(event) => updateFilter('tier', event.target.value ? Number(event.target.value) : null)}
+              >
+                <option value="">{t('redemptions.filterAllTiers')}</option>
+                {FOLLOWER_TIERS.map((tier) => (
+                  <option key={tier.value} value={tier.value}>
+                    {tier.label} {t('offers.newFormFollowers')}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label" htmlFor="filter_from">{t('redemptions.filterFrom')}</label>
+              <input
+                id="filter_from"
+                type="date"
+                className="input mt-1"
+                value={filters.from ?? ''}
+                max={filters.to ?? undefined}
+                onChange={(event) => updateFilter('from', event.target.value || null)}
+              />
+            </div>
+            <div>
+              <label className="form-label" htmlFor="filter_to">{t('redemptions.filterTo')}</label>
+              <input
+                id="filter_to"
+                type="date"
+                className="input mt-1"
+                value={filters.to ?? ''}
+                min={filters.from ?? undefined}
+                onChange={(event) => updateFilter('to', event.target.value || null)}
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+            <p className="hidden md:block">
+              {t('redemptions.resultsRange', {
+                from: numberFormatter.format(firstRow),
+                to: numberFormatter.format(lastRow),
+              })}
+            </p>
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={resetFilters}
+                className="font-medium text-primary-600 hover:text-primary-700"
+              >
+                {t('redemptions.resetFilters')}
+              </button>
+            )}
+          </div>
+        </section>
+
+        {ledgerLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="h-12 w-12 animate-spin rounded-full border-b-2 border-primary-600"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-2xl border border-dashed border-gray-200 bg-white py-16 text-center">
+            <h2 className="text-xl font-semibold text-gray-900">{t('redemptions.emptyTitle')}</h2>
+            <p className="mt-2 max-w-md text-sm text-gray-500">
+              {hasFilters ? t('redemptions.emptyFilteredDescription') : t('redemptions.emptyDescription')}
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
+            <div className="hidden overflow-x-auto md:block">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">{t('redemptions.tableHeaderDate')}</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">{t('redemptions.tableHeaderStudent')}</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">{t('redemptions.tableHeaderOffer')}</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">{t('redemptions.tableHeaderTier')}</th>
+                    <th scope="col" className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 bg-white">
+                  {visibleRows.map((row) => (
+                    <tr key={row.id} className="cursor-pointer hover:bg-gray-50" onClick={() => setSelected(row)}>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-700">
+                        {dateTimeFormatter.format(new Date(row.redeemed_at))}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-gray-900">
+                        {formatStudent(row)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-semibold text-gray-900">{row.offer.title}</div>
+                        <div className="text-sm text-gray-500">{formatDiscount(row.offer)}</div>
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-700">
+                        {formatTier(row.offer.min_followers)}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-right">
+                        <button
+                          type="button"
+                          onClick={(event) => {
+                            event.stopPropagation()
+                            setSelected(row)
+                          }}
+                          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                        >
+                          {t('redemptions.viewDetails')}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Mobile cards */}
+            <div className="divide-y divide-gray-100 md:hidden">
+              {rows.map((row) => (
+                <button
+                  key={row.id}
+                  type="button"
+                  onClick={() => setSelected(row)}
+                  className="block w-full space-y-1 px-4 py-4 text-left hover:bg-gray-50"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <p className="text-sm font-semibold text-gray-900">{formatStudent(row)}</p>
+                    <p className="text-xs text-gray-500">{dateTimeFormatter.format(new Date(row.redeemed_at))}</p>
+                  </div>
+                  <p className="text-sm text-gray-700">{row.offer.title}</p>
+                  <p className="text-xs text-gray-500">{formatTier(row.offer.min_followers)}</p>
+                </button>
+              ))}
+            </div>
+
+            {hasMore && (
+              <InfiniteScrollSentinel
+                className="md:hidden"
+                loading={loadingMore}
+                onVisible={() => showMore(loadMore)}
+              />
+            )}
+
+            <PageControls
+              className="hidden md:flex"
+              page={page}
+              hasNextPage={hasNextPage}
+              loading={loadingMore}
+              onPrevious={previousPage}
+              onNext={() => showMore(nextPage)}
+            />
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <RedemptionDrawer
+          row={selected}
+          onClose={() => setSelected(null)}
+          formatDiscount={formatDiscount}
+          formatStudent={formatStudent}
+          formatTier={formatTier}
+        />
+      )}
+    </DashboardLayout>
+  )
+}
+
+interface RedemptionDrawerProps {
+  row: RedemptionLedgerRow
+  onClose: () => void
+  formatDiscount: (offer: RedemptionLedgerRow['offer']) => string
+  formatStudent: (row: RedemptionLedgerRow) => string
+  formatTier: (minFollowers: number) => string
+}
+
+function RedemptionDrawer({ row, onClose, formatDiscount, formatStudent, formatTier }: RedemptionDrawerProps) {
+  const { t, locale } = useTranslation()
+  const { locations } = useLocations()
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+  const dateTimeFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    [locale]
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [onClose])
+
+  const followers = row.student?.verified_followers_count ?? row.student?.followers_count ?? null
+
+  const details: { label: string; value: string }[] = [
+    { label: t('redemptions.detailRedeemedAt'), value: dateTimeFormatter.format(new Date(row.redeemed_at)) },
+    { label: t('redemptions.detailRedeemedBy'), value: row.redeemed_by_email || t('dashboard.noData') },
+    {
+      label: t('redemptions.detailLocation'),
+      value: locations.find((location) => location.id === row.location_id)?.name || t('dashboard.noData'),
+    },
+    { label: t('redemptions.detailStudent'), value: formatStudent(row) },
+    { label: t('redemptions.detailStudentEmail'), value: row.student?.email || t('dashboard.noData') },
+    {
+      label: t('redemptions.detailFollowers'),
+      value: followers !== null ? numberFormatter.format(followers) : t('dashboard.noData'),
+    },
+    { label: t('redemptions.detailOffer'), value: row.offer.title },
+    { label: t('redemptions.detailDiscount'), value: formatDiscount(row.offer) },
+    { label: t('redemptions.detailTier'), value: formatTier(row.offer.min_followers) },
+    { label: t('redemptions.detailClaimId'), value: `#${row.claim.id}` },
+    { label: t('redemptions.detailClaimStatus'), value: row.claim.status || t('dashboard.noData') },
+    { label: t('redemptions.detailClaimedAt'), value: dateTimeFormatter.format(new Date(row.claim.created_at)) },
+    { label: t('redemptions.detailQrCode'), value: row.claim.qr_code || t('dashboard.noData') },
+  ]
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="fixed inset-0 bg-gray-900/50" onClick={onClose} />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="redemption-drawer-title"
+        className="relative flex h-full w-full max-w-md flex-col bg-white shadow-xl"
+      >
+        <div className="flex items-start justify-between border-b border-gray-200 p-6">
+          <div>
+            <h2 id="redemption-drawer-title" className="text-xl font-semibold text-gray-900">
+              {t('redemptions.detailTitle', { id: row.id })}
+            </h2>
+            <p className="text-sm text-gray-500">{row.offer.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-full bg-gray-100 p-2 text-gray-500 hover:text-gray-700"
+          >
+            <span className="sr-only">{t('common.close')}</span>
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <dl className="flex-1 divide-y divide-gray-100 overflow-y-auto px-6">
+          {details.map((detail) => (
+            <div key={detail.label} className="flex justify-between gap-4 py-3 text-sm">
+              <dt className="text-gray-500">{detail.label}</dt>
+              <dd className="break-all text-right font-medium text-gray-900">{detail.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </aside>
+    </div>
+  )
+}
@@ -0,0 +1,392 @@
+'use client'
+
+import { useAuth } from '@/components/AuthProvider'
+import DashboardLayout from '@/components/DashboardLayout'
+import { useTranslation } from '@/components/LanguageProvider'
+import { useLocations } from '@/components/LocationProvider'
+import QrScanner from '@/components/QrScanner'
+import { getTierForFollowers } from '@/lib/offer-tiers'
+import type { OfferCaps } from '@/lib/offer-caps'
+import { resolveTimeZone } from '@/lib/offer-schedule'
+import {
+  ClaimIneligibilityReason,
+  ClaimLookup,
+  checkClaimEligibility,
+  lookupClaimByCode,
+  normalizeClaimCode,
+  redeemClaim,
+} from '@/lib/redemptions'
+import { useRouter } from 'next/navigation'
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+// Cap checks are only listed for offers that set that cap, the location check for offers limited to some locations
+const ELIGIBILITY_CHECKS: { reason: ClaimIneligibilityReason; label: string; cap?: keyof OfferCaps }[] = [
+  { reason: 'offer_inactive', label: 'scan.checkOfferActive' },
+  { reason: 'offer_not_started', label: 'scan.checkOfferStarted' },
+  { reason: 'offer_ended', label: 'scan.checkOfferNotEnded' },
+  { reason: 'outside_schedule', label: 'scan.checkSchedule' },
+  { reason: 'wrong_location', label: 'scan.checkLocation' },
+  { reason: 'qr_expired', label: 'scan.checkQrValid' },
+  { reason: 'claim_closed', label: 'scan.checkClaimOpen' },
+  { reason: 'insufficient_followers', label: 'scan.checkFollowers' },
+  { reason: 'already_redeemed', label: 'scan.checkNotRedeemed' },
+  { reason: 'cap_total', label: 'scan.checkCapTotal', cap: 'max_redemptions' },
+  { reason: 'cap_daily', label: 'scan.checkCapDaily', cap: 'max_redemptions_per_day' },
+  { reason: 'cap_student_weekly', label: 'scan.checkCapStudentWeekly', cap: 'max_redemptions_per_student_week' },
+]
+
+export const runtime = 'nodejs'
+
+export default function ScanPage() {
+  const { user, userRecord, merchant, loadingContext } = useAuth()
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const { locations, currentLocation } = useLocations()
+  const [manualCode, setManualCode] = useState('')
+  const [lookup, setLookup] = useState<ClaimLookup | null>(null)
+  const [notFoundCode, setNotFoundCode] = useState<string | null>(null)
+  const [lookupLoading, setLookupLoading] = useState(false)
+  const [redeeming, setRedeeming] = useState(false)
+  const [redeemedAt, setRedeemedAt] = useState<string | null>(null)
+  const redirectingRef = useRef(false)
+  const busyRef = useRef(false)
+
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+  const dateTimeFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    [locale]
+  )
+
+  useEffect(() => {
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
+      redirectingRef.current = true
+      router.replace('/login')
+    }
+  }, [user, merchant, loadingContext, router])
+
+  const timeZone = resolveTimeZone(merchant?.timezone)
+  const locationId = currentLocation?.id ?? null
+  // Redemptions are counted per location, so staff at a chain say where they are first
+  const needsLocation = locations.length > 1 && !currentLocation
+
+  const findClaim = useCallback(
+    async (rawCode: string) => {
+      if (!merchant || busyRef.current) return
+
+      const code = normalizeClaimCode(rawCode)
+      if (!code) return
+
+      busyRef.current = true
+      setLookupLoading(true)
+      setNotFoundCode(null)
+      setRedeemedAt(null)
+
+      try {
+        const result = await lookupClaimByCode(merchant.id, code, timeZone)
+        setLookup(result)
+        if (!result) {
+          setNotFoundCode(code)
+        }
+      } catch (error) {
+        console.error('Error looking up claim:', error)
+        toast.error(t('scan.lookupError'))
+      } finally {
+        busyRef.current = false
+        setLookupLoading(false)
+      }
+    },
+    [merchant, t, timeZone]
+  )
+
+  const handleManualSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    findClaim(manualCode)
+  }
+
+  const resetScan = () => {
+    setLookup(null)
+    setNotFoundCode(null)
+    setRedeemedAt(null)
+    setManualCode('')
+  }
+
+  const eligibility = useMemo(
+    () => (lookup ? checkClaimEligibility(lookup, new Date(), timeZone, locationId) : null),
+    [lookup, timeZone, locationId]
+  )
+
+  const handleRedeem = async () => {
+    if (!lookup || !eligibility?.eligible || needsLocation) return
+
+    setRedeeming(true)
+
+    try {
+      const result = await redeemClaim(lookup.claim.id, userRecord?.id ?? null, locationId)
+
+      if (result.status === 'already_redeemed') {
+        toast.error(t('scan.alreadyRedeemedToast'))
+        if (merchant && lookup.claim.qr_code) {
+          setLookup(await lookupClaimByCode(merchant.id, lookup.claim.qr_code, timeZone))
+        }
+        return
+      }
+
+      if (result.status === 'cap_reached') {
+        toast.error(t(`scan.capReachedToast_${result.cap}`))
+        if (merchant && lookup.claim.qr_code) {
+          setLookup(await lookupClaimByCode(merchant.id, lookup.claim.qr_code, timeZone))
+        }
+        return
+      }
+
+      if (result.status === 'wrong_location') {
+        toast.error(t('scan.wrongLocationToast'))
+        return
+      }
+
+      if (result.status === 'offer_unavailable') {
+        toast.error(t(`scan.unavailableToast_${result.reason}`))
+        if (merchant && lookup.claim.qr_code) {
+          setLookup(await lookupClaimByCode(merchant.id, lookup.claim.qr_code, timeZone))
+        }
+        return
+      }
+
+      setRedeemedAt(result.redemption.redeemed_at)
+      toast.success(t('scan.redeemSuccess'))
+    } catch (error) {
+      console.error('Error redeeming claim:', error)
+      toast.error(t('scan.redeemError'))
+    } finally {
+      setRedeeming(false)
+    }
+  }
+
+  const formatDiscount = (offer: ClaimLookup['offer']) => {
+    if (offer.discount_type === 'percent') {
+      return t('offers.discountPercent', { value: offer.discount_value })
+    }
+    return t('offers.discountFixed', { amount: currencyFormatter.format(offer.discount_value) })
+  }
+
+  const formatTier = (minFollowers: number) => {
+    const tier = getTierForFollowers(minFollowers)
+    return tier ? `${tier.label} ${t('offers.newFormFollowers')}` : t('redemptions.tierAll')
+  }
+
+  const formatStudent = (student: ClaimLookup['student']) => {
+    if (!student) return t('redemptions.unknownStudent')
+    if (student.instagram_handle) return `@${student.instagram_handle.replace(/^@/, '')}`
+    return student.email || t('redemptions.unknownStudent')
+  }
+
+  if (loadingContext) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user || !merchant) {
+    return null
+  }
+
+  const followers = lookup?.student?.verified_followers_count ?? lookup?.student?.followers_count ?? null
+  const scannerPaused = lookupLoading || Boolean(lookup) || Boolean(notFoundCode)
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <header>
+          <h1 className="text-3xl font-semibold text-gray-900">{t('scan.title')}</h1>
+          <p className="mt-2 text-gray-600">{t('scan.subtitle')}</p>
+          {locations.length > 1 && currentLocation && (
+            <p className="mt-2 text-sm font-medium text-gray-700">
+              {t('scan.locationLabel', { name: currentLocation.name })}
+            </p>
+          )}
+        </header>
+
+        {needsLocation && (
+          <p role="alert" className="rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+            {t('scan.chooseLocation')}
+          </p>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <section className="card space-y-6">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('scan.cameraTitle')}</h2>
+              <p className="mt-1 text-sm text-gray-500">{t('scan.cameraDescription')}</p>
+            </div>
+            <QrScanner onDetected={findClaim} paused={scannerPaused} />
+
+            <form onSubmit={handleManualSubmit} className="space-y-2">
+              <label className="form-label" htmlFor="manual_code">{t('scan.manualLabel')}</label>
+              <div className="flex gap-2">
+                <input
+                  id="manual_code"
+                  type="text"
+                  className="input"
+                  value={manualCode}
+                  onChange={(event) => setManualCode(event.target.value)}
+                  placeholder={t('scan.manualPlaceholder')}
+                  autoComplete="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                />
+                <button
+                  type="submit"
+                  disabled={lookupLoading || !manualCode.trim()}
+                  className="btn btn-primary whitespace-nowrap disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {t('scan.manualSubmit')}
+                </button>
+              </div>
+            </form>
+          </section>
+
+          <section className="card" aria-live="polite">
+            {lookupLoading ? (
+              <div className="flex h-full items-center justify-center py-16">
+                <div className="h-12 w-12 animate-spin rounded-full border-b-2 border-primary-600"></div>
+              </div>
+            ) : notFoundCode ? (
+              <div className="flex h-full flex-col items-center justify-center py-12 text-center">
+                <h2 className="text-xl font-semibold text-gray-900">{t('scan.notFoundTitle')}</h2>
+                <p className="mt-2 max-w-sm text-sm text-gray-500">
+                  {t('scan.notFoundDescription', { code: notFoundCode })}
+                </p>
+                <button type="button" onClick={resetScan} className="btn btn-secondary mt-6">
+                  {t('scan.scanNext')}
+                </button>
+              </div>
+            ) : lookup && eligibility ? (
+              <div className="space-y-6">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm text-gray-500">{t('scan.claimLabel', { id: lookup.claim.id })}</p>
+                    <h2 className="text-xl font-semibold text-gray-900">{formatStudent(lookup.student)}</h2>
+                    {lookup.student?.email && (
+                      <p className="text-sm text-gray-500">{lookup.student.email}</p>
+                    )}
+                  </div>
+                  <span
+                    className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-medium ${
+                      redeemedAt
+                        ? 'bg-green-100 text-green-800'
+                        : eligibility.eligible
+                          ? 'bg-primary-50 text-primary-700'
+                          : 'bg-red-100 text-red-700'
+                    }`}
+                  >
+                    {redeemedAt
+                      ? t('scan.statusRedeemed')
+                      : eligibility.eligible
+                        ? t('scan.statusEligible')
+                        : t('scan.statusIneligible')}
+                  </span>
+                </div>
+
+                <dl className="divide-y divide-gray-100 text-sm">
+                  <div className="flex justify-between gap-4 py-2">
+                    <dt className="text-gray-500">{t('redemptions.detailOffer')}</dt>
+                    <dd className="text-right font-medium text-gray-900">{lookup.offer.title}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4 py-2">
+                    <dt className="text-gray-500">{t('redemptions.detailDiscount')}</dt>
+                    <dd className="text-right font-medium text-gray-900">{formatDiscount(lookup.offer)}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4 py-2">
+                    <dt className="text-gray-500">{t('redemptions.detailTier')}</dt>
+                    <dd className="text-right font-medium text-gray-900">{formatTier(lookup.offer.min_followers)}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4 py-2">
+                    <dt className="text-gray-500">{t('redemptions.detailFollowers')}</dt>
+                    <dd className="text-right font-medium text-gray-900">
+                      {followers !== null ? numberFormatter.format(followers) : t('dashboard.noData')}
+                    </dd>
+                  </div>
+                  {lookup.redemption && !redeemedAt && (
+                    <div className="flex justify-between gap-4 py-2">
+                      <dt className="text-gray-500">{t('redemptions.detailRedeemedAt')}</dt>
+                      <dd className="text-right font-medium text-gray-900">
+                        {dateTimeFormatter.format(new Date(lookup.redemption.redeemed_at))}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+
+                {!redeemedAt && (
+                  <ul className="space-y-2">
+                    {ELIGIBILITY_CHECKS.filter(
+                      (check) =>
+                        (!check.cap || lookup.offer[check.cap] !== null) &&
+                        (check.reason !== 'wrong_location' || lookup.offer.location_ids !== null)
+                    ).map((check) => {
+                      const passed = !eligibility.reasons.includes(check.reason)
+                      return (
+                        <li key={check.reason} className="flex items-center gap-2 text-sm">
+                          <span
+                            className={`flex h-5 w-5 items-center justify-center rounded-full text-xs font-bold ${
+                              passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                            }`}
+                            aria-hidden="true"
+                          >
+                            {passed ? '✓' : '✕'}
+                          </span>
+                          <span className={passed ? 'text-gray-700' : 'font-medium text-red-700'}>
+                            {t(check.label)}
+                          </span>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                )}
+
+                {redeemedAt ? (
+                  <div className="space-y-4">
+                    <p className="rounded-lg bg-green-50 p-4 text-sm text-green-800">
+                      {t('scan.redeemedAt', { date: dateTimeFormatter.format(new Date(redeemedAt)) })}
+                    </p>
+                    <button type="button" onClick={resetScan} className="btn btn-primary w-full">
+                      {t('scan.scanNext')}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-3 sm:flex-row">
+                    <button
+                      type="button"
+                      onClick={handleRedeem}
+                      disabled={!eligibility.eligible || redeeming || needsLocation}
+                      className="btn btn-primary flex-1 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {redeeming ? t('scan.redeeming') : t('scan.redeem')}
+                    </button>
+                    <button type="button" onClick={resetScan} className="btn btn-secondary flex-1">
+                      {t('common.cancel')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="flex h-full flex-col items-center justify-center py-12 text-center">
+                <h2 className="text-xl font-semibold text-gray-900">{t('scan.idleTitle')}</h2>
+                <p className="mt-2 max-w-sm text-sm text-gray-500">{t('scan.idleDescription')}</p>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,263 @@
+'use client'
+
+import { useAuth } from '@/components/AuthProvider'
+import DashboardLayout from '@/components/DashboardLayout'
+import { useTranslation } from '@/components/LanguageProvider'
+import {
+  MERCHANT_ROLES,
+  MerchantRole,
+  TeamInviteError,
+  TeamMember,
+  hasPermission,
+  inviteTeamMember,
+  listTeamMembers,
+  removeTeamMember,
+  updateTeamMemberRole,
+} from '@/lib/team'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+export const runtime = 'nodejs'
+
+export default function TeamPage() {
+  const { user, merchant, role, loadingContext } = useAuth()
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [membersLoading, setMembersLoading] = useState(true)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<MerchantRole>('cashier')
+  const [inviting, setInviting] = useState(false)
+  const [pendingMemberId, setPendingMemberId] = useState<number | null>(null)
+  const [memberToRemove, setMemberToRemove] = useState<TeamMember | null>(null)
+  const redirectingRef = useRef(false)
+  const canManageTeam = hasPermission(role, 'manage_team')
+
+  const dateFormatter = useMemo(() => new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }), [locale])
+
+  useEffect(() => {
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
+      redirectingRef.current = true
+      router.replace('/login')
+    }
+  }, [user, merchant, loadingContext, router])
+
+  const fetchMembers = useCallback(async () => {
+    if (!merchant) return
+    try {
+      setMembersLoading(true)
+      setMembers(await listTeamMembers(merchant.id))
+    } catch (error) {
+      console.error('Error fetching team members:', error)
+      toast.error(t('team.fetchError'))
+    } finally {
+      setMembersLoading(false)
+    }
+  }, [merchant, t])
+
+  useEffect(() => {
+    if (merchant && canManageTeam) {
+      fetchMembers()
+    }
+  }, [merchant, canManageTeam, fetchMembers])
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!inviteEmail.trim()) return
+
+    try {
+      setInviting(true)
+      const member = await inviteTeamMember(inviteEmail, inviteRole)
+      setMembers((prev) => [...prev, member])
+      setInviteEmail('')
+      toast.success(t('team.inviteSuccess', { email: member.email }))
+    } catch (error) {
+      console.error('Error inviting team member:', error)
+      toast.error(
+        error instanceof TeamInviteError && error.code === 'already_member'
+          ? t('team.inviteAlreadyMember')
+          : t('team.inviteError')
+      )
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleRoleChange = async (member: TeamMember, nextRole: MerchantRole) => {
+    if (!merchant || nextRole === member.role) return
+    try {
+      setPendingMemberId(member.id)
+      await updateTeamMemberRole(merchant.id, member.id, nextRole)
+      setMembers((prev) => prev.map((item) => (item.id === member.id ? { ...item, role: nextRole } : item)))
+      toast.success(t('team.roleUpdated'))
+    } catch (error) {
+      console.error('Error updating team member role:', error)
+      toast.error(t('team.updateError'))
+    } finally {
+      setPendingMemberId(null)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!merchant || !memberToRemove) return
+    const member = memberToRemove
+    try {
+      setPendingMemberId(member.id)
+      await removeTeamMember(merchant.id, member.id)
+      setMembers((prev) => prev.filter((item) => item.id !== member.id))
+      setMemberToRemove(null)
+      toast.success(t('team.removeSuccess', { email: member.email }))
+    } catch (error) {
+      console.error('Error removing team member:', error)
+      toast.error(t('team.updateError'))
+    } finally {
+      setPendingMemberId(null)
+    }
+  }
+
+  if (loadingContext) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user || !merchant) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <header>
+          <h1 className="text-3xl font-semibold text-gray-900">{t('team.title')}</h1>
+          <p className="mt-2 text-gray-600">{t('team.subtitle')}</p>
+        </header>
+
+        <section className="card">
+          <h2 className="text-lg font-semibold text-gray-900">{t('team.inviteTitle')}</h2>
+          <form onSubmit={handleInvite} className="mt-4 grid gap-4 sm:grid-cols-[1fr_12rem_auto] sm:items-end">
+            <div>
+              <label className="form-label" htmlFor="invite_email">{t('team.inviteEmail')}</label>
+              <input
+                id="invite_email"
+                type="email"
+                required
+                className="input mt-1"
+                value={inviteEmail}
+                onChange={(event) => setInviteEmail(event.target.value)}
+                placeholder="name@example.com"
+              />
+            </div>
+            <div>
+              <label className="form-label" htmlFor="invite_role">{t('team.role')}</label>
+              <select
+                id="invite_role"
+                className="input mt-1"
+                value={inviteRole}
+                onChange={(event) => setInviteRole(event.target.value as MerchantRole)}
+              >
+                {MERCHANT_ROLES.map((item) => (
+                  <option key={item} value={item}>{t(`team.role_${item}`)}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={inviting || !inviteEmail.trim()}
+              className="btn btn-primary disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {inviting ? t('team.inviting') : t('team.invite')}
+            </button>
+          </form>
+          <ul className="mt-4 space-y-1 text-xs text-gray-500">
+            {MERCHANT_ROLES.map((item) => (
+              <li key={item}>
+                <span className="font-medium text-gray-700">{t(`team.role_${item}`)}</span>
+                {' — '}
+                {t(`team.roleDescription_${item}`)}
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="card">
+          <h2 className="text-lg font-semibold text-gray-900">{t('team.membersTitle')}</h2>
+          {membersLoading ? (
+            <p className="py-8 text-center text-sm text-gray-500">{t('common.loading')}</p>
+          ) : members.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">{t('team.empty')}</p>
+          ) : (
+            <ul className="mt-4 divide-y divide-gray-100">
+              {members.map((member) => (
+                <li key={member.id} className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{member.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {member.accepted_at
+                        ? t('team.joinedOn', { date: dateFormatter.format(new Date(member.accepted_at)) })
+                        : t('team.invitedOn', { date: dateFormatter.format(new Date(member.created_at)) })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {!member.accepted_at && (
+                      <span className="rounded-full bg-yellow-50 px-2 py-0.5 text-xs font-semibold text-yellow-700">
+                        {t('team.pending')}
+                      </span>
+                    )}
+                    <select
+                      aria-label={t('team.role')}
+                      className="input w-40"
+                      value={member.role}
+                      disabled={pendingMemberId === member.id}
+                      onChange={(event) => handleRoleChange(member, event.target.value as MerchantRole)}
+                    >
+                      {MERCHANT_ROLES.map((item) => (
+                        <option key={item} value={item}>{t(`team.role_${item}`)}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setMemberToRemove(member)}
+                      disabled={pendingMemberId === member.id}
+                      className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      {t('team.remove')}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+
+      {memberToRemove && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4 py-6">
+          <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-xl">
+            <h3 className="text-lg font-semibold text-gray-900">{t('team.removeTitle')}</h3>
+            <p className="mt-2 text-sm text-gray-600">{t('team.removeConfirm', { email: memberToRemove.email })}</p>
+            <div className="mt-6 flex justify-end gap-3">
+              <button type="button" onClick={() => setMemberToRemove(null)} className="btn btn-secondary">
+                {t('common.cancel')}
+              </button>
+              <button
+                type="button"
+                onClick={handleRemove}
+                disabled={pendingMemberId === memberToRemove.id}
+                className="btn btn-danger disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {t('team.remove')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
@@ -5,7 +5,7 @@ import { supabase } from '@/lib/supabase'
 import { useCallback, useEffect, useState } from 'react'
 
 export default function DebugPage() {
-  const { user, userRecord, merchant, loading } = useAuth()
+  const { user, userRecord, merchant, loadingContext } = useAuth()
   const [debugInfo, setDebugInfo] = useState<Record<string, unknown> | null>(null)
 
   const checkDatabase = useCallback(async () => {
@@ -59,7 +59,7 @@ export default function DebugPage() {
     }
   }, [user, checkDatabase])
 
-  if (loading) {
+  if (loadingContext) {
     return <div>Loading...</div>
   }
 
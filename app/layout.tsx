@@ -4,6 +4,8 @@ import { Toaster } from 'react-hot-toast'
 import { AuthProvider } from '@/components/AuthProvider'
 import { AuthErrorBoundary } from '@/components/AuthErrorBoundary'
 import { LanguageProvider } from '@/components/LanguageProvider'
+import { LocationProvider } from '@/components/LocationProvider'
+import { getServerAuthState, getServerLocationState } from '@/lib/server-state'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -12,19 +14,25 @@ export const metadata = {
   description: 'Manage your business presence on the Ovio platform',
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  // The session and merchant come from the request cookies, so pages hydrate signed in
+  const authState = await getServerAuthState()
+  const locationState = await getServerLocationState()
+
   return (
     <html lang="en">
       <body className={inter.className}>
         <AuthErrorBoundary>
-          <AuthProvider>
+          <AuthProvider initialState={authState}>
             <LanguageProvider>
-              {children}
-              <Toaster position="top-right" />
+              <LocationProvider initialState={locationState}>
+                {children}
+                <Toaster position="top-right" />
+              </LocationProvider>
             </LanguageProvider>
           </AuthProvider>
         </AuthErrorBoundary>
@@ -6,18 +6,18 @@ import { useEffect } from 'react'
 import LoginPage from '@/components/LoginPage'
 
 export default function LoginPageRoute() {
-  const { user, userRecord, merchant, loading } = useAuth()
+  const { user, userRecord, merchant, loadingContext } = useAuth()
   const router = useRouter()
 
   useEffect(() => {
     // If user is already authenticated, redirect to dashboard
-    if (!loading && user && userRecord?.role === 'merchant' && merchant) {
+    if (!loadingContext && user && userRecord?.role === 'merchant' && merchant) {
       router.replace('/dashboard')
     }
-  }, [user, userRecord, merchant, loading, router])
+  }, [user, userRecord, merchant, loadingContext, router])
 
   // Show loading while checking auth
-  if (loading) {
+  if (loadingContext) {
     return (
       <div 
         className="min-h-screen flex items-center justify-center relative"
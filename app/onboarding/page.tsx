@@ -0,0 +1,134 @@
+'use client'
+
+import { useAuth } from '@/components/AuthProvider'
+import LanguageSelector from '@/components/LanguageSelector'
+import { useTranslation } from '@/components/LanguageProvider'
+import { acceptMerchantInvites, createMerchantAccount } from '@/lib/auth'
+import { useRouter } from 'next/navigation'
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+export const runtime = 'nodejs'
+
+/**
+ * Merchant users without a merchant account (e.g. the signup webhook failed) set one up here.
+ * middleware.js sends them here from the dashboard, and back once the account exists.
+ */
+export default function OnboardingPage() {
+  const { user, merchant, loadingContext, signOut, refreshMerchant } = useAuth()
+  const router = useRouter()
+  const { t } = useTranslation()
+  const [name, setName] = useState('')
+  const [legalName, setLegalName] = useState('')
+  const [nameError, setNameError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const redirectingRef = useRef(false)
+  const invitesCheckedRef = useRef(false)
+
+  useEffect(() => {
+    if (redirectingRef.current) return
+    if (!user) {
+      redirectingRef.current = true
+      router.replace('/login')
+    } else if (!loadingContext && merchant) {
+      redirectingRef.current = true
+      router.replace('/dashboard')
+    }
+  }, [user, merchant, loadingContext, router])
+
+  // Staff invited while already signed in join the merchant here rather than creating one
+  useEffect(() => {
+    if (!user || loadingContext || merchant || invitesCheckedRef.current) return
+    invitesCheckedRef.current = true
+    acceptMerchantInvites()
+      .then((accepted) => (accepted > 0 ? refreshMerchant() : undefined))
+      .catch((error) => console.error('Error accepting team invites:', error))
+  }, [user, merchant, loadingContext, refreshMerchant])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!name.trim()) {
+      setNameError(t('onboarding.nameRequired'))
+      return
+    }
+
+    try {
+      setSaving(true)
+      await createMerchantAccount(name.trim(), legalName.trim() || null)
+      await refreshMerchant()
+      toast.success(t('onboarding.success'))
+    } catch (error) {
+      console.error('Error creating merchant account:', error)
+      toast.error(t('onboarding.error'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSignOut = async () => {
+    await signOut()
+    router.push('/')
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-12 sm:px-6 lg:px-8">
+      <div className="mx-auto max-w-md">
+        <div className="mb-6 flex justify-end">
+          <LanguageSelector />
+        </div>
+        <form onSubmit={handleSubmit} className="card space-y-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">{t('onboarding.title')}</h1>
+            <p className="mt-2 text-sm text-gray-600">{t('onboarding.subtitle')}</p>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="onboarding_name">{t('onboarding.name')}</label>
+            <input
+              id="onboarding_name"
+              className="input"
+              value={name}
+              placeholder={t('signup.businessNamePlaceholder')}
+              onChange={(event) => {
+                setName(event.target.value)
+                setNameError(null)
+              }}
+            />
+            {nameError && <p className="form-error">{nameError}</p>}
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="onboarding_legal_name">{t('onboarding.legalName')}</label>
+            <input
+              id="onboarding_legal_name"
+              className="input"
+              value={legalName}
+              placeholder={t('signup.legalNamePlaceholder')}
+              onChange={(event) => setLegalName(event.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <button type="button" onClick={handleSignOut} className="btn btn-secondary">
+              {t('navigation.logout')}
+            </button>
+            <button type="submit" disabled={saving} className="btn btn-primary disabled:cursor-not-allowed disabled:opacity-50">
+              {saving ? t('common.saving') : t('onboarding.submit')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
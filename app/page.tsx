@@ -6,7 +6,7 @@ import { useEffect, useRef, useState } from 'react'
 import LoginPage from '@/components/LoginPage'
 
 export default function HomePage() {
-  const { user, userRecord, merchant, loading } = useAuth()
+  const { user, userRecord, merchant, loadingContext } = useAuth()
   const router = useRouter()
   const pathname = usePathname()
   const [isRedirecting, setIsRedirecting] = useState(false)
@@ -17,7 +17,7 @@ export default function HomePage() {
     // Prevent multiple redirects
     if (hasRedirectedRef.current || isRedirecting) return
 
-    if (!loading) {
+    if (!loadingContext) {
       if (user && userRecord) {
         console.log('User is authenticated:', user, userRecord)
         if (userRecord.role === 'merchant') {
@@ -30,12 +30,16 @@ export default function HomePage() {
               router.replace('/dashboard')
             }
           } else {
-            // User has merchant role but no merchant profile - redirect to unauthorized
+            // User has merchant role but no merchant profile - finish setting up the account
             console.error('User has merchant role but no merchant profile')
             setIsRedirecting(true)
             hasRedirectedRef.current = true
-            router.replace('/unauthorized')
+            router.replace('/onboarding')
           }
+        } else if (userRecord.role === 'admin') {
+          setIsRedirecting(true)
+          hasRedirectedRef.current = true
+          router.replace('/admin')
         } else {
           // User is not a merchant
           setIsRedirecting(true)
@@ -45,7 +49,7 @@ export default function HomePage() {
       }
       // If no user or userRecord, stay on login page (no redirect needed)
     }
-  }, [user, userRecord, merchant, loading, router, isRedirecting, pathname])
+  }, [user, userRecord, merchant, loadingContext, router, isRedirecting, pathname])
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -56,13 +60,13 @@ export default function HomePage() {
     }
   }, [redirectTimeoutRef])
 
-  if (loading || isRedirecting) {
+  if (loadingContext || isRedirecting) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600 mx-auto"></div>
           <p className="mt-4 text-sm text-gray-600">
-            {loading ? 'Loading...' : 'Redirecting...'}
+            {loadingContext ? 'Loading...' : 'Redirecting...'}
           </p>
         </div>
       </div>
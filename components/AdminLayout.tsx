@@ -0,0 +1,102 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname, useRouter } from 'next/navigation'
+import { useEffect, useRef } from 'react'
+import { useAuth } from './AuthProvider'
+import LanguageSelector from './LanguageSelector'
+import { useTranslation } from './LanguageProvider'
+
+interface AdminLayoutProps {
+  children: React.ReactNode
+}
+
+export default function AdminLayout({ children }: AdminLayoutProps) {
+  const { user, userRecord, readOnly, loadingContext, signOut, stopImpersonation } = useAuth()
+  const router = useRouter()
+  const pathname = usePathname()
+  const { t } = useTranslation()
+  const redirectingRef = useRef(false)
+  const isAdmin = userRecord?.role === 'admin'
+
+  const navigation = [
+    { name: t('admin.navMerchants'), href: '/admin' },
+    { name: t('admin.navFlagged'), href: '/admin/redemptions' },
+  ]
+
+  useEffect(() => {
+    if (redirectingRef.current) return
+    if (!user) {
+      redirectingRef.current = true
+      router.replace('/login')
+    } else if (!loadingContext && !isAdmin) {
+      redirectingRef.current = true
+      router.replace('/unauthorized')
+    }
+  }, [user, isAdmin, loadingContext, router])
+
+  // Coming back to the console ends any merchant view still open in this tab
+  useEffect(() => {
+    if (readOnly) {
+      stopImpersonation()
+    }
+  }, [readOnly, stopImpersonation])
+
+  const handleSignOut = async () => {
+    await signOut()
+    router.push('/')
+  }
+
+  if (loadingContext || !isAdmin) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b border-gray-200 bg-white">
+        <div className="mx-auto flex h-16 w-full max-w-6xl items-center justify-between gap-4 px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-8">
+            <div>
+              <p className="text-lg font-semibold text-gray-900">Ovio Admin</p>
+              <p className="text-xs text-gray-500">{userRecord?.email}</p>
+            </div>
+            <nav className="flex gap-1">
+              {navigation.map((item) => {
+                const isActive = item.href === '/admin' ? pathname === item.href : pathname.startsWith(item.href)
+                return (
+                  <Link
+                    key={item.href}
+                    href={item.href}
+                    aria-current={isActive ? 'page' : undefined}
+                    className={`rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
+                      isActive ? 'bg-primary-50 text-primary-700' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                    }`}
+                  >
+                    {item.name}
+                  </Link>
+                )
+              })}
+            </nav>
+          </div>
+          <div className="flex items-center gap-3">
+            <LanguageSelector />
+            <button type="button" onClick={handleSignOut} className="btn btn-secondary">
+              {t('navigation.logout')}
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto w-full max-w-6xl px-4 py-8 sm:px-6 lg:px-8">
+        <div className="rounded-2xl bg-white p-6 shadow-lg">{children}</div>
+      </main>
+    </div>
+  )
+}
@@ -2,27 +2,53 @@
 
 import { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react'
 import { supabase } from '@/lib/supabase'
-import { AuthUser, Merchant, UserRecord, getMerchantProfile, getUserRecord } from '@/lib/auth'
+import {
+  AuthUser,
+  InitialAuthState,
+  Merchant,
+  MerchantMembership,
+  UserRecord,
+  getImpersonatedMembership,
+  getMerchantMembership,
+  getUserRecord,
+} from '@/lib/auth'
+import { getImpersonatedMerchantId, setImpersonatedMerchantId } from '@/lib/impersonation'
+import { MerchantRole } from '@/lib/team'
 import { getMerchantLogoUrl } from '@/lib/storage'
 
 interface AuthContextType {
     user: AuthUser | null
     userRecord: UserRecord | null
     merchant: Merchant | null
+    /** The user's role on the merchant account; owners of their own account are 'owner' */
+    role: MerchantRole | null
+    /** An admin is viewing someone else's account from the admin console */
+    readOnly: boolean
+    /** The user record and merchant are still loading for the current session */
     loadingContext: boolean
-    loading: boolean
     signOut: () => Promise<void>
     refreshMerchant: () => Promise<void>
+    startImpersonation: (merchantId: number) => Promise<void>
+    stopImpersonation: () => void
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
-export function AuthProvider({ children }: { children: React.ReactNode }) {
-    const [user, setUser] = useState<AuthUser | null>(null)
-    const [userRecord, setUserRecord] = useState<UserRecord | null>(null)
-    const [merchant, setMerchant] = useState<Merchant | null>(null)
-    const [loading, setLoading] = useState(true)
-    const [loadingContext, setLoadingContext] = useState(true)
+/**
+ * Session, user record and merchant for client components. The root layout reads them on
+ * the server (lib/server-state.ts) and passes them in, so pages render with real data
+ * straight away; the browser only reloads them when the session changes.
+ */
+export function AuthProvider({ children, initialState }: { children: React.ReactNode; initialState: InitialAuthState }) {
+    const [user, setUser] = useState<AuthUser | null>(initialState.user)
+    const [userRecord, setUserRecord] = useState<UserRecord | null>(initialState.userRecord)
+    const [merchant, setMerchant] = useState<Merchant | null>(initialState.merchant)
+    const [role, setRole] = useState<MerchantRole | null>(initialState.role)
+    const [readOnly, setReadOnly] = useState(initialState.readOnly)
+    // Still loading when the server had a session but couldn't read the user's data
+    const [loadingContext, setLoadingContext] = useState(Boolean(initialState.user && !initialState.userRecord))
+    // Whose data is loaded, by the server (lib/server-state.ts) or by loadAuthData
+    const loadedUserIdRef = useRef(initialState.userRecord ? initialState.user?.id ?? null : null)
     const loadingDataRef = useRef(false)
     const isMountedRef = useRef(true)
 
@@ -36,13 +62,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     
     try {
       console.log('Loading auth data for user:', authUser.id)
-      const [userData, merchantProfile] = await Promise.all([
+      const [userData, ownMembership] = await Promise.all([
         getUserRecord(authUser.id),
-        getMerchantProfile(authUser.id)
+        getMerchantMembership(authUser.id)
       ])
+      const impersonatedId = userData?.role === 'admin' ? getImpersonatedMerchantId() : null
+      const membership = impersonatedId !== null
+        ? await getImpersonatedMembership(impersonatedId)
+        : ownMembership
 
       if (!isMountedRef.current) return
 
+      const merchantProfile = membership?.merchant ?? null
       let enhancedMerchant = merchantProfile
 
       if (merchantProfile?.logo_url && !merchantProfile.logo_url.startsWith('http')) {
@@ -56,6 +87,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       setUserRecord(userData)
       setMerchant(enhancedMerchant)
+      setRole(membership?.role ?? null)
+      setReadOnly(Boolean(membership?.readOnly))
+      loadedUserIdRef.current = authUser.id
       console.log('Auth data loaded successfully')
     } catch (error) {
       console.error('Error loading auth data:', error)
@@ -70,71 +104,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     let isMounted = true
     isMountedRef.current = true
 
-    // Get initial session with Vercel-optimized approach
-    const getInitialSession = async () => {
-      try {
-        console.log('Getting initial session...')
-        
-        // Add timeout protection for Vercel
-        const sessionPromise = supabase.auth.getSession()
-        const timeoutPromise = new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('Session timeout')), 8000)
-        )
-        
-        const { data: { session }, error } = await Promise.race([
-          sessionPromise,
-          timeoutPromise
-        ])
-        
-        if (error) {
-          console.error('Session error:', error)
-          // Clear potentially corrupted session
-          await supabase.auth.signOut()
-          if (isMounted) {
-            setLoading(false)
-          }
-          return
-        }
-        
-        if (!isMounted) return
-
-        if (session?.user) {
-          const authUser = session.user as AuthUser
-          console.log('Initial session found, setting user:', authUser.id)
-          setUser(authUser)
-          
-          // Defer auth data loading to prevent blocking
-          setTimeout(() => {
-            if (isMounted) {
-              loadAuthData(authUser).catch(error => {
-                console.error('Error loading initial auth data:', error)
-                // Don't fail completely, just log the error
-              })
-            }
-          }, 100) // Slightly longer delay for Vercel
-        } else {
-          console.log('No initial session found')
-        }
-      } catch (error) {
-        console.error('Error getting initial session:', error)
-        // On error, clear any potentially corrupted state
-        if (isMounted) {
-          setUser(null)
-          setUserRecord(null)
-          setMerchant(null)
-        }
-      } finally {
-        if (isMounted) {
-          setLoading(false)
-        }
-      }
-    }
-
-    // Add a small delay for Vercel hydration
-    const initTimer = setTimeout(() => {
-      getInitialSession()
-    }, 50)
-
     // Listen for auth changes - CRITICAL: No async operations in callback
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event: string, session: { user?: { id: string } } | null) => {
@@ -146,6 +115,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           const authUser = session.user as AuthUser
           setUser(authUser)
 
+          // Token refreshes and the server-rendered session need no reload
+          if (loadedUserIdRef.current === authUser.id) {
+            return
+          }
+
+          // Pages wait for the user's data instead of redirecting while it loads
+          setLoadingContext(true)
+
           // Defer async operations to prevent deadlocks
           setTimeout(() => {
             if (isMounted) {
@@ -153,21 +130,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 console.error('Error loading auth data on state change:', error)
               })
             }
-          }, 100)
+          }, 0)
         } else {
+          loadedUserIdRef.current = null
           setUser(null)
           setUserRecord(null)
           setMerchant(null)
-        }
-
-        if (isMounted) {
-          setLoading(false)
+          setRole(null)
+          setReadOnly(false)
+          setLoadingContext(false)
         }
       }
     )
 
     return () => {
-      clearTimeout(initTimer)
       isMounted = false
       isMountedRef.current = false
       subscription.unsubscribe()
@@ -177,36 +153,80 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const signOut = useCallback(async () => {
     try {
       await supabase.auth.signOut()
+      setImpersonatedMerchantId(null)
+      loadedUserIdRef.current = null
       setUser(null)
       setUserRecord(null)
       setMerchant(null)
+      setRole(null)
+      setReadOnly(false)
     } catch (error) {
       console.error('Error signing out:', error)
     }
   }, [])
 
+  const applyMembership = useCallback(async (membership: MerchantMembership | null) => {
+    const merchantProfile = membership?.merchant ?? null
+    setRole(membership?.role ?? null)
+    setReadOnly(Boolean(membership?.readOnly))
+    if (merchantProfile?.logo_url && !merchantProfile.logo_url.startsWith('http')) {
+      try {
+        const signed = await getMerchantLogoUrl(merchantProfile.logo_url)
+        setMerchant({ ...merchantProfile, logo_signed_url: signed })
+        return
+      } catch (error) {
+        console.error('Error refreshing merchant logo URL:', error)
+      }
+    }
+    setMerchant(merchantProfile)
+  }, [])
+
   const refreshMerchant = useCallback(async () => {
     if (!user) return
     
     try {
-      const merchantProfile = await getMerchantProfile(user.id)
-      if (merchantProfile?.logo_url && !merchantProfile.logo_url.startsWith('http')) {
-        try {
-          const signed = await getMerchantLogoUrl(merchantProfile.logo_url)
-          setMerchant({ ...merchantProfile, logo_signed_url: signed })
-          return
-        } catch (error) {
-          console.error('Error refreshing merchant logo URL:', error)
-        }
-      }
-      setMerchant(merchantProfile)
+      const impersonatedId = userRecord?.role === 'admin' ? getImpersonatedMerchantId() : null
+      const membership = impersonatedId !== null
+        ? await getImpersonatedMembership(impersonatedId)
+        : await getMerchantMembership(user.id)
+      await applyMembership(membership)
     } catch (error) {
       console.error('Error refreshing merchant:', error)
     }
-  }, [user])
+  }, [user, userRecord, applyMembership])
+
+  const startImpersonation = useCallback(async (merchantId: number) => {
+    if (userRecord?.role !== 'admin') {
+      throw new Error('Only admins can view other merchants')
+    }
+    const membership = await getImpersonatedMembership(merchantId)
+    if (!membership) {
+      throw new Error(`Merchant ${merchantId} not found`)
+    }
+    setImpersonatedMerchantId(merchantId)
+    await applyMembership(membership)
+  }, [userRecord, applyMembership])
+
+  const stopImpersonation = useCallback(() => {
+    setImpersonatedMerchantId(null)
+    setMerchant(null)
+    setRole(null)
+    setReadOnly(false)
+  }, [])
 
   return (
-    <AuthContext.Provider value={{ user, userRecord, merchant, loadingContext, loading, signOut, refreshMerchant }}>
+    <AuthContext.Provider value={{
+      user,
+      userRecord,
+      merchant,
+      role,
+      readOnly,
+      loadingContext,
+      signOut,
+      refreshMerchant,
+      startImpersonation,
+      stopImpersonation,
+    }}>
       {children}
     </AuthContext.Provider>
   )
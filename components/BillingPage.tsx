@@ -0,0 +1,924 @@
+'use client'
+
+import { useAuth } from '@/components/AuthProvider'
+import Chart from '@/components/Chart'
+import DashboardLayout from '@/components/DashboardLayout'
+import ExportButton from '@/components/ExportButton'
+import LocationBreakdown from '@/components/LocationBreakdown'
+import { useTranslation } from '@/components/LanguageProvider'
+import {
+  MerchantMetrics,
+  addRedemptionToSeries,
+  fetchMerchantMetrics,
+  getDateKey,
+  isInCurrentMonth,
+} from '@/lib/metrics'
+import {
+  BillingPeriod,
+  MAX_PERIOD_DAYS,
+  PeriodComparison,
+  PeriodMetrics,
+  addRedemptionToPeriod,
+  countDays,
+  fetchPeriodComparison,
+  getPeriodChange,
+  listPeriodMonths,
+} from '@/lib/billing-periods'
+import { getBudgetStatus, isBudgetPauseExpired, updateMonthlyBudget } from '@/lib/budget'
+import { resolveTimeZone } from '@/lib/offer-schedule'
+import { MonthlyStatement, fetchStatements, getInvoiceUrl } from '@/lib/statements'
+import { RedemptionLedgerRow } from '@/lib/redemptions'
+import { useRedemptionFeed } from '@/lib/redemption-feed'
+import { hasPermission } from '@/lib/team'
+import { useRouter } from 'next/navigation'
+import { callWebhook } from '@/lib/webhook-config'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+
+type BillingMetrics = Pick<MerchantMetrics, 'monthlyRedemptions' | 'monthlyCharges' | 'chargePerRedemption' | 'dailySeries'>
+
+/** Loaded by app/dashboard/billing/page.tsx for the current month; null where that failed */
+export interface BillingInitialData {
+  metrics: BillingMetrics | null
+  statements: MonthlyStatement[] | null
+  comparison: PeriodComparison | null
+}
+
+const TOP_UP_AMOUNTS = [50, 100, 200] as const
+
+type BillingActionType = 'manage subscription' | 'reactivate subscription' | 'new subscription' | 'top-up'
+
+export default function BillingPage({ initialData }: { initialData: BillingInitialData | null }) {
+  const { user, merchant, role, loadingContext, refreshMerchant } = useAuth()
+  const router = useRouter()
+  const { t, locale, language } = useTranslation()
+  const [metrics, setMetrics] = useState<BillingMetrics>(initialData?.metrics ?? {
+    monthlyRedemptions: 0,
+    monthlyCharges: 0,
+    chargePerRedemption: 0,
+    dailySeries: [],
+  })
+  const [billingLoading, setBillingLoading] = useState(!initialData?.metrics)
+  const [pendingAction, setPendingAction] = useState<BillingActionType | null>(null)
+  const [topUpAmount, setTopUpAmount] = useState<number>(TOP_UP_AMOUNTS[0])
+  const [budgetInput, setBudgetInput] = useState(() =>
+    merchant?.monthly_budget ? String(merchant.monthly_budget) : ''
+  )
+  const [savingBudget, setSavingBudget] = useState(false)
+  const [statements, setStatements] = useState<MonthlyStatement[]>(initialData?.statements ?? [])
+  const [statementsLoading, setStatementsLoading] = useState(!initialData?.statements)
+  // null follows the current month
+  const [period, setPeriod] = useState<BillingPeriod | null>(null)
+  const [customRangeOpen, setCustomRangeOpen] = useState(false)
+  const [customRange, setCustomRange] = useState({ from: '', to: '' })
+  const [comparison, setComparison] = useState<PeriodComparison | null>(initialData?.comparison ?? null)
+  const [periodLoading, setPeriodLoading] = useState(!initialData?.comparison)
+  // Sections the server already loaded skip their first fetch
+  const seededRef = useRef({
+    metrics: Boolean(initialData?.metrics),
+    statements: Boolean(initialData?.statements),
+    comparison: Boolean(initialData?.comparison),
+  })
+  const redirectingRef = useRef(false)
+  const timeZone = resolveTimeZone(merchant?.timezone)
+  // Managers and cashiers get the no-access notice from DashboardLayout; skip the owner-only requests
+  const canViewBilling = hasPermission(role, 'view_billing')
+  const monthlyBudget = merchant?.monthly_budget ?? null
+  const today = getDateKey(new Date(), timeZone)
+  const currentMonth = today.slice(0, 7)
+  const activePeriod = useMemo<BillingPeriod>(
+    () => period ?? { kind: 'month', month: currentMonth },
+    [period, currentMonth]
+  )
+
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+
+  useEffect(() => {
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
+      redirectingRef.current = true
+      router.replace('/login')
+    }
+  }, [user, merchant, loadingContext, router])
+
+  const fetchBillingMetrics = useCallback(async () => {
+    if (!merchant) return
+
+    setBillingLoading(true)
+
+    try {
+      const { monthlyRedemptions, monthlyCharges, chargePerRedemption, dailySeries } = await fetchMerchantMetrics({ timeZone })
+
+      setMetrics({
+        monthlyRedemptions,
+        monthlyCharges,
+        chargePerRedemption,
+        dailySeries,
+      })
+    } catch (error) {
+      console.error('Error fetching billing data:', error)
+      toast.error(t('billing.fetchError'))
+    } finally {
+      setBillingLoading(false)
+    }
+  }, [merchant, t, timeZone])
+
+  const fetchPeriodMetrics = useCallback(async () => {
+    if (!merchant) return
+
+    setPeriodLoading(true)
+
+    try {
+      setComparison(await fetchPeriodComparison(activePeriod, { timeZone }))
+    } catch (error) {
+      console.error('Error fetching period metrics:', error)
+      toast.error(t('billing.fetchError'))
+    } finally {
+      setPeriodLoading(false)
+    }
+  }, [activePeriod, merchant, t, timeZone])
+
+  const fetchBillingStatements = useCallback(async () => {
+    if (!merchant) return
+
+    setStatementsLoading(true)
+
+    try {
+      const summary = await fetchStatements({ timeZone })
+      setStatements(summary.statements)
+    } catch (error) {
+      console.error('Error fetching statements:', error)
+      toast.error(t('billing.statementsFetchError'))
+    } finally {
+      setStatementsLoading(false)
+    }
+  }, [merchant, t, timeZone])
+
+  useEffect(() => {
+    if (seededRef.current.metrics) {
+      seededRef.current.metrics = false
+      return
+    }
+    if (merchant && canViewBilling) {
+      fetchBillingMetrics()
+    }
+  }, [merchant, canViewBilling, fetchBillingMetrics])
+
+  useEffect(() => {
+    if (seededRef.current.statements) {
+      seededRef.current.statements = false
+      return
+    }
+    if (merchant && canViewBilling) {
+      fetchBillingStatements()
+    }
+  }, [merchant, canViewBilling, fetchBillingStatements])
+
+  useEffect(() => {
+    if (seededRef.current.comparison) {
+      seededRef.current.comparison = false
+      return
+    }
+    if (merchant && canViewBilling) {
+      fetchPeriodMetrics()
+    }
+  }, [merchant, canViewBilling, fetchPeriodMetrics])
+
+  useEffect(() => {
+    setBudgetInput(monthlyBudget ? String(monthlyBudget) : '')
+  }, [monthlyBudget])
+
+  const handleLiveRedemption = useCallback((row: RedemptionLedgerRow) => {
+    setComparison((prev) => (prev ? addRedemptionToPeriod(prev, row.redeemed_at, timeZone, row.location_id) : prev))
+
+    if (!isInCurrentMonth(row.redeemed_at, timeZone)) return
+
+    setMetrics((prev) => ({
+      ...prev,
+      monthlyRedemptions: prev.monthlyRedemptions + 1,
+      monthlyCharges: prev.monthlyCharges + prev.chargePerRedemption,
+      dailySeries: addRedemptionToSeries(prev.dailySeries, row.redeemed_at, prev.chargePerRedemption, timeZone),
+    }))
+  }, [timeZone])
+
+  useRedemptionFeed(merchant?.id, handleLiveRedemption)
+
+  const triggerBillingAction = useCallback(
+    async (action: BillingActionType, quantity?: number) => {
+      if (!merchant) return
+
+      // Use centralized webhook configuration
+
+      if (!merchant.owner_user_id) {
+        toast.error(t('billing.actionError'))
+        return
+      }
+
+      if (action === 'top-up' && (!quantity || quantity <= 0)) {
+        toast.error(t('billing.topUpMinimumError'))
+        return
+      }
+
+      try {
+        setPendingAction(action)
+
+        const payload: Record<string, unknown> = {
+          type: action,
+          user_id: merchant.owner_user_id,
+        }
+
+        if (action === 'top-up') {
+          payload.quantity = quantity
+        }
+
+        const webhookResult = await callWebhook('BILLING_WEBHOOK', payload)
+
+        if (!webhookResult.success) {
+          throw new Error(webhookResult.error || 'Webhook call failed')
+        }
+
+        const result = webhookResult.data as { url?: string } | undefined
+
+        if (result?.url) {
+          toast.success(t('billing.actionRedirecting'))
+          const opened = window.open(result.url, '_blank', 'noopener,noreferrer')
+
+          if (!opened) {
+            toast.error(t('billing.popupBlockedError'))
+          }
+          return
+        }
+
+        console.warn('Webhook response missing URL', result)
+        toast.error(t('billing.actionMissingUrl'))
+      } catch (error) {
+        console.error('Error triggering billing action:', error)
+        toast.error(t('billing.actionError'))
+      } finally {
+        setPendingAction(null)
+      }
+    },
+    [merchant, t]
+  )
+
+  const handlePeriodSelect = (value: string) => {
+    if (value === 'custom') {
+      setCustomRange({
+        from: comparison?.current.from ?? `${currentMonth}-01`,
+        to: comparison?.current.to ?? today,
+      })
+      setCustomRangeOpen(true)
+      return
+    }
+
+    setCustomRangeOpen(false)
+    setPeriod(
+      value === 'ytd'
+        ? { kind: 'ytd' }
+        : value === `month:${currentMonth}`
+        ? null
+        : { kind: 'month', month: value.replace('month:', '') }
+    )
+  }
+
+  const applyCustomRange = (event: React.FormEvent) => {
+    event.preventDefault()
+    const { from, to } = customRange
+
+    if (!from || !to || from > to || from > today) {
+      toast.error(t('billing.periodInvalidRange'))
+      return
+    }
+
+    if (countDays({ from, to }) > MAX_PERIOD_DAYS) {
+      toast.error(t('billing.periodRangeTooLong', { days: MAX_PERIOD_DAYS }))
+      return
+    }
+
+    setPeriod({ kind: 'custom', from, to })
+  }
+
+  const handleTopUp = useCallback(() => {
+    triggerBillingAction('top-up', topUpAmount)
+  }, [topUpAmount, triggerBillingAction])
+
+  const saveBudget = useCallback(
+    async (budget: number | null) => {
+      if (!merchant) return
+
+      if (budget !== null && (!Number.isFinite(budget) || budget <= 0)) {
+        toast.error(t('billing.budgetInvalid'))
+        return
+      }
+
+      try {
+        setSavingBudget(true)
+        const { resumedOffers, pausedOffers } = await updateMonthlyBudget(merchant.id, budget)
+        await refreshMerchant()
+        toast.success(
+          resumedOffers > 0
+            ? t('billing.budgetSavedResumed', { count: resumedOffers })
+            : pausedOffers > 0
+            ? t('billing.budgetSavedPaused', { count: pausedOffers })
+            : budget === null
+            ? t('billing.budgetRemoved')
+            : t('billing.budgetSaved')
+        )
+      } catch (error) {
+        console.error('Error saving monthly budget:', error)
+        toast.error(t('billing.budgetSaveError'))
+      } finally {
+        setSavingBudget(false)
+      }
+    },
+    [merchant, refreshMerchant, t]
+  )
+
+  if (loadingContext || billingLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user || !merchant) {
+    return null
+  }
+
+  const subscriptionStatus = merchant.subscription_status ?? null
+  const subscriptionValidUntil = merchant.subscription_valid_until
+    ? new Date(merchant.subscription_valid_until)
+    : null
+  const isActive = subscriptionStatus === 'active'
+  const isTrial = subscriptionStatus === 'trial'
+  const hasValidPeriod = subscriptionValidUntil ? subscriptionValidUntil.getTime() > Date.now() : false
+  const isExpired = !isActive && !isTrial && subscriptionValidUntil ? subscriptionValidUntil.getTime() <= Date.now() : false
+  const hasHistory = Boolean(
+    subscriptionValidUntil || merchant.last_payment_at || subscriptionStatus === 'canceled'
+  )
+
+  const statusLabel = isActive
+    ? t('dashboard.statusActive')
+    : isTrial
+    ? t('dashboard.statusTrial')
+    : subscriptionStatus === 'suspended'
+    ? t('dashboard.statusSuspended')
+    : subscriptionStatus === 'canceled'
+    ? hasValidPeriod
+      ? t('billing.statusCanceled')
+      : t('billing.statusExpired')
+    : isExpired
+    ? t('billing.statusExpired')
+    : t('common.inactive')
+
+  const statusStyles = isActive
+    ? 'bg-green-50 text-green-600'
+    : isTrial || hasValidPeriod
+    ? 'bg-yellow-50 text-yellow-700'
+    : 'bg-red-50 text-red-600'
+
+  const planCopy = isTrial
+    ? t('billing.planDescriptionTrial')
+    : isActive
+    ? t('billing.planDescriptionActive')
+    : hasHistory
+    ? t('billing.planDescriptionInactive')
+    : t('billing.planDescriptionNew')
+
+  const formattedSubscriptionValidUntil = subscriptionValidUntil
+    ? subscriptionValidUntil.toLocaleDateString(locale, {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+      })
+    : null
+
+  const subscriptionEndLabel = !isActive && !isTrial && formattedSubscriptionValidUntil && subscriptionValidUntil
+    ? subscriptionValidUntil.getTime() > Date.now()
+      ? t('billing.subscriptionWillEndOn', { date: formattedSubscriptionValidUntil })
+      : t('billing.subscriptionEndedOn', { date: formattedSubscriptionValidUntil })
+    : null
+
+  const renewalLabel = subscriptionEndLabel
+    ? subscriptionEndLabel
+    : formattedSubscriptionValidUntil
+    ? formattedSubscriptionValidUntil
+    : hasHistory
+    ? t('dashboard.noData')
+    : t('billing.noRenewalYet')
+
+  const planRateLabel = isActive
+    ? t('billing.paidLabel')
+    : isTrial
+    ? t('billing.trialLabel')
+    : hasHistory
+    ? t('billing.planInactiveLabel')
+    : t('billing.planNewLabel')
+
+  const subscriptionDescription = isActive
+    ? t('billing.subscriptionActionsDescription')
+    : hasHistory
+    ? t('billing.subscriptionActionsDescriptionInactive')
+    : t('billing.subscriptionActionsDescriptionNew')
+
+  const primaryAction: { label: string; type: BillingActionType } = isActive
+    ? {
+        label: t('billing.manageSubscriptionCta'),
+        type: 'manage subscription',
+      }
+    : !isTrial && hasValidPeriod
+    ? {
+        label: t('billing.resumeSubscriptionCta'),
+        type: 'reactivate subscription',
+      }
+    : {
+        label: hasHistory ? t('billing.subscribeAgainCta') : t('billing.subscribeCta'),
+        type: 'new subscription',
+      }
+
+  const balanceEuros = (merchant.balance_cents ?? 0) / 100
+  const budgetStatus = getBudgetStatus(monthlyBudget, metrics)
+  const isBudgetPaused = Boolean(merchant.budget_paused_at) && !isBudgetPauseExpired(merchant.budget_paused_at, timeZone)
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <header>
+          <h1 className="text-3xl font-semibold text-gray-900">{t('billing.title')}</h1>
+          <p className="mt-2 text-gray-600">{t('billing.subtitle')}</p>
+        </header>
+
+        <section className="card flex flex-col gap-6 md:flex-row md:items-center md:justify-between">
+          <div>
+            <span className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold ${statusStyles}`}>
+              {statusLabel.toUpperCase()}
+            </span>
+            <h2 className="mt-4 text-2xl font-semibold text-gray-900">{statusLabel}</h2>
+            <p className="mt-2 text-sm text-gray-500">{planCopy}</p>
+          </div>
+          <div className="rounded-xl bg-gray-50 px-6 py-4 text-right">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{t('billing.nextRenewal')}</p>
+            <p className="mt-2 text-lg font-semibold text-gray-900">{renewalLabel}</p>
+            <p className="text-sm text-gray-500">{planRateLabel}</p>
+          </div>
+        </section>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <section className="card flex flex-col gap-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{t('billing.topUpTitle')}</h3>
+              <p className="mt-2 text-sm text-gray-500">{t('billing.topUpDescription')}</p>
+            </div>
+            <div className="flex items-center justify-between rounded-lg border border-gray-100 bg-gray-50 px-4 py-4">
+              <div>
+                <p className="text-sm font-medium text-gray-600">{t('billing.balanceLabel')}</p>
+                <p className="mt-1 text-2xl font-semibold text-gray-900">
+                  {currencyFormatter.format(balanceEuros)}
+                </p>
+              </div>
+              <p className="max-w-[200px] text-right text-xs text-gray-500">{t('billing.balanceDescription')}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700">{t('billing.topUpAmountLabel')}</p>
+              <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-3">
+                {TOP_UP_AMOUNTS.map((amount) => {
+                  const isSelected = topUpAmount === amount
+                  return (
+                    <button
+                      key={amount}
+                      type="button"
+                      onClick={() => setTopUpAmount(amount)}
+                      aria-pressed={isSelected}
+                      className={`rounded-lg border px-4 py-3 text-sm font-semibold transition focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 ${
+                        isSelected
+                          ? 'border-primary-500 bg-primary-50 text-primary-700'
+                          : 'border-gray-200 text-gray-700 hover:border-primary-200 hover:text-primary-700'
+                      }`}
+                    >
+                      {currencyFormatter.format(amount)}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={handleTopUp}
+              className="btn btn-secondary w-full"
+              disabled={pendingAction !== null}
+            >
+              {pendingAction === 'top-up' ? t('common.loading') : t('billing.topUpButton')}
+            </button>
+          </section>
+
+          <section className="card flex flex-col gap-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{t('billing.subscriptionActionsTitle')}</h3>
+              <p className="mt-2 text-sm text-gray-500">{subscriptionDescription}</p>
+            </div>
+            <div className="flex items-center gap-3 rounded-lg border border-gray-100 bg-gray-50 px-4 py-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary-100 text-primary-600">
+                <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+                </svg>
+              </div>
+              <div className="flex-1 text-sm text-gray-600">
+                {merchant.stripe_customer_id ? t('billing.paymentOnFile') : t('billing.paymentMissing')}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => triggerBillingAction(primaryAction.type)}
+              className="btn btn-primary w-full"
+              disabled={pendingAction !== null}
+            >
+              {pendingAction === primaryAction.type ? t('common.loading') : primaryAction.label}
+            </button>
+          </section>
+        </div>
+
+        <section className="card">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{t('billing.chargesTitle')}</h3>
+              <p className="mt-2 text-sm text-gray-500">{t('billing.chargesDescription', {
+                amount: currencyFormatter.format(metrics.chargePerRedemption),
+              })}</p>
+            </div>
+            <ExportButton
+              dataset="charges"
+              merchantId={merchant.id}
+              timeZone={timeZone}
+              initialRange={comparison ? { from: comparison.current.from, to: comparison.current.to } : undefined}
+            />
+          </div>
+          <div className="mt-6 flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="sm:w-64">
+              <label className="form-label" htmlFor="billing_period">{t('billing.periodLabel')}</label>
+              <select
+                id="billing_period"
+                className="input mt-1"
+                value={
+                  customRangeOpen || activePeriod.kind === 'custom'
+                    ? 'custom'
+                    : activePeriod.kind === 'ytd'
+                    ? 'ytd'
+                    : `month:${activePeriod.month}`
+                }
+                onChange={(event) => handlePeriodSelect(event.target.value)}
+              >
+                {listPeriodMonths(today).map((month) => (
+                  <option key={month} value={`month:${month}`}>
+                    {month === currentMonth ? t('billing.periodCurrentMonth') : formatMonthLabel(month, locale)}
+                  </option>
+                ))}
+                <option value="ytd">{t('billing.periodYearToDate')}</option>
+                <option value="custom">{t('billing.periodCustom')}</option>
+              </select>
+            </div>
+            {customRangeOpen && (
+              <form onSubmit={applyCustomRange} className="flex flex-1 flex-col gap-3 sm:flex-row sm:items-end">
+                <div>
+                  <label className="form-label" htmlFor="billing_period_from">{t('billing.periodFrom')}</label>
+                  <input
+                    id="billing_period_from"
+                    type="date"
+                    className="input mt-1"
+                    value={customRange.from}
+                    max={customRange.to || today}
+                    onChange={(event) => setCustomRange((prev) => ({ ...prev, from: event.target.value }))}
+                  />
+                </div>
+                <div>
+                  <label className="form-label" htmlFor="billing_period_to">{t('billing.periodTo')}</label>
+                  <input
+                    id="billing_period_to"
+                    type="date"
+                    className="input mt-1"
+                    value={customRange.to}
+                    min={customRange.from || undefined}
+                    max={today}
+                    onChange={(event) => setCustomRange((prev) => ({ ...prev, to: event.target.value }))}
+                  />
+                </div>
+                <button type="submit" className="btn btn-secondary">{t('billing.periodApply')}</button>
+              </form>
+            )}
+          </div>
+
+          {periodLoading && !comparison ? (
+            <div className="mt-6 flex justify-center py-10">
+              <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-primary-600"></div>
+            </div>
+          ) : comparison ? (
+            <div className={`mt-6 space-y-4 ${periodLoading ? 'opacity-60' : ''}`}>
+              <p className="text-sm text-gray-500">
+                {t('billing.periodComparedWith', {
+                  current: formatDateRange(comparison.current, locale),
+                  previous: formatDateRange(comparison.previous, locale),
+                })}
+              </p>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <PeriodStat
+                  label={t('billing.redemptions')}
+                  value={numberFormatter.format(comparison.current.redemptions)}
+                  previousValue={numberFormatter.format(comparison.previous.redemptions)}
+                  change={getPeriodChange(comparison.current.redemptions, comparison.previous.redemptions)}
+                />
+                <PeriodStat
+                  label={t('billing.amountBilled')}
+                  value={currencyFormatter.format(comparison.current.charges)}
+                  previousValue={currencyFormatter.format(comparison.previous.charges)}
+                  change={getPeriodChange(comparison.current.charges, comparison.previous.charges)}
+                />
+              </div>
+              <PeriodChart period={comparison.current} />
+              <LocationBreakdown totals={comparison.current.byLocation} />
+              <p className="text-sm text-gray-500">
+                {t('billing.chargesSummary', {
+                  count: numberFormatter.format(comparison.current.redemptions),
+                  amount: currencyFormatter.format(comparison.current.charges),
+                })}
+              </p>
+            </div>
+          ) : null}
+        </section>
+
+        <section id="budget" className="card">
+          <h3 className="text-lg font-semibold text-gray-900">{t('billing.budgetTitle')}</h3>
+          <p className="mt-2 text-sm text-gray-500">{t('billing.budgetDescription')}</p>
+
+          {isBudgetPaused && (
+            <p className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+              {t('billing.budgetPausedNotice')}
+            </p>
+          )}
+
+          {budgetStatus.budget !== null && (
+            <div className="mt-6 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">
+                  {t('billing.budgetUsed', {
+                    charges: currencyFormatter.format(budgetStatus.charges),
+                    budget: currencyFormatter.format(budgetStatus.budget),
+                  })}
+                </span>
+                <span className="font-medium text-gray-900">{Math.round(budgetStatus.ratio * 100)}%</span>
+              </div>
+              <div
+                className="h-2 overflow-hidden rounded-full bg-gray-100"
+                role="progressbar"
+                aria-label={t('billing.budgetTitle')}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(budgetStatus.ratio * 100)}
+              >
+                <div
+                  className={`h-full rounded-full ${
+                    budgetStatus.level === 'reached'
+                      ? 'bg-red-500'
+                      : budgetStatus.level === 'warning'
+                      ? 'bg-yellow-500'
+                      : 'bg-primary-600'
+                  }`}
+                  style={{ width: `${budgetStatus.ratio * 100}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {t('billing.budgetProjected', { amount: currencyFormatter.format(budgetStatus.projected) })}
+              </p>
+            </div>
+          )}
+
+          <form
+            className="mt-6 flex flex-col gap-3 sm:flex-row sm:items-end"
+            onSubmit={(event) => {
+              event.preventDefault()
+              saveBudget(budgetInput.trim() ? Number(budgetInput) : null)
+            }}
+          >
+            <div className="flex-1">
+              <label className="form-label" htmlFor="monthly_budget">{t('billing.budgetLabel')}</label>
+              <input
+                id="monthly_budget"
+                type="number"
+                min={1}
+                step={1}
+                inputMode="decimal"
+                className="input"
+                value={budgetInput}
+                placeholder={t('billing.budgetPlaceholder')}
+                onChange={(event) => setBudgetInput(event.target.value)}
+              />
+            </div>
+            <button type="submit" className="btn btn-primary" disabled={savingBudget}>
+              {savingBudget ? t('common.loading') : t('billing.budgetSave')}
+            </button>
+            {monthlyBudget !== null && (
+              <button
+                type="button"
+                className="btn btn-secondary"
+                disabled={savingBudget}
+                onClick={() => saveBudget(null)}
+              >
+                {t('billing.budgetRemove')}
+              </button>
+            )}
+          </form>
+        </section>
+
+        <section className="card">
+          <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{t('billing.historyTitle')}</h3>
+              <p className="mt-2 text-sm text-gray-500">{t('billing.statementsDescription')}</p>
+            </div>
+            <dl className="flex gap-6 rounded-lg bg-gray-50 px-4 py-3 text-sm">
+              <div>
+                <dt className="text-xs font-semibold uppercase tracking-wide text-gray-500">{t('billing.balanceLabel')}</dt>
+                <dd className="mt-1 font-semibold text-gray-900">{currencyFormatter.format(balanceEuros)}</dd>
+              </div>
+              <div>
+                <dt className="text-xs font-semibold uppercase tracking-wide text-gray-500">{t('billing.lastPaymentLabel')}</dt>
+                <dd className="mt-1 font-semibold text-gray-900">
+                  {merchant.last_payment_at
+                    ? new Date(merchant.last_payment_at).toLocaleDateString(locale, {
+                        day: 'numeric',
+                        month: 'long',
+                        year: 'numeric',
+                      })
+                    : t('dashboard.noData')}
+                </dd>
+              </div>
+            </dl>
+          </div>
+
+          {statementsLoading ? (
+            <div className="mt-6 flex justify-center py-10">
+              <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-primary-600"></div>
+            </div>
+          ) : statements.length === 0 ? (
+            <div className="mt-6 flex flex-col items-center justify-center rounded-xl border border-dashed border-gray-200 bg-gray-50 px-6 py-10 text-center text-sm text-gray-500">
+              <svg className="h-10 w-10 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              <p className="mt-3 font-medium text-gray-700">{t('billing.historyEmptyTitle')}</p>
+              <p className="mt-1 max-w-sm">{t('billing.historyEmptyDescription')}</p>
+            </div>
+          ) : (
+            <div className="mt-6 overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    <th className="py-3 pr-4">{t('billing.statementsMonth')}</th>
+                    <th className="py-3 pr-4 text-right">{t('billing.statementsRedemptions')}</th>
+                    <th className="py-3 pr-4 text-right">{t('billing.statementsCharges')}</th>
+                    <th className="py-3 pr-4 text-right">{t('billing.statementsTopUps')}</th>
+                    <th className="py-3 pr-4 text-right">{t('billing.statementsMovement')}</th>
+                    <th className="py-3 pr-4 text-right">{t('billing.statementsClosingBalance')}</th>
+                    <th className="py-3 text-right">{t('billing.statementsInvoice')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {statements.map((statement) => (
+                    <tr key={statement.month} className="text-gray-700">
+                      <td className="py-3 pr-4 font-medium capitalize text-gray-900">
+                        {formatMonthLabel(statement.month, locale)}
+                      </td>
+                      <td className="py-3 pr-4 text-right">{numberFormatter.format(statement.redemptions)}</td>
+                      <td className="py-3 pr-4 text-right">{currencyFormatter.format(statement.charges)}</td>
+                      <td className="py-3 pr-4 text-right">{currencyFormatter.format(statement.topUps)}</td>
+                      <td
+                        className={`py-3 pr-4 text-right ${
+                          statement.balanceMovement < 0 ? 'text-red-600' : statement.balanceMovement > 0 ? 'text-green-600' : ''
+                        }`}
+                      >
+                        {currencyFormatter.format(statement.balanceMovement)}
+                      </td>
+                      <td className="py-3 pr-4 text-right">
+                        {statement.closingBalance !== null ? currencyFormatter.format(statement.closingBalance) : '—'}
+                      </td>
+                      <td className="py-3 text-right">
+                        {statement.isCurrent ? (
+                          <span className="text-xs font-medium text-gray-500">{t('billing.statementsInProgress')}</span>
+                        ) : (
+                          <a
+                            href={getInvoiceUrl(statement.month, { language })}
+                            className="font-medium text-primary-600 hover:text-primary-700"
+                          >
+                            {t('billing.statementsDownload')}
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </div>
+    </DashboardLayout>
+  )
+}
+
+function formatMonthLabel(month: string, locale: string) {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' }).format(
+    new Date(Date.UTC(year, monthIndex - 1, 1))
+  )
+}
+
+function formatDateRange({ from, to }: { from: string; to: string }, locale: string) {
+  const formatter = new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+  return formatter.formatRange(new Date(`${from}T00:00:00Z`), new Date(`${to}T00:00:00Z`))
+}
+
+interface PeriodStatProps {
+  label: string
+  value: string
+  previousValue: string
+  change: number | null
+}
+
+function PeriodStat({ label, value, previousValue, change }: PeriodStatProps) {
+  const { t, locale } = useTranslation()
+  const percentFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0, signDisplay: 'exceptZero' }),
+    [locale]
+  )
+
+  return (
+    <div className="rounded-lg border border-gray-100 bg-gray-50 px-4 py-4">
+      <p className="text-sm font-medium text-gray-600">{label}</p>
+      <div className="mt-1 flex items-baseline gap-3">
+        <p className="text-2xl font-semibold text-gray-900">{value}</p>
+        {change !== null && (
+          <span
+            className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+              change > 0 ? 'bg-green-50 text-green-700' : change < 0 ? 'bg-red-50 text-red-700' : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            {percentFormatter.format(change)}
+          </span>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">{t('billing.periodPreviousValue', { value: previousValue })}</p>
+    </div>
+  )
+}
+
+type ChartMetric = 'charges' | 'redemptions'
+
+function PeriodChart({ period }: { period: PeriodMetrics }) {
+  const { t, locale } = useTranslation()
+  const [metric, setMetric] = useState<ChartMetric>('charges')
+  const formatters = useMemo(
+    () => ({
+      charges: new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+      redemptions: new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }),
+      day: new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'short', timeZone: 'UTC' }),
+      fullDay: new Intl.DateTimeFormat(locale, { dateStyle: 'full', timeZone: 'UTC' }),
+    }),
+    [locale]
+  )
+  const label = metric === 'charges' ? t('billing.amountBilled') : t('billing.redemptions')
+
+  return (
+    <div className="rounded-lg border border-gray-100 p-4">
+      <div className="mb-3 flex justify-end">
+        <div className="inline-flex rounded-lg border border-gray-200 p-0.5" role="group" aria-label={t('billing.chartMetricLabel')}>
+          {(['charges', 'redemptions'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMetric(option)}
+              aria-pressed={metric === option}
+              className={`rounded-md px-3 py-1 text-xs font-medium ${
+                metric === option ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {option === 'charges' ? t('billing.amountBilled') : t('billing.redemptions')}
+            </button>
+          ))}
+        </div>
+      </div>
+      <Chart
+        type="bar"
+        title={t('billing.chartTitle', { metric: label })}
+        labels={period.dailySeries.map((point) => point.date)}
+        series={[{ key: metric, label, values: period.dailySeries.map((point) => point[metric]) }]}
+        formatValue={(value) => formatters[metric].format(value)}
+        formatTick={(day) => formatters.day.format(new Date(`${day}T00:00:00Z`))}
+        formatLabel={(day) => formatters.fullDay.format(new Date(`${day}T00:00:00Z`))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+'use client'
+
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import { useTranslation } from './LanguageProvider'
+
+export interface ChartSeries {
+  key: string
+  label: string
+  /** One value per label */
+  values: number[]
+}
+
+interface ChartProps {
+  type: 'line' | 'bar'
+  /** Accessible name of the chart and caption of its data table */
+  title: string
+  labels: string[]
+  series: ChartSeries[]
+  formatValue: (value: number) => string
+  /** Full label for tooltips and the data table */
+  formatLabel?: (label: string) => string
+  /** Short label for the x axis */
+  formatTick?: (label: string) => string
+  height?: number
+}
+
+// Tailwind primary-600, green-600, amber-500, pink-600, violet-600, cyan-600
+export const CHART_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#db2777', '#7c3aed', '#0891b2']
+
+const PADDING = { top: 12, right: 12, bottom: 28, left: 56 }
+const MIN_TICK_SPACING = 72
+const DEFAULT_WIDTH = 640
+
+// Round a step up to 1, 2 or 5 times a power of ten
+function getNiceStep(value: number) {
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const fraction = value / magnitude
+  return (fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10) * magnitude
+}
+
+function getYAxis(values: number[]) {
+  const maxValue = Math.max(0, ...values)
+  if (maxValue <= 0) return { max: 1, ticks: [0, 1] }
+  // Counts never get fractional gridlines
+  const minStep = values.every(Number.isInteger) ? 1 : 0
+  const step = Math.max(minStep, getNiceStep(maxValue / 4))
+  const max = Math.ceil(maxValue / step) * step
+  return { max, ticks: Array.from({ length: Math.round(max / step) + 1 }, (_, index) => index * step) }
+}
+
+/**
+ * Responsive SVG line or bar chart with pointer and keyboard tooltips and a data table fallback
+ */
+export default function Chart({
+  type,
+  title,
+  labels,
+  series,
+  formatValue,
+  formatLabel = (label) => label,
+  formatTick = formatLabel,
+  height = 220,
+}: ChartProps) {
+  const { t } = useTranslation()
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const [width, setWidth] = useState(DEFAULT_WIDTH)
+  const [activeIndex, setActiveIndex] = useState<number | null>(null)
+  const tooltipId = useId()
+
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    setWidth(element.clientWidth || DEFAULT_WIDTH)
+
+    if (typeof ResizeObserver === 'undefined') return
+
+    const observer = new ResizeObserver((entries) => {
+      const nextWidth = entries[0]?.contentRect.width
+      if (nextWidth) setWidth(nextWidth)
+    })
+    observer.observe(element)
+
+    return () => {
+      observer.disconnect()
+    }
+  }, [])
+
+  useEffect(() => {
+    setActiveIndex((prev) => (prev !== null && prev >= labels.length ? null : prev))
+  }, [labels.length])
+
+  const plotWidth = Math.max(0, width - PADDING.left - PADDING.right)
+  const plotHeight = Math.max(0, height - PADDING.top - PADDING.bottom)
+  const band = labels.length > 0 ? plotWidth / labels.length : 0
+
+  const yAxis = useMemo(() => getYAxis(series.flatMap((item) => item.values)), [series])
+
+  const xOf = (index: number) => PADDING.left + band * (index + 0.5)
+  const yOf = (value: number) => PADDING.top + plotHeight - (value / yAxis.max) * plotHeight
+
+  const tickEvery = Math.max(1, Math.ceil(labels.length / Math.max(1, Math.floor(plotWidth / MIN_TICK_SPACING))))
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const index = Math.floor((event.clientX - bounds.left - PADDING.left) / band)
+    setActiveIndex(index >= 0 && index < labels.length ? index : null)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    if (labels.length === 0) return
+    const last = labels.length - 1
+    const current = activeIndex ?? -1
+    const next =
+      event.key === 'ArrowRight' ? Math.min(last, current + 1)
+        : event.key === 'ArrowLeft' ? Math.max(0, current < 0 ? last : current - 1)
+        : event.key === 'Home' ? 0
+        : event.key === 'End' ? last
+        : event.key === 'Escape' ? null
+        : undefined
+
+    if (next === undefined) return
+    event.preventDefault()
+    setActiveIndex(next)
+  }
+
+  const barGap = Math.min(4, band * 0.2)
+  const barWidth = series.length > 0 ? Math.max(1, (band - barGap) / series.length) : 0
+  const tooltipLeft = activeIndex !== null ? Math.min(Math.max(xOf(activeIndex), 80), width - 80) : 0
+
+  return (
+    <div className="space-y-3">
+      <div ref={containerRef} className="relative w-full">
+        <svg
+          width={width}
+          height={height}
+          role="img"
+          aria-label={title}
+          aria-describedby={activeIndex !== null ? tooltipId : undefined}
+          tabIndex={0}
+          className="block rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+          onPointerMove={handlePointerMove}
+          onPointerLeave={() => setActiveIndex(null)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setActiveIndex(null)}
+        >
+          {yAxis.ticks.map((tick) => (
+            <g key={tick}>
+              <line x1={PADDING.left} x2={width - PADDING.right} y1={yOf(tick)} y2={yOf(tick)} stroke="#e5e7eb" />
+              <text x={PADDING.left - 8} y={yOf(tick)} dy="0.32em" textAnchor="end" className="fill-gray-500 text-[11px]">
+                {formatValue(tick)}
+              </text>
+            </g>
+          ))}
+
+          {labels.map((label, index) =>
+            index % tickEvery === 0 ? (
+              <text key={label} x={xOf(index)} y={height - 8} textAnchor="middle" className="fill-gray-500 text-[11px]">
+                {formatTick(label)}
+              </text>
+            ) : null
+          )}
+
+          {activeIndex !== null && (
+            <rect x={PADDING.left + band * activeIndex} y={PADDING.top} width={band} height={plotHeight} fill="#f3f4f6" />
+          )}
+
+          {type === 'bar'
+            ? series.map((item, seriesIndex) =>
+                item.values.map((value, index) => (
+                  <rect
+                    key={`${item.key}-${index}`}
+                    x={PADDING.left + band * index + barGap / 2 + barWidth * seriesIndex}
+                    y={yOf(value)}
+                    width={barWidth}
+                    height={Math.max(0, PADDING.top + plotHeight - yOf(value))}
+                    rx={Math.min(2, barWidth / 2)}
+                    fill={CHART_COLORS[seriesIndex % CHART_COLORS.length]}
+                  />
+                ))
+              )
+            : series.map((item, seriesIndex) => (
+                <g key={item.key}>
+                  <polyline
+                    points={item.values.map((value, index) => `${xOf(index)},${yOf(value)}`).join(' ')}
+                    fill="none"
+                    stroke={CHART_COLORS[seriesIndex % CHART_COLORS.length]}
+                    strokeWidth={2}
+                    strokeLinejoin="round"
+                  />
+                  {activeIndex !== null && item.values[activeIndex] !== undefined && (
+                    <circle
+                      cx={xOf(activeIndex)}
+                      cy={yOf(item.values[activeIndex])}
+                      r={4}
+                      fill={CHART_COLORS[seriesIndex % CHART_COLORS.length]}
+                      stroke="#fff"
+                      strokeWidth={2}
+                    />
+                  )}
+                </g>
+              ))}
+        </svg>
+
+        {activeIndex !== null && (
+          <div
+            id={tooltipId}
+            role="status"
+            className="pointer-events-none absolute top-0 z-10 min-w-[140px] -translate-x-1/2 rounded-lg border border-gray-100 bg-white px-3 py-2 text-xs shadow-lg"
+            style={{ left: tooltipLeft }}
+          >
+            <p className="font-semibold text-gray-900">{formatLabel(labels[activeIndex])}</p>
+            <ul className="mt-1 space-y-0.5">
+              {series.map((item, seriesIndex) => (
+                <li key={item.key} className="flex items-center justify-between gap-3 text-gray-600">
+                  <span className="flex items-center gap-1.5">
+                    <span
+                      className="inline-block h-2 w-2 rounded-full"
+                      style={{ backgroundColor: CHART_COLORS[seriesIndex % CHART_COLORS.length] }}
+                    />
+                    {item.label}
+                  </span>
+                  <span className="font-medium text-gray-900">{formatValue(item.values[activeIndex] ?? 0)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {series.length > 1 && (
+        <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+          {series.map((item, seriesIndex) => (
+            <li key={item.key} className="flex items-center gap-1.5">
+              <span
+                className="inline-block h-2.5 w-2.5 rounded-full"
+                style={{ backgroundColor: CHART_COLORS[seriesIndex % CHART_COLORS.length] }}
+              />
+              {item.label}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-xs font-medium text-primary-600 hover:text-primary-700">
+          {t('charts.showTable')}
+        </summary>
+        <div className="mt-2 max-h-64 overflow-auto rounded-lg border border-gray-100">
+          <table className="min-w-full divide-y divide-gray-100 text-xs">
+            <caption className="sr-only">{title}</caption>
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left font-semibold text-gray-500">{t('charts.tableLabel')}</th>
+                {series.map((item) => (
+                  <th key={item.key} scope="col" className="px-3 py-2 text-right font-semibold text-gray-500">
+                    {item.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {labels.map((label, index) => (
+                <tr key={label}>
+                  <th scope="row" className="whitespace-nowrap px-3 py-1.5 text-left font-normal text-gray-700">
+                    {formatLabel(label)}
+                  </th>
+                  {series.map((item) => (
+                    <td key={item.key} className="px-3 py-1.5 text-right text-gray-900">
+                      {formatValue(item.values[index] ?? 0)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+    </div>
+  )
+}
@@ -3,11 +3,19 @@
 import { useAuth } from './AuthProvider'
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import Image from 'next/image'
 import { useTranslation } from './LanguageProvider'
 import LanguageSelector from './LanguageSelector'
+import { useLocations } from './LocationProvider'
+import NotificationBell from './NotificationBell'
 import { Merchant } from '@/lib/auth'
+import { BudgetStatus, getBudgetStatus, isBudgetPauseExpired, resumeBudgetPausedOffers } from '@/lib/budget'
+import { fetchMerchantMetrics } from '@/lib/metrics'
+import { MerchantNotification } from '@/lib/notifications'
+import { resolveTimeZone } from '@/lib/offer-schedule'
+import { isAllowedWhileSuspended } from '@/lib/route-access'
+import { getHomePath, getRoutePermission, hasPermission } from '@/lib/team'
 
 interface DashboardLayoutProps {
   children: React.ReactNode
@@ -27,11 +35,37 @@ const getIcon = (iconName: string, isActive: boolean) => {
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
       </svg>
     ),
+    scan: (
+      <svg className={`${base} ${isActive ? 'text-primary-600' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" />
+      </svg>
+    ),
+    redemptions: (
+      <svg className={`${base} ${isActive ? 'text-primary-600' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+      </svg>
+    ),
+    analytics: (
+      <svg className={`${base} ${isActive ? 'text-primary-600' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+      </svg>
+    ),
+    locations: (
+      <svg className={`${base} ${isActive ? 'text-primary-600' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+      </svg>
+    ),
     billing: (
       <svg className={`${base} ${isActive ? 'text-primary-600' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
       </svg>
     ),
+    team: (
+      <svg className={`${base} ${isActive ? 'text-primary-600' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+      </svg>
+    ),
     profile: (
       <svg className={`${base} ${isActive ? 'text-primary-600' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
@@ -42,7 +76,7 @@ const getIcon = (iconName: string, isActive: boolean) => {
 }
 
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
-  const { merchant, signOut } = useAuth()
+  const { merchant, role, readOnly, signOut, refreshMerchant, stopImpersonation } = useAuth()
   const router = useRouter()
   const pathname = usePathname()
   const { t } = useTranslation()
@@ -50,17 +84,39 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const [profileMenuOpen, setProfileMenuOpen] = useState(false)
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false)
   const profileMenuRef = useRef<HTMLDivElement | null>(null)
+  const isSuspended = merchant?.subscription_status === 'suspended'
 
   const navigation = useMemo(
-    () => [
-      { name: t('navigation.dashboard'), href: '/dashboard', icon: 'dashboard' },
-      { name: t('navigation.offers'), href: '/dashboard/offers', icon: 'offers' },
-      { name: t('navigation.billing'), href: '/dashboard/billing', icon: 'billing' },
-      { name: t('navigation.profile'), href: '/dashboard/profile', icon: 'profile' },
-    ],
-    [t]
+    () =>
+      [
+        { name: t('navigation.dashboard'), href: '/dashboard', icon: 'dashboard' },
+        { name: t('navigation.offers'), href: '/dashboard/offers', icon: 'offers' },
+        { name: t('navigation.scan'), href: '/dashboard/scan', icon: 'scan' },
+        { name: t('navigation.redemptions'), href: '/dashboard/redemptions', icon: 'redemptions' },
+        { name: t('navigation.analytics'), href: '/dashboard/analytics', icon: 'analytics' },
+        { name: t('navigation.locations'), href: '/dashboard/locations', icon: 'locations' },
+        { name: t('navigation.billing'), href: '/dashboard/billing', icon: 'billing' },
+        { name: t('navigation.team'), href: '/dashboard/team', icon: 'team' },
+        { name: t('navigation.profile'), href: '/dashboard/profile', icon: 'profile' },
+      ].filter((item) => {
+        const permission = getRoutePermission(item.href)
+        if (isSuspended && !isAllowedWhileSuspended(item.href)) return false
+        return permission !== null && hasPermission(role, permission)
+      }),
+    [t, role, isSuspended]
   )
 
+  // null while the role is loading; the pages show their own spinner until then
+  const routePermission = getRoutePermission(pathname)
+  const canViewPage = !role || !routePermission || hasPermission(role, routePermission)
+
+  // Cashiers only have the scanner, so send them there instead of showing an empty dashboard
+  useEffect(() => {
+    if (role && !canViewPage && pathname === '/dashboard') {
+      router.replace(getHomePath(role))
+    }
+  }, [role, canViewPage, pathname, router])
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (profileMenuRef.current && !profileMenuRef.current.contains(event.target as Node)) {
@@ -77,11 +133,26 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     }
   }, [profileMenuOpen])
 
+  // The budget trigger pauses offers server-side; reload the merchant so the banner picks it up
+  const handleNotification = useCallback(
+    (notification: MerchantNotification) => {
+      if (notification.type === 'budget_reached') {
+        refreshMerchant()
+      }
+    },
+    [refreshMerchant]
+  )
+
   const handleSignOut = async () => {
     await signOut()
     router.push('/')
   }
 
+  const handleStopImpersonation = () => {
+    stopImpersonation()
+    router.push('/admin')
+  }
+
   const renderNavItems = (isMobile = false) => (
     <nav
       className={
@@ -217,11 +288,16 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
                   </svg>
                 </button>
+                <LocationSwitcher />
               </div>
 
               <div className="flex items-center space-x-3">
                 <LanguageSelector />
 
+                {hasPermission(role, 'view_billing') && (
+                  <NotificationBell merchantId={merchant?.id} onNotification={handleNotification} />
+                )}
+
                 <div className="relative" ref={profileMenuRef}>
                   <button
                     type="button"
@@ -230,20 +306,22 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
                   >
                     <div className="hidden pr-3 text-right text-sm text-gray-600 sm:block">
                       <p className="font-medium text-gray-900">{merchant?.name || t('navigation.profile')}</p>
-                      <p className="text-xs text-gray-500">{t('navigation.profile')}</p>
+                      <p className="text-xs text-gray-500">{role ? t(`team.role_${role}`) : t('navigation.profile')}</p>
                     </div>
                     <Avatar merchant={merchant} />
                   </button>
 
                   {profileMenuOpen && (
                     <div className="absolute right-0 z-40 mt-3 w-48 origin-top-right rounded-lg border border-gray-100 bg-white p-1 shadow-lg">
-                      <Link
-                        href="/dashboard/profile"
-                        className="block rounded-md px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
-                        onClick={() => setProfileMenuOpen(false)}
-                      >
-                        {t('navigation.profile')}
-                      </Link>
+                      {hasPermission(role, 'manage_profile') && (
+                        <Link
+                          href="/dashboard/profile"
+                          className="block rounded-md px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                          onClick={() => setProfileMenuOpen(false)}
+                        >
+                          {t('navigation.profile')}
+                        </Link>
+                      )}
                       <button
                         onClick={handleSignOut}
                         className="block w-full rounded-md px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50"
@@ -259,8 +337,13 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
 
           <main className="flex-1">
             <div className="mx-auto w-full max-w-6xl px-4 py-8 sm:px-6 lg:px-8">
+              {readOnly && <ImpersonationBanner merchant={merchant} onExit={handleStopImpersonation} />}
+              {/* Budgets and charges are the owner's; admins viewing the account don't resume offers */}
+              {hasPermission(role, 'view_billing') && !readOnly && (
+                <BudgetBanner merchant={merchant} onResumed={refreshMerchant} />
+              )}
               <div className="bg-white rounded-2xl p-6 shadow-lg">
-                {children}
+                {canViewPage ? children : <NoAccess homePath={getHomePath(role)} />}
               </div>
             </div>
           </main>
@@ -303,3 +386,139 @@ function Avatar({ merchant, collapsed = false }: { merchant: Merchant | null | u
     </div>
   )
 }
+
+function LocationSwitcher() {
+  const { t } = useTranslation()
+  const { locations, selectedLocationId, selectLocation } = useLocations()
+
+  if (locations.length < 2) return null
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      <span className="sr-only">{t('navigation.locationSwitcher')}</span>
+      <select
+        value={selectedLocationId ?? ''}
+        onChange={(event) => selectLocation(event.target.value ? Number(event.target.value) : null)}
+        className="input h-10 max-w-[14rem] py-0"
+      >
+        <option value="">{t('navigation.allLocations')}</option>
+        {locations.map((location) => (
+          <option key={location.id} value={location.id}>
+            {location.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+function ImpersonationBanner({ merchant, onExit }: { merchant: Merchant | null | undefined; onExit: () => void }) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="mb-6 flex flex-col gap-2 rounded-lg border border-primary-200 bg-primary-50 px-4 py-3 text-sm text-primary-800 sm:flex-row sm:items-center sm:justify-between">
+      <p>{t('admin.impersonationBanner', { name: merchant?.name ?? '' })}</p>
+      <button type="button" onClick={onExit} className="whitespace-nowrap font-semibold underline">
+        {t('admin.impersonationExit')}
+      </button>
+    </div>
+  )
+}
+
+function NoAccess({ homePath }: { homePath: string }) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="py-12 text-center">
+      <h1 className="text-xl font-semibold text-gray-900">{t('team.noAccessTitle')}</h1>
+      <p className="mt-2 text-sm text-gray-500">{t('team.noAccessDescription')}</p>
+      <Link href={homePath} className="mt-4 inline-block text-sm font-medium text-primary-600 hover:text-primary-700">
+        {t('team.noAccessLink')}
+      </Link>
+    </div>
+  )
+}
+
+function BudgetBanner({
+  merchant,
+  onResumed,
+}: {
+  merchant: Merchant | null | undefined
+  onResumed: () => Promise<void>
+}) {
+  const { t, locale } = useTranslation()
+  const [status, setStatus] = useState<BudgetStatus | null>(null)
+  const merchantId = merchant?.id
+  const budget = merchant?.monthly_budget ?? null
+  const pausedAt = merchant?.budget_paused_at ?? null
+  const timeZone = resolveTimeZone(merchant?.timezone)
+
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+
+  useEffect(() => {
+    if (!merchantId) return
+
+    let isMounted = true
+
+    // Last month's pause is over; the cron job normally handles this, catch up if it hasn't run
+    if (isBudgetPauseExpired(pausedAt, timeZone)) {
+      resumeBudgetPausedOffers(merchantId)
+        .then(() => onResumed())
+        .catch((error) => {
+          console.error('Error resuming budget-paused offers:', error)
+        })
+      return
+    }
+
+    if (!budget) {
+      setStatus(null)
+      return
+    }
+
+    fetchMerchantMetrics({ timeZone })
+      .then((metrics) => {
+        if (isMounted) setStatus(getBudgetStatus(budget, metrics))
+      })
+      .catch((error) => {
+        console.error('Error fetching budget status:', error)
+      })
+
+    return () => {
+      isMounted = false
+    }
+  }, [merchantId, budget, pausedAt, timeZone, onResumed])
+
+  const isPaused = Boolean(pausedAt) && !isBudgetPauseExpired(pausedAt, timeZone)
+
+  if (!budget || (!isPaused && (!status || status.level === 'ok' || status.level === 'none'))) {
+    return null
+  }
+
+  const isReached = isPaused || status?.level === 'reached'
+  const message = isPaused
+    ? t('billing.budgetPausedBanner', { budget: currencyFormatter.format(budget) })
+    : isReached
+    ? t('billing.budgetReachedBanner', { budget: currencyFormatter.format(budget) })
+    : t('billing.budgetWarningBanner', {
+        charges: currencyFormatter.format(status?.charges ?? 0),
+        budget: currencyFormatter.format(budget),
+        projected: currencyFormatter.format(status?.projected ?? 0),
+      })
+
+  return (
+    <div
+      role="alert"
+      className={`mb-6 flex flex-col gap-2 rounded-lg border px-4 py-3 text-sm sm:flex-row sm:items-center sm:justify-between ${
+        isReached ? 'border-red-200 bg-red-50 text-red-800' : 'border-yellow-200 bg-yellow-50 text-yellow-800'
+      }`}
+    >
+      <p>{message}</p>
+      <Link href="/dashboard/billing#budget" className="whitespace-nowrap font-semibold underline">
+        {t('billing.budgetManageLink')}
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,626 @@
+'use client'
+
+import {useAuth} from '@/components/AuthProvider'
+import Chart from '@/components/Chart'
+import DashboardLayout from '@/components/DashboardLayout'
+import LocationBreakdown from '@/components/LocationBreakdown'
+import {Merchant} from '@/lib/auth'
+import {
+    LocationTotals,
+    MerchantMetrics,
+    addRedemptionToLocations,
+    fetchMerchantMetrics,
+    isInCurrentMonth
+} from '@/lib/metrics'
+import {
+    DEFAULT_TREND_WINDOW,
+    OfferTrends,
+    TREND_WINDOWS,
+    TrendWindow,
+    addRedemptionToTrends,
+    fetchOfferTrends
+} from '@/lib/offer-trends'
+import {resolveTimeZone} from '@/lib/offer-schedule'
+import {ACTIVITY_FEED_SIZE, RedemptionLedgerRow, fetchRedemptionLedger} from '@/lib/redemptions'
+import {useRedemptionFeed} from '@/lib/redemption-feed'
+import {hasPermission} from '@/lib/team'
+import Link from 'next/link'
+import {useRouter} from 'next/navigation'
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react'
+import {useTranslation} from '@/components/LanguageProvider'
+import {toast} from 'react-hot-toast'
+
+interface DashboardStats {
+    activeOffers: number
+    totalRedemptions: number
+    monthlyRedemptions: number
+    /** EUR; 0 for staff who can't see charges */
+    chargePerRedemption: number
+    subscriptionStatus: 'trial' | 'active' | 'suspended' | 'canceled' | 'inactive'
+    renewalDate: string | null
+    hasPaymentMethod: boolean
+    subscriptionEnded: boolean
+    subscriptionEndsSoon: boolean
+}
+
+/** Loaded by app/dashboard/page.tsx on the server; null where that failed */
+export interface DashboardInitialData {
+    metrics: MerchantMetrics | null
+    activity: RedemptionLedgerRow[] | null
+    trends: OfferTrends | null
+}
+
+// Busiest offers drawn on the trend chart
+const TREND_CHART_OFFERS = 5
+
+const EMPTY_STATS: DashboardStats = {
+    activeOffers: 0,
+    totalRedemptions: 0,
+    monthlyRedemptions: 0,
+    chargePerRedemption: 0,
+    subscriptionStatus: 'trial',
+    renewalDate: null,
+    hasPaymentMethod: false,
+    subscriptionEnded: false,
+    subscriptionEndsSoon: false
+}
+
+function buildDashboardStats(metrics: MerchantMetrics, merchant: Merchant | null): DashboardStats {
+    const subscriptionStatus = merchant?.subscription_status ?? 'inactive'
+    const renewalDate = merchant?.subscription_valid_until ?? null
+    const hasPaymentMethod = Boolean(merchant?.stripe_customer_id)
+    const subscriptionValidUntilDate = renewalDate ? new Date(renewalDate) : null
+    const now = new Date()
+    const subscriptionEnded = Boolean(
+        subscriptionValidUntilDate && subscriptionValidUntilDate.getTime() < now.getTime()
+    )
+    const subscriptionEndsSoon = Boolean(
+        subscriptionValidUntilDate &&
+        subscriptionValidUntilDate.getTime() >= now.getTime() &&
+        subscriptionValidUntilDate.getTime() - now.getTime() <= 7 * 24 * 60 * 60 * 1000
+    )
+
+    return {
+        activeOffers: metrics.activeOffers,
+        totalRedemptions: metrics.totalRedemptions,
+        monthlyRedemptions: metrics.monthlyRedemptions,
+        chargePerRedemption: metrics.chargePerRedemption,
+        subscriptionStatus,
+        renewalDate,
+        hasPaymentMethod,
+        subscriptionEnded,
+        subscriptionEndsSoon
+    }
+}
+
+export default function DashboardPageContent({initialData}: { initialData: DashboardInitialData | null }) {
+    const {user, merchant, role, loadingContext} = useAuth()
+    const router = useRouter()
+    const {t, locale} = useTranslation()
+    const [stats, setStats] = useState<DashboardStats>(() =>
+        initialData?.metrics ? buildDashboardStats(initialData.metrics, merchant) : EMPTY_STATS
+    )
+    const [statsLoading, setStatsLoading] = useState(!initialData?.metrics)
+    const [monthlyByLocation, setMonthlyByLocation] = useState<LocationTotals[]>(
+        initialData?.metrics?.monthlyByLocation ?? []
+    )
+    const [activity, setActivity] = useState<RedemptionLedgerRow[]>(initialData?.activity ?? [])
+    const [trendWindow, setTrendWindow] = useState<TrendWindow>(DEFAULT_TREND_WINDOW)
+    const [trends, setTrends] = useState<OfferTrends | null>(initialData?.trends ?? null)
+    const [trendsLoading, setTrendsLoading] = useState(!initialData?.trends)
+    // Sections the server already loaded skip their first fetch
+    const seededRef = useRef({
+        stats: Boolean(initialData?.metrics),
+        activity: Boolean(initialData?.activity),
+        trends: Boolean(initialData?.trends)
+    })
+    const redirectingRef = useRef(false)
+    const timeZone = resolveTimeZone(merchant?.timezone)
+    const canViewBilling = hasPermission(role, 'view_billing')
+
+  useEffect(() => {
+      console.log('Auth dasboard loading state changed:', loadingContext, user, merchant)
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
+      redirectingRef.current = true
+        console.log('User or merchant not found, redirecting to login page')
+      router.replace('/login')
+    }
+  }, [user, merchant, loadingContext, router])
+
+    const fetchDashboardStats = useCallback(async () => {
+        try {
+            const metrics = await fetchMerchantMetrics({timeZone})
+            setStats(buildDashboardStats(metrics, merchant))
+            setMonthlyByLocation(metrics.monthlyByLocation)
+        } catch (error) {
+            console.error('Error fetching dashboard stats:', error)
+        } finally {
+            setStatsLoading(false)
+        }
+    }, [merchant, timeZone])
+
+    useEffect(() => {
+        if (seededRef.current.stats) {
+            seededRef.current.stats = false
+            return
+        }
+        if (merchant) {
+            fetchDashboardStats()
+        }
+    }, [merchant, fetchDashboardStats])
+
+    const fetchRecentActivity = useCallback(async () => {
+        if (!merchant) return
+        try {
+            const {rows} = await fetchRedemptionLedger(merchant.id, {}, {pageSize: ACTIVITY_FEED_SIZE})
+            setActivity(rows)
+        } catch (error) {
+            console.error('Error fetching recent redemptions:', error)
+        }
+    }, [merchant])
+
+    useEffect(() => {
+        if (seededRef.current.activity) {
+            seededRef.current.activity = false
+            return
+        }
+        if (merchant) {
+            fetchRecentActivity()
+        }
+    }, [merchant, fetchRecentActivity])
+
+    const fetchTrends = useCallback(async () => {
+        if (!merchant) return
+        try {
+            setTrendsLoading(true)
+            setTrends(await fetchOfferTrends(merchant.id, trendWindow, timeZone))
+        } catch (error) {
+            console.error('Error fetching redemption trends:', error)
+            toast.error(t('dashboard.trendsError'))
+        } finally {
+            setTrendsLoading(false)
+        }
+    }, [merchant, trendWindow, timeZone, t])
+
+    useEffect(() => {
+        if (seededRef.current.trends) {
+            seededRef.current.trends = false
+            return
+        }
+        if (merchant) {
+            fetchTrends()
+        }
+    }, [merchant, fetchTrends])
+
+    const handleLiveRedemption = useCallback((row: RedemptionLedgerRow) => {
+        setStats((prev) => ({
+            ...prev,
+            totalRedemptions: prev.totalRedemptions + 1,
+            monthlyRedemptions: isInCurrentMonth(row.redeemed_at)
+                ? prev.monthlyRedemptions + 1
+                : prev.monthlyRedemptions
+        }))
+        if (isInCurrentMonth(row.redeemed_at)) {
+            setMonthlyByLocation((prev) => addRedemptionToLocations(prev, row.location_id, stats.chargePerRedemption))
+        }
+        setActivity((prev) => [row, ...prev.filter((item) => item.id !== row.id)].slice(0, ACTIVITY_FEED_SIZE))
+        setTrends((prev) => (prev ? addRedemptionToTrends(prev, row, timeZone) : prev))
+        toast.success(t('dashboard.liveRedemptionToast', {
+            student: formatActivityStudent(row, t('redemptions.unknownStudent')),
+            offer: row.offer.title
+        }))
+    }, [t, timeZone, stats.chargePerRedemption])
+
+    useRedemptionFeed(merchant?.id, handleLiveRedemption)
+
+    const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+
+    if (loadingContext || statsLoading) {
+        return (
+            <div className="flex min-h-screen items-center justify-center bg-white">
+                <div className="text-center">
+                    <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600 mx-auto"></div>
+                    <p className="mt-4 text-sm text-gray-600">Loading...</p>
+                </div>
+            </div>
+        )
+    }
+
+    if (!user || !merchant) {
+        return null
+    }
+
+    const renewalDate = stats.renewalDate
+        ? new Date(stats.renewalDate).toLocaleDateString(locale, {
+            month: 'long',
+            day: 'numeric',
+            year: 'numeric'
+        })
+        : t('dashboard.noData')
+
+    const subscriptionCardTone = stats.subscriptionStatus === 'active'
+        ? 'bg-green-50 text-green-600'
+        : stats.subscriptionStatus === 'trial'
+            ? 'bg-yellow-50 text-yellow-700'
+            : stats.subscriptionStatus === 'suspended'
+                ? 'bg-red-50 text-red-600'
+                : 'bg-gray-100 text-gray-600'
+
+    const subscriptionHeadline = stats.subscriptionStatus === 'active'
+        ? t('dashboard.statusActive')
+        : stats.subscriptionStatus === 'trial'
+            ? t('dashboard.statusTrial')
+            : stats.subscriptionStatus === 'suspended'
+                ? t('dashboard.statusSuspended')
+                : t('common.inactive')
+
+    const subscriptionMessage = (() => {
+        if (stats.subscriptionStatus === 'trial') {
+            return t('dashboard.subscriptionTrialMessage', {date: renewalDate})
+        }
+
+        if (stats.subscriptionStatus === 'active') {
+            if (stats.subscriptionEndsSoon) {
+                return t('dashboard.subscriptionEndingSoon', {date: renewalDate})
+            }
+            return t('dashboard.subscriptionActiveMessage', {date: renewalDate})
+        }
+
+        if (stats.subscriptionEnded) {
+            return t('dashboard.subscriptionEndedMessage', {date: renewalDate})
+        }
+
+        if (stats.subscriptionStatus === 'suspended') {
+            return t('dashboard.subscriptionSuspendedMessage')
+        }
+
+        return stats.hasPaymentMethod
+            ? t('dashboard.subscriptionInactivePaymentOnFile')
+            : t('dashboard.subscriptionInactiveNoPayment')
+    })()
+
+    const subscriptionPrimaryAction = stats.subscriptionStatus === 'active'
+        ? {href: '/dashboard/billing', label: t('dashboard.manageSubscriptionLink')}
+        : {href: '/dashboard/billing', label: t('billing.subscribeCta')}
+
+    const subscriptionSecondaryAction = !stats.hasPaymentMethod
+        ? {href: '/dashboard/billing', label: t('dashboard.addPaymentMethodLink')}
+        : null
+
+    const whatsNextItems = (() => {
+        const items: { tone: 'primary' | 'warning' | 'muted'; label: string }[] = []
+
+        if (canViewBilling && stats.subscriptionStatus === 'trial') {
+            items.push({tone: 'primary', label: t('dashboard.whatsNextTrial')})
+        }
+
+        if (canViewBilling && stats.subscriptionEndsSoon) {
+            items.push({tone: 'warning', label: t('dashboard.whatsNextRenewSoon', {date: renewalDate})})
+        }
+
+        if (canViewBilling && stats.subscriptionEnded) {
+            items.push({tone: 'warning', label: t('dashboard.whatsNextResume')})
+        }
+
+        if (stats.activeOffers === 0) {
+            items.push({tone: 'primary', label: t('dashboard.whatsNextCreateOffer')})
+        }
+
+        if (stats.monthlyRedemptions === 0 && stats.activeOffers > 0) {
+            items.push({tone: 'primary', label: t('dashboard.whatsNextPromoteOffer')})
+        }
+
+        if (canViewBilling && !stats.hasPaymentMethod) {
+            items.push({tone: 'muted', label: t('dashboard.whatsNextAddPayment')})
+        }
+
+        if (items.length === 0) {
+            items.push({tone: 'primary', label: t('dashboard.whatsNextAllGood')})
+        }
+
+        return items.slice(0, 3)
+    })()
+
+    return (
+        <DashboardLayout>
+            <div className="space-y-8">
+                <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                    <div>
+                        <h1 className="text-3xl font-semibold text-gray-900">{t('navigation.dashboard')}</h1>
+                        <p className="text-gray-600">{t('dashboard.welcome', {name: merchant.name})}</p>
+                    </div>
+                    <div className="flex flex-col gap-3 sm:flex-row">
+                        <Link
+                            href={{pathname: '/dashboard/offers', query: {view: 'create'}}}
+                            className="btn btn-primary flex items-center justify-center gap-2"
+                        >
+                            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4"/>
+                            </svg>
+                            {t('dashboard.createOffer')}
+                        </Link>
+                        {canViewBilling && (
+                            <Link
+                                href="/dashboard/billing"
+                                className="btn btn-secondary flex items-center justify-center gap-2"
+                            >
+                                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                                          d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z"/>
+                                </svg>
+                                {t('dashboard.goToBilling')}
+                            </Link>
+                        )}
+                    </div>
+                </div>
+
+                <div className={`grid gap-6 ${canViewBilling ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+                    <div className="card flex h-full flex-col justify-between gap-6">
+                        <div className="space-y-4">
+                            <div
+                                className="inline-flex items-center rounded-full bg-primary-50 px-3 py-1 text-xs font-semibold text-primary-600">
+                                {t('dashboard.activeOffers')}
+                            </div>
+                            <p className="text-4xl font-semibold text-gray-900">{numberFormatter.format(stats.activeOffers)}</p>
+                            <p className="text-sm text-gray-500">{t('dashboard.activeOffersDescription')}</p>
+                        </div>
+                        <Link href="/dashboard/offers"
+                              className="text-sm font-medium text-primary-600 hover:text-primary-700">
+                            {t('dashboard.manageOffersLink')}
+                        </Link>
+                    </div>
+
+                    <div className="card flex h-full flex-col justify-between gap-6">
+                        <div className="space-y-4">
+                            <div
+                                className="inline-flex items-center rounded-full bg-green-50 px-3 py-1 text-xs font-semibold text-green-600">
+                                {t('dashboard.redemptions')}
+                            </div>
+                            <div>
+                                <p className="text-4xl font-semibold text-gray-900">{numberFormatter.format(stats.totalRedemptions)}</p>
+                                <p className="text-sm text-gray-500">{t('dashboard.lifetimeRedemptions')}</p>
+                            </div>
+                            <div className="rounded-xl bg-gray-50 px-4 py-3">
+                                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{t('dashboard.thisMonth')}</p>
+                                <p className="mt-1 text-lg font-semibold text-gray-900">{numberFormatter.format(stats.monthlyRedemptions)}</p>
+                            </div>
+                            <LocationBreakdown totals={monthlyByLocation}/>
+                        </div>
+                        <Link href="/dashboard/redemptions"
+                              className="text-sm font-medium text-primary-600 hover:text-primary-700">
+                            {t('dashboard.viewPerformanceLink')}
+                        </Link>
+                    </div>
+
+                    {canViewBilling && (
+                        <div className="card flex h-full flex-col justify-between gap-6">
+                            <div className="space-y-4">
+                                <div
+                                    className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold ${subscriptionCardTone}`}>
+                                    {t('dashboard.subscription')} · {subscriptionHeadline}
+                                </div>
+                                <div>
+                                    <p className="text-3xl font-semibold text-gray-900">{subscriptionHeadline}</p>
+                                    <p className="mt-2 text-sm text-gray-500">{subscriptionMessage}</p>
+                                </div>
+                            </div>
+                            <div className="flex flex-col gap-2 sm:flex-row">
+                                <Link
+                                    href={subscriptionPrimaryAction.href}
+                                    className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                                >
+                                    {subscriptionPrimaryAction.label}
+                                </Link>
+                                {subscriptionSecondaryAction && (
+                                    <Link
+                                        href={subscriptionSecondaryAction.href}
+                                        className="text-sm font-medium text-gray-500 hover:text-gray-700"
+                                    >
+                                        {subscriptionSecondaryAction.label}
+                                    </Link>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="grid gap-6 md:grid-cols-2">
+                    <div className="card">
+                        <h2 className="text-lg font-semibold text-gray-900">{t('dashboard.quickActions')}</h2>
+                        <p className="mt-1 text-sm text-gray-500">{t('dashboard.quickActionsDescription')}</p>
+                        <div className="mt-6 grid gap-4 sm:grid-cols-2">
+                            <Link
+                                href="/dashboard/offers"
+                                className="flex h-full flex-col justify-between rounded-xl border border-gray-200 p-4 transition hover:border-primary-200 hover:bg-primary-50/70"
+                            >
+                                <div>
+                                    <div className="flex items-center justify-between">
+                                        <div
+                                            className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary-100 text-primary-600">
+                                            <svg className="h-5 w-5" fill="none" stroke="currentColor"
+                                                 viewBox="0 0 24 24">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                                                      d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"/>
+                                            </svg>
+                                        </div>
+                                        <span
+                                            className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-semibold text-green-700">
+                      {t('dashboard.activeOffersCount', {count: numberFormatter.format(stats.activeOffers)})}
+                    </span>
+                                    </div>
+                                    <h3 className="mt-4 text-base font-semibold text-gray-900">{t('dashboard.manageOffers')}</h3>
+                                </div>
+                                <p className="mt-2 text-sm text-gray-500">{t('dashboard.activeOffersDescription')}</p>
+                            </Link>
+
+                            {canViewBilling && (
+                                <Link
+                                    href="/dashboard/billing"
+                                    className="flex h-full flex-col justify-between rounded-xl border border-gray-200 p-4 transition hover:border-primary-200 hover:bg-primary-50/70"
+                                >
+                                    <div>
+                                        <div
+                                            className="flex h-10 w-10 items-center justify-center rounded-lg bg-green-100 text-green-600">
+                                            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                                                      d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z"/>
+                                            </svg>
+                                        </div>
+                                        <h3 className="mt-4 text-base font-semibold text-gray-900">{t('navigation.billing')}</h3>
+                                        <p className="mt-2 text-sm text-gray-500">{t('billing.subtitle')}</p>
+                                    </div>
+                                </Link>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="card h-full">
+                        <h2 className="text-lg font-semibold text-gray-900">{t('dashboard.whatsNext')}</h2>
+                        <p className="mt-1 text-sm text-gray-500">{t('dashboard.whatsNextDescription')}</p>
+                        <ul className="mt-6 space-y-4 text-sm text-gray-600">
+                            {whatsNextItems.map((item, index) => {
+                                const toneClass = item.tone === 'primary' ? 'bg-primary-500' : item.tone === 'warning' ? 'bg-yellow-500' : 'bg-gray-300'
+                                return (
+                                    <li key={index} className="flex items-start gap-3">
+                                        <span
+                                            className={`mt-1 inline-flex h-2.5 w-2.5 flex-shrink-0 rounded-full ${toneClass}`}></span>
+                                        {item.label}
+                                    </li>
+                                )
+                            })}
+                        </ul>
+                    </div>
+                </div>
+
+                <RedemptionTrendsCard
+                    trends={trends}
+                    loading={trendsLoading}
+                    trendWindow={trendWindow}
+                    onWindowChange={setTrendWindow}
+                />
+
+                <ActivityFeed activity={activity}/>
+            </div>
+        </DashboardLayout>
+    )
+}
+
+function formatActivityStudent(row: RedemptionLedgerRow, fallback: string) {
+    if (row.student?.instagram_handle) return `@${row.student.instagram_handle.replace(/^@/, '')}`
+    return row.student?.email || fallback
+}
+
+function ActivityFeed({activity}: { activity: RedemptionLedgerRow[] }) {
+    const {t, locale} = useTranslation()
+    const timeFormatter = useMemo(
+        () => new Intl.DateTimeFormat(locale, {dateStyle: 'medium', timeStyle: 'short'}),
+        [locale]
+    )
+
+    return (
+        <div className="card">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{t('dashboard.liveActivity')}</h2>
+                    <p className="mt-1 text-sm text-gray-500">{t('dashboard.liveActivityDescription')}</p>
+                </div>
+                <span className="inline-flex items-center gap-2 rounded-full bg-green-50 px-3 py-1 text-xs font-semibold text-green-600">
+                    <span className="h-2 w-2 animate-pulse rounded-full bg-green-500"></span>
+                    {t('dashboard.liveBadge')}
+                </span>
+            </div>
+            {activity.length === 0 ? (
+                <p className="mt-6 text-sm text-gray-500">{t('dashboard.liveActivityEmpty')}</p>
+            ) : (
+                <ul className="mt-6 divide-y divide-gray-100" aria-live="polite">
+                    {activity.map((row) => (
+                        <li key={row.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+                            <p className="text-gray-700">
+                                {t('dashboard.liveActivityItem', {
+                                    student: formatActivityStudent(row, t('redemptions.unknownStudent')),
+                                    offer: row.offer.title
+                                })}
+                            </p>
+                            <time className="whitespace-nowrap text-xs text-gray-500" dateTime={row.redeemed_at}>
+                                {timeFormatter.format(new Date(row.redeemed_at))}
+                            </time>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <Link href="/dashboard/redemptions"
+                  className="mt-4 inline-block text-sm font-medium text-primary-600 hover:text-primary-700">
+                {t('dashboard.viewAllRedemptionsLink')}
+            </Link>
+        </div>
+    )
+}
+
+interface RedemptionTrendsCardProps {
+    trends: OfferTrends | null
+    loading: boolean
+    trendWindow: TrendWindow
+    onWindowChange: (window: TrendWindow) => void
+}
+
+function RedemptionTrendsCard({trends, loading, trendWindow, onWindowChange}: RedemptionTrendsCardProps) {
+    const {t, locale} = useTranslation()
+    const formatters = useMemo(() => ({
+        number: new Intl.NumberFormat(locale),
+        day: new Intl.DateTimeFormat(locale, {day: 'numeric', month: 'short', timeZone: 'UTC'}),
+        fullDay: new Intl.DateTimeFormat(locale, {dateStyle: 'full', timeZone: 'UTC'})
+    }), [locale])
+    const chartOffers = trends ? trends.offers.slice(0, TREND_CHART_OFFERS) : []
+
+    return (
+        <div className="card">
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{t('dashboard.trendsTitle')}</h2>
+                    <p className="mt-1 text-sm text-gray-500">
+                        {t('dashboard.trendsDescription', {count: TREND_CHART_OFFERS})}
+                    </p>
+                </div>
+                <div className="inline-flex self-start rounded-lg border border-gray-200 p-0.5" role="group"
+                     aria-label={t('dashboard.trendsWindowLabel')}>
+                    {TREND_WINDOWS.map((option) => (
+                        <button
+                            key={option}
+                            type="button"
+                            onClick={() => onWindowChange(option)}
+                            aria-pressed={trendWindow === option}
+                            className={`rounded-md px-3 py-1 text-xs font-medium ${
+                                trendWindow === option ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:text-gray-700'
+                            }`}
+                        >
+                            {t('dashboard.trendsWindow', {days: option})}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {loading && !trends ? (
+                <div className="mt-6 flex justify-center py-10">
+                    <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-primary-600"></div>
+                </div>
+            ) : trends && chartOffers.length > 0 ? (
+                <div className={`mt-6 ${loading ? 'opacity-60' : ''}`}>
+                    <Chart
+                        type="line"
+                        title={t('dashboard.trendsChartTitle', {days: trendWindow})}
+                        labels={trends.days}
+                        series={chartOffers.map((offer) => ({
+                            key: String(offer.offerId),
+                            label: offer.title,
+                            values: offer.daily
+                        }))}
+                        formatValue={(value) => formatters.number.format(value)}
+                        formatTick={(day) => formatters.day.format(new Date(`${day}T00:00:00Z`))}
+                        formatLabel={(day) => formatters.fullDay.format(new Date(`${day}T00:00:00Z`))}
+                    />
+                </div>
+            ) : (
+                <p className="mt-6 text-sm text-gray-500">{t('dashboard.trendsEmpty', {days: trendWindow})}</p>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { useTranslation } from './LanguageProvider'
+import {
+  EXPORT_FORMATS,
+  ExportDataset,
+  ExportFormat,
+  ExportRange,
+  buildExportTable,
+  downloadExport,
+  getExportFilename,
+} from '@/lib/export'
+import { getDateKey } from '@/lib/metrics'
+
+interface ExportButtonProps {
+  dataset: ExportDataset
+  merchantId: number
+  timeZone?: string
+  /** Prefill the range, e.g. from the page's filters; defaults to the current month */
+  initialRange?: Partial<ExportRange>
+}
+
+function getDefaultRange(timeZone?: string): ExportRange {
+  const today = getDateKey(new Date(), timeZone)
+  return { from: `${today.slice(0, 7)}-01`, to: today }
+}
+
+export default function ExportButton({ dataset, merchantId, timeZone, initialRange }: ExportButtonProps) {
+  const { t, language } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [range, setRange] = useState<ExportRange>(() => getDefaultRange(timeZone))
+  const [format, setFormat] = useState<ExportFormat>('xlsx')
+  const [exporting, setExporting] = useState(false)
+
+  const openDialog = () => {
+    const defaults = getDefaultRange(timeZone)
+    setRange({ from: initialRange?.from || defaults.from, to: initialRange?.to || defaults.to })
+    setOpen(true)
+  }
+
+  useEffect(() => {
+    if (!open) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !exporting) {
+        setOpen(false)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open, exporting])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (!range.from || !range.to || range.from > range.to) {
+      toast.error(t('export.invalidRange'))
+      return
+    }
+
+    try {
+      setExporting(true)
+      const table = await buildExportTable(dataset, merchantId, range, { language, timeZone })
+      downloadExport(table, format, getExportFilename(dataset, range, format), { language, timeZone })
+      toast.success(t('export.success', { count: table.rows.length }))
+      setOpen(false)
+    } catch (error) {
+      console.error('Error exporting data:', error)
+      toast.error(t('export.error'))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <>
+      <button type="button" onClick={openDialog} className="btn btn-secondary inline-flex items-center gap-2">
+        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        {t('export.button')}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4 py-6">
+          <div className="relative w-full max-w-md rounded-2xl bg-white p-6 shadow-xl">
+            <button
+              onClick={() => setOpen(false)}
+              disabled={exporting}
+              className="absolute right-4 top-4 rounded-full bg-gray-100 p-2 text-gray-500 hover:text-gray-700"
+            >
+              <span className="sr-only">{t('common.close')}</span>
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+
+            <div className="mb-6">
+              <h2 className="text-2xl font-semibold text-gray-900">{t(`export.title_${dataset}`)}</h2>
+              <p className="text-sm text-gray-500">{t('export.description')}</p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <label className="form-label" htmlFor="export_from">{t('export.from')}</label>
+                  <input
+                    id="export_from"
+                    type="date"
+                    className="input mt-1"
+                    value={range.from}
+                    max={range.to || undefined}
+                    onChange={(event) => setRange((prev) => ({ ...prev, from: event.target.value }))}
+                  />
+                </div>
+                <div>
+                  <label className="form-label" htmlFor="export_to">{t('export.to')}</label>
+                  <input
+                    id="export_to"
+                    type="date"
+                    className="input mt-1"
+                    value={range.to}
+                    min={range.from || undefined}
+                    onChange={(event) => setRange((prev) => ({ ...prev, to: event.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <fieldset>
+                <legend className="form-label">{t('export.format')}</legend>
+                <div className="mt-2 flex gap-3">
+                  {EXPORT_FORMATS.map((option) => (
+                    <label
+                      key={option}
+                      className={`flex flex-1 cursor-pointer items-center justify-center rounded-lg border px-4 py-2 text-sm font-medium ${
+                        format === option
+                          ? 'border-primary-500 bg-primary-50 text-primary-700'
+                          : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="export_format"
+                        value={option}
+                        checked={format === option}
+                        onChange={() => setFormat(option)}
+                        className="sr-only"
+                      />
+                      {t(`export.format_${option}`)}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              <div className="flex justify-end gap-3">
+                <button type="button" onClick={() => setOpen(false)} className="btn btn-secondary" disabled={exporting}>
+                  {t('common.cancel')}
+                </button>
+                <button type="submit" className="btn btn-primary" disabled={exporting}>
+                  {exporting ? t('export.exporting') : t('export.download')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { useTranslation } from './LanguageProvider'
+
+interface InfiniteScrollSentinelProps {
+  onVisible: () => void
+  loading: boolean
+  /** Class for the wrapper, e.g. to show it on mobile only */
+  className?: string
+}
+
+// Start loading a little before the end of the list comes into view
+const ROOT_MARGIN = '200px'
+
+/**
+ * Placed after a list's last row: loads the next page when scrolled into view, with a
+ * button as a fallback for browsers without IntersectionObserver and for keyboard users.
+ */
+export default function InfiniteScrollSentinel({ onVisible, loading, className = '' }: InfiniteScrollSentinelProps) {
+  const { t } = useTranslation()
+  const ref = useRef<HTMLDivElement>(null)
+  const onVisibleRef = useRef(onVisible)
+
+  useEffect(() => {
+    onVisibleRef.current = onVisible
+  }, [onVisible])
+
+  useEffect(() => {
+    const node = ref.current
+    if (!node || loading || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onVisibleRef.current()
+        }
+      },
+      { rootMargin: ROOT_MARGIN }
+    )
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [loading])
+
+  return (
+    <div ref={ref} className={`flex justify-center px-4 py-4 ${className}`}>
+      {loading ? (
+        <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-primary-600" role="status">
+          <span className="sr-only">{t('common.loading')}</span>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={onVisible}
+          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+        >
+          {t('common.loadMore')}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -2,13 +2,17 @@
 
 import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
 import { supabase } from '@/lib/supabase'
-import { LANGUAGE_OPTIONS, LanguageCode, localeMap, translations } from '@/lib/i18n'
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_OPTIONS,
+  LanguageCode,
+  TranslationParams,
+  isLanguageCode,
+  localeMap,
+  translate as translateKey,
+} from '@/lib/i18n'
 import { useAuth } from './AuthProvider'
 
-interface TranslationParams {
-  [key: string]: string | number
-}
-
 interface LanguageContextValue {
   language: LanguageCode
   locale: string
@@ -18,29 +22,9 @@ interface LanguageContextValue {
 }
 
 const STORAGE_KEY = 'ovio-language'
-const DEFAULT_LANGUAGE: LanguageCode = 'en'
 
 const LanguageContext = createContext<LanguageContextValue | undefined>(undefined)
 
-function isLanguageCode(value: unknown): value is LanguageCode {
-  return LANGUAGE_OPTIONS.some((option) => option.code === value)
-}
-
-function resolveTranslation(code: LanguageCode, key: string): string | undefined {
-  const segments = key.split('.')
-  let current: unknown = translations[code]
-
-  for (const segment of segments) {
-    if (current && typeof current === 'object' && segment in current) {
-      current = current[segment]
-    } else {
-      return undefined
-    }
-  }
-
-  return typeof current === 'string' ? current : undefined
-}
-
 export function LanguageProvider({ children }: { children: React.ReactNode }) {
   const { merchant } = useAuth()
   const [language, setLanguageState] = useState<LanguageCode>(DEFAULT_LANGUAGE)
@@ -99,20 +83,7 @@ export function LanguageProvider({ children }: { children: React.ReactNode }) {
   }, [merchant])
 
   const translate = useCallback(
-    (key: string, replacements?: TranslationParams) => {
-      const direct = resolveTranslation(language, key)
-      const fallback = language === DEFAULT_LANGUAGE ? undefined : resolveTranslation(DEFAULT_LANGUAGE, key)
-      const template = direct ?? fallback ?? key
-
-      if (!replacements) {
-        return template
-      }
-
-      return template.replace(/\{\{(\w+)\}\}/g, (_, token) => {
-        const value = replacements[token]
-        return value !== undefined ? String(value) : ''
-      })
-    },
+    (key: string, replacements?: TranslationParams) => translateKey(language, key, replacements),
     [language]
   )
 
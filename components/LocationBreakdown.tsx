@@ -0,0 +1,68 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useTranslation } from './LanguageProvider'
+import { useLocations } from './LocationProvider'
+import type { LocationTotals } from '@/lib/metrics'
+
+interface LocationBreakdownProps {
+  totals: LocationTotals[]
+  className?: string
+}
+
+/**
+ * Redemptions and charges per location, with each location's share of the total.
+ * Hidden for merchants with a single location.
+ */
+export default function LocationBreakdown({ totals, className = '' }: LocationBreakdownProps) {
+  const { t, locale } = useTranslation()
+  const { locations } = useLocations()
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+
+  if (locations.length < 2) return null
+
+  // Locations without redemptions are listed too, so a quiet shop stands out
+  const rows = [
+    ...totals,
+    ...locations
+      .filter((location) => !totals.some((item) => item.locationId === location.id))
+      .map((location) => ({ locationId: location.id, redemptions: 0, charges: 0 })),
+  ]
+  const total = rows.reduce((sum, item) => sum + item.redemptions, 0)
+
+  const getName = (locationId: number | null) =>
+    locationId === null
+      ? t('locations.unassigned')
+      : locations.find((location) => location.id === locationId)?.name ?? `#${locationId}`
+
+  return (
+    <div className={className}>
+      <h4 className="text-sm font-semibold text-gray-900">{t('locations.breakdownTitle')}</h4>
+      <ul className="mt-3 space-y-3">
+        {rows.map((item) => {
+          const share = total > 0 ? item.redemptions / total : 0
+          return (
+            <li key={item.locationId ?? 'unassigned'}>
+              <div className="flex items-baseline justify-between gap-4 text-sm">
+                <span className="font-medium text-gray-700">{getName(item.locationId)}</span>
+                <span className="text-gray-500">
+                  {t('locations.breakdownValue', {
+                    count: numberFormatter.format(item.redemptions),
+                    amount: currencyFormatter.format(item.charges),
+                  })}
+                </span>
+              </div>
+              <div className="mt-1 h-2 overflow-hidden rounded-full bg-gray-100">
+                <div className="h-full rounded-full bg-primary-500" style={{ width: `${Math.round(share * 100)}%` }} />
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
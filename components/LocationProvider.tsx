@@ -0,0 +1,109 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { useAuth } from './AuthProvider'
+import { MerchantLocation, getLocationCookieName, listLocations } from '@/lib/locations'
+import type { InitialLocationState } from '@/lib/server-state'
+
+interface LocationContextType {
+  locations: MerchantLocation[]
+  locationsLoading: boolean
+  /** Location chosen in the switcher; null means all locations */
+  selectedLocationId: number | null
+  selectLocation: (locationId: number | null) => void
+  /** Where the staff member is working: the chosen location, or the only one there is */
+  currentLocation: MerchantLocation | null
+  refreshLocations: () => Promise<void>
+}
+
+const LocationContext = createContext<LocationContextType | undefined>(undefined)
+
+function readStoredLocationId(merchantId: number) {
+  const name = getLocationCookieName(merchantId)
+  const entry = document.cookie.split('; ').find((cookie) => cookie.startsWith(`${name}=`))
+  return Number(entry?.slice(name.length + 1))
+}
+
+export function LocationProvider({
+  children,
+  initialState,
+}: {
+  children: React.ReactNode
+  /** Locations read by the root layout; null when there's no merchant or they failed to load */
+  initialState: InitialLocationState | null
+}) {
+  const { merchant } = useAuth()
+  const merchantId = merchant?.id ?? null
+  const [locations, setLocations] = useState<MerchantLocation[]>(initialState?.locations ?? [])
+  const [locationsLoading, setLocationsLoading] = useState(!initialState)
+  const [selectedLocationId, setSelectedLocationId] = useState<number | null>(initialState?.selectedLocationId ?? null)
+  const seededRef = useRef(Boolean(initialState))
+
+  const refreshLocations = useCallback(async () => {
+    if (!merchantId) {
+      setLocations([])
+      setLocationsLoading(false)
+      return
+    }
+
+    try {
+      const rows = await listLocations(merchantId)
+      setLocations(rows)
+
+      const stored = readStoredLocationId(merchantId)
+      setSelectedLocationId((prev) => {
+        const candidate = prev ?? stored
+        return rows.some((location) => location.id === candidate) ? candidate : null
+      })
+    } catch (error) {
+      console.error('Error fetching locations:', error)
+    } finally {
+      setLocationsLoading(false)
+    }
+  }, [merchantId])
+
+  useEffect(() => {
+    // Already loaded for this merchant on the server
+    if (seededRef.current) {
+      seededRef.current = false
+      return
+    }
+    refreshLocations()
+  }, [refreshLocations])
+
+  const selectLocation = useCallback(
+    (locationId: number | null) => {
+      setSelectedLocationId(locationId)
+      if (!merchantId || typeof document === 'undefined') return
+
+      const name = getLocationCookieName(merchantId)
+      document.cookie = locationId === null
+        ? `${name}=; path=/; max-age=0; samesite=lax`
+        : `${name}=${locationId}; path=/; max-age=31536000; samesite=lax`
+    },
+    [merchantId]
+  )
+
+  const currentLocation = useMemo(() => {
+    if (selectedLocationId !== null) {
+      return locations.find((location) => location.id === selectedLocationId) ?? null
+    }
+    return locations.length === 1 ? locations[0] : null
+  }, [locations, selectedLocationId])
+
+  return (
+    <LocationContext.Provider
+      value={{ locations, locationsLoading, selectedLocationId, selectLocation, currentLocation, refreshLocations }}
+    >
+      {children}
+    </LocationContext.Provider>
+  )
+}
+
+export function useLocations() {
+  const context = useContext(LocationContext)
+  if (context === undefined) {
+    throw new Error('useLocations must be used within a LocationProvider')
+  }
+  return context
+}
@@ -1,76 +1,147 @@
 'use client'
 
 import { useAuth } from '@/components/AuthProvider'
-import { supabase } from '@/lib/supabase'
+import OfferCapsFields from '@/components/OfferCapsFields'
+import OfferLocationsField from '@/components/OfferLocationsField'
+import OfferScheduleEditor from '@/components/OfferScheduleEditor'
+import OfferTemplatePicker from '@/components/OfferTemplatePicker'
+import { NO_CAPS, OfferCaps } from '@/lib/offer-caps'
+import { OfferSchedule, resolveTimeZone, validateSchedule } from '@/lib/offer-schedule'
+import {
+  FOLLOWER_TIERS,
+  LadderStep,
+  SCALING_CURVES,
+  SCALING_RULES,
+  ScalingCurve,
+  buildTierLadder,
+  getDefaultCurveFactor,
+  getTierForFollowers,
+  isValidDiscount,
+  matchLadderStep,
+} from '@/lib/offer-tiers'
+import {
+  DiscountType,
+  Offer,
+  OfferFamily,
+  OfferInput,
+  OfferTemplateFields,
+  createOfferFamily,
+  createOffers,
+  getOfferErrorKey,
+  saveOfferFamily,
+} from '@/lib/offers'
 import { useTranslation } from '@/components/LanguageProvider'
 import { useState, useCallback, useMemo } from 'react'
 import { toast } from 'react-hot-toast'
 
 interface NewOfferFormData {
-  discount_type: 'percent' | 'coupon'
+  name: string
+  discount_type: DiscountType
   discount_value: number
   min_followers: number
+  scaling_curve: ScalingCurve
+  curve_factor: number
   start_at: string
   end_at: string
+  schedule: OfferSchedule | null
+  /** Applied to every tier; each tier offer counts its own redemptions */
+  caps: OfferCaps
+  location_ids: number[] | null
 }
 
-interface FollowerTier {
-  label: string
-  value: number
-}
-
-interface ScalingOffer {
-  min_followers: number
-  discount_value: number
-  title: string
-  selected: boolean
+type NewOfferFormErrors = Partial<Record<keyof NewOfferFormData, string>> & {
+  tiers?: Record<number, string>
 }
 
 interface NewOfferFormProps {
   onClose: () => void
   onSuccess: () => void
+  family?: OfferFamily | null
+  familyOffers?: Offer[]
 }
 
-const FOLLOWER_TIERS: FollowerTier[] = [
-  { label: '500+', value: 500 },
-  { label: '1,000+', value: 1000 },
-  { label: '2,000+', value: 2000 },
-  { label: '5,000+', value: 5000 },
-  { label: '10,000+', value: 10000 },
-  { label: '20,000+', value: 20000 },
-  { label: '50,000+', value: 50000 },
-  { label: '100,000+', value: 100000 },
-]
-
-const SCALING_RULES = {
-  percent: {
-    stepIncrease: 10, // +10% per tier
-  },
-  coupon: {
-    stepIncrease: 5,  // +5€ per tier
-    maxDiscount: 150, // Max 150€ discount (shows as "free")
+const DEFAULT_PREVIEW_FOLLOWERS = 5000
+const MAX_PREVIEW_FOLLOWERS = 150000
+
+function getInitialState(family?: OfferFamily | null, familyOffers: Offer[] = []) {
+  const sorted = [...familyOffers].sort((a, b) => a.min_followers - b.min_followers)
+  const base = sorted[0]
+
+  if (!family || !base) {
+    const formData: NewOfferFormData = {
+      name: '',
+      discount_type: 'percent',
+      discount_value: 10,
+      min_followers: 1000,
+      scaling_curve: 'linear',
+      curve_factor: getDefaultCurveFactor('percent', 'linear', 10),
+      start_at: new Date().toISOString().split('T')[0],
+      end_at: '',
+      schedule: null,
+      caps: NO_CAPS,
+      location_ids: null,
+    }
+    return { formData, ladder: buildLadder(formData) }
+  }
+
+  const formData: NewOfferFormData = {
+    name: family.name,
+    discount_type: family.discount_type,
+    discount_value: base.discount_value,
+    min_followers: base.min_followers,
+    scaling_curve: family.scaling_curve,
+    curve_factor: family.curve_factor ?? getDefaultCurveFactor(family.discount_type, family.scaling_curve, base.discount_value),
+    start_at: base.start_at ? base.start_at.split('T')[0] : '',
+    end_at: base.end_at ? base.end_at.split('T')[0] : '',
+    schedule: base.schedule,
+    caps: {
+      max_redemptions: base.max_redemptions,
+      max_redemptions_per_day: base.max_redemptions_per_day,
+      max_redemptions_per_student_week: base.max_redemptions_per_student_week,
+    },
+    location_ids: base.location_ids,
   }
+
+  // Existing tiers keep their stored discounts; tiers without an offer start switched off
+  const previous: LadderStep[] = FOLLOWER_TIERS.map(tier => {
+    const offer = sorted.find(item => item.min_followers === tier.value)
+    return {
+      min_followers: tier.value,
+      discount_value: offer?.discount_value ?? base.discount_value,
+      enabled: Boolean(offer),
+    }
+  })
+
+  return { formData, ladder: buildLadder({ ...formData, scaling_curve: 'custom' }, previous) }
 }
 
-export default function NewOfferForm({ onClose, onSuccess }: NewOfferFormProps) {
+function buildLadder(data: NewOfferFormData, previous?: LadderStep[]) {
+  return buildTierLadder({
+    discountType: data.discount_type,
+    baseTier: data.min_followers,
+    baseValue: data.discount_value,
+    curve: data.scaling_curve,
+    factor: data.curve_factor,
+    previous,
+  })
+}
+
+export default function NewOfferForm({ onClose, onSuccess, family = null, familyOffers = [] }: NewOfferFormProps) {
   const { merchant } = useAuth()
   const { t, locale } = useTranslation()
-  const [formData, setFormData] = useState<NewOfferFormData>({
-    discount_type: 'percent',
-    discount_value: 10,
-    min_followers: 1000,
-    start_at: new Date().toISOString().split('T')[0],
-    end_at: '',
-  })
-  const [errors, setErrors] = useState<Partial<Record<keyof NewOfferFormData, string>>>({})
+  const [initialState] = useState(() => getInitialState(family, familyOffers))
+  const [formData, setFormData] = useState<NewOfferFormData>(initialState.formData)
+  const [ladder, setLadder] = useState<LadderStep[]>(initialState.ladder)
+  const [errors, setErrors] = useState<NewOfferFormErrors>({})
   const [loading, setLoading] = useState(false)
-  const [showScalingModal, setShowScalingModal] = useState(false)
-  const [scalingOffers, setScalingOffers] = useState<ScalingOffer[]>([])
+  const [previewFollowers, setPreviewFollowers] = useState(DEFAULT_PREVIEW_FOLLOWERS)
+  const isEditing = Boolean(family)
 
   const currencyFormatter = useMemo(
     () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
     [locale]
   )
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
 
   const generateTitle = useCallback((discountType: string, discountValue: number, businessName: string) => {
     if (discountType === 'percent') {
@@ -96,15 +167,29 @@ export default function NewOfferForm({ onClose, onSuccess }: NewOfferFormProps)
     }
   }, [currencyFormatter])
 
-  const validateForm = useCallback((data: NewOfferFormData): Partial<Record<keyof NewOfferFormData, string>> => {
-    const newErrors: Partial<Record<keyof NewOfferFormData, string>> = {}
+  const validateForm = useCallback((data: NewOfferFormData, steps: LadderStep[]): NewOfferFormErrors => {
+    const newErrors: NewOfferFormErrors = {}
+    const tierErrors: Record<number, string> = {}
+    const discountMessage = data.discount_type === 'percent'
+      ? t('offers.newFormValidationDiscount')
+      : t('offers.newFormValidationFixed')
 
-    if (data.discount_type === 'percent') {
-      if (data.discount_value < 5 || data.discount_value > 100 || data.discount_value % 5 !== 0) {
-        newErrors.discount_value = t('offers.newFormValidationDiscount')
+    if (!isValidDiscount(data.discount_type, data.discount_value)) {
+      newErrors.discount_value = discountMessage
+    }
+
+    for (const step of steps) {
+      if (step.enabled && !isValidDiscount(data.discount_type, step.discount_value)) {
+        tierErrors[step.min_followers] = discountMessage
       }
-    } else if (data.discount_value < 1) {
-      newErrors.discount_value = t('offers.newFormValidationFixed')
+    }
+
+    if (Object.keys(tierErrors).length > 0) {
+      newErrors.tiers = tierErrors
+    }
+
+    if (steps.filter(step => step.enabled).length > 1 && !data.name.trim()) {
+      newErrors.name = t('offers.ladderValidationName')
     }
 
     if (!data.start_at) {
@@ -115,56 +200,122 @@ export default function NewOfferForm({ onClose, onSuccess }: NewOfferFormProps)
       newErrors.end_at = t('offers.newFormValidationEndDate')
     }
 
+    if (data.schedule && validateSchedule(data.schedule).length > 0) {
+      newErrors.schedule = t('offers.scheduleInvalid')
+    }
+
+    if (data.location_ids && data.location_ids.length === 0) {
+      newErrors.location_ids = t('offers.validationLocations')
+    }
+
     return newErrors
   }, [t])
 
-  const generateScalingOffers = useCallback((baseOffer: NewOfferFormData): ScalingOffer[] => {
-    if (!merchant) return []
+  const updateForm = (next: NewOfferFormData, nextLadder: LadderStep[]) => {
+    setFormData(next)
+    setLadder(nextLadder)
+    setErrors(validateForm(next, nextLadder))
+  }
 
-    const currentTierIndex = FOLLOWER_TIERS.findIndex(tier => tier.value === baseOffer.min_followers)
-    if (currentTierIndex === -1 || currentTierIndex === FOLLOWER_TIERS.length - 1) {
-      return [] // No higher tiers available
+  const handleChange = <K extends keyof NewOfferFormData>(field: K, value: NewOfferFormData[K]) => {
+    const next = { ...formData, [field]: value }
+
+    if (field === 'discount_type') {
+      const discountType = value as DiscountType
+      next.discount_value = discountType === 'percent' ? 10 : 5
+      next.curve_factor = getDefaultCurveFactor(discountType, next.scaling_curve, next.discount_value)
+      updateForm(next, buildLadder(next))
+      return
     }
 
-    const scalingRule = SCALING_RULES[baseOffer.discount_type]
-    const offers: ScalingOffer[] = []
-
-    for (let i = currentTierIndex + 1; i < FOLLOWER_TIERS.length; i++) {
-      const tier = FOLLOWER_TIERS[i]
-      const tierSteps = i - currentTierIndex
-      
-      let newDiscountValue
-      if (baseOffer.discount_type === 'coupon') {
-        // For fixed amounts, use the base offer amount as the increment
-        newDiscountValue = baseOffer.discount_value + (tierSteps * baseOffer.discount_value)
-      } else {
-        // For percentages, use the fixed step increase
-        newDiscountValue = baseOffer.discount_value + (tierSteps * scalingRule.stepIncrease)
-      }
-      
-      // Cap at maximum discount for fixed amounts
-      if (baseOffer.discount_type === 'coupon' && 'maxDiscount' in scalingRule && newDiscountValue > scalingRule.maxDiscount) {
-        newDiscountValue = scalingRule.maxDiscount
-      }
+    if (field === 'scaling_curve') {
+      next.curve_factor = getDefaultCurveFactor(next.discount_type, next.scaling_curve, next.discount_value)
+    }
+
+    if (field === 'min_followers') {
+      // Moving the starting tier switches every tier above it back on
+      updateForm(next, buildLadder(next, ladder.map(step => ({ ...step, enabled: true }))))
+      return
+    }
+
+    const ladderFields: (keyof NewOfferFormData)[] = ['discount_value', 'scaling_curve', 'curve_factor']
+    updateForm(next, ladderFields.includes(field) ? buildLadder(next, ladder) : ladder)
+  }
+
+  const handleTierValueChange = (minFollowers: number, value: number) => {
+    // Editing a single tier turns the curve into a custom ladder
+    const next: NewOfferFormData = {
+      ...formData,
+      scaling_curve: 'custom',
+      discount_value: minFollowers === formData.min_followers ? value : formData.discount_value,
+    }
+    const nextLadder = ladder.map(step =>
+      step.min_followers === minFollowers ? { ...step, discount_value: value } : step
+    )
+    updateForm(next, nextLadder)
+  }
+
+  const handleTierToggle = (minFollowers: number) => {
+    if (minFollowers === formData.min_followers) return
+    updateForm(
+      formData,
+      ladder.map(step => (step.min_followers === minFollowers ? { ...step, enabled: !step.enabled } : step))
+    )
+  }
 
-      const title = generateTitle(baseOffer.discount_type, newDiscountValue, merchant.name)
-      
-      offers.push({
-        min_followers: tier.value,
-        discount_value: newDiscountValue,
-        title,
-        selected: true
-      })
+  const applyTemplate = (name: string, template: OfferTemplateFields) => {
+    const scalingCurve = template.scaling_curve ?? 'linear'
+    const next: NewOfferFormData = {
+      ...formData,
+      name,
+      discount_type: template.discount_type,
+      discount_value: template.discount_value,
+      // The ladder starts on a follower tier
+      min_followers: getTierForFollowers(template.min_followers)?.value ?? FOLLOWER_TIERS[0].value,
+      scaling_curve: scalingCurve,
+      curve_factor: template.curve_factor ?? getDefaultCurveFactor(template.discount_type, scalingCurve, template.discount_value),
+      schedule: template.schedule,
+      caps: {
+        max_redemptions: template.max_redemptions,
+        max_redemptions_per_day: template.max_redemptions_per_day,
+        max_redemptions_per_student_week: template.max_redemptions_per_student_week,
+      },
     }
+    const steps = buildLadder(next)
+    // Single-offer templates only switch on their own tier
+    updateForm(
+      next,
+      template.scaling_curve ? steps : steps.map(step => ({ ...step, enabled: step.min_followers === next.min_followers }))
+    )
+  }
+
+  const enabledSteps = useMemo(() => ladder.filter(step => step.enabled), [ladder])
+
+  const getTemplateSnapshot = () => ({
+    name: formData.name || previewTitle,
+    fields: {
+      description: null,
+      discount_type: formData.discount_type,
+      discount_value: formData.discount_value,
+      min_followers: formData.min_followers,
+      // Hand-edited (custom) ladders are saved as their base tier and curve, not tier by tier
+      scaling_curve: enabledSteps.length > 1 ? formData.scaling_curve : null,
+      curve_factor: enabledSteps.length > 1 && formData.scaling_curve !== 'custom' ? formData.curve_factor : null,
+      schedule: formData.schedule,
+      ...formData.caps,
+    },
+  })
 
-    return offers
-  }, [merchant, generateTitle])
+  const isDecreasing = useMemo(
+    () => enabledSteps.some((step, index) => index > 0 && step.discount_value < enabledSteps[index - 1].discount_value),
+    [enabledSteps]
+  )
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault()
     if (!merchant) return
 
-    const validationErrors = validateForm(formData)
+    const validationErrors = validateForm(formData, ladder)
     setErrors(validationErrors)
 
     if (Object.keys(validationErrors).length > 0) {
@@ -172,78 +323,59 @@ export default function NewOfferForm({ onClose, onSuccess }: NewOfferFormProps)
       return
     }
 
-    // Generate scaling offers
-    const offers = generateScalingOffers(formData)
-    
-    if (offers.length > 0) {
-      setScalingOffers(offers)
-      setShowScalingModal(true)
-    } else {
-      await createOffers([formData])
+    const tiers: OfferInput[] = enabledSteps.map(step => ({
+      title: generateTitle(formData.discount_type, step.discount_value, merchant.name),
+      description: generateDescription(formData.discount_type, step.discount_value),
+      discount_type: formData.discount_type,
+      discount_value: step.discount_value,
+      min_followers: step.min_followers,
+      start_at: formData.start_at || null,
+      end_at: formData.end_at || null,
+      schedule: formData.schedule,
+      ...formData.caps,
+      location_ids: formData.location_ids,
+      // Keep tiers the merchant paused when re-saving the ladder
+      is_active: familyOffers.find(offer => offer.min_followers === step.min_followers)?.is_active ?? true,
+    }))
+
+    const familyInput = {
+      name: formData.name,
+      discount_type: formData.discount_type,
+      scaling_curve: formData.scaling_curve,
+      curve_factor: formData.scaling_curve === 'custom' ? null : formData.curve_factor,
     }
-  }
-
-  const createOffers = async (offersToCreate: (NewOfferFormData | ScalingOffer)[]) => {
-    if (!merchant) return
 
     setLoading(true)
     try {
-      const offersData = offersToCreate.map(offer => ({
-        merchant_id: merchant.id,
-        title: 'title' in offer ? offer.title : generateTitle(formData.discount_type, offer.discount_value, merchant.name),
-        description: generateDescription(formData.discount_type, offer.discount_value),
-        discount_type: formData.discount_type,
-        discount_value: offer.discount_value,
-        min_followers: offer.min_followers,
-        start_at: formData.start_at || null,
-        end_at: formData.end_at || null,
-        is_active: true
-      }))
-
-      const { error } = await supabase
-        .from('offers')
-        .insert(offersData)
-
-      if (error) throw error
-
-      const count = offersToCreate.length
-      const plural = count > 1 ? 's' : ''
-      toast.success(t('offers.newFormSuccess', { count, plural }))
+      if (family) {
+        await saveOfferFamily(merchant.id, family.id, familyInput, tiers)
+        toast.success(t('offers.ladderSaved'))
+      } else {
+        if (tiers.length > 1) {
+          await createOfferFamily(merchant.id, familyInput, tiers)
+        } else {
+          await createOffers(merchant.id, tiers)
+        }
+        const count = tiers.length
+        const plural = count > 1 ? 's' : ''
+        toast.success(t('offers.newFormSuccess', { count, plural }))
+      }
       onSuccess()
     } catch (error: unknown) {
-      console.error('Error creating offers:', error)
-      toast.error(error instanceof Error ? error.message : t('offers.newFormError'))
+      console.error('Error saving offer family:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.newFormError')))
     } finally {
       setLoading(false)
     }
   }
 
-  const handleScalingConfirm = async () => {
-    const selectedOffers = scalingOffers.filter(offer => offer.selected)
-    await createOffers([formData, ...selectedOffers])
-    setShowScalingModal(false)
-  }
-
-  const handleScalingCancel = async () => {
-    await createOffers([formData])
-    setShowScalingModal(false)
-  }
-
-  const handleChange = <K extends keyof NewOfferFormData>(field: K, value: NewOfferFormData[K]) => {
-    setFormData(prev => {
-      const next = { ...prev, [field]: value }
-      setErrors(validateForm(next))
-      return next
-    })
-  }
-
-  const toggleScalingOffer = (index: number) => {
-    setScalingOffers(prev => 
-      prev.map((offer, i) => 
-        i === index ? { ...offer, selected: !offer.selected } : offer
-      )
-    )
-  }
+  const formatValue = useCallback(
+    (value: number) =>
+      formData.discount_type === 'percent'
+        ? t('offers.discountPercent', { value })
+        : t('offers.discountFixed', { amount: currencyFormatter.format(value) }),
+    [currencyFormatter, formData.discount_type, t]
+  )
 
   const previewTitle = useMemo(() => {
     if (!merchant) return ''
@@ -254,189 +386,344 @@ export default function NewOfferForm({ onClose, onSuccess }: NewOfferFormProps)
     return generateDescription(formData.discount_type, formData.discount_value)
   }, [formData.discount_type, formData.discount_value, generateDescription])
 
+  const matchedStep = useMemo(() => matchLadderStep(ladder, previewFollowers), [ladder, previewFollowers])
+  const rule = SCALING_RULES[formData.discount_type]
+
   return (
-    <>
-      <div className={`fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4 py-6 ${showScalingModal ? 'hidden' : ''}`}>
-        <div className="relative w-full max-w-2xl rounded-2xl bg-white p-6 shadow-xl">
-          <button
-            onClick={onClose}
-            className="absolute right-4 top-4 rounded-full bg-gray-100 p-2 text-gray-500 hover:text-gray-700"
-          >
-            <span className="sr-only">{t('offers.newFormClose')}</span>
-            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
-
-          <div className="mb-6">
-            <h2 className="text-2xl font-semibold text-gray-900">{t('offers.newFormTitle')}</h2>
-            <p className="text-sm text-gray-500">{t('offers.newFormDescription')}</p>
-          </div>
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4 py-6">
+      <div className="relative max-h-[90vh] w-full max-w-4xl overflow-y-auto rounded-2xl bg-white p-6 shadow-xl">
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 rounded-full bg-gray-100 p-2 text-gray-500 hover:text-gray-700"
+        >
+          <span className="sr-only">{t('offers.newFormClose')}</span>
+          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">
+            {isEditing ? t('offers.ladderEditTitle') : t('offers.newFormTitle')}
+          </h2>
+          <p className="text-sm text-gray-500">{t('offers.newFormDescription')}</p>
+        </div>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="grid gap-6 sm:grid-cols-2">
-              <div>
-                <label className="form-label" htmlFor="discount_type">{t('offers.newFormDiscountType')}</label>
-                <select
-                  id="discount_type"
-                  className="input"
-                  value={formData.discount_type}
-                  onChange={(event) => handleChange('discount_type', event.target.value as 'percent' | 'coupon')}
-                >
-                  <option value="percent">{t('offers.discountTypePercent')}</option>
-                  <option value="coupon">{t('offers.discountTypeCoupon')}</option>
-                </select>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <OfferTemplatePicker onApply={isEditing ? undefined : applyTemplate} getCurrent={getTemplateSnapshot} />
+
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            <div className="sm:col-span-2 lg:col-span-3">
+              <label className="form-label" htmlFor="family_name">{t('offers.ladderFamilyName')}</label>
+              <input
+                id="family_name"
+                type="text"
+                className={`input ${errors.name ? 'border-red-500 focus:ring-red-500' : ''}`}
+                value={formData.name}
+                onChange={(event) => handleChange('name', event.target.value)}
+                placeholder={previewTitle}
+              />
+              {errors.name ? (
+                <p className="form-error mt-1">{errors.name}</p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">{t('offers.ladderFamilyNameHint')}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="form-label" htmlFor="discount_type">{t('offers.newFormDiscountType')}</label>
+              <select
+                id="discount_type"
+                className="input"
+                value={formData.discount_type}
+                onChange={(event) => handleChange('discount_type', event.target.value as DiscountType)}
+              >
+                <option value="percent">{t('offers.discountTypePercent')}</option>
+                <option value="coupon">{t('offers.discountTypeCoupon')}</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="form-label" htmlFor="min_followers">{t('offers.ladderBaseTier')}</label>
+              <select
+                id="min_followers"
+                className="input"
+                value={formData.min_followers}
+                onChange={(event) => handleChange('min_followers', Number(event.target.value))}
+              >
+                {FOLLOWER_TIERS.map(tier => (
+                  <option key={tier.value} value={tier.value}>
+                    {tier.label} {t('offers.newFormFollowers')}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="form-label" htmlFor="discount_value">
+                {t('offers.ladderBaseDiscount')}
+                {formData.discount_type === 'percent' ? ' (%)' : ' (€)'}
+              </label>
+              <input
+                id="discount_value"
+                type="number"
+                min={rule.min}
+                max={rule.max}
+                step={rule.increment}
+                className={`input ${errors.discount_value ? 'border-red-500 focus:ring-red-500' : ''}`}
+                value={formData.discount_value}
+                onChange={(event) => handleChange('discount_value', Number(event.target.value) || 0)}
+              />
+              {errors.discount_value && <p className="form-error mt-1">{errors.discount_value}</p>}
+            </div>
+
+            <div>
+              <span className="form-label">{t('offers.ladderCurve')}</span>
+              <div className="mt-1 grid grid-cols-3 gap-1 rounded-lg bg-gray-100 p-1">
+                {SCALING_CURVES.map(curve => (
+                  <button
+                    key={curve}
+                    type="button"
+                    onClick={() => handleChange('scaling_curve', curve)}
+                    className={`rounded-md px-2 py-1.5 text-sm font-medium transition ${
+                      formData.scaling_curve === curve ? 'bg-white text-primary-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    {t(`offers.ladderCurve_${curve}`)}
+                  </button>
+                ))}
               </div>
+              <p className="mt-1 text-xs text-gray-500">{t(`offers.ladderCurveHint_${formData.scaling_curve}`)}</p>
+            </div>
 
+            {formData.scaling_curve !== 'custom' && (
               <div>
-                <label className="form-label" htmlFor="discount_value">
-                  {t('offers.newFormDiscountValue')}
-                  {formData.discount_type === 'percent' ? ' (%)' : ' (€)'}
+                <label className="form-label" htmlFor="curve_factor">
+                  {formData.scaling_curve === 'linear' ? t('offers.ladderLinearStep') : t('offers.ladderGeometricRatio')}
                 </label>
                 <input
-                  id="discount_value"
+                  id="curve_factor"
                   type="number"
-                  min={formData.discount_type === 'percent' ? 5 : 1}
-                  max={formData.discount_type === 'percent' ? 100 : undefined}
-                  step={formData.discount_type === 'percent' ? 5 : 1}
-                  className={`input ${errors.discount_value ? 'border-red-500 focus:ring-red-500' : ''}`}
-                  value={formData.discount_value}
-                  onChange={(event) => handleChange('discount_value', Number(event.target.value) || 0)}
+                  min={formData.scaling_curve === 'linear' ? 0 : 1}
+                  step={formData.scaling_curve === 'linear' ? rule.increment : 0.1}
+                  className="input"
+                  value={formData.curve_factor}
+                  onChange={(event) => handleChange('curve_factor', Number(event.target.value) || 0)}
                 />
-                {errors.discount_value ? (
-                  <p className="form-error mt-1">{errors.discount_value}</p>
-                ) : (
-                  <p className="mt-1 text-xs text-gray-500">
-                    {formData.discount_type === 'percent'
-                      ? t('offers.newFormValidationDiscount')
-                      : t('offers.newFormValidationFixed')}
-                  </p>
-                )}
               </div>
+            )}
+
+            <div>
+              <label className="form-label" htmlFor="start_at">{t('offers.newFormStartDate')} *</label>
+              <input
+                id="start_at"
+                type="date"
+                className={`input ${errors.start_at ? 'border-red-500 focus:ring-red-500' : ''}`}
+                value={formData.start_at}
+                onChange={(event) => handleChange('start_at', event.target.value)}
+              />
+              {errors.start_at && <p className="form-error mt-1">{errors.start_at}</p>}
+            </div>
 
-              <div>
-                <label className="form-label" htmlFor="min_followers">{t('offers.newFormMinFollowers')}</label>
-                <select
-                  id="min_followers"
-                  className="input"
-                  value={formData.min_followers}
-                  onChange={(event) => handleChange('min_followers', Number(event.target.value))}
-                >
-                  {FOLLOWER_TIERS.map(tier => (
-                    <option key={tier.value} value={tier.value}>
-                      {tier.label} {t('offers.newFormFollowers')}
-                    </option>
-                  ))}
-                </select>
-              </div>
+            <div>
+              <label className="form-label" htmlFor="end_at">{t('offers.newFormEndDate')}</label>
+              <input
+                id="end_at"
+                type="date"
+                className={`input ${errors.end_at ? 'border-red-500 focus:ring-red-500' : ''}`}
+                value={formData.end_at}
+                onChange={(event) => handleChange('end_at', event.target.value)}
+              />
+              {errors.end_at && <p className="form-error mt-1">{errors.end_at}</p>}
+            </div>
 
-              <div>
-                <label className="form-label" htmlFor="start_at">{t('offers.newFormStartDate')} *</label>
-                <input
-                  id="start_at"
-                  type="date"
-                  className={`input ${errors.start_at ? 'border-red-500 focus:ring-red-500' : ''}`}
-                  value={formData.start_at}
-                  onChange={(event) => handleChange('start_at', event.target.value)}
-                />
-                {errors.start_at && <p className="form-error mt-1">{errors.start_at}</p>}
-              </div>
+            <div className="sm:col-span-2 lg:col-span-3">
+              <OfferScheduleEditor
+                value={formData.schedule}
+                onChange={(schedule) => handleChange('schedule', schedule)}
+                timeZone={resolveTimeZone(merchant?.timezone)}
+                errors={formData.schedule ? validateSchedule(formData.schedule) : []}
+              />
+            </div>
 
-              <div>
-                <label className="form-label" htmlFor="end_at">{t('offers.newFormEndDate')}</label>
-                <input
-                  id="end_at"
-                  type="date"
-                  className={`input ${errors.end_at ? 'border-red-500 focus:ring-red-500' : ''}`}
-                  value={formData.end_at}
-                  onChange={(event) => handleChange('end_at', event.target.value)}
-                />
-                {errors.end_at && <p className="form-error mt-1">{errors.end_at}</p>}
-              </div>
+            <div className="sm:col-span-2 lg:col-span-3">
+              <OfferLocationsField
+                value={formData.location_ids}
+                onChange={(locationIds) => handleChange('location_ids', locationIds)}
+                error={errors.location_ids}
+              />
             </div>
 
-            <div className="flex justify-end gap-3">
-              <button type="button" onClick={onClose} className="btn btn-secondary">
-                {t('offers.newFormCancel')}
-              </button>
-              <button type="submit" className="btn btn-primary" disabled={loading}>
-                {loading ? t('offers.newFormCreating') : t('offers.newFormCreate')}
-              </button>
+            <div className="sm:col-span-2 lg:col-span-3">
+              <OfferCapsFields
+                value={formData.caps}
+                onChange={(changes) => handleChange('caps', { ...formData.caps, ...changes })}
+                note={t('offers.capsLadderNote')}
+              />
             </div>
-          </form>
+          </div>
 
-          <div className="mt-6 rounded-lg border border-gray-100 bg-gray-50 p-4">
-            <h3 className="text-sm font-semibold text-gray-900">{t('offers.newFormPreview')}</h3>
-            <div className="mt-2">
-              <p className="text-sm font-medium text-gray-900">{previewTitle}</p>
-              <p className="text-sm text-gray-600">{previewDescription}</p>
+          <section>
+            <div className="mb-3">
+              <h3 className="text-sm font-semibold text-gray-900">{t('offers.ladderTitle')}</h3>
+              <p className="text-xs text-gray-500">{t('offers.ladderDescription')}</p>
+            </div>
+            <TierLadder
+              steps={ladder}
+              discountType={formData.discount_type}
+              baseTier={formData.min_followers}
+              matchedTier={matchedStep?.min_followers ?? null}
+              errors={errors.tiers ?? {}}
+              onValueChange={handleTierValueChange}
+              onToggle={handleTierToggle}
+              formatValue={formatValue}
+            />
+            {isDecreasing && (
+              <p className="mt-2 text-xs text-yellow-700">{t('offers.ladderDecreasingWarning')}</p>
+            )}
+          </section>
+
+          <section className="rounded-lg border border-gray-100 bg-gray-50 p-4">
+            <h3 className="text-sm font-semibold text-gray-900">{t('offers.ladderMatchTitle')}</h3>
+            <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-center">
+              <label className="sr-only" htmlFor="preview_followers">{t('offers.ladderMatchFollowers')}</label>
+              <input
+                type="range"
+                min={0}
+                max={MAX_PREVIEW_FOLLOWERS}
+                step={100}
+                value={previewFollowers}
+                onChange={(event) => setPreviewFollowers(Number(event.target.value))}
+                className="flex-1 accent-primary-600"
+                aria-label={t('offers.ladderMatchFollowers')}
+              />
+              <input
+                id="preview_followers"
+                type="number"
+                min={0}
+                className="input sm:w-36"
+                value={previewFollowers}
+                onChange={(event) => setPreviewFollowers(Math.max(0, Number(event.target.value) || 0))}
+              />
             </div>
+            <p className="mt-3 text-sm text-gray-700" aria-live="polite">
+              {matchedStep && merchant
+                ? t('offers.ladderMatchResult', {
+                    followers: numberFormatter.format(previewFollowers),
+                    offer: generateTitle(formData.discount_type, matchedStep.discount_value, merchant.name),
+                    tier: getTierForFollowers(matchedStep.min_followers)?.label ?? '',
+                  })
+                : t('offers.ladderMatchNone', { followers: numberFormatter.format(previewFollowers) })}
+            </p>
+            <p className="mt-1 text-xs text-gray-500">{previewDescription}</p>
+          </section>
+
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              {t('offers.newFormCancel')}
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={loading}>
+              {loading
+                ? t('offers.newFormCreating')
+                : isEditing
+                  ? t('offers.ladderSave')
+                  : t('offers.ladderCreate', { count: enabledSteps.length })}
+            </button>
           </div>
-        </div>
+        </form>
       </div>
+    </div>
+  )
+}
 
-      {/* Scaling Modal */}
-      {showScalingModal && (
-        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-gray-900/50 px-4 py-6">
-          <div className="relative w-full max-w-2xl max-h-[90vh] rounded-2xl bg-white shadow-xl flex flex-col">
-            <div className="p-6 border-b border-gray-200">
-              <h3 className="text-xl font-semibold text-gray-900">{t('offers.newFormScalingTitle')}</h3>
-              <p className="text-sm text-gray-500">
-                {t('offers.newFormScalingDescription')}
-              </p>
-            </div>
+interface TierLadderProps {
+  steps: LadderStep[]
+  discountType: DiscountType
+  baseTier: number
+  matchedTier: number | null
+  errors: Record<number, string>
+  onValueChange: (minFollowers: number, value: number) => void
+  onToggle: (minFollowers: number) => void
+  formatValue: (value: number) => string
+}
 
-            <div className="flex-1 overflow-y-auto p-6">
-              <div className="space-y-4">
-                <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
-                  <h4 className="text-sm font-medium text-gray-900">{t('offers.newFormScalingBaseOffer')}</h4>
-                  <p className="text-sm text-gray-600">{previewTitle}</p>
-                  <p className="text-xs text-gray-500">{FOLLOWER_TIERS.find(t => t.value === formData.min_followers)?.label} {t('offers.newFormFollowers')}</p>
-                </div>
-
-                {scalingOffers.map((offer, index) => (
-                  <div key={index} className={`rounded-lg border p-4 cursor-pointer transition-colors ${
-                    offer.selected 
-                      ? 'border-blue-200 bg-blue-50' 
-                      : 'border-gray-200 bg-gray-50 hover:bg-gray-100'
-                  }`} onClick={() => toggleScalingOffer(index)}>
-                    <div className="flex items-start gap-3">
-                      <input
-                        type="checkbox"
-                        checked={offer.selected}
-                        onChange={() => toggleScalingOffer(index)}
-                        className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                      />
-                      <div className="flex-1">
-                        <h4 className="text-sm font-medium text-gray-900">{t('offers.newFormScalingAutoGenerated')}</h4>
-                        <p className="text-sm text-gray-600">{offer.title}</p>
-                        <p className="text-xs text-gray-500">{FOLLOWER_TIERS.find(t => t.value === offer.min_followers)?.label} {t('offers.newFormFollowers')}</p>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
+function TierLadder({
+  steps,
+  discountType,
+  baseTier,
+  matchedTier,
+  errors,
+  onValueChange,
+  onToggle,
+  formatValue,
+}: TierLadderProps) {
+  const { t } = useTranslation()
+  const rule = SCALING_RULES[discountType]
+  const maxValue = Math.max(rule.min, ...steps.filter(step => step.enabled).map(step => step.discount_value))
 
-            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
-              <button
-                onClick={handleScalingCancel}
-                className="btn btn-secondary"
-                disabled={loading}
-              >
-{t('offers.newFormScalingCancel')}
-              </button>
-              <button
-                onClick={handleScalingConfirm}
-                className="btn btn-primary"
-                disabled={loading}
-              >
-{loading ? t('offers.newFormCreating') : t('offers.newFormScalingConfirm', { count: scalingOffers.filter(o => o.selected).length + 1 })}
-              </button>
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div
+        className="grid min-w-[720px] gap-2"
+        style={{ gridTemplateColumns: `repeat(${steps.length}, minmax(0, 1fr))` }}
+      >
+        {steps.map(step => {
+          const tier = FOLLOWER_TIERS.find(item => item.value === step.min_followers)
+          const belowBase = step.min_followers < baseTier
+          const isBase = step.min_followers === baseTier
+          const isMatched = step.min_followers === matchedTier
+          const height = step.enabled ? Math.max(8, Math.round((step.discount_value / maxValue) * 100)) : 0
+          const error = errors[step.min_followers]
+
+          return (
+            <div
+              key={step.min_followers}
+              className={`flex flex-col rounded-lg border p-2 transition ${
+                isMatched
+                  ? 'border-primary-500 bg-primary-50'
+                  : step.enabled
+                    ? 'border-gray-200 bg-white'
+                    : 'border-dashed border-gray-200 bg-gray-50'
+              }`}
+            >
+              <div className="flex h-24 items-end justify-center rounded bg-gray-50">
+                {step.enabled && (
+                  <div
+                    className={`w-8 rounded-t ${isMatched ? 'bg-primary-600' : 'bg-primary-300'}`}
+                    style={{ height: `${height}%` }}
+                    title={formatValue(step.discount_value)}
+                  />
+                )}
+              </div>
+              <p className="mt-2 text-center text-xs font-semibold text-gray-900">{tier?.label}</p>
+              <input
+                type="number"
+                min={rule.min}
+                max={rule.max}
+                step={rule.increment}
+                disabled={!step.enabled}
+                aria-label={t('offers.ladderTierDiscount', { tier: tier?.label ?? '' })}
+                className={`input mt-1 px-2 py-1 text-center text-sm disabled:bg-gray-100 disabled:text-gray-400 ${
+                  error ? 'border-red-500 focus:ring-red-500' : ''
+                }`}
+                value={step.discount_value}
+                onChange={(event) => onValueChange(step.min_followers, Number(event.target.value) || 0)}
+              />
+              <label className="mt-2 flex items-center justify-center gap-1 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={step.enabled}
+                  disabled={belowBase || isBase}
+                  onChange={() => onToggle(step.min_followers)}
+                  className="h-3.5 w-3.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {isBase ? t('offers.ladderTierBase') : step.enabled ? t('common.active') : t('offers.ladderTierOff')}
+              </label>
+              {error && <p className="form-error mt-1 text-center text-[11px]">{error}</p>}
             </div>
-          </div>
-        </div>
-      )}
-    </>
+          )
+        })}
+      </div>
+    </div>
   )
 }
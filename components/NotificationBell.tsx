@@ -0,0 +1,127 @@
+'use client'
+
+import Link from 'next/link'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { useTranslation } from './LanguageProvider'
+import { MerchantNotification, useMerchantNotifications } from '@/lib/notifications'
+
+interface NotificationBellProps {
+  merchantId: number | null | undefined
+  onNotification?: (notification: MerchantNotification) => void
+}
+
+export default function NotificationBell({ merchantId, onNotification }: NotificationBellProps) {
+  const { t, locale } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState<number[]>([])
+  const menuRef = useRef<HTMLDivElement | null>(null)
+
+  const dateTimeFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    [locale]
+  )
+
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+
+  const formatMessage = useCallback(
+    (notification: MerchantNotification) => {
+      if (notification.type === 'budget_reached') {
+        return t('notifications.budgetReached', {
+          budget: currencyFormatter.format(notification.payload.budget),
+          count: notification.payload.paused_offers,
+        })
+      }
+      const { offer_title, cap, limit } = notification.payload
+      return t(`notifications.offerCapReached_${cap}`, { offer: offer_title, limit })
+    },
+    [currencyFormatter, t]
+  )
+
+  const handleNotification = useCallback(
+    (notification: MerchantNotification) => {
+      toast(formatMessage(notification), { icon: '🔔' })
+      onNotification?.(notification)
+    },
+    [formatMessage, onNotification]
+  )
+
+  const { notifications, unreadCount, markAllRead } = useMerchantNotifications(merchantId, handleNotification)
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+
+    if (open) {
+      window.addEventListener('mousedown', handleClickOutside)
+    }
+
+    return () => {
+      window.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [open])
+
+  const toggle = () => {
+    if (!open) {
+      // Opening the panel counts as reading it; keep the new ones highlighted while it stays open
+      setHighlighted(notifications.filter((item) => !item.read_at).map((item) => item.id))
+      markAllRead()
+    }
+    setOpen((prev) => !prev)
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={toggle}
+        className="relative inline-flex h-10 w-10 items-center justify-center rounded-full border border-gray-200 text-gray-500 transition hover:border-primary-200 hover:text-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500"
+        aria-label={t('notifications.title')}
+        aria-expanded={open}
+      >
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-5 min-w-[20px] items-center justify-center rounded-full bg-red-600 px-1 text-xs font-semibold text-white">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-40 mt-3 w-80 origin-top-right rounded-lg border border-gray-100 bg-white shadow-lg">
+          <p className="border-b border-gray-100 px-4 py-3 text-sm font-semibold text-gray-900">{t('notifications.title')}</p>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">{t('notifications.empty')}</p>
+          ) : (
+            <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <Link
+                    href={notification.type === 'budget_reached' ? '/dashboard/billing' : '/dashboard/offers'}
+                    onClick={() => setOpen(false)}
+                    className={`block px-4 py-3 text-sm hover:bg-gray-50 ${
+                      highlighted.includes(notification.id) ? 'bg-primary-50 text-gray-900' : 'text-gray-600'
+                    }`}
+                  >
+                    <p>{formatMessage(notification)}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {dateTimeFormatter.format(new Date(notification.created_at))}
+                    </p>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
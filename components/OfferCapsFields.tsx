@@ -0,0 +1,49 @@
+'use client'
+
+import { useTranslation } from './LanguageProvider'
+import { OfferCaps, parseCap } from '@/lib/offer-caps'
+
+interface OfferCapsFieldsProps {
+  value: OfferCaps
+  onChange: (changes: Partial<OfferCaps>) => void
+  note?: string
+}
+
+const CAP_FIELDS: { field: keyof OfferCaps; label: string; hint: string }[] = [
+  { field: 'max_redemptions', label: 'offers.capTotal', hint: 'offers.capTotalHint' },
+  { field: 'max_redemptions_per_day', label: 'offers.capDaily', hint: 'offers.capDailyHint' },
+  { field: 'max_redemptions_per_student_week', label: 'offers.capStudentWeekly', hint: 'offers.capStudentWeeklyHint' },
+]
+
+export default function OfferCapsFields({ value, onChange, note }: OfferCapsFieldsProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-900">{t('offers.capsTitle')}</p>
+        <p className="text-xs text-gray-500">{t('offers.capsDescription')}</p>
+        {note && <p className="text-xs text-gray-500">{note}</p>}
+      </div>
+      <div className="grid gap-4 sm:grid-cols-3">
+        {CAP_FIELDS.map(({ field, label, hint }) => (
+          <div key={field}>
+            <label className="form-label" htmlFor={field}>{t(label)}</label>
+            <input
+              id={field}
+              type="number"
+              min={1}
+              step={1}
+              inputMode="numeric"
+              className="input"
+              value={value[field] ?? ''}
+              placeholder={t('offers.capUnlimited')}
+              onChange={(event) => onChange({ [field]: parseCap(event.target.value) })}
+            />
+            <p className="mt-1 text-xs text-gray-500">{t(hint)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
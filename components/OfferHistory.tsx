@@ -0,0 +1,166 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useAuth } from './AuthProvider'
+import { useTranslation } from './LanguageProvider'
+import { useLocations } from './LocationProvider'
+import type { Offer } from '@/lib/offers'
+import { OfferSchedule, formatScheduleWindows, hasSchedule } from '@/lib/offer-schedule'
+import {
+  OfferHistoryEntry,
+  OfferHistoryField,
+  getChangedFields,
+  listOfferHistory,
+} from '@/lib/offer-history'
+
+const CAP_FIELDS: OfferHistoryField[] = ['max_redemptions', 'max_redemptions_per_day', 'max_redemptions_per_student_week']
+
+export default function OfferHistory({ offer }: { offer: Offer }) {
+  const { merchant } = useAuth()
+  const { t, locale } = useTranslation()
+  const { locations } = useLocations()
+  const [entries, setEntries] = useState<OfferHistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(true)
+  const [failed, setFailed] = useState(false)
+
+  const dateTimeFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    [locale]
+  )
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+
+  const fetchHistory = useCallback(async () => {
+    if (!merchant) return
+    try {
+      setHistoryLoading(true)
+      setEntries(await listOfferHistory(merchant.id, offer.id))
+      setFailed(false)
+    } catch (error) {
+      console.error('Error fetching offer history:', error)
+      setFailed(true)
+    } finally {
+      setHistoryLoading(false)
+    }
+  }, [merchant, offer.id])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  const formatValue = (entry: OfferHistoryEntry, field: OfferHistoryField, value: unknown): string => {
+    if (CAP_FIELDS.includes(field)) {
+      return value === null ? t('offers.capUnlimited') : numberFormatter.format(Number(value))
+    }
+    if (field === 'schedule') {
+      const schedule = value as OfferSchedule | null
+      if (!hasSchedule(schedule)) return t('offers.scheduleAnyTime')
+      const windows = schedule.windows.length > 0 ? formatScheduleWindows(schedule, locale) : [t('offers.scheduleAnyTime')]
+      return schedule.blackout_dates.length > 0
+        ? [...windows, t('offers.scheduleBlackoutCount', { count: schedule.blackout_dates.length })].join(', ')
+        : windows.join(', ')
+    }
+    if (field === 'location_ids') {
+      if (!Array.isArray(value)) return t('offers.locationsAll')
+      return value
+        .map((id) => locations.find((location) => location.id === id)?.name ?? `#${id}`)
+        .join(', ')
+    }
+    if (value === null || value === undefined || value === '') return '—'
+
+    switch (field) {
+      case 'discount_type':
+        return value === 'percent' ? t('offers.discountTypePercent') : t('offers.discountTypeCoupon')
+      case 'discount_value': {
+        // Read the type as it was at the time: from the same entry if it changed too
+        const discountType = entry.changes.discount_type?.to ?? offer.discount_type
+        return discountType === 'percent'
+          ? t('offers.discountPercent', { value: Number(value) })
+          : t('offers.discountFixed', { amount: currencyFormatter.format(Number(value)) })
+      }
+      case 'min_followers':
+        return numberFormatter.format(Number(value))
+      case 'start_at':
+      case 'end_at':
+        return new Date(String(value)).toLocaleDateString(locale)
+      case 'is_active':
+      case 'paused_by_budget':
+        return value ? t('common.yes') : t('common.no')
+      default:
+        return String(value)
+    }
+  }
+
+  if (historyLoading) {
+    return <p className="py-8 text-center text-sm text-gray-500">{t('common.loading')}</p>
+  }
+
+  if (failed) {
+    return (
+      <div className="py-8 text-center text-sm text-gray-500">
+        <p>{t('offers.historyError')}</p>
+        <button
+          type="button"
+          onClick={fetchHistory}
+          className="mt-2 font-medium text-primary-600 hover:text-primary-700"
+        >
+          {t('offers.historyRetry')}
+        </button>
+      </div>
+    )
+  }
+
+  if (entries.length === 0) {
+    return <p className="py-8 text-center text-sm text-gray-500">{t('offers.historyEmpty')}</p>
+  }
+
+  return (
+    <ol className="max-h-[60vh] space-y-4 overflow-y-auto pr-1">
+      {entries.map((entry) => {
+        const fields = getChangedFields(entry)
+        return (
+          <li key={entry.id} className="rounded-lg border border-gray-100 bg-gray-50 px-4 py-3">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="text-sm font-semibold text-gray-900">{t(`offers.historyAction_${entry.action}`)}</p>
+              <time dateTime={entry.created_at} className="text-xs text-gray-500">
+                {dateTimeFormatter.format(new Date(entry.created_at))}
+              </time>
+            </div>
+            <p className="text-xs text-gray-500">
+              {entry.actor_user_id === null
+                ? t('offers.historyBySystem')
+                : t('offers.historyBy', { name: entry.actor_email ?? `#${entry.actor_user_id}` })}
+            </p>
+            {fields.length > 0 && entry.action !== 'activate' && entry.action !== 'deactivate' && (
+              <dl className="mt-2 space-y-1 text-sm">
+                {fields.map((field) => {
+                  const change = entry.changes[field]
+                  if (!change) return null
+                  return (
+                    <div key={field} className="grid gap-1 sm:grid-cols-[10rem_1fr]">
+                      <dt className="text-gray-500">{t(`offers.historyField_${field}`)}</dt>
+                      <dd className="text-gray-900">
+                        {entry.action === 'create' ? (
+                          formatValue(entry, field, change.to)
+                        ) : (
+                          <>
+                            <span className="text-gray-500 line-through">{formatValue(entry, field, change.from)}</span>
+                            {' → '}
+                            <span>{formatValue(entry, field, change.to)}</span>
+                          </>
+                        )}
+                      </dd>
+                    </div>
+                  )
+                })}
+              </dl>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
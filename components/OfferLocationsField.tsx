@@ -0,0 +1,74 @@
+'use client'
+
+import { useTranslation } from './LanguageProvider'
+import { useLocations } from './LocationProvider'
+
+interface OfferLocationsFieldProps {
+  /** null means every location */
+  value: number[] | null
+  onChange: (locationIds: number[] | null) => void
+  error?: string
+}
+
+/**
+ * Where an offer applies. Hidden for merchants with a single location.
+ */
+export default function OfferLocationsField({ value, onChange, error }: OfferLocationsFieldProps) {
+  const { t } = useTranslation()
+  const { locations } = useLocations()
+
+  if (locations.length < 2) return null
+
+  const toggleLocation = (locationId: number) => {
+    const current = value ?? []
+    onChange(current.includes(locationId) ? current.filter((id) => id !== locationId) : [...current, locationId])
+  }
+
+  return (
+    <fieldset className="space-y-3">
+      <div>
+        <legend className="text-sm font-medium text-gray-900">{t('offers.locationsTitle')}</legend>
+        <p className="text-xs text-gray-500">{t('offers.locationsDescription')}</p>
+      </div>
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="offer_locations"
+            checked={value === null}
+            onChange={() => onChange(null)}
+            className="h-4 w-4 border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          {t('offers.locationsAll')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="offer_locations"
+            checked={value !== null}
+            onChange={() => onChange(value ?? [])}
+            className="h-4 w-4 border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          {t('offers.locationsSome')}
+        </label>
+      </div>
+      {value !== null && (
+        <div className="grid gap-2 rounded-lg border border-gray-200 p-3 sm:grid-cols-2">
+          {locations.map((location) => (
+            <label key={location.id} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={value.includes(location.id)}
+                onChange={() => toggleLocation(location.id)}
+                className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>{location.name}</span>
+              {!location.is_visible && <span className="text-xs text-gray-400">{t('locations.hidden')}</span>}
+            </label>
+          ))}
+        </div>
+      )}
+      {error && <p className="form-error">{error}</p>}
+    </fieldset>
+  )
+}
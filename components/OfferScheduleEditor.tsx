@@ -0,0 +1,250 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useTranslation } from './LanguageProvider'
+import {
+  OfferSchedule,
+  SCHEDULE_PRESETS,
+  ScheduleErrorCode,
+  ScheduleWindow,
+  WEEKDAYS,
+  createEmptySchedule,
+} from '@/lib/offer-schedule'
+
+interface OfferScheduleEditorProps {
+  value: OfferSchedule | null
+  onChange: (schedule: OfferSchedule | null) => void
+  timeZone: string
+  errors?: ScheduleErrorCode[]
+  /** Opening hours reuse the editor, with blackout dates shown as closed days */
+  variant?: 'offer' | 'opening_hours'
+}
+
+const LABEL_KEYS = {
+  offer: {
+    title: 'offers.scheduleTitle',
+    always: 'offers.scheduleAlways',
+    blackoutDates: 'offers.scheduleBlackoutDates',
+    noBlackouts: 'offers.scheduleNoBlackouts',
+  },
+  opening_hours: {
+    title: 'locations.hoursTitle',
+    always: 'locations.hoursAlways',
+    blackoutDates: 'locations.hoursClosedDates',
+    noBlackouts: 'locations.hoursNoClosedDates',
+  },
+}
+
+export default function OfferScheduleEditor({
+  value,
+  onChange,
+  timeZone,
+  errors = [],
+  variant = 'offer',
+}: OfferScheduleEditorProps) {
+  const { t, locale } = useTranslation()
+  const labels = LABEL_KEYS[variant]
+  const [blackoutInput, setBlackoutInput] = useState('')
+
+  const dayLabels = useMemo(() => {
+    const formatter = new Intl.DateTimeFormat(locale, { weekday: 'short' })
+    // 2024-01-07 was a Sunday, so day n of that week has getDay() === n
+    return WEEKDAYS.map(day => ({ day, label: formatter.format(new Date(Date.UTC(2024, 0, 7 + day, 12))) }))
+  }, [locale])
+
+  const dateFormatter = useMemo(() => new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }), [locale])
+
+  const updateWindow = (index: number, changes: Partial<ScheduleWindow>) => {
+    if (!value) return
+    onChange({
+      ...value,
+      windows: value.windows.map((window, i) => (i === index ? { ...window, ...changes } : window)),
+    })
+  }
+
+  const toggleDay = (index: number, day: number) => {
+    if (!value) return
+    const days = value.windows[index].days
+    updateWindow(index, { days: days.includes(day) ? days.filter(item => item !== day) : [...days, day] })
+  }
+
+  const addWindow = () => {
+    if (!value) return
+    onChange({ ...value, windows: [...value.windows, createEmptySchedule().windows[0]] })
+  }
+
+  const removeWindow = (index: number) => {
+    if (!value) return
+    onChange({ ...value, windows: value.windows.filter((_, i) => i !== index) })
+  }
+
+  const addBlackoutDate = () => {
+    if (!value || !blackoutInput || value.blackout_dates.includes(blackoutInput)) return
+    onChange({ ...value, blackout_dates: [...value.blackout_dates, blackoutInput].sort() })
+    setBlackoutInput('')
+  }
+
+  const removeBlackoutDate = (date: string) => {
+    if (!value) return
+    onChange({ ...value, blackout_dates: value.blackout_dates.filter(item => item !== date) })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between rounded-lg border border-gray-200 px-4 py-3">
+        <div>
+          <p className="text-sm font-medium text-gray-900">{t(labels.title)}</p>
+          <p className="text-xs text-gray-500">
+            {value ? t('offers.scheduleTimeZone', { timeZone }) : t(labels.always)}
+          </p>
+        </div>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={Boolean(value)}
+          aria-label={t(labels.title)}
+          onClick={() => onChange(value ? null : createEmptySchedule())}
+          className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition ${
+            value ? 'bg-primary-600' : 'bg-gray-300'
+          }`}
+        >
+          <span
+            className={`inline-block h-5 w-5 transform rounded-full bg-white shadow transition ${
+              value ? 'translate-x-5' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      {value && (
+        <>
+          <div className="space-y-3">
+            {value.windows.map((window, index) => (
+              <div key={index} className="space-y-3 rounded-lg border border-gray-200 p-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  {(Object.keys(SCHEDULE_PRESETS) as (keyof typeof SCHEDULE_PRESETS)[]).map(preset => (
+                    <button
+                      key={preset}
+                      type="button"
+                      onClick={() => updateWindow(index, { days: [...SCHEDULE_PRESETS[preset]] })}
+                      className="rounded-full border border-gray-200 px-3 py-1 text-xs font-medium text-gray-600 hover:border-primary-300 hover:text-primary-700"
+                    >
+                      {t(`offers.schedulePreset_${preset}`)}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => removeWindow(index)}
+                    className="ml-auto text-xs font-medium text-red-600 hover:text-red-700"
+                  >
+                    {t('offers.scheduleRemoveWindow')}
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {dayLabels.map(({ day, label }) => {
+                    const selected = window.days.includes(day)
+                    return (
+                      <button
+                        key={day}
+                        type="button"
+                        aria-pressed={selected}
+                        onClick={() => toggleDay(index, day)}
+                        className={`min-w-[44px] rounded-md px-2 py-1.5 text-xs font-medium capitalize transition ${
+                          selected ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    )
+                  })}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="form-label" htmlFor={`schedule_start_${index}`}>{t('offers.scheduleFrom')}</label>
+                    <input
+                      id={`schedule_start_${index}`}
+                      type="time"
+                      className="input"
+                      value={window.start}
+                      onChange={(event) => updateWindow(index, { start: event.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="form-label" htmlFor={`schedule_end_${index}`}>{t('offers.scheduleTo')}</label>
+                    <input
+                      id={`schedule_end_${index}`}
+                      type="time"
+                      className="input"
+                      value={window.end}
+                      onChange={(event) => updateWindow(index, { end: event.target.value })}
+                    />
+                  </div>
+                </div>
+                {window.end < window.start && (
+                  <p className="text-xs text-gray-500">{t('offers.scheduleOvernight')}</p>
+                )}
+              </div>
+            ))}
+
+            <button
+              type="button"
+              onClick={addWindow}
+              className="text-sm font-medium text-primary-600 hover:text-primary-700"
+            >
+              {t('offers.scheduleAddWindow')}
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <label className="form-label" htmlFor="blackout_date">{t(labels.blackoutDates)}</label>
+            <div className="flex gap-2">
+              <input
+                id="blackout_date"
+                type="date"
+                className="input"
+                value={blackoutInput}
+                onChange={(event) => setBlackoutInput(event.target.value)}
+              />
+              <button
+                type="button"
+                onClick={addBlackoutDate}
+                disabled={!blackoutInput}
+                className="btn btn-secondary whitespace-nowrap disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {t('offers.scheduleAddBlackout')}
+              </button>
+            </div>
+            {value.blackout_dates.length > 0 ? (
+              <ul className="flex flex-wrap gap-2">
+                {value.blackout_dates.map(date => (
+                  <li
+                    key={date}
+                    className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-700"
+                  >
+                    {dateFormatter.format(new Date(`${date}T12:00:00`))}
+                    <button
+                      type="button"
+                      onClick={() => removeBlackoutDate(date)}
+                      className="text-gray-400 hover:text-gray-700"
+                      aria-label={t('offers.scheduleRemoveBlackout')}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500">{t(labels.noBlackouts)}</p>
+            )}
+          </div>
+
+          {errors.map(code => (
+            <p key={code} className="form-error">{t(`offers.scheduleError_${code}`)}</p>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
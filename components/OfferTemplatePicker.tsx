@@ -0,0 +1,210 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { useAuth } from './AuthProvider'
+import { useTranslation } from './LanguageProvider'
+import { BUILT_IN_OFFER_TEMPLATES } from '@/lib/offer-templates'
+import { getTierForFollowers } from '@/lib/offer-tiers'
+import {
+  OfferTemplate,
+  OfferTemplateFields,
+  createOfferTemplate,
+  deleteOfferTemplate,
+  getOfferErrorKey,
+  listOfferTemplates,
+} from '@/lib/offers'
+
+interface OfferTemplatePickerProps {
+  /** Leave out where the form can't take a template, e.g. while editing an offer */
+  onApply?: (name: string, fields: OfferTemplateFields) => void
+  /** Current form values, used when saving them as a template */
+  getCurrent: () => { name: string; fields: OfferTemplateFields }
+}
+
+export default function OfferTemplatePicker({ onApply, getCurrent }: OfferTemplatePickerProps) {
+  const { merchant } = useAuth()
+  const { t, locale } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [templates, setTemplates] = useState<OfferTemplate[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+
+  const fetchTemplates = useCallback(async () => {
+    if (!merchant) return
+    try {
+      setTemplates(await listOfferTemplates(merchant.id))
+    } catch (error) {
+      console.error('Error fetching offer templates:', error)
+    }
+  }, [merchant])
+
+  useEffect(() => {
+    if (onApply) {
+      fetchTemplates()
+    }
+  }, [onApply, fetchTemplates])
+
+  const summarize = (fields: OfferTemplateFields) => {
+    const discount = fields.discount_type === 'percent'
+      ? t('offers.discountPercent', { value: fields.discount_value })
+      : t('offers.discountFixed', { amount: currencyFormatter.format(fields.discount_value) })
+    const tier = getTierForFollowers(fields.min_followers)?.label ?? fields.min_followers
+    return fields.scaling_curve
+      ? t('offers.templateLadderSummary', { discount, tier })
+      : t('offers.templateSummary', { discount, tier })
+  }
+
+  const applyTemplate = (name: string, fields: OfferTemplateFields) => {
+    onApply?.(name, fields)
+    setOpen(false)
+    toast.success(t('offers.templateApplied', { name }))
+  }
+
+  const saveTemplate = async () => {
+    if (!merchant) return
+
+    const current = getCurrent()
+    const name = prompt(t('offers.templateNamePrompt'), current.name)?.trim()
+    if (!name) return
+
+    try {
+      setSaving(true)
+      const template = await createOfferTemplate(merchant.id, { ...current.fields, name })
+      setTemplates((prev) => [template, ...prev])
+      toast.success(t('offers.templateSaved', { name }))
+    } catch (error) {
+      console.error('Error saving offer template:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.templateSaveError')))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeTemplate = async (template: OfferTemplate) => {
+    if (!merchant) return
+    if (!confirm(t('offers.templateDeleteConfirm', { name: template.name }))) return
+
+    try {
+      await deleteOfferTemplate(merchant.id, template.id)
+      setTemplates((prev) => prev.filter((item) => item.id !== template.id))
+      toast.success(t('offers.templateDeleted'))
+    } catch (error) {
+      console.error('Error deleting offer template:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.templateDeleteError')))
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-gray-900">{t('offers.templatesTitle')}</p>
+          <p className="text-xs text-gray-500">
+            {onApply ? t('offers.templatesDescription') : t('offers.templatesSaveDescription')}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {onApply && (
+            <button
+              type="button"
+              onClick={() => setOpen((prev) => !prev)}
+              aria-expanded={open}
+              className="text-sm font-medium text-primary-600 hover:text-primary-700"
+            >
+              {open ? t('offers.templatesHide') : t('offers.templatesBrowse')}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={saveTemplate}
+            disabled={saving}
+            className="text-sm font-medium text-gray-600 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {saving ? t('offers.formSaving') : t('offers.templateSave')}
+          </button>
+        </div>
+      </div>
+
+      {open && onApply && (
+        <div className="mt-4 space-y-4">
+          <TemplateList title={t('offers.templatesBuiltIn')}>
+            {BUILT_IN_OFFER_TEMPLATES.map((template) => {
+              const name = t(`offers.template_${template.key}_name`)
+              const fields = { ...template, description: t(`offers.template_${template.key}_description`) }
+              return (
+                <TemplateCard
+                  key={template.key}
+                  name={name}
+                  summary={summarize(template)}
+                  onApply={() => applyTemplate(name, fields)}
+                />
+              )
+            })}
+          </TemplateList>
+
+          <TemplateList title={t('offers.templatesSaved')}>
+            {templates.length === 0 ? (
+              <p className="text-xs text-gray-500 sm:col-span-2">{t('offers.templatesSavedEmpty')}</p>
+            ) : (
+              templates.map((template) => (
+                <TemplateCard
+                  key={template.id}
+                  name={template.name}
+                  summary={summarize(template)}
+                  onApply={() => applyTemplate(template.name, template)}
+                  onDelete={() => removeTemplate(template)}
+                />
+              ))
+            )}
+          </TemplateList>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function TemplateList({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">{title}</p>
+      <div className="grid gap-2 sm:grid-cols-2">{children}</div>
+    </div>
+  )
+}
+
+interface TemplateCardProps {
+  name: string
+  summary: string
+  onApply: () => void
+  onDelete?: () => void
+}
+
+function TemplateCard({ name, summary, onApply, onDelete }: TemplateCardProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex items-start justify-between gap-2 rounded-lg border border-gray-100 bg-gray-50 px-3 py-2 hover:border-primary-200 hover:bg-primary-50/70">
+      <button type="button" onClick={onApply} className="flex-1 text-left">
+        <span className="block text-sm font-medium text-gray-900">{name}</span>
+        <span className="block text-xs text-gray-500">{summary}</span>
+      </button>
+      {onDelete && (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="rounded-full p-1 text-gray-400 hover:text-red-600"
+        >
+          <span className="sr-only">{t('offers.templateDelete', { name })}</span>
+          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+  )
+}
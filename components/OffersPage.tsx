@@ -0,0 +1,1911 @@
+'use client'
+
+import { useAuth } from '@/components/AuthProvider'
+import DashboardLayout from '@/components/DashboardLayout'
+import ExportButton from '@/components/ExportButton'
+import InfiniteScrollSentinel from '@/components/InfiniteScrollSentinel'
+import NewOfferForm from '@/components/NewOfferForm'
+import { isBudgetPauseExpired } from '@/lib/budget'
+import OfferCapsFields from '@/components/OfferCapsFields'
+import OfferHistory from '@/components/OfferHistory'
+import OfferLocationsField from '@/components/OfferLocationsField'
+import OfferScheduleEditor from '@/components/OfferScheduleEditor'
+import OfferTemplatePicker from '@/components/OfferTemplatePicker'
+import PageControls from '@/components/PageControls'
+import { showUndoToast } from '@/components/UndoToast'
+import {
+  EMPTY_USAGE,
+  OfferUsage,
+  fetchOfferUsage,
+  getCapProgress,
+  getReachedCaps,
+  hasCaps,
+} from '@/lib/offer-caps'
+import { BulkOfferAction, BulkOfferPlan, planBulkOfferAction } from '@/lib/offer-bulk'
+import {
+  DEFAULT_OFFER_FILTERS,
+  OFFER_DATE_STATES,
+  OFFER_SORT_FIELDS,
+  OfferFilters,
+  getDefaultAscending,
+  hasActiveFilters,
+  toOfferListQuery,
+  toOfferSearchParams,
+} from '@/lib/offer-filters'
+import { FOLLOWER_TIERS, getTierForFollowers } from '@/lib/offer-tiers'
+import { getDuplicateFields } from '@/lib/offer-templates'
+import {
+  OfferLiveState,
+  OfferSchedule,
+  formatScheduleWindows,
+  getOfferLiveState,
+  hasSchedule,
+  resolveTimeZone,
+  validateSchedule,
+} from '@/lib/offer-schedule'
+import {
+  OFFER_TRASH_RETENTION_DAYS,
+  OFFERS_PAGE_SIZE,
+  Offer,
+  OfferFamily,
+  OfferInput,
+  OfferSortField,
+  OfferTemplateFields,
+  createOffer,
+  getOfferErrorKey,
+  listFamilyOffers,
+  listOfferFamilies,
+  listOffersPage,
+  restoreOffers,
+  setOfferActive,
+  setOfferFamilyActive,
+  softDeleteOffer,
+  softDeleteOfferFamily,
+  softDeleteOffers,
+  updateOffer,
+  updateOffersBatch,
+} from '@/lib/offers'
+import { CursorPage, PageRequest, useCursorPagination } from '@/lib/pagination'
+import { useRedemptionFeed } from '@/lib/redemption-feed'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { useTranslation } from '@/components/LanguageProvider'
+import { useLocations } from '@/components/LocationProvider'
+
+interface OfferFormData extends Omit<OfferInput, 'description' | 'start_at' | 'end_at'> {
+  description: string
+  start_at: string
+  end_at: string
+}
+
+interface OfferFamilyGroup {
+  family: OfferFamily
+  offers: Offer[]
+}
+
+interface OfferFieldErrors {
+  title?: string
+  discount_value?: string
+  start_at?: string
+  end_at?: string
+  location_ids?: string
+}
+
+/** First page of the list and everything shown alongside it, loaded by app/dashboard/offers/page.tsx */
+export interface OffersInitialData {
+  page: CursorPage<Offer>
+  familyOffers: Offer[]
+  families: OfferFamily[]
+  usage: Record<number, OfferUsage>
+}
+
+// Re-evaluate "live now" badges once a minute
+const LIVE_STATUS_REFRESH_MS = 60 * 1000
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300
+
+export default function OffersPage({
+  initialFilters,
+  initialData,
+}: {
+  /** Read from the URL on the server */
+  initialFilters: OfferFilters
+  /** Null when the server couldn't load the list; it is fetched in the browser instead */
+  initialData: OffersInitialData | null
+}) {
+  const { user, merchant, loadingContext } = useAuth()
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const { selectedLocationId } = useLocations()
+  // Whole family ladders, loaded apart from the filtered list
+  const [familyOffers, setFamilyOffers] = useState<Offer[]>(initialData?.familyOffers ?? [])
+  const [usage, setUsage] = useState<Record<number, OfferUsage>>(initialData?.usage ?? {})
+  const [families, setFamilies] = useState<OfferFamily[]>(initialData?.families ?? [])
+  const [offersLoading, setOffersLoading] = useState(!initialData)
+  const [offersLoaded, setOffersLoaded] = useState(Boolean(initialData))
+  const [filters, setFilters] = useState<OfferFilters>(initialFilters)
+  const [searchInput, setSearchInput] = useState(filters.search)
+  const [formOpen, setFormOpen] = useState(false)
+  const [newFormOpen, setNewFormOpen] = useState(false)
+  const [editingOffer, setEditingOffer] = useState<Offer | null>(null)
+  const [duplicateSource, setDuplicateSource] = useState<Offer | null>(null)
+  const [editingFamily, setEditingFamily] = useState<OfferFamilyGroup | null>(null)
+  const [updating, setUpdating] = useState<number | null>(null)
+  const [updatingFamily, setUpdatingFamily] = useState<number | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set())
+  const [bulkPending, setBulkPending] = useState(false)
+  const [now, setNow] = useState(() => new Date())
+  const redirectingRef = useRef(false)
+  const initialQueryHandled = useRef(false)
+  const seededRef = useRef(Boolean(initialData))
+  const isSuspended = merchant?.subscription_status === 'suspended'
+  const timeZone = resolveTimeZone(merchant?.timezone)
+  const isBudgetPaused = Boolean(merchant?.budget_paused_at) && !isBudgetPauseExpired(merchant?.budget_paused_at, timeZone)
+
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+
+  const formatDiscountValue = useCallback(
+    (offer: Offer) => {
+      if (offer.discount_type === 'percent') {
+        return t('offers.discountPercent', { value: offer.discount_value })
+      }
+      return t('offers.discountFixed', { amount: currencyFormatter.format(offer.discount_value) })
+    },
+    [currencyFormatter, t]
+  )
+
+  const formatDiscountType = useCallback(
+    (offer: Offer) =>
+      offer.discount_type === 'percent'
+        ? t('offers.discountTypePercent')
+        : t('offers.discountTypeCoupon'),
+    [t]
+  )
+
+  const formatDateRange = useCallback(
+    (start?: string | null, end?: string | null) => {
+      if (!start && !end) return t('offers.noDates')
+      const placeholder = '—'
+      const startLabel = start ? new Date(start).toLocaleDateString(locale) : placeholder
+      const endLabel = end ? new Date(end).toLocaleDateString(locale) : placeholder
+      return `${startLabel} → ${endLabel}`
+    },
+    [locale, t]
+  )
+
+  useEffect(() => {
+    if (!loadingContext && (!user || !merchant) && !redirectingRef.current) {
+      redirectingRef.current = true
+      router.replace('/')
+    }
+  }, [user, merchant, loadingContext, router])
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), LIVE_STATUS_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Cap usage is secondary: if it fails the list still shows, just without progress bars
+  const loadUsage = useCallback(
+    async (offerRows: Offer[]) => {
+      if (!merchant) return
+      try {
+        const offerUsage = await fetchOfferUsage(merchant.id, offerRows, timeZone)
+        setUsage((prev) => ({ ...prev, ...offerUsage }))
+      } catch (error) {
+        console.error('Error fetching offer usage:', error)
+      }
+    },
+    [merchant, timeZone]
+  )
+
+  // The location switcher narrows the list to offers that apply where the merchant is working
+  const listQuery = useMemo(
+    () => ({ ...toOfferListQuery(filters), locationId: selectedLocationId }),
+    [filters, selectedLocationId]
+  )
+
+  const fetchOfferPage = useCallback(
+    async (request: PageRequest) => {
+      if (!merchant) return { rows: [], nextCursor: null }
+      return listOffersPage(merchant.id, listQuery, request)
+    },
+    [merchant, listQuery]
+  )
+
+  const {
+    rows: offers,
+    setRows: setOffers,
+    visibleRows: visibleOffers,
+    page,
+    hasMore,
+    hasNextPage,
+    loadingMore,
+    reset,
+    reload,
+    loadMore,
+    nextPage,
+    previousPage,
+  } = useCursorPagination<Offer>(fetchOfferPage, OFFERS_PAGE_SIZE, initialData?.page)
+
+  const loadOffers = useCallback(
+    async (load: () => Promise<Offer[] | null>) => {
+      if (!merchant) return
+      const [offerRows, familyOfferRows] = await Promise.all([load(), listFamilyOffers(merchant.id)])
+      setFamilyOffers(familyOfferRows)
+      await loadUsage([...(offerRows ?? []), ...familyOfferRows])
+    },
+    [merchant, loadUsage]
+  )
+
+  // Keeps the pages loaded so far, e.g. after an edit or a new redemption
+  const reloadOffers = useCallback(() => loadOffers(reload), [loadOffers, reload])
+
+  const fetchOffers = useCallback(async () => {
+    if (!merchant) return
+    try {
+      setOffersLoading(true)
+      const [familyRows] = await Promise.all([listOfferFamilies(merchant.id), loadOffers(reset)])
+      setFamilies(familyRows)
+    } catch (error) {
+      console.error('Error fetching offers:', error)
+      toast.error(t('offers.fetchError'))
+    } finally {
+      setOffersLoading(false)
+      setOffersLoaded(true)
+    }
+  }, [merchant, t, loadOffers, reset])
+
+  const showMoreOffers = async (load: () => Promise<Offer[] | null>) => {
+    try {
+      const offerRows = await load()
+      if (offerRows) await loadUsage(offerRows)
+    } catch (error) {
+      console.error('Error fetching offers:', error)
+      toast.error(t('offers.fetchError'))
+    }
+  }
+
+  // A new redemption moves the progress bars and may have switched offers off (cap or budget reached)
+  const refreshCappedOffers = useCallback(async () => {
+    if (!merchant || (![...offers, ...familyOffers].some(hasCaps) && !merchant.monthly_budget)) return
+    try {
+      await reloadOffers()
+    } catch (error) {
+      console.error('Error refreshing offer usage:', error)
+    }
+  }, [merchant, offers, familyOffers, reloadOffers])
+
+  useRedemptionFeed(merchant?.id, refreshCappedOffers)
+
+  useEffect(() => {
+    // The server already loaded the list for these filters
+    if (seededRef.current) {
+      seededRef.current = false
+      return
+    }
+    if (merchant) {
+      fetchOffers()
+    }
+  }, [merchant, fetchOffers])
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) => (prev.search === searchInput ? prev : { ...prev, search: searchInput }))
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  // Mirror the filters in the URL; other parameters such as ?view= are left alone
+  useEffect(() => {
+    const current = window.location.search.replace(/^\?/, '')
+    const next = toOfferSearchParams(filters, new URLSearchParams(current)).toString()
+    if (next !== current) {
+      router.replace(`/dashboard/offers${next ? `?${next}` : ''}`, { scroll: false })
+    }
+  }, [filters, router])
+
+  const updateFilters = (changes: Partial<OfferFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }))
+  }
+
+  const clearFilters = () => {
+    setSearchInput('')
+    setFilters((prev) => ({ ...DEFAULT_OFFER_FILTERS, sort: prev.sort, ascending: prev.ascending }))
+  }
+
+  const sortBy = (sort: OfferSortField) => {
+    setFilters((prev) => ({
+      ...prev,
+      sort,
+      ascending: prev.sort === sort ? !prev.ascending : getDefaultAscending(sort),
+    }))
+  }
+
+  useEffect(() => {
+    if (isSuspended && formOpen) {
+      setFormOpen(false)
+      setEditingOffer(null)
+      setDuplicateSource(null)
+    }
+  }, [isSuspended, formOpen])
+
+  // Offers can be in both the filtered list and a family ladder, so changes go to both
+  const mergeUpdatedOffers = (updated: Offer[]) => {
+    const byId = new Map(updated.map((offer) => [offer.id, offer]))
+    setOffers((prev) => prev.map((offer) => byId.get(offer.id) ?? offer))
+    setFamilyOffers((prev) => prev.map((offer) => byId.get(offer.id) ?? offer))
+  }
+
+  const removeOffers = (isRemoved: (offer: Offer) => boolean) => {
+    setOffers((prev) => prev.filter((offer) => !isRemoved(offer)))
+    setFamilyOffers((prev) => prev.filter((offer) => !isRemoved(offer)))
+  }
+
+  const toggleOfferStatus = async (offerId: number, currentStatus: boolean) => {
+    if (isSuspended || !merchant) return
+
+    if (!currentStatus && isBudgetPaused) {
+      toast.error(t('offers.budgetPausedActivateError'))
+      return
+    }
+
+    const offer = offers.find((item) => item.id === offerId)
+    if (!currentStatus && offer && getReachedCaps(offer, usage[offerId] ?? EMPTY_USAGE).includes('total')) {
+      toast.error(t('offers.capReachedActivateError'))
+      return
+    }
+
+    try {
+      setUpdating(offerId)
+      mergeUpdatedOffers([await setOfferActive(merchant.id, offerId, !currentStatus)])
+      const statusLabel = t(!currentStatus ? 'offers.statusActivated' : 'offers.statusDeactivated')
+      toast.success(t('offers.statusUpdated', { status: statusLabel }))
+    } catch (error) {
+      console.error('Error updating offer:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.statusError')))
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  // Deleted offers go to the trash, so deleting is undone by restoring them and reloading the list
+  const undoDelete = async (offerIds: number[]) => {
+    if (!merchant) return
+    try {
+      await restoreOffers(merchant.id, offerIds)
+      await reloadOffers()
+      toast.success(t('offers.restoreSuccess'))
+    } catch (error) {
+      console.error('Error restoring offers:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.restoreError')))
+    }
+  }
+
+  const deleteOffer = async (offerId: number) => {
+    if (isSuspended || !merchant) return
+
+    try {
+      await softDeleteOffer(merchant.id, offerId)
+      removeOffers((offer) => offer.id === offerId)
+      showUndoToast({
+        message: t('offers.deleteSuccess'),
+        detail: t('offers.trashHint', { days: OFFER_TRASH_RETENTION_DAYS }),
+        undoLabel: t('offers.undo'),
+        onUndo: () => undoDelete([offerId]),
+      })
+    } catch (error) {
+      console.error('Error deleting offer:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.deleteError')))
+    }
+  }
+
+  // Deleted or refetched-away offers simply drop out of the selection
+  const selectedOffers = useMemo(
+    () => offers.filter((offer) => selectedIds.has(offer.id)),
+    [offers, selectedIds]
+  )
+  const allSelected = offers.length > 0 && selectedOffers.length === offers.length
+  const pageSelected = visibleOffers.length > 0 && visibleOffers.every((offer) => selectedIds.has(offer.id))
+
+  const toggleSelected = (offerId: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(offerId)) {
+        next.delete(offerId)
+      } else {
+        next.add(offerId)
+      }
+      return next
+    })
+  }
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(offers.map((offer) => offer.id)))
+  }
+
+  // The table's header checkbox only covers the page on screen
+  const togglePageSelected = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      visibleOffers.forEach((offer) => {
+        if (pageSelected) {
+          next.delete(offer.id)
+        } else {
+          next.add(offer.id)
+        }
+      })
+      return next
+    })
+  }
+
+
+  const undoBulkAction = async (action: BulkOfferAction, plan: BulkOfferPlan) => {
+    if (!merchant) return
+    if (action.type === 'delete') {
+      await undoDelete(plan.offerIds)
+      return
+    }
+    try {
+      mergeUpdatedOffers(await updateOffersBatch(merchant.id, plan.undo))
+      toast.success(t('offers.bulkUndone'))
+    } catch (error) {
+      console.error('Error undoing bulk offer action:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.bulkUndoError')))
+    }
+  }
+
+  const runBulkAction = async (action: BulkOfferAction) => {
+    if (isSuspended || !merchant || selectedOffers.length === 0) return
+
+    if (action.type === 'activate' && isBudgetPaused) {
+      toast.error(t('offers.budgetPausedActivateError'))
+      return
+    }
+
+    const plan = planBulkOfferAction(selectedOffers, action, usage)
+    if (plan.offerIds.length === 0) {
+      toast.error(t('offers.bulkNothingToDo'))
+      return
+    }
+
+    try {
+      setBulkPending(true)
+      if (action.type === 'delete') {
+        await softDeleteOffers(merchant.id, plan.offerIds)
+        const deleted = new Set(plan.offerIds)
+        removeOffers((offer) => deleted.has(offer.id))
+      } else {
+        mergeUpdatedOffers(await updateOffersBatch(merchant.id, plan.updates))
+      }
+      setSelectedIds(new Set())
+
+      showUndoToast({
+        message: t(`offers.bulkDone_${action.type}`, { count: plan.offerIds.length }),
+        detail:
+          action.type === 'delete'
+            ? t('offers.trashHint', { days: OFFER_TRASH_RETENTION_DAYS })
+            : plan.skipped.length > 0
+              ? t('offers.bulkSkipped', { count: plan.skipped.length })
+              : null,
+        undoLabel: t('offers.undo'),
+        onUndo: () => undoBulkAction(action, plan),
+      })
+    } catch (error) {
+      console.error('Error running bulk offer action:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.bulkError')))
+    } finally {
+      setBulkPending(false)
+    }
+  }
+
+  const toggleFamilyStatus = async (group: OfferFamilyGroup, isActive: boolean) => {
+    if (isSuspended || !merchant) return
+    if (isActive && isBudgetPaused) {
+      toast.error(t('offers.budgetPausedActivateError'))
+      return
+    }
+    try {
+      setUpdatingFamily(group.family.id)
+      mergeUpdatedOffers(await setOfferFamilyActive(merchant.id, group.family.id, isActive))
+      const statusLabel = t(isActive ? 'offers.statusActivated' : 'offers.statusDeactivated')
+      toast.success(t('offers.familyStatusUpdated', { status: statusLabel }))
+    } catch (error) {
+      console.error('Error updating offer family:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.statusError')))
+    } finally {
+      setUpdatingFamily(null)
+    }
+  }
+
+  const deleteFamily = async (group: OfferFamilyGroup) => {
+    if (isSuspended || !merchant) return
+    if (!confirm(t('offers.familyDeleteConfirm', { count: group.offers.length }))) return
+
+    try {
+      await softDeleteOfferFamily(merchant.id, group.family.id)
+      removeOffers((offer) => offer.family_id === group.family.id)
+      showUndoToast({
+        message: t('offers.familyDeleteSuccess'),
+        detail: t('offers.trashHint', { days: OFFER_TRASH_RETENTION_DAYS }),
+        undoLabel: t('offers.undo'),
+        onUndo: () => undoDelete(group.offers.map((offer) => offer.id)),
+      })
+    } catch (error) {
+      console.error('Error deleting offer family:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.deleteError')))
+    }
+  }
+
+  const openNewCreateForm = () => {
+    if (isSuspended) return
+    setEditingFamily(null)
+    setNewFormOpen(true)
+  }
+
+  const openFamilyEditor = (group: OfferFamilyGroup) => {
+    if (isSuspended) return
+    setEditingFamily(group)
+    setNewFormOpen(true)
+  }
+
+  const openEditForm = (offer: Offer) => {
+    if (isSuspended) return
+    setEditingOffer(offer)
+    setFormOpen(true)
+  }
+
+  const openDuplicateForm = (offer: Offer) => {
+    if (isSuspended) return
+    setEditingOffer(null)
+    setDuplicateSource(offer)
+    setFormOpen(true)
+  }
+
+  const closeForm = () => {
+    setEditingOffer(null)
+    setDuplicateSource(null)
+    setFormOpen(false)
+  }
+
+  const closeNewForm = () => {
+    setNewFormOpen(false)
+    setEditingFamily(null)
+  }
+
+  useEffect(() => {
+    if (initialQueryHandled.current) return
+    initialQueryHandled.current = true
+
+    if (typeof window === 'undefined' || isSuspended) {
+      return
+    }
+
+    const params = new URLSearchParams(window.location.search)
+    if (params.get('view') === 'create') {
+      setEditingOffer(null)
+      setNewFormOpen(true)
+      params.delete('view')
+      const rest = params.toString()
+      router.replace(`/dashboard/offers${rest ? `?${rest}` : ''}`, { scroll: false })
+    }
+  }, [isSuspended, router])
+
+  const familyGroups = useMemo<OfferFamilyGroup[]>(
+    () =>
+      families
+        .map((family) => ({
+          family,
+          offers: familyOffers
+            .filter((offer) => offer.family_id === family.id)
+            .sort((a, b) => a.min_followers - b.min_followers),
+        }))
+        .filter((group) => group.offers.length > 0),
+    [families, familyOffers]
+  )
+
+  const familyNames = useMemo(
+    () => new Map(families.map((family) => [family.id, family.name])),
+    [families]
+  )
+
+  const isFiltered = hasActiveFilters(filters)
+  const hasOffers = offers.length > 0 || familyOffers.length > 0 || isFiltered
+
+  // Only the first load blocks the page; filter changes refresh the list in place
+  const isReady = !loadingContext && offersLoaded && Boolean(user && merchant)
+
+  if (!isReady) {
+    return <OffersPageFallback />
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-gray-900">{t('offers.title')}</h1>
+            <p className="text-gray-600">{t('offers.subtitle')}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Link href="/dashboard/offers/trash" className="btn btn-secondary">
+              {t('offers.trash')}
+            </Link>
+            {hasOffers && merchant && <ExportButton dataset="offers" merchantId={merchant.id} timeZone={timeZone} />}
+            {!isSuspended && (
+              <button
+                onClick={openNewCreateForm}
+                className="btn btn-primary hidden items-center gap-2 sm:flex"
+              >
+                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                {t('offers.createOffer')}
+              </button>
+            )}
+          </div>
+        </header>
+
+        {isSuspended && (
+          <div className="rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+            {t('offers.suspendedNotice')}
+          </div>
+        )}
+
+        {hasOffers ? (
+          <div className="space-y-6">
+            {familyGroups.length > 0 && (
+              <section className="space-y-3">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{t('offers.familiesTitle')}</h2>
+                  <p className="text-sm text-gray-500">{t('offers.familiesDescription')}</p>
+                </div>
+                <div className="grid gap-4 lg:grid-cols-2">
+                  {familyGroups.map((group) => (
+                    <OfferFamilyCard
+                      key={group.family.id}
+                      group={group}
+                      disabled={isSuspended}
+                      updating={updatingFamily === group.family.id}
+                      formatDiscountValue={formatDiscountValue}
+                      onEdit={() => openFamilyEditor(group)}
+                      onToggle={(isActive) => toggleFamilyStatus(group, isActive)}
+                      onDelete={() => deleteFamily(group)}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <div
+              className={`rounded-xl border border-gray-200 bg-white shadow-sm transition-opacity ${
+                offersLoading ? 'opacity-60' : ''
+              }`}
+              aria-busy={offersLoading}
+            >
+              <OfferFiltersBar
+                filters={filters}
+                searchInput={searchInput}
+                onSearchChange={setSearchInput}
+                onChange={updateFilters}
+                onSort={sortBy}
+                onClear={clearFilters}
+              />
+              {!isSuspended && offers.length > 0 && (
+                <BulkActionBar
+                  selectedCount={selectedOffers.length}
+                  allSelected={allSelected}
+                  pending={bulkPending}
+                  onToggleAll={toggleAllSelected}
+                  onClear={() => setSelectedIds(new Set())}
+                  onAction={runBulkAction}
+                />
+              )}
+              {offers.length === 0 ? (
+                <div className="px-6 py-12 text-center">
+                  <p className="text-sm font-medium text-gray-900">{t('offers.filterNoMatches')}</p>
+                  {isFiltered && (
+                    <button onClick={clearFilters} className="mt-2 text-sm font-medium text-primary-600 hover:text-primary-700">
+                      {t('offers.filterClear')}
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div className="hidden overflow-x-auto md:block">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          {!isSuspended && (
+                            <th scope="col" className="w-10 py-3 pl-6">
+                              <input
+                                type="checkbox"
+                                checked={pageSelected}
+                                onChange={togglePageSelected}
+                                aria-label={t('offers.bulkSelectPage')}
+                                className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                              />
+                            </th>
+                          )}
+                          <SortableHeader field="title" label={t('offers.tableHeaderOffer')} filters={filters} onSort={sortBy} />
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">{t('offers.tableHeaderType')}</th>
+                          <SortableHeader field="discount_value" label={t('offers.tableHeaderDiscount')} filters={filters} onSort={sortBy} />
+                          <SortableHeader field="min_followers" label={t('offers.tableHeaderFollowers')} filters={filters} onSort={sortBy} />
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">{t('offers.tableHeaderStatus')}</th>
+                          <SortableHeader field="start_at" label={t('offers.tableHeaderDates')} filters={filters} onSort={sortBy} />
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">{t('offers.tableHeaderSchedule')}</th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">{t('offers.tableHeaderCaps')}</th>
+                          <th scope="col" className="px-6 py-3"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100 bg-white">
+                        {visibleOffers.map((offer) => (
+                          <tr key={offer.id} className={selectedIds.has(offer.id) ? 'bg-primary-50/60' : undefined}>
+                            {!isSuspended && (
+                              <td className="w-10 py-4 pl-6">
+                                <input
+                                  type="checkbox"
+                                  checked={selectedIds.has(offer.id)}
+                                  onChange={() => toggleSelected(offer.id)}
+                                  aria-label={t('offers.bulkSelectOffer', { title: offer.title })}
+                                  className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                                />
+                              </td>
+                            )}
+                            <td className="whitespace-nowrap px-6 py-4">
+                              <div className="text-sm font-semibold text-gray-900">{offer.title}</div>
+                              {offer.family_id && familyNames.has(offer.family_id) ? (
+                                <FamilyBadge name={familyNames.get(offer.family_id) ?? ''} />
+                              ) : null}
+                              <LocationsBadge locationIds={offer.location_ids} />
+                              {offer.description ? (
+                                <div className="text-sm text-gray-500">{offer.description}</div>
+                              ) : null}
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-700">
+                              {formatDiscountType(offer)}
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-700">
+                              {formatDiscountValue(offer)}
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-700">
+                              {numberFormatter.format(offer.min_followers || 0)}
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4">
+                              <OfferStatusBadge state={getOfferLiveState(offer, timeZone, now)} pausedByBudget={offer.paused_by_budget} />
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-700">
+                              {formatDateRange(offer.start_at, offer.end_at)}
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-700">
+                              <ScheduleSummary schedule={offer.schedule} />
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-700">
+                              <CapUsage offer={offer} usage={usage[offer.id]} />
+                            </td>
+                            <td className="whitespace-nowrap px-6 py-4">
+                              <div className="flex items-center gap-3">
+                                <button
+                                  onClick={() => openEditForm(offer)}
+                                  className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:cursor-not-allowed disabled:opacity-50"
+                                  disabled={isSuspended}
+                                >
+                                  {t('offers.edit')}
+                                </button>
+                                <button
+                                  onClick={() => openDuplicateForm(offer)}
+                                  className="text-sm font-medium text-gray-600 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-50"
+                                  disabled={isSuspended}
+                                >
+                                  {t('offers.duplicate')}
+                                </button>
+                                <button
+                                  onClick={() => toggleOfferStatus(offer.id, offer.is_active)}
+                                  className={`text-sm font-medium ${
+                                    offer.is_active ? 'text-yellow-600 hover:text-yellow-700' : 'text-green-600 hover:text-green-700'
+                                  } disabled:cursor-not-allowed disabled:opacity-50`}
+                                  disabled={updating === offer.id || isSuspended}
+                                >
+                                  {updating === offer.id ? t('offers.formSaving') : offer.is_active ? t('offers.deactivate') : t('offers.activate')}
+                                </button>
+                                <button
+                                  onClick={() => deleteOffer(offer.id)}
+                                  className="text-sm font-medium text-red-600 hover:text-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+                                  disabled={isSuspended}
+                                >
+                                  {t('offers.delete')}
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <PageControls
+                    className="hidden md:flex"
+                    page={page}
+                    hasNextPage={hasNextPage}
+                    loading={loadingMore}
+                    onPrevious={previousPage}
+                    onNext={() => showMoreOffers(nextPage)}
+                  />
+
+                  {/* Mobile cards */}
+                  <div className="divide-y divide-gray-100 md:hidden">
+                    {offers.map((offer) => (
+                      <div key={offer.id} className="space-y-4 px-4 py-5">
+                        <div className="flex items-start justify-between gap-3">
+                          {!isSuspended && (
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(offer.id)}
+                              onChange={() => toggleSelected(offer.id)}
+                              aria-label={t('offers.bulkSelectOffer', { title: offer.title })}
+                              className="mt-1 h-5 w-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                            />
+                          )}
+                          <div className="flex-1">
+                            <p className="text-base font-semibold text-gray-900">{offer.title}</p>
+                            {offer.family_id && familyNames.has(offer.family_id) ? (
+                              <FamilyBadge name={familyNames.get(offer.family_id) ?? ''} />
+                            ) : null}
+                            <LocationsBadge locationIds={offer.location_ids} />
+                            {offer.description ? (
+                              <p className="text-sm text-gray-500">{offer.description}</p>
+                            ) : null}
+                          </div>
+                          <OfferStatusBadge state={getOfferLiveState(offer, timeZone, now)} pausedByBudget={offer.paused_by_budget} />
+                        </div>
+
+                        <dl className="grid grid-cols-2 gap-4 text-sm">
+                          <div>
+                            <dt className="text-gray-500">{t('offers.tableHeaderType')}</dt>
+                            <dd className="font-medium text-gray-900">{formatDiscountType(offer)}</dd>
+                          </div>
+                          <div>
+                            <dt className="text-gray-500">{t('offers.tableHeaderDiscount')}</dt>
+                            <dd className="font-medium text-gray-900">{formatDiscountValue(offer)}</dd>
+                          </div>
+                          <div>
+                            <dt className="text-gray-500">{t('offers.tableHeaderFollowers')}</dt>
+                            <dd className="font-medium text-gray-900">{numberFormatter.format(offer.min_followers || 0)}</dd>
+                          </div>
+                          <div className="col-span-2">
+                            <dt className="text-gray-500">{t('offers.tableHeaderDates')}</dt>
+                            <dd className="font-medium text-gray-900">{formatDateRange(offer.start_at, offer.end_at)}</dd>
+                          </div>
+                          <div className="col-span-2">
+                            <dt className="text-gray-500">{t('offers.tableHeaderSchedule')}</dt>
+                            <dd className="font-medium text-gray-900"><ScheduleSummary schedule={offer.schedule} /></dd>
+                          </div>
+                          <div className="col-span-2">
+                            <dt className="text-gray-500">{t('offers.tableHeaderCaps')}</dt>
+                            <dd className="font-medium text-gray-900"><CapUsage offer={offer} usage={usage[offer.id]} /></dd>
+                          </div>
+                        </dl>
+
+                        <div className="flex flex-wrap gap-3">
+                          <button
+                            onClick={() => openEditForm(offer)}
+                            className="btn btn-secondary flex-1 disabled:cursor-not-allowed disabled:opacity-50"
+                            disabled={isSuspended}
+                          >
+                            {t('offers.edit')}
+                          </button>
+                          <button
+                            onClick={() => toggleOfferStatus(offer.id, offer.is_active)}
+                            className={`btn flex-1 ${
+                              offer.is_active ? 'btn-secondary bg-yellow-100 text-yellow-700 hover:bg-yellow-200' : 'btn-primary'
+                            } disabled:cursor-not-allowed disabled:opacity-50`}
+                            disabled={updating === offer.id || isSuspended}
+                          >
+                            {updating === offer.id ? t('offers.formSaving') : offer.is_active ? t('offers.deactivate') : t('offers.activate')}
+                          </button>
+                        </div>
+
+                        <div className="flex gap-4">
+                          <button
+                            onClick={() => openDuplicateForm(offer)}
+                            className="text-sm font-medium text-gray-600 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-50"
+                            disabled={isSuspended}
+                          >
+                            {t('offers.duplicate')}
+                          </button>
+                          <button
+                            onClick={() => deleteOffer(offer.id)}
+                            className="text-sm font-medium text-red-600 hover:text-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+                            disabled={isSuspended}
+                          >
+                            {t('offers.delete')}
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {hasMore && (
+                    <InfiniteScrollSentinel
+                      className="md:hidden"
+                      loading={loadingMore}
+                      onVisible={() => showMoreOffers(loadMore)}
+                    />
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        ) : (
+          <EmptyState onCreate={openNewCreateForm} disabled={isSuspended} />
+        )}
+      </div>
+
+      {formOpen && (
+        <OfferForm
+          offer={editingOffer}
+          initialValues={
+            duplicateSource
+              ? {
+                  ...getDuplicateFields(duplicateSource),
+                  title: t('offers.duplicateTitle', { title: duplicateSource.title }),
+                  description: duplicateSource.description ?? '',
+                }
+              : undefined
+          }
+          onClose={closeForm}
+          onSuccess={() => {
+            closeForm()
+            fetchOffers()
+          }}
+        />
+      )}
+
+      {newFormOpen && (
+        <NewOfferForm
+          family={editingFamily?.family ?? null}
+          familyOffers={editingFamily?.offers ?? []}
+          onClose={closeNewForm}
+          onSuccess={() => {
+            closeNewForm()
+            fetchOffers()
+          }}
+        />
+      )}
+      {!isSuspended && !formOpen && !newFormOpen && (
+        <button
+          onClick={openNewCreateForm}
+          className="fixed bottom-4 left-4 right-4 z-40 rounded-full bg-primary-600 px-6 py-3 text-base font-semibold text-white shadow-lg transition hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 sm:hidden"
+        >
+          {t('offers.createOffer')}
+        </button>
+      )}
+    </DashboardLayout>
+  )
+}
+
+interface OfferFiltersBarProps {
+  filters: OfferFilters
+  searchInput: string
+  onSearchChange: (value: string) => void
+  onChange: (changes: Partial<OfferFilters>) => void
+  onSort: (sort: OfferSortField) => void
+  onClear: () => void
+}
+
+function OfferFiltersBar({ filters, searchInput, onSearchChange, onChange, onSort, onClear }: OfferFiltersBarProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="grid gap-3 border-b border-gray-100 px-4 py-4 sm:grid-cols-2 md:px-6 lg:grid-cols-6">
+      <div className="sm:col-span-2">
+        <label className="sr-only" htmlFor="offer-search">{t('offers.filterSearch')}</label>
+        <input
+          id="offer-search"
+          type="search"
+          className="input"
+          placeholder={t('offers.filterSearch')}
+          value={searchInput}
+          onChange={(event) => onSearchChange(event.target.value)}
+        />
+      </div>
+      <FilterSelect
+        id="offer-status-filter"
+        label={t('offers.filterStatus')}
+        value={filters.status ?? ''}
+        onChange={(value) => onChange({ status: value === 'active' || value === 'inactive' ? value : null })}
+        options={[
+          { value: 'active', label: t('common.active') },
+          { value: 'inactive', label: t('common.inactive') },
+        ]}
+      />
+      <FilterSelect
+        id="offer-type-filter"
+        label={t('offers.filterType')}
+        value={filters.discountType ?? ''}
+        onChange={(value) => onChange({ discountType: value === 'percent' || value === 'coupon' ? value : null })}
+        options={[
+          { value: 'percent', label: t('offers.discountTypePercent') },
+          { value: 'coupon', label: t('offers.discountTypeCoupon') },
+        ]}
+      />
+      <FilterSelect
+        id="offer-tier-filter"
+        label={t('offers.filterTier')}
+        value={filters.tier !== null ? String(filters.tier) : ''}
+        onChange={(value) => onChange({ tier: value ? Number(value) : null })}
+        options={FOLLOWER_TIERS.map((tier) => ({ value: String(tier.value), label: tier.label }))}
+      />
+      <FilterSelect
+        id="offer-dates-filter"
+        label={t('offers.filterDates')}
+        value={filters.dateState ?? ''}
+        onChange={(value) => onChange({ dateState: OFFER_DATE_STATES.find((state) => state === value) ?? null })}
+        options={OFFER_DATE_STATES.map((state) => ({ value: state, label: t(`offers.filterDates_${state}`) }))}
+      />
+
+      <div className="flex items-center gap-2 sm:col-span-2 md:hidden">
+        <label className="sr-only" htmlFor="offer-sort">{t('offers.sortBy')}</label>
+        <select
+          id="offer-sort"
+          className="input"
+          value={filters.sort}
+          onChange={(event) => {
+            const sort = OFFER_SORT_FIELDS.find((field) => field === event.target.value)
+            if (sort) onChange({ sort, ascending: getDefaultAscending(sort) })
+          }}
+        >
+          {OFFER_SORT_FIELDS.map((field) => (
+            <option key={field} value={field}>{t('offers.sortBy')}: {t(`offers.sort_${field}`)}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onSort(filters.sort)}
+          className="btn btn-secondary"
+          aria-label={filters.ascending ? t('offers.sortAscending') : t('offers.sortDescending')}
+        >
+          {filters.ascending ? '↑' : '↓'}
+        </button>
+      </div>
+
+      {hasActiveFilters(filters) && (
+        <div className="flex items-center sm:col-span-2 lg:col-span-6">
+          <button type="button" onClick={onClear} className="text-sm font-medium text-primary-600 hover:text-primary-700">
+            {t('offers.filterClear')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface FilterSelectProps {
+  id: string
+  label: string
+  value: string
+  onChange: (value: string) => void
+  options: Array<{ value: string; label: string }>
+}
+
+function FilterSelect({ id, label, value, onChange, options }: FilterSelectProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div>
+      <label className="sr-only" htmlFor={id}>{label}</label>
+      <select id={id} className="input" value={value} onChange={(event) => onChange(event.target.value)}>
+        <option value="">{label}: {t('offers.filterAll')}</option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+interface SortableHeaderProps {
+  field: OfferSortField
+  label: string
+  filters: OfferFilters
+  onSort: (sort: OfferSortField) => void
+}
+
+function SortableHeader({ field, label, filters, onSort }: SortableHeaderProps) {
+  const active = filters.sort === field
+
+  return (
+    <th
+      scope="col"
+      className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500"
+      aria-sort={active ? (filters.ascending ? 'ascending' : 'descending') : 'none'}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-900 ${active ? 'text-gray-900' : ''}`}
+      >
+        {label}
+        <span aria-hidden="true" className={active ? '' : 'invisible'}>
+          {filters.ascending ? '↑' : '↓'}
+        </span>
+      </button>
+    </th>
+  )
+}
+
+interface BulkActionBarProps {
+  selectedCount: number
+  allSelected: boolean
+  pending: boolean
+  onToggleAll: () => void
+  onClear: () => void
+  onAction: (action: BulkOfferAction) => void
+}
+
+function BulkActionBar({ selectedCount, allSelected, pending, onToggleAll, onClear, onAction }: BulkActionBarProps) {
+  const { t } = useTranslation()
+  const [endDate, setEndDate] = useState('')
+  const [delta, setDelta] = useState('')
+  const parsedDelta = Number(delta)
+  const canApplyDelta = delta.trim() !== '' && Number.isFinite(parsedDelta) && parsedDelta !== 0
+
+  if (selectedCount === 0) {
+    return (
+      <div className="flex items-center gap-3 border-b border-gray-100 px-4 py-3 md:hidden">
+        <input
+          id="bulk-select-all"
+          type="checkbox"
+          checked={false}
+          onChange={onToggleAll}
+          className="h-5 w-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <label htmlFor="bulk-select-all" className="text-sm text-gray-600">{t('offers.bulkSelectAll')}</label>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3 border-b border-primary-100 bg-primary-50/60 px-4 py-3 md:px-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={onToggleAll}
+            aria-label={t('offers.bulkSelectAll')}
+            className="h-5 w-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500 md:hidden"
+          />
+          <p className="text-sm font-semibold text-primary-900" role="status">
+            {t('offers.bulkSelected', { count: selectedCount })}
+          </p>
+          <button type="button" onClick={onClear} className="text-sm font-medium text-gray-600 hover:text-gray-900">
+            {t('offers.bulkClear')}
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => onAction({ type: 'activate' })}
+            disabled={pending}
+            className="text-sm font-medium text-green-600 hover:text-green-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {t('offers.activate')}
+          </button>
+          <button
+            type="button"
+            onClick={() => onAction({ type: 'deactivate' })}
+            disabled={pending}
+            className="text-sm font-medium text-yellow-600 hover:text-yellow-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {t('offers.deactivate')}
+          </button>
+          <button
+            type="button"
+            onClick={() => onAction({ type: 'delete' })}
+            disabled={pending}
+            className="text-sm font-medium text-red-600 hover:text-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {t('offers.delete')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(event: React.FormEvent) => {
+            event.preventDefault()
+            onAction({ type: 'end_date', endAt: endDate || null })
+          }}
+        >
+          <div>
+            <label className="form-label" htmlFor="bulk-end-date">{t('offers.bulkEndDate')}</label>
+            <input
+              id="bulk-end-date"
+              type="date"
+              className="input"
+              value={endDate}
+              onChange={(event) => setEndDate(event.target.value)}
+            />
+          </div>
+          <button type="submit" disabled={pending} className="btn btn-secondary disabled:cursor-not-allowed disabled:opacity-50">
+            {endDate ? t('offers.bulkApply') : t('offers.bulkClearEndDate')}
+          </button>
+        </form>
+
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(event: React.FormEvent) => {
+            event.preventDefault()
+            if (canApplyDelta) {
+              onAction({ type: 'discount_delta', delta: parsedDelta })
+            }
+          }}
+        >
+          <div>
+            <label className="form-label" htmlFor="bulk-discount-delta">{t('offers.bulkDiscountDelta')}</label>
+            <input
+              id="bulk-discount-delta"
+              type="number"
+              step={1}
+              className="input w-32"
+              placeholder="+5"
+              value={delta}
+              onChange={(event) => setDelta(event.target.value)}
+              aria-describedby="bulk-discount-delta-help"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={pending || !canApplyDelta}
+            className="btn btn-secondary disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {t('offers.bulkApply')}
+          </button>
+        </form>
+      </div>
+      <p id="bulk-discount-delta-help" className="text-xs text-gray-500">{t('offers.bulkDiscountDeltaHelp')}</p>
+    </div>
+  )
+}
+
+interface OfferFamilyCardProps {
+  group: OfferFamilyGroup
+  disabled: boolean
+  updating: boolean
+  formatDiscountValue: (offer: Offer) => string
+  onEdit: () => void
+  onToggle: (isActive: boolean) => void
+  onDelete: () => void
+}
+
+function OfferFamilyCard({
+  group,
+  disabled,
+  updating,
+  formatDiscountValue,
+  onEdit,
+  onToggle,
+  onDelete,
+}: OfferFamilyCardProps) {
+  const { t } = useTranslation()
+  const { family, offers } = group
+  const anyActive = offers.some((offer) => offer.is_active)
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-base font-semibold text-gray-900">{family.name}</p>
+          <p className="text-xs text-gray-500">
+            {t('offers.familySummary', {
+              count: offers.length,
+              curve: t(`offers.ladderCurve_${family.scaling_curve}`),
+            })}
+          </p>
+        </div>
+        <button
+          onClick={onEdit}
+          className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={disabled}
+        >
+          {t('offers.familyEditLadder')}
+        </button>
+      </div>
+
+      <ol className="flex gap-2 overflow-x-auto pb-1">
+        {offers.map((offer) => (
+          <li
+            key={offer.id}
+            className={`min-w-[88px] rounded-lg border px-3 py-2 text-center ${
+              offer.is_active ? 'border-primary-100 bg-primary-50' : 'border-gray-200 bg-gray-50 opacity-60'
+            }`}
+          >
+            <p className="text-xs text-gray-500">
+              {getTierForFollowers(offer.min_followers)?.label ?? offer.min_followers}
+            </p>
+            <p className="text-sm font-semibold text-gray-900">{formatDiscountValue(offer)}</p>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={() => onToggle(!anyActive)}
+          className="btn btn-secondary disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={disabled || updating}
+        >
+          {updating
+            ? t('offers.formSaving')
+            : anyActive
+              ? t('offers.familyDeactivateAll')
+              : t('offers.familyActivateAll')}
+        </button>
+        <button
+          onClick={onDelete}
+          className="text-sm font-medium text-red-600 hover:text-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={disabled}
+        >
+          {t('offers.familyDelete')}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+const LIVE_STATE_STYLES: Record<OfferLiveState, string> = {
+  live: 'bg-green-100 text-green-800',
+  inactive: 'bg-gray-100 text-gray-600',
+  not_started: 'bg-blue-50 text-blue-700',
+  ended: 'bg-gray-100 text-gray-600',
+  blackout: 'bg-yellow-100 text-yellow-800',
+  outside_window: 'bg-yellow-100 text-yellow-800',
+}
+
+function OfferStatusBadge({ state, pausedByBudget = false }: { state: OfferLiveState; pausedByBudget?: boolean }) {
+  const { t } = useTranslation()
+
+  if (state === 'inactive' && pausedByBudget) {
+    return (
+      <span className="inline-flex items-center rounded-full bg-red-50 px-2.5 py-0.5 text-xs font-medium text-red-700">
+        {t('offers.liveState_budget_paused')}
+      </span>
+    )
+  }
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 text-xs font-medium ${LIVE_STATE_STYLES[state]}`}>
+      {state === 'live' && <span className="h-1.5 w-1.5 rounded-full bg-green-500" aria-hidden="true" />}
+      {state === 'inactive' ? t('common.inactive') : t(`offers.liveState_${state}`)}
+    </span>
+  )
+}
+
+function ScheduleSummary({ schedule }: { schedule: OfferSchedule | null }) {
+  const { t, locale } = useTranslation()
+
+  if (!hasSchedule(schedule)) {
+    return <span>{t('offers.scheduleAnyTime')}</span>
+  }
+
+  return (
+    <span className="flex flex-col">
+      {schedule.windows.length > 0
+        ? formatScheduleWindows(schedule, locale).map((line) => <span key={line} className="capitalize">{line}</span>)
+        : <span>{t('offers.scheduleAnyTime')}</span>}
+      {schedule.blackout_dates.length > 0 && (
+        <span className="text-xs text-gray-500">
+          {t('offers.scheduleBlackoutCount', { count: schedule.blackout_dates.length })}
+        </span>
+      )}
+    </span>
+  )
+}
+
+function CapUsage({ offer, usage = EMPTY_USAGE }: { offer: Offer; usage?: OfferUsage }) {
+  const { t, locale } = useTranslation()
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+
+  if (!hasCaps(offer)) {
+    return <span>{t('offers.capUnlimited')}</span>
+  }
+
+  const bars = [
+    { key: 'total', label: t('offers.capTotalShort'), used: usage.total, cap: offer.max_redemptions },
+    { key: 'daily', label: t('offers.capDailyShort'), used: usage.today, cap: offer.max_redemptions_per_day },
+  ]
+
+  return (
+    <div className="w-40 space-y-2">
+      {bars.map(({ key, label, used, cap }) =>
+        cap === null ? null : (
+          <div key={key}>
+            <div className="flex justify-between text-xs">
+              <span className="text-gray-500">{label}</span>
+              <span className={used >= cap ? 'font-semibold text-red-700' : 'text-gray-700'}>
+                {numberFormatter.format(used)} / {numberFormatter.format(cap)}
+              </span>
+            </div>
+            <div
+              className="mt-1 h-1.5 overflow-hidden rounded-full bg-gray-100"
+              role="progressbar"
+              aria-label={label}
+              aria-valuemin={0}
+              aria-valuemax={cap}
+              aria-valuenow={Math.min(used, cap)}
+            >
+              <div
+                className={`h-full rounded-full ${
+                  used >= cap ? 'bg-red-500' : getCapProgress(used, cap) >= 0.8 ? 'bg-yellow-500' : 'bg-primary-600'
+                }`}
+                style={{ width: `${getCapProgress(used, cap) * 100}%` }}
+              />
+            </div>
+          </div>
+        )
+      )}
+      {offer.max_redemptions_per_student_week !== null && (
+        <p className="text-xs text-gray-500">
+          {t('offers.capStudentWeeklySummary', { count: offer.max_redemptions_per_student_week })}
+        </p>
+      )}
+    </div>
+  )
+}
+
+function FamilyBadge({ name }: { name: string }) {
+  return (
+    <span className="mt-1 inline-flex items-center rounded-full bg-primary-50 px-2 py-0.5 text-xs font-medium text-primary-700">
+      {name}
+    </span>
+  )
+}
+
+// Only offers limited to some locations get a badge
+function LocationsBadge({ locationIds }: { locationIds: number[] | null }) {
+  const { t } = useTranslation()
+  const { locations } = useLocations()
+
+  if (!locationIds || locations.length < 2) return null
+
+  const names = locationIds.map((id) => locations.find((location) => location.id === id)?.name ?? `#${id}`)
+
+  return (
+    <span
+      className="ml-1 mt-1 inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700"
+      title={names.join(', ')}
+    >
+      {names.length === 1 ? names[0] : t('offers.locationsCount', { count: names.length })}
+    </span>
+  )
+}
+
+function OffersPageFallback() {
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="h-32 w-32 animate-spin rounded-full border-b-2 border-primary-600"></div>
+    </div>
+  )
+}
+
+interface OfferFormProps {
+  offer: Offer | null
+  /** Prefill for a new offer, e.g. a copy of an existing one */
+  initialValues?: Partial<OfferFormData>
+  onClose: () => void
+  onSuccess: () => void
+}
+
+function OfferForm({ offer, initialValues, onClose, onSuccess }: OfferFormProps) {
+  const { merchant } = useAuth()
+  const { t, locale } = useTranslation()
+  // Read once: the prefill object is rebuilt on every parent render
+  const [prefill] = useState(initialValues)
+  const [tab, setTab] = useState<'details' | 'history'>('details')
+  const initialData: OfferFormData = useMemo(() => {
+    const discountType = offer?.discount_type || 'percent'
+    const fallbackValue = discountType === 'percent' ? 10 : 5
+    const defaults: OfferFormData = {
+      title: offer?.title || '',
+      description: offer?.description || '',
+      discount_type: discountType,
+      discount_value: offer?.discount_value ?? fallbackValue,
+      min_followers: offer?.min_followers || 0,
+      start_at: offer?.start_at ? offer.start_at.split('T')[0] : '',
+      end_at: offer?.end_at ? offer.end_at.split('T')[0] : '',
+      schedule: offer?.schedule ?? null,
+      max_redemptions: offer?.max_redemptions ?? null,
+      max_redemptions_per_day: offer?.max_redemptions_per_day ?? null,
+      max_redemptions_per_student_week: offer?.max_redemptions_per_student_week ?? null,
+      is_active: offer?.is_active ?? true,
+      location_ids: offer?.location_ids ?? null
+    }
+    return offer ? defaults : { ...defaults, ...prefill }
+  }, [offer, prefill])
+  const [formData, setFormData] = useState<OfferFormData>(initialData)
+  const [errors, setErrors] = useState<OfferFieldErrors>({})
+  const [loading, setLoading] = useState(false)
+  const scheduleErrors = useMemo(
+    () => (formData.schedule ? validateSchedule(formData.schedule) : []),
+    [formData.schedule]
+  )
+  const currencyFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }),
+    [locale]
+  )
+
+  const computeErrors = useCallback((data: OfferFormData): OfferFieldErrors => {
+    const nextErrors: OfferFieldErrors = {}
+
+    if (!data.title.trim()) {
+      nextErrors.title = t('offers.validationTitle')
+    }
+
+    if (data.discount_type === 'percent') {
+      if (data.discount_value < 5 || data.discount_value > 100 || data.discount_value % 5 !== 0) {
+        nextErrors.discount_value = t('offers.validationPercentage')
+      }
+    } else if (data.discount_value < 1) {
+      nextErrors.discount_value = t('offers.validationFixed')
+    }
+
+    if (data.start_at && data.end_at && data.start_at > data.end_at) {
+      nextErrors.end_at = t('offers.validationDates')
+    }
+
+    if (data.location_ids && data.location_ids.length === 0) {
+      nextErrors.location_ids = t('offers.validationLocations')
+    }
+
+    return nextErrors
+  }, [t])
+
+  useEffect(() => {
+    setFormData(initialData)
+    setErrors(offer || prefill ? computeErrors(initialData) : {})
+  }, [initialData, computeErrors, offer, prefill])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!merchant) return
+
+    const nextErrors = computeErrors(formData)
+    setErrors(nextErrors)
+
+    if (Object.keys(nextErrors).length > 0 || scheduleErrors.length > 0) {
+      toast.error(t('auth.fixErrors'))
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const payload: OfferInput = {
+        ...formData,
+        description: formData.description || null,
+        start_at: formData.start_at || null,
+        end_at: formData.end_at || null,
+      }
+
+      if (offer) {
+        await updateOffer(merchant.id, offer.id, payload)
+        toast.success(t('offers.formUpdated'))
+      } else {
+        await createOffer(merchant.id, payload)
+        toast.success(t('offers.formCreated'))
+      }
+
+      onSuccess()
+    } catch (error: unknown) {
+      console.error('Error saving offer:', error)
+      toast.error(t(getOfferErrorKey(error, 'offers.saveError')))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleChange = <K extends keyof OfferFormData>(field: K, value: OfferFormData[K]) => {
+    setFormData((prev) => {
+      const next = {
+        ...prev,
+        [field]: value
+      }
+      setErrors(computeErrors(next))
+      return next
+    })
+  }
+
+  const applyTemplate = (name: string, template: OfferTemplateFields) => {
+    const next: OfferFormData = {
+      ...formData,
+      title: name,
+      description: template.description ?? '',
+      discount_type: template.discount_type,
+      discount_value: template.discount_value,
+      min_followers: template.min_followers,
+      schedule: template.schedule,
+      max_redemptions: template.max_redemptions,
+      max_redemptions_per_day: template.max_redemptions_per_day,
+      max_redemptions_per_student_week: template.max_redemptions_per_student_week,
+    }
+    setFormData(next)
+    setErrors(computeErrors(next))
+  }
+
+  const getTemplateSnapshot = () => ({
+    name: formData.title,
+    fields: {
+      description: formData.description || null,
+      discount_type: formData.discount_type,
+      discount_value: formData.discount_value,
+      min_followers: formData.min_followers,
+      scaling_curve: null,
+      curve_factor: null,
+      schedule: formData.schedule,
+      max_redemptions: formData.max_redemptions,
+      max_redemptions_per_day: formData.max_redemptions_per_day,
+      max_redemptions_per_student_week: formData.max_redemptions_per_student_week,
+    },
+  })
+
+  const previewValue = useMemo(() => {
+    if (formData.discount_type === 'percent') {
+      return t('offers.discountPercent', { value: formData.discount_value })
+    }
+    return t('offers.discountFixed', { amount: currencyFormatter.format(formData.discount_value || 0) })
+  }, [currencyFormatter, formData.discount_type, formData.discount_value, t])
+
+  const previewBusiness = useMemo(
+    () => merchant?.name || t('offers.previewBusinessFallback'),
+    [merchant?.name, t]
+  )
+  const previewText = useMemo(
+    () => t('offers.previewDescription', { value: previewValue, business: previewBusiness }),
+    [previewBusiness, previewValue, t]
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4 py-6">
+      <div className="relative w-full max-w-2xl rounded-2xl bg-white p-6 shadow-xl">
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 rounded-full bg-gray-100 p-2 text-gray-500 hover:text-gray-700"
+        >
+          <span className="sr-only">{t('common.close')}</span>
+          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">
+            {offer ? t('offers.formEditTitle') : prefill ? t('offers.duplicateFormTitle') : t('offers.formCreateTitle')}
+          </h2>
+          <p className="text-sm text-gray-500">{t('offers.formDescription')}</p>
+        </div>
+
+        {offer && (
+          <div className="mb-6 flex gap-6 border-b border-gray-200" role="tablist">
+            {(['details', 'history'] as const).map((item) => (
+              <button
+                key={item}
+                type="button"
+                role="tab"
+                aria-selected={tab === item}
+                onClick={() => setTab(item)}
+                className={`-mb-px border-b-2 pb-2 text-sm font-medium ${
+                  tab === item
+                    ? 'border-primary-600 text-primary-700'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {item === 'details' ? t('offers.tabDetails') : t('offers.tabHistory')}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {offer && tab === 'history' ? (
+          <OfferHistory offer={offer} />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <OfferTemplatePicker onApply={offer ? undefined : applyTemplate} getCurrent={getTemplateSnapshot} />
+
+            <div className="grid gap-6 sm:grid-cols-2">
+              <div className="sm:col-span-2">
+                <label className="form-label" htmlFor="title">{t('offers.formOfferTitle')}</label>
+                <input
+                  id="title"
+                  type="text"
+                  className={`input ${errors.title ? 'border-red-500 focus:ring-red-500' : ''}`}
+                  value={formData.title}
+                  onChange={(event) => handleChange('title', event.target.value)}
+                  placeholder={t('offers.formOfferPlaceholder')}
+                />
+                {errors.title ? <p className="form-error mt-1">{errors.title}</p> : null}
+              </div>
+
+              <div className="sm:col-span-2">
+                <label className="form-label" htmlFor="description">{t('offers.formDescriptionLabel')}</label>
+                <textarea
+                  id="description"
+                  rows={3}
+                  className="input"
+                  value={formData.description}
+                  onChange={(event) => handleChange('description', event.target.value)}
+                  placeholder={t('offers.formDescriptionPlaceholder')}
+                />
+              </div>
+
+              <div>
+                <label className="form-label" htmlFor="discount_type">{t('offers.formDiscountType')}</label>
+                <select
+                  id="discount_type"
+                  className="input"
+                  value={formData.discount_type}
+                  onChange={(event) => handleChange('discount_type', event.target.value as OfferFormData['discount_type'])}
+                >
+                  <option value="percent">{t('offers.discountTypePercent')}</option>
+                  <option value="coupon">{t('offers.discountTypeCoupon')}</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="form-label" htmlFor="discount_value">{t('offers.formDiscountValue')}</label>
+                <input
+                  id="discount_value"
+                  type="number"
+                  min={formData.discount_type === 'percent' ? 5 : 1}
+                  max={formData.discount_type === 'percent' ? 100 : undefined}
+                  step={formData.discount_type === 'percent' ? 5 : 1}
+                  className={`input ${errors.discount_value ? 'border-red-500 focus:ring-red-500' : ''}`}
+                  value={formData.discount_value}
+                  onChange={(event) => handleChange('discount_value', Number(event.target.value) || 0)}
+                />
+                {errors.discount_value ? (
+                  <p className="form-error mt-1">{errors.discount_value}</p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {formData.discount_type === 'percent'
+                      ? t('offers.validationPercentage')
+                      : t('offers.validationFixed')}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="form-label" htmlFor="min_followers">{t('offers.formMinFollowers')}</label>
+                <input
+                  id="min_followers"
+                  type="number"
+                  min={0}
+                  className="input"
+                  value={formData.min_followers}
+                  onChange={(event) => handleChange('min_followers', Number(event.target.value) || 0)}
+                />
+              </div>
+
+              <div>
+                <label className="form-label" htmlFor="start_at">{t('offers.formStartDate')}</label>
+                <input
+                  id="start_at"
+                  type="date"
+                  className="input"
+                  value={formData.start_at}
+                  onChange={(event) => handleChange('start_at', event.target.value)}
+                />
+              </div>
+
+              <div>
+                <label className="form-label" htmlFor="end_at">{t('offers.formEndDate')}</label>
+                <input
+                  id="end_at"
+                  type="date"
+                  className={`input ${errors.end_at ? 'border-red-500 focus:ring-red-500' : ''}`}
+                  value={formData.end_at}
+                  onChange={(event) => handleChange('end_at', event.target.value)}
+                />
+                {errors.end_at ? <p className="form-error mt-1">{errors.end_at}</p> : null}
+              </div>
+
+              <div className="sm:col-span-2">
+                <OfferScheduleEditor
+                  value={formData.schedule}
+                  onChange={(schedule) => handleChange('schedule', schedule)}
+                  timeZone={resolveTimeZone(merchant?.timezone)}
+                  errors={scheduleErrors}
+                />
+              </div>
+
+              <div className="sm:col-span-2">
+                <OfferLocationsField
+                  value={formData.location_ids}
+                  onChange={(locationIds) => handleChange('location_ids', locationIds)}
+                  error={errors.location_ids}
+                />
+              </div>
+
+              <div className="sm:col-span-2">
+                <OfferCapsFields
+                  value={formData}
+                  onChange={(changes) => setFormData((prev) => ({ ...prev, ...changes }))}
+                />
+              </div>
+
+              <div className="sm:col-span-2">
+                <span className="form-label">{t('offers.formStatus')}</span>
+                <div className="mt-2 flex items-center justify-between rounded-lg border border-gray-200 px-4 py-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{formData.is_active ? t('common.active') : t('common.inactive')}</p>
+                    <p className="text-xs text-gray-500">{formData.is_active ? t('offers.formStatusActive') : t('offers.formStatusInactive')}</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleChange('is_active', !formData.is_active)}
+                    className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition ${
+                      formData.is_active ? 'bg-primary-600' : 'bg-gray-300'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-5 w-5 transform rounded-full bg-white shadow transition ${
+                        formData.is_active ? 'translate-x-5' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button type="button" onClick={onClose} className="btn btn-secondary">
+                {t('common.cancel')}
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={loading}>
+                {loading ? t('offers.formSaving') : offer ? t('offers.formSave') : t('offers.formCreate')}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {tab === 'details' && (
+          <div className="mt-6 rounded-lg border border-gray-100 bg-gray-50 p-4">
+            <h3 className="text-sm font-semibold text-gray-900">{t('offers.previewHeading')}</h3>
+            <p className="mt-1 text-sm text-gray-600">{previewText}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function EmptyState({ onCreate, disabled = false }: { onCreate: () => void; disabled?: boolean }) {
+  const { t } = useTranslation()
+  return (
+    <div className="flex flex-col items-center justify-center rounded-2xl border border-dashed border-gray-200 bg-white py-16 text-center">
+      <div className="rounded-full bg-primary-50 p-4 text-primary-600">
+        <svg className="h-8 w-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+        </svg>
+      </div>
+      <h2 className="mt-6 text-xl font-semibold text-gray-900">{t('offers.emptyTitle')}</h2>
+      <p className="mt-2 max-w-md text-sm text-gray-500">
+        {t('offers.emptyDescription')}
+      </p>
+      {!disabled ? (
+        <button onClick={onCreate} className="btn btn-primary mt-6">
+          {t('offers.emptyCta')}
+        </button>
+      ) : (
+        <p className="mt-4 max-w-md text-sm text-yellow-700">{t('offers.suspendedNotice')}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useTranslation } from './LanguageProvider'
+
+interface PageControlsProps {
+  /** Zero-based */
+  page: number
+  hasNextPage: boolean
+  loading: boolean
+  onPrevious: () => void
+  onNext: () => void
+  className?: string
+}
+
+/**
+ * Previous / next controls for cursor-paginated tables, where the page count isn't known up front
+ */
+export default function PageControls({ page, hasNextPage, loading, onPrevious, onNext, className = '' }: PageControlsProps) {
+  const { t, locale } = useTranslation()
+  const numberFormatter = useMemo(() => new Intl.NumberFormat(locale), [locale])
+
+  return (
+    <div className={`flex items-center justify-between border-t border-gray-100 px-4 py-3 sm:px-6 ${className}`}>
+      <button
+        type="button"
+        onClick={onPrevious}
+        disabled={page === 0 || loading}
+        className="btn btn-secondary disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {t('common.back')}
+      </button>
+      <p className="text-sm text-gray-500">{t('common.pageNumber', { page: numberFormatter.format(page + 1) })}</p>
+      <button
+        type="button"
+        onClick={onNext}
+        disabled={!hasNextPage || loading}
+        className="btn btn-secondary disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {loading ? t('common.loading') : t('common.next')}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useTranslation } from './LanguageProvider'
+
+// BarcodeDetector is not part of TypeScript's DOM lib yet
+interface DetectedBarcode {
+  rawValue: string
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance
+
+const SCAN_INTERVAL_MS = 300
+
+type ScannerStatus = 'starting' | 'scanning' | 'unsupported' | 'denied' | 'error'
+
+interface QrScannerProps {
+  onDetected: (value: string) => void
+  paused?: boolean
+}
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | null => {
+  if (typeof window === 'undefined') return null
+  const detector = (window as Window & { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+  return detector ?? null
+}
+
+export default function QrScanner({ onDetected, paused = false }: QrScannerProps) {
+  const { t } = useTranslation()
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const onDetectedRef = useRef(onDetected)
+  const pausedRef = useRef(paused)
+  const [status, setStatus] = useState<ScannerStatus>('starting')
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected
+  }, [onDetected])
+
+  useEffect(() => {
+    pausedRef.current = paused
+  }, [paused])
+
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector()
+
+    if (!BarcodeDetector || !navigator.mediaDevices?.getUserMedia) {
+      setStatus('unsupported')
+      return
+    }
+
+    let cancelled = false
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const detector = new BarcodeDetector({ formats: ['qr_code'] })
+
+    const scan = async () => {
+      const video = videoRef.current
+      if (cancelled || !video) return
+
+      if (!pausedRef.current && video.readyState >= video.HAVE_ENOUGH_DATA) {
+        try {
+          const codes = await detector.detect(video)
+          const value = codes.find((code) => code.rawValue)?.rawValue
+          if (value && !cancelled && !pausedRef.current) {
+            onDetectedRef.current(value)
+          }
+        } catch (error) {
+          console.error('Error detecting QR code:', error)
+        }
+      }
+
+      if (!cancelled) {
+        timer = setTimeout(scan, SCAN_INTERVAL_MS)
+      }
+    }
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        })
+
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop())
+          return
+        }
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream
+          await videoRef.current.play()
+        }
+
+        setStatus('scanning')
+        scan()
+      } catch (error) {
+        if (cancelled) return
+        console.error('Error starting camera:', error)
+        const denied = error instanceof DOMException && error.name === 'NotAllowedError'
+        setStatus(denied ? 'denied' : 'error')
+      }
+    }
+
+    start()
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [])
+
+  const message =
+    status === 'unsupported'
+      ? t('scan.cameraUnsupported')
+      : status === 'denied'
+        ? t('scan.cameraDenied')
+        : status === 'error'
+          ? t('scan.cameraError')
+          : null
+
+  if (message) {
+    return (
+      <div className="flex aspect-square w-full items-center justify-center rounded-xl border border-dashed border-gray-300 bg-gray-50 p-6 text-center text-sm text-gray-600">
+        {message}
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative aspect-square w-full overflow-hidden rounded-xl bg-gray-900">
+      <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+      <div className="pointer-events-none absolute inset-8 rounded-xl border-2 border-white/80" />
+      {status === 'starting' && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="h-12 w-12 animate-spin rounded-full border-b-2 border-white"></div>
+        </div>
+      )}
+      {paused && status === 'scanning' && (
+        <div className="absolute inset-0 bg-gray-900/60" />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+'use client'
+
+import { toast } from 'react-hot-toast'
+
+/** How long the undo button stays on screen */
+export const UNDO_WINDOW_MS = 10 * 1000
+
+interface UndoToastProps {
+  message: string
+  detail?: string | null
+  undoLabel: string
+  onUndo: () => void
+}
+
+/**
+ * Show a confirmation toast with an undo button for the next UNDO_WINDOW_MS
+ */
+export function showUndoToast(props: UndoToastProps) {
+  toast(
+    (item) => (
+      <UndoToast
+        {...props}
+        onUndo={() => {
+          toast.dismiss(item.id)
+          props.onUndo()
+        }}
+      />
+    ),
+    { duration: UNDO_WINDOW_MS }
+  )
+}
+
+export default function UndoToast({ message, detail, undoLabel, onUndo }: UndoToastProps) {
+  return (
+    <div className="flex items-center gap-4">
+      <div className="text-sm">
+        <p className="font-medium text-gray-900">{message}</p>
+        {detail ? <p className="text-gray-500">{detail}</p> : null}
+      </div>
+      <button
+        type="button"
+        onClick={onUndo}
+        className="text-sm font-semibold text-primary-600 hover:text-primary-700"
+      >
+        {undoLabel}
+      </button>
+    </div>
+  )
+}
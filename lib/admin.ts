@@ -0,0 +1,231 @@
+import { supabase } from './supabase'
+import { CursorPage, PageRequest, decodeCursor, encodeCursor, toCursorPage } from './pagination'
+
+/**
+ * Admin console queries. Admins read every merchant through the "Admins read …" policies
+ * and may only change suspensions (set_merchant_suspended) and report reviews.
+ */
+
+export const ADMIN_PAGE_SIZE = 25
+
+export const MERCHANT_STATUSES = ['active', 'trial', 'trialing', 'past_due', 'inactive', 'canceled', 'suspended'] as const
+
+export type MerchantStatus = (typeof MERCHANT_STATUSES)[number]
+
+export const REPORT_STATUSES = ['pending', 'in_review', 'resolved', 'rejected'] as const
+
+export type ReportStatus = (typeof REPORT_STATUSES)[number]
+
+export interface AdminMerchant {
+  id: number
+  name: string
+  legal_name: string | null
+  owner_email: string | null
+  subscription_status: MerchantStatus
+  subscription_valid_until: string | null
+  balance_cents: number
+  is_visible: boolean
+  suspended_at: string | null
+  suspension_reason: string | null
+  created_at: string
+}
+
+export interface AdminMerchantQuery {
+  search?: string | null
+  status?: MerchantStatus | null
+}
+
+export interface FlaggedRedemption {
+  id: number
+  category: string
+  description: string | null
+  status: ReportStatus
+  created_at: string
+  reviewed_at: string | null
+  reporter_email: string | null
+  claim_id: number
+  student_email: string | null
+  offer: { id: number; title: string } | null
+  merchant: { id: number; name: string } | null
+  redeemed_at: string | null
+}
+
+const MERCHANT_SELECT = `
+  id,
+  name,
+  legal_name,
+  subscription_status,
+  subscription_valid_until,
+  balance_cents,
+  is_visible,
+  suspended_at,
+  suspension_reason,
+  created_at,
+  owner:users!merchants_owner_user_id_fkey(email)
+`
+
+// Only reports against a claim that was redeemed
+const FLAGGED_SELECT = `
+  id,
+  category,
+  description,
+  status,
+  created_at,
+  reviewed_at,
+  reporter:users!reports_reporter_id_fkey(email),
+  claim:offer_claims!reports_reported_claim_id_fkey!inner(
+    id,
+    student:users!offer_claims_student_id_fkey(email),
+    offers(id, title, merchants(id, name)),
+    redemptions!inner(redeemed_at)
+  )
+`
+
+type OneOrMany<T> = T | T[] | null
+
+const pickOne = <T>(value: OneOrMany<T> | undefined): T | null => {
+  if (Array.isArray(value)) return value[0] ?? null
+  return value ?? null
+}
+
+const toIlikePattern = (search: string) =>
+  `"%${search.replace(/[\\%_]/g, (char) => `\\${char}`).replace(/"/g, '\\"')}%"`
+
+interface RawMerchant extends Omit<AdminMerchant, 'owner_email'> {
+  owner: OneOrMany<{ email: string | null }>
+}
+
+interface RawFlaggedRedemption {
+  id: number
+  category: string
+  description: string | null
+  status: ReportStatus
+  created_at: string
+  reviewed_at: string | null
+  reporter: OneOrMany<{ email: string | null }>
+  claim: OneOrMany<{
+    id: number
+    student: OneOrMany<{ email: string | null }>
+    offers: OneOrMany<{ id: number; title: string; merchants: OneOrMany<{ id: number; name: string }> }>
+    redemptions: OneOrMany<{ redeemed_at: string }>
+  }>
+}
+
+function mapMerchant({ owner, ...row }: RawMerchant): AdminMerchant {
+  return { ...row, owner_email: pickOne(owner)?.email ?? null }
+}
+
+function mapFlaggedRedemption(row: RawFlaggedRedemption): FlaggedRedemption {
+  const claim = pickOne(row.claim)
+  const offer = pickOne(claim?.offers)
+  const merchant = pickOne(offer?.merchants)
+
+  return {
+    id: row.id,
+    category: row.category,
+    description: row.description,
+    status: row.status,
+    created_at: row.created_at,
+    reviewed_at: row.reviewed_at,
+    reporter_email: pickOne(row.reporter)?.email ?? null,
+    claim_id: claim?.id ?? 0,
+    student_email: pickOne(claim?.student)?.email ?? null,
+    offer: offer ? { id: offer.id, title: offer.title } : null,
+    merchant: merchant ? { id: merchant.id, name: merchant.name } : null,
+    redeemed_at: pickOne(claim?.redemptions)?.redeemed_at ?? null,
+  }
+}
+
+/**
+ * One page of merchants, newest first. Searching matches the trading or legal name,
+ * or the id when the search is a number.
+ */
+export async function listAdminMerchants(
+  query: AdminMerchantQuery,
+  { cursor, pageSize }: PageRequest
+): Promise<CursorPage<AdminMerchant>> {
+  let request = supabase.from('merchants').select(MERCHANT_SELECT)
+
+  const search = query.search?.trim()
+  if (search) {
+    const pattern = toIlikePattern(search)
+    const filters = [`name.ilike.${pattern}`, `legal_name.ilike.${pattern}`]
+    if (/^\d+$/.test(search)) {
+      filters.push(`id.eq.${search}`)
+    }
+    request = request.or(filters.join(','))
+  }
+  if (query.status) {
+    request = request.eq('subscription_status', query.status)
+  }
+
+  const after = decodeCursor(cursor)
+  if (after) {
+    request = request.lt('id', after[0])
+  }
+
+  const { data, error } = await request.order('id', { ascending: false }).limit(pageSize + 1)
+
+  if (error) throw error
+  const rows = ((data || []) as unknown as RawMerchant[]).map(mapMerchant)
+  return toCursorPage(rows, pageSize, (merchant) => encodeCursor([merchant.id]))
+}
+
+export async function getAdminMerchant(merchantId: number): Promise<AdminMerchant | null> {
+  const { data, error } = await supabase
+    .from('merchants')
+    .select(MERCHANT_SELECT)
+    .eq('id', merchantId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? mapMerchant(data as unknown as RawMerchant) : null
+}
+
+/**
+ * Suspending hides the merchant's offers from students; reactivating restores the status
+ * their subscription period allows.
+ */
+export async function setMerchantSuspended(merchantId: number, suspended: boolean, reason?: string | null) {
+  const { error } = await supabase.rpc('set_merchant_suspended', {
+    p_merchant_id: merchantId,
+    p_suspended: suspended,
+    p_reason: reason ?? null,
+  })
+
+  if (error) throw error
+}
+
+/**
+ * One page of reports filed against redeemed claims, newest first
+ */
+export async function listFlaggedRedemptions(
+  status: ReportStatus | null,
+  { cursor, pageSize }: PageRequest
+): Promise<CursorPage<FlaggedRedemption>> {
+  let request = supabase.from('reports').select(FLAGGED_SELECT)
+
+  if (status) {
+    request = request.eq('status', status)
+  }
+
+  const after = decodeCursor(cursor)
+  if (after) {
+    request = request.lt('id', after[0])
+  }
+
+  const { data, error } = await request.order('id', { ascending: false }).limit(pageSize + 1)
+
+  if (error) throw error
+  const rows = ((data || []) as unknown as RawFlaggedRedemption[]).map(mapFlaggedRedemption)
+  return toCursorPage(rows, pageSize, (report) => encodeCursor([report.id]))
+}
+
+export async function reviewFlaggedRedemption(reportId: number, status: ReportStatus, reviewerUserId: number) {
+  const { error } = await supabase
+    .from('reports')
+    .update({ status, reviewed_by: reviewerUserId, reviewed_at: new Date().toISOString() })
+    .eq('id', reportId)
+
+  if (error) throw error
+}
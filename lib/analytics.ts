@@ -0,0 +1,282 @@
+import { supabase } from './supabase'
+import { DateRange, addDays, listDays } from './billing-periods'
+import { fetchChargePerRedemption, getDateKey } from './metrics'
+import type { DiscountType } from './offers'
+import { FOLLOWER_TIERS, getTierForFollowers } from './offer-tiers'
+import { getZonedParts } from './offer-schedule'
+
+/**
+ * Per-offer performance over a window of days: claims, redemptions, conversion,
+ * cost, and who redeems and when. Days and hours are in the merchant's time zone.
+ */
+
+export const ANALYTICS_WINDOWS = [7, 30, 90] as const
+export type AnalyticsWindow = (typeof ANALYTICS_WINDOWS)[number]
+
+/** Redemptions per weekday (0 = Sunday, as Date#getDay) and hour of day */
+export type RedemptionHeatmap = number[][]
+
+export interface OfferPerformance {
+  offerId: number
+  title: string
+  discountType: DiscountType
+  discountValue: number
+  deleted: boolean
+  /** Claims opened in the window */
+  claims: number
+  /** Claims opened in the window that were redeemed, whenever that happened */
+  convertedClaims: number
+  /** Redemptions made in the window */
+  redemptions: number
+  /** Redemptions per follower tier value; students below the lowest tier or without a count under 0 */
+  tiers: Record<number, number>
+  heatmap: RedemptionHeatmap
+}
+
+export interface OfferAnalytics {
+  range: DateRange
+  /** Busiest offers first */
+  offers: OfferPerformance[]
+  /** EUR, the platform charge per redemption */
+  chargePerRedemption: number
+}
+
+export interface AnalyticsTotals {
+  claims: number
+  convertedClaims: number
+  redemptions: number
+  charges: number
+  /** Fixed coupon value handed out, on top of the charges */
+  couponValue: number
+  tiers: Record<number, number>
+  heatmap: RedemptionHeatmap
+}
+
+/** Tier key for students below FOLLOWER_TIERS[0] or without a follower count */
+export const BELOW_TIERS = 0
+
+const ANALYTICS_BATCH_SIZE = 1000
+
+type OneOrMany<T> = T | T[] | null
+
+const pickOne = <T>(value: OneOrMany<T> | undefined): T | null => {
+  if (Array.isArray(value)) return value[0] ?? null
+  return value ?? null
+}
+
+interface RawOffer {
+  id: number
+  title: string
+  discount_type: DiscountType
+  discount_value: number
+  deleted: boolean
+}
+
+interface RawClaimRow {
+  offers: OneOrMany<RawOffer>
+  redemptions: OneOrMany<{ id: number }>
+}
+
+interface RawRedemptionRow {
+  redeemed_at: string
+  offer_claims: OneOrMany<{
+    student: OneOrMany<{
+      student_profiles: OneOrMany<{ followers_count: number | null; verified_followers_count: number | null }>
+    }>
+    offers: OneOrMany<RawOffer>
+  }>
+}
+
+const createHeatmap = (): RedemptionHeatmap => Array.from({ length: 7 }, () => Array<number>(24).fill(0))
+
+const createTiers = () =>
+  Object.fromEntries([BELOW_TIERS, ...FOLLOWER_TIERS.map((tier) => tier.value)].map((value) => [value, 0])) as Record<
+    number,
+    number
+  >
+
+// Supabase caps each response, so windows are read in batches
+async function fetchAll<T>(read: (from: number, to: number) => PromiseLike<{ data: unknown; error: unknown }>) {
+  const rows: T[] = []
+
+  for (let offset = 0; ; offset += ANALYTICS_BATCH_SIZE) {
+    const { data, error } = await read(offset, offset + ANALYTICS_BATCH_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    const batch = (data || []) as T[]
+    rows.push(...batch)
+
+    if (batch.length < ANALYTICS_BATCH_SIZE) {
+      return rows
+    }
+  }
+}
+
+export function getAnalyticsRange(windowDays: AnalyticsWindow, timeZone?: string, now = new Date()): DateRange {
+  const today = getDateKey(now, timeZone)
+  return { from: addDays(today, -(windowDays - 1)), to: today }
+}
+
+export async function fetchOfferAnalytics(
+  merchantId: number,
+  windowDays: AnalyticsWindow,
+  timeZone?: string,
+  now = new Date()
+): Promise<OfferAnalytics> {
+  const range = getAnalyticsRange(windowDays, timeZone, now)
+  const days = new Set(listDays(range))
+  // Padded by a day so the first local day is covered in any time zone
+  const since = new Date(`${addDays(range.from, -1)}T00:00:00Z`).toISOString()
+
+  const [offerRows, claimRows, redemptionRows, chargePerRedemption] = await Promise.all([
+    fetchAll<RawOffer>((from, to) =>
+      supabase
+        .from('offers')
+        .select('id, title, discount_type, discount_value, deleted')
+        .eq('merchant_id', merchantId)
+        .eq('deleted', false)
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAll<RawClaimRow & { created_at: string }>((from, to) =>
+      supabase
+        .from('offer_claims')
+        .select('created_at, offers!inner(id, merchant_id, title, discount_type, discount_value, deleted), redemptions(id)')
+        .eq('offers.merchant_id', merchantId)
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAll<RawRedemptionRow>((from, to) =>
+      supabase
+        .from('redemptions')
+        .select(`
+          redeemed_at,
+          offer_claims!inner(
+            student:users!offer_claims_student_id_fkey(student_profiles(followers_count, verified_followers_count)),
+            offers!inner(id, merchant_id, title, discount_type, discount_value, deleted)
+          )
+        `)
+        .eq('offer_claims.offers.merchant_id', merchantId)
+        .gte('redeemed_at', since)
+        .order('redeemed_at', { ascending: true })
+        .range(from, to)
+    ),
+    fetchChargePerRedemption(supabase),
+  ])
+
+  const offers = new Map<number, OfferPerformance>()
+  const getOffer = (offer: RawOffer) => {
+    let performance = offers.get(offer.id)
+    if (!performance) {
+      performance = {
+        offerId: offer.id,
+        title: offer.title,
+        discountType: offer.discount_type,
+        discountValue: Number(offer.discount_value) || 0,
+        deleted: Boolean(offer.deleted),
+        claims: 0,
+        convertedClaims: 0,
+        redemptions: 0,
+        tiers: createTiers(),
+        heatmap: createHeatmap(),
+      }
+      offers.set(offer.id, performance)
+    }
+    return performance
+  }
+
+  offerRows.forEach(getOffer)
+
+  for (const row of claimRows) {
+    const offer = pickOne(row.offers)
+    if (!offer || !days.has(getDateKey(new Date(row.created_at), timeZone))) continue
+
+    const performance = getOffer(offer)
+    performance.claims += 1
+    if (pickOne(row.redemptions)) {
+      performance.convertedClaims += 1
+    }
+  }
+
+  for (const row of redemptionRows) {
+    const claim = pickOne(row.offer_claims)
+    const offer = pickOne(claim?.offers)
+    if (!claim || !offer) continue
+
+    const parts = getZonedParts(new Date(row.redeemed_at), timeZone)
+    if (!days.has(parts.dateKey)) continue
+
+    const profile = pickOne(pickOne(claim.student)?.student_profiles)
+    const followers = profile?.verified_followers_count ?? profile?.followers_count ?? null
+    const tier = followers !== null ? getTierForFollowers(followers) : null
+
+    const performance = getOffer(offer)
+    performance.redemptions += 1
+    performance.tiers[tier ? tier.value : BELOW_TIERS] += 1
+    performance.heatmap[parts.weekday][Math.floor(parts.minutes / 60)] += 1
+  }
+
+  return {
+    range,
+    offers: Array.from(offers.values()).sort((a, b) => b.redemptions - a.redemptions || b.claims - a.claims),
+    chargePerRedemption,
+  }
+}
+
+/**
+ * Share of claims that were redeemed; null without claims
+ */
+export function getConversionRate(claims: number, convertedClaims: number) {
+  return claims > 0 ? convertedClaims / claims : null
+}
+
+/**
+ * What one redemption costs the merchant: the platform charge plus the coupon
+ * value for fixed-amount offers. Percentage discounts depend on the basket and
+ * are left out.
+ */
+export function getCostPerRedemption(
+  offer: Pick<OfferPerformance, 'discountType' | 'discountValue'>,
+  chargePerRedemption: number
+) {
+  return chargePerRedemption + (offer.discountType === 'coupon' ? offer.discountValue : 0)
+}
+
+/**
+ * Add up a selection of offers
+ */
+export function sumOfferAnalytics(offers: OfferPerformance[], chargePerRedemption: number): AnalyticsTotals {
+  const totals: AnalyticsTotals = {
+    claims: 0,
+    convertedClaims: 0,
+    redemptions: 0,
+    charges: 0,
+    couponValue: 0,
+    tiers: createTiers(),
+    heatmap: createHeatmap(),
+  }
+
+  for (const offer of offers) {
+    totals.claims += offer.claims
+    totals.convertedClaims += offer.convertedClaims
+    totals.redemptions += offer.redemptions
+    totals.charges += offer.redemptions * chargePerRedemption
+    if (offer.discountType === 'coupon') {
+      totals.couponValue += offer.redemptions * offer.discountValue
+    }
+    for (const [tier, count] of Object.entries(offer.tiers)) {
+      totals.tiers[Number(tier)] += count
+    }
+    offer.heatmap.forEach((hours, weekday) => {
+      hours.forEach((count, hour) => {
+        totals.heatmap[weekday][hour] += count
+      })
+    })
+  }
+
+  return totals
+}
@@ -1,5 +1,6 @@
 import { supabase } from './supabase'
-import { User } from '@supabase/supabase-js'
+import { SupabaseClient, User } from '@supabase/supabase-js'
+import { MerchantRole } from './team'
 
 export interface UserRecord {
   id: number
@@ -20,16 +21,48 @@ export interface Merchant {
   logo_url?: string
   logo_signed_url?: string
   address?: string | null
+  /** Street lines separated by newlines, as saved from the profile page */
+  street?: string | null
+  city?: string | null
+  postal_code?: string | null
+  country?: string | null
   contact_email?: string | null
   subscription_status?: 'trial' | 'active' | 'suspended' | 'canceled' | null
   subscription_valid_until?: string | null
   balance_cents?: number | null
   last_payment_at?: string | null
   preferred_language?: string | null
+  timezone?: string | null
+  /** EUR per calendar month; null means no budget */
+  monthly_budget?: number | null
+  /** Set when the budget was reached and the merchant's offers were paused */
+  budget_paused_at?: string | null
+  /** Set while an admin has suspended the account */
+  suspended_at?: string | null
+  suspension_reason?: string | null
   is_visible: boolean
   created_at: string
 }
 
+export interface MerchantMembership {
+  merchant: Merchant
+  role: MerchantRole
+  /** An admin viewing the account from the admin console */
+  readOnly?: boolean
+}
+
+/**
+ * What AuthProvider starts from: read on the server (lib/server-state.ts) so pages render
+ * with the session and merchant already known
+ */
+export interface InitialAuthState {
+  user: AuthUser | null
+  userRecord: UserRecord | null
+  merchant: Merchant | null
+  role: MerchantRole | null
+  readOnly: boolean
+}
+
 export interface AuthUser extends User {
   user_metadata: {
     role?: 'merchant' | 'admin' | 'student'
@@ -61,9 +94,38 @@ export async function signUp(email: string, password: string): Promise<SignUpRes
   return { auth: data }
 }
 
+/**
+ * Create the merchant account for a merchant user who has none yet (onboarding).
+ * Returns the existing account's id when there already is one.
+ */
+export async function createMerchantAccount(name: string, legalName?: string | null): Promise<number> {
+  const { data, error } = await supabase.rpc('create_merchant_account', {
+    p_name: name,
+    p_legal_name: legalName ?? null,
+  })
+
+  if (error) throw error
+  return data as number
+}
+
+/**
+ * Link pending team invites for the user's email to their account. Runs at sign-in and from
+ * onboarding, so route and membership lookups stay read-only. Returns how many were accepted.
+ */
+export async function acceptMerchantInvites(client: SupabaseClient = supabase): Promise<number> {
+  const { data, error } = await client.rpc('accept_merchant_invites')
+  if (error) throw error
+  return (data as number | null) ?? 0
+}
+
 export async function signIn(email: string, password: string) {
   const { data, error } = await supabase.auth.signInWithPassword({ email, password })
   if (error) throw error
+
+  // Invited staff land on their merchant's dashboard instead of onboarding
+  await acceptMerchantInvites().catch((acceptError) => {
+    console.error('Error accepting team invites:', acceptError)
+  })
   return data
 }
 
@@ -77,8 +139,11 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
   return user as AuthUser | null
 }
 
-export async function getUserRecord(authUserId: string): Promise<UserRecord | null> {
-  const { data, error } = await supabase
+export async function getUserRecord(
+  authUserId: string,
+  client: SupabaseClient = supabase
+): Promise<UserRecord | null> {
+  const { data, error } = await client
     .from('users')
     .select('*')
     .eq('auth_user_id', authUserId)
@@ -88,9 +153,24 @@ export async function getUserRecord(authUserId: string): Promise<UserRecord | nu
   return data
 }
 
-export async function getMerchantProfile(authUserId: string): Promise<Merchant | null> {
+export async function getMerchantProfile(
+  authUserId: string,
+  client: SupabaseClient = supabase
+): Promise<Merchant | null> {
+  const membership = await getMerchantMembership(authUserId, client)
+  return membership?.merchant ?? null
+}
+
+/**
+ * The merchant the user works on and their role there: the account they own, otherwise the
+ * one they were invited to.
+ */
+export async function getMerchantMembership(
+  authUserId: string,
+  client: SupabaseClient = supabase
+): Promise<MerchantMembership | null> {
   // Fetch user first
-  const { data: userData, error: userError } = await supabase
+  const { data: userData, error: userError } = await client
     .from('users')
     .select('id')
     .eq('auth_user_id', authUserId)
@@ -99,12 +179,63 @@ export async function getMerchantProfile(authUserId: string): Promise<Merchant |
   if (userError || !userData) return null
 
   // Fetch merchant row
-  const { data, error } = await supabase
+  const { data, error } = await client
     .from('merchants')
     .select('*')
     .eq('owner_user_id', userData.id)
     .maybeSingle()
 
   if (error) return null
-  return data
-}
\ No newline at end of file
+  if (data) return { merchant: data, role: 'owner' }
+
+  const { data: membership, error: membershipError } = await client
+    .from('merchant_members')
+    .select('role, merchants!inner(*)')
+    .eq('user_id', userData.id)
+    .order('accepted_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (membershipError || !membership) return null
+  return {
+    merchant: membership.merchants as unknown as Merchant,
+    role: membership.role as MerchantRole,
+  }
+}
+
+/**
+ * Membership for a merchant API route. Admins may pass the `merchant_id` of the account they are
+ * viewing (lib/impersonation.ts) and get it read-only; everyone else gets their own account.
+ */
+export async function getRequestMembership(
+  authUserId: string,
+  client: SupabaseClient,
+  requestedMerchantId: string | null
+): Promise<MerchantMembership | null> {
+  if (!requestedMerchantId) {
+    return getMerchantMembership(authUserId, client)
+  }
+
+  const userRecord = await getUserRecord(authUserId, client)
+  if (userRecord?.role !== 'admin') return null
+
+  return getImpersonatedMembership(Number(requestedMerchantId), client)
+}
+
+/**
+ * The merchant an admin is viewing, as its owner would see it but read-only.
+ * Only admins can read other merchants, so this is null for everyone else.
+ */
+export async function getImpersonatedMembership(
+  merchantId: number,
+  client: SupabaseClient = supabase
+): Promise<MerchantMembership | null> {
+  const { data, error } = await client
+    .from('merchants')
+    .select('*')
+    .eq('id', merchantId)
+    .maybeSingle()
+
+  if (error || !data) return null
+  return { merchant: data, role: 'owner', readOnly: true }
+}
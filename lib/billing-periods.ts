@@ -0,0 +1,299 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  DailyChargePoint,
+  LocationTotals,
+  addRedemptionToLocations,
+  fetchChargePerRedemption,
+  fetchRedemptionEvents,
+  getDateKey,
+  toLocationTotals,
+} from './metrics'
+import { withImpersonation } from './impersonation'
+
+/**
+ * Billing periods beyond the current month: past months, year to date and custom
+ * ranges, each compared with the period just before it. Days are calendar days in
+ * the merchant's time zone.
+ */
+
+export type BillingPeriod =
+  | { kind: 'month'; month: string }
+  | { kind: 'ytd' }
+  | { kind: 'custom'; from: string; to: string }
+
+export interface DateRange {
+  /** YYYY-MM-DD, inclusive */
+  from: string
+  /** YYYY-MM-DD, inclusive */
+  to: string
+}
+
+export interface PeriodMetrics extends DateRange {
+  redemptions: number
+  charges: number
+  dailySeries: DailyChargePoint[]
+  /** Busiest location first */
+  byLocation: LocationTotals[]
+}
+
+export interface PeriodComparison {
+  current: PeriodMetrics
+  previous: PeriodMetrics
+  /** EUR, for counting live redemptions in */
+  chargePerRedemption: number
+}
+
+// Keeps custom ranges to roughly a year of redemptions per request
+export const MAX_PERIOD_DAYS = 366
+export const PERIOD_MONTH_OPTIONS = 12
+
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+const toUtcDate = (day: string) => new Date(`${day}T00:00:00Z`)
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate()
+
+export function isDateKey(value: string) {
+  return DATE_PATTERN.test(value) && toDay(toUtcDate(value)) === value
+}
+
+export function addDays(day: string, delta: number) {
+  const date = toUtcDate(day)
+  date.setUTCDate(date.getUTCDate() + delta)
+  return toDay(date)
+}
+
+/**
+ * Number of days in a range, both ends included
+ */
+export function countDays({ from, to }: DateRange) {
+  return Math.round((toUtcDate(to).getTime() - toUtcDate(from).getTime()) / 86400000) + 1
+}
+
+/**
+ * Every day of a range, oldest first
+ */
+export function listDays(range: DateRange) {
+  return Array.from({ length: Math.max(0, countDays(range)) }, (_, index) => addDays(range.from, index))
+}
+
+// Same day of month `delta` months away, clamped to the target month's length
+function shiftDayByMonths(day: string, delta: number) {
+  const [year, month, date] = day.split('-').map(Number)
+  const target = new Date(Date.UTC(year, month - 1 + delta, 1))
+  const targetYear = target.getUTCFullYear()
+  const targetMonth = target.getUTCMonth() + 1
+  const clamped = Math.min(date, daysInMonth(targetYear, targetMonth))
+  return `${targetYear}-${String(targetMonth).padStart(2, '0')}-${String(clamped).padStart(2, '0')}`
+}
+
+const isLastDayOfMonth = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number)
+  return date === daysInMonth(year, month)
+}
+
+/**
+ * Calendar range of a period. Periods that include today stop at today.
+ */
+export function getPeriodRange(period: BillingPeriod, today: string): DateRange {
+  switch (period.kind) {
+    case 'month': {
+      const [year, month] = period.month.split('-').map(Number)
+      const lastDay = `${period.month}-${String(daysInMonth(year, month)).padStart(2, '0')}`
+      return { from: `${period.month}-01`, to: lastDay < today ? lastDay : today }
+    }
+    case 'ytd':
+      return { from: `${today.slice(0, 4)}-01-01`, to: today }
+    case 'custom':
+      return { from: period.from, to: period.to < today ? period.to : today }
+  }
+}
+
+/**
+ * The period to compare with: the same stretch of the previous month or year,
+ * or for custom ranges the window of equal length just before
+ */
+export function getPreviousRange(period: BillingPeriod, range: DateRange): DateRange {
+  switch (period.kind) {
+    case 'month':
+      return {
+        from: shiftDayByMonths(range.from, -1),
+        // A complete month compares with the complete previous month
+        to: isLastDayOfMonth(range.to)
+          ? addDays(`${range.from.slice(0, 7)}-01`, -1)
+          : shiftDayByMonths(range.to, -1),
+      }
+    case 'ytd':
+      return { from: shiftDayByMonths(range.from, -12), to: shiftDayByMonths(range.to, -12) }
+    case 'custom':
+      return { from: addDays(range.from, -countDays(range)), to: addDays(range.from, -1) }
+  }
+}
+
+/**
+ * Most recent months first, starting with the current one
+ */
+export function listPeriodMonths(today: string, count = PERIOD_MONTH_OPTIONS) {
+  return Array.from({ length: count }, (_, index) => shiftDayByMonths(`${today.slice(0, 7)}-01`, -index).slice(0, 7))
+}
+
+/**
+ * Validate a period, e.g. one read from query parameters; returns null when unusable
+ */
+export function parseBillingPeriod(params: URLSearchParams): BillingPeriod | null {
+  const kind = params.get('period')
+
+  if (kind === 'ytd') return { kind }
+
+  if (kind === 'month') {
+    const month = params.get('month') || ''
+    return MONTH_PATTERN.test(month) ? { kind, month } : null
+  }
+
+  if (kind === 'custom') {
+    const from = params.get('from') || ''
+    const to = params.get('to') || ''
+    if (!isDateKey(from) || !isDateKey(to) || from > to) return null
+    return countDays({ from, to }) <= MAX_PERIOD_DAYS ? { kind, from, to } : null
+  }
+
+  return null
+}
+
+function toSearchParams(period: BillingPeriod) {
+  const params = new URLSearchParams({ period: period.kind })
+  if (period.kind === 'month') {
+    params.set('month', period.month)
+  }
+  if (period.kind === 'custom') {
+    params.set('from', period.from)
+    params.set('to', period.to)
+  }
+  return params
+}
+
+function summarize(
+  range: DateRange,
+  dailyCounts: Map<string, number>,
+  events: { key: string; locationId: number | null }[],
+  chargePerRedemption: number
+): PeriodMetrics {
+  const dailySeries = listDays(range).map((date) => {
+    const redemptions = dailyCounts.get(date) || 0
+    return { date, redemptions, charges: redemptions * chargePerRedemption }
+  })
+  const redemptions = dailySeries.reduce((sum, point) => sum + point.redemptions, 0)
+
+  const locationCounts = new Map<number | null, number>()
+  for (const { key, locationId } of events) {
+    if (key < range.from || key > range.to) continue
+    locationCounts.set(locationId, (locationCounts.get(locationId) || 0) + 1)
+  }
+
+  return {
+    ...range,
+    redemptions,
+    charges: redemptions * chargePerRedemption,
+    dailySeries,
+    byLocation: toLocationTotals(locationCounts, chargePerRedemption),
+  }
+}
+
+/**
+ * Redemptions and charges for a period and the one before it, read in a single pass
+ */
+export async function computePeriodComparison(
+  client: SupabaseClient,
+  merchantId: number,
+  period: BillingPeriod,
+  options: { timeZone?: string; now?: Date } = {}
+): Promise<PeriodComparison> {
+  const today = getDateKey(options.now ?? new Date(), options.timeZone)
+  const current = getPeriodRange(period, today)
+  const previous = getPreviousRange(period, current)
+
+  // Padded by a day on each side so every local day is covered in any time zone
+  const since = toUtcDate(addDays(previous.from, -1)).toISOString()
+  const until = toUtcDate(addDays(current.to, 2)).toISOString()
+  const [redemptionEvents, chargePerRedemption] = await Promise.all([
+    fetchRedemptionEvents(client, merchantId, since, until),
+    fetchChargePerRedemption(client),
+  ])
+  const events = redemptionEvents.map(({ redeemedAt, locationId }) => ({
+    key: getDateKey(new Date(redeemedAt), options.timeZone),
+    locationId,
+  }))
+
+  const dailyCounts = new Map<string, number>()
+  for (const { key } of events) {
+    dailyCounts.set(key, (dailyCounts.get(key) || 0) + 1)
+  }
+
+  return {
+    current: summarize(current, dailyCounts, events, chargePerRedemption),
+    previous: summarize(previous, dailyCounts, events, chargePerRedemption),
+    chargePerRedemption,
+  }
+}
+
+/**
+ * Load a period comparison from the server route (browser only)
+ */
+export async function fetchPeriodComparison(
+  period: BillingPeriod,
+  options: { timeZone?: string } = {}
+): Promise<PeriodComparison> {
+  const params = toSearchParams(period)
+  params.set('tz', options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone)
+
+  const response = await fetch(`/api/merchant/metrics/period?${withImpersonation(params).toString()}`, {
+    credentials: 'same-origin',
+  })
+
+  if (!response.ok) {
+    throw new Error(`Period metrics request failed with status ${response.status}`)
+  }
+
+  return response.json()
+}
+
+/**
+ * Relative change between two amounts; null when there is nothing to compare with
+ */
+export function getPeriodChange(current: number, previous: number) {
+  if (previous === 0) return null
+  return (current - previous) / previous
+}
+
+/**
+ * Count a live redemption in the current period in place of a refetch
+ */
+export function addRedemptionToPeriod(
+  comparison: PeriodComparison,
+  redeemedAt: string,
+  timeZone?: string,
+  locationId: number | null = null
+) {
+  const key = getDateKey(new Date(redeemedAt), timeZone)
+  const { current, chargePerRedemption } = comparison
+
+  if (!current.dailySeries.some((point) => point.date === key)) {
+    return comparison
+  }
+
+  return {
+    ...comparison,
+    current: {
+      ...current,
+      redemptions: current.redemptions + 1,
+      charges: current.charges + chargePerRedemption,
+      dailySeries: current.dailySeries.map((point) =>
+        point.date === key
+          ? { ...point, redemptions: point.redemptions + 1, charges: point.charges + chargePerRedemption }
+          : point
+      ),
+      byLocation: addRedemptionToLocations(current.byLocation, locationId, chargePerRedemption),
+    },
+  }
+}
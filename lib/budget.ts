@@ -0,0 +1,96 @@
+import { supabase } from './supabase'
+import { MerchantMetrics, getDateKey } from './metrics'
+
+/**
+ * Monthly spend budget. The redemptions trigger pauses every active offer once
+ * the month's charges reach the budget; these helpers show where the merchant
+ * stands and switch paused offers back on.
+ */
+
+// Warn once this share of the budget is spent
+export const BUDGET_WARNING_RATIO = 0.8
+
+export type BudgetLevel = 'none' | 'ok' | 'warning' | 'reached'
+
+export interface BudgetStatus {
+  level: BudgetLevel
+  budget: number | null
+  charges: number
+  /** Charges expected by the end of the month at the current daily pace */
+  projected: number
+  /** Share of the budget spent, clamped to 0–1 */
+  ratio: number
+}
+
+type BudgetMetrics = Pick<MerchantMetrics, 'monthlyCharges' | 'dailySeries'>
+
+/**
+ * Extrapolate this month's charges from the days elapsed so far
+ */
+export function projectMonthlyCharges({ monthlyCharges, dailySeries }: BudgetMetrics) {
+  const last = dailySeries[dailySeries.length - 1]
+  if (!last) return monthlyCharges
+
+  const [year, month] = last.date.split('-').map(Number)
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  const daysElapsed = dailySeries.length
+
+  return daysElapsed > 0 ? (monthlyCharges / daysElapsed) * daysInMonth : monthlyCharges
+}
+
+/**
+ * Compare actual and projected charges to the budget
+ */
+export function getBudgetStatus(budget: number | null | undefined, metrics: BudgetMetrics): BudgetStatus {
+  const charges = metrics.monthlyCharges
+  const projected = projectMonthlyCharges(metrics)
+
+  if (!budget) {
+    return { level: 'none', budget: null, charges, projected, ratio: 0 }
+  }
+
+  const ratio = Math.min(1, charges / budget)
+  const level: BudgetLevel =
+    charges >= budget ? 'reached' : ratio >= BUDGET_WARNING_RATIO || projected >= budget ? 'warning' : 'ok'
+
+  return { level, budget, charges, projected, ratio }
+}
+
+/**
+ * A pause from an earlier month is over: the budget resets with each cycle
+ */
+export function isBudgetPauseExpired(pausedAt: string | null | undefined, timeZone?: string, now = new Date()) {
+  if (!pausedAt) return false
+  return getDateKey(new Date(pausedAt), timeZone).slice(0, 7) < getDateKey(now, timeZone).slice(0, 7)
+}
+
+/**
+ * Switch back on the offers a previous month's budget paused (resume_expired_budget_pause).
+ * The hourly job normally does this; the database ignores pauses from the current month.
+ */
+export async function resumeBudgetPausedOffers(merchantId: number): Promise<number> {
+  const { data, error } = await supabase.rpc('resume_expired_budget_pause', { p_merchant_id: merchantId })
+
+  if (error) throw error
+  return (data as number | null) ?? 0
+}
+
+/**
+ * Save the monthly budget (set_monthly_budget). The database compares it with this month's
+ * charges in the same transaction: at or below them the active offers are paused right away,
+ * as the redemptions trigger would; above them (or with no budget) offers paused by the old
+ * budget are resumed.
+ */
+export async function updateMonthlyBudget(
+  merchantId: number,
+  budget: number | null
+): Promise<{ resumedOffers: number; pausedOffers: number }> {
+  const { data, error } = await supabase
+    .rpc('set_monthly_budget', { p_merchant_id: merchantId, p_budget: budget })
+    .single()
+
+  if (error) throw error
+
+  const result = data as { resumed_offers: number; paused_offers: number }
+  return { resumedOffers: result.resumed_offers, pausedOffers: result.paused_offers }
+}
@@ -206,4 +206,1982 @@ USING (
   AND merchant_id IN (
     SELECT id FROM public.merchants WHERE is_visible = true
   )
-);
\ No newline at end of file
+);
+
+-- Redemption ledger: merchants can read claims and redemptions of their own offers
+ALTER TABLE public.offer_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Merchants select claims on own offers" ON public.offer_claims;
+DROP POLICY IF EXISTS "Merchants select redemptions on own offers" ON public.redemptions;
+
+CREATE POLICY "Merchants select claims on own offers"
+ON public.offer_claims
+FOR SELECT
+TO authenticated
+USING (
+  offer_id IN (
+    SELECT o.id FROM public.offers o
+    JOIN public.merchants m ON m.id = o.merchant_id
+    WHERE m.owner_user_id = current_user_id()
+  )
+);
+
+CREATE POLICY "Merchants select redemptions on own offers"
+ON public.redemptions
+FOR SELECT
+TO authenticated
+USING (
+  claim_id IN (
+    SELECT c.id FROM public.offer_claims c
+    JOIN public.offers o ON o.id = c.offer_id
+    JOIN public.merchants m ON m.id = o.merchant_id
+    WHERE m.owner_user_id = current_user_id()
+  )
+);
+
+-- Realtime redemption feed on the dashboard (RLS above limits events to the merchant's own offers)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.redemptions;
+
+-- Staff validation from /dashboard/scan: merchants record redemptions and close claims on their own offers
+DROP POLICY IF EXISTS "Merchants insert redemptions on own offers" ON public.redemptions;
+DROP POLICY IF EXISTS "Merchants validate claims on own offers" ON public.offer_claims;
+
+CREATE POLICY "Merchants insert redemptions on own offers"
+ON public.redemptions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  claim_id IN (
+    SELECT c.id FROM public.offer_claims c
+    JOIN public.offers o ON o.id = c.offer_id
+    JOIN public.merchants m ON m.id = o.merchant_id
+    WHERE m.owner_user_id = current_user_id()
+  )
+);
+
+CREATE POLICY "Merchants validate claims on own offers"
+ON public.offer_claims
+FOR UPDATE
+TO authenticated
+USING (
+  offer_id IN (
+    SELECT o.id FROM public.offers o
+    JOIN public.merchants m ON m.id = o.merchant_id
+    WHERE m.owner_user_id = current_user_id()
+  )
+)
+WITH CHECK (status = 'validated');
+
+-- lib/offers.ts filters `deleted` explicitly, so merchants can see their own soft-deleted offers.
+-- Hiding them here made soft-delete RETURNING fail and left restore with no visible row to update.
+DROP POLICY IF EXISTS "Merchants select own offers" ON public.offers;
+
+CREATE POLICY "Merchants select own offers"
+ON public.offers
+FOR SELECT
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+-- Offer families: tier ladders created and edited together from the offer ladder editor
+CREATE TABLE IF NOT EXISTS public.offer_families (
+  id bigserial PRIMARY KEY,
+  merchant_id bigint NOT NULL REFERENCES public.merchants(id),
+  name text NOT NULL,
+  discount_type text NOT NULL CHECK (discount_type = ANY (ARRAY['percent'::text, 'coupon'::text])),
+  scaling_curve text NOT NULL DEFAULT 'linear' CHECK (scaling_curve = ANY (ARRAY['linear'::text, 'geometric'::text, 'custom'::text])),
+  curve_factor numeric,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS family_id bigint REFERENCES public.offer_families(id);
+CREATE INDEX IF NOT EXISTS offers_family_id_idx ON public.offers(family_id);
+
+ALTER TABLE public.offer_families ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Merchants manage own offer families" ON public.offer_families;
+
+CREATE POLICY "Merchants manage own offer families"
+ON public.offer_families
+FOR ALL
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+)
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+-- Recurring offer windows ("happy hours") and blackout dates, evaluated in the merchant's time zone.
+-- schedule: { "windows": [{ "days": [1,2,3,4], "start": "15:00", "end": "18:00" }], "blackout_dates": ["2025-12-25"] }
+ALTER TABLE public.merchants ADD COLUMN IF NOT EXISTS timezone text;
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS schedule jsonb;
+
+-- Redemption caps: NULL means unlimited. "Per day" is the merchant's local day, "per student per week"
+-- is a rolling 7 days. Enforced in the redemptions trigger below so concurrent scans can't overshoot.
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS max_redemptions integer CHECK (max_redemptions > 0);
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS max_redemptions_per_day integer CHECK (max_redemptions_per_day > 0);
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS max_redemptions_per_student_week integer CHECK (max_redemptions_per_student_week > 0);
+
+-- In-app notifications for the merchant (cap reached, …); payload is rendered client-side per type
+CREATE TABLE IF NOT EXISTS public.merchant_notifications (
+  id bigserial PRIMARY KEY,
+  merchant_id bigint NOT NULL REFERENCES public.merchants(id),
+  type text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS merchant_notifications_merchant_id_idx
+  ON public.merchant_notifications(merchant_id, created_at DESC);
+
+ALTER TABLE public.merchant_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Merchants read own notifications" ON public.merchant_notifications;
+DROP POLICY IF EXISTS "Merchants mark own notifications read" ON public.merchant_notifications;
+
+CREATE POLICY "Merchants read own notifications"
+ON public.merchant_notifications
+FOR SELECT
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+CREATE POLICY "Merchants mark own notifications read"
+ON public.merchant_notifications
+FOR UPDATE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.merchant_notifications;
+
+-- Reject redemptions over a cap (lib/redemptions.ts maps the DETAIL to the cap kind)
+CREATE OR REPLACE FUNCTION enforce_offer_caps()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offer public.offers%ROWTYPE;
+  v_student_id bigint;
+  v_time_zone text;
+BEGIN
+  SELECT o.* INTO v_offer
+  FROM public.offers o
+  JOIN public.offer_claims c ON c.offer_id = o.id
+  WHERE c.id = NEW.claim_id
+  FOR UPDATE OF o;
+
+  SELECT student_id INTO v_student_id FROM public.offer_claims WHERE id = NEW.claim_id;
+  SELECT COALESCE(timezone, 'Europe/Madrid') INTO v_time_zone FROM public.merchants WHERE id = v_offer.merchant_id;
+
+  IF v_offer.max_redemptions IS NOT NULL AND (
+    SELECT count(*) FROM public.redemptions r
+    JOIN public.offer_claims c ON c.id = r.claim_id
+    WHERE c.offer_id = v_offer.id
+  ) >= v_offer.max_redemptions THEN
+    RAISE EXCEPTION 'offer_cap_reached' USING ERRCODE = 'P0001', DETAIL = 'total';
+  END IF;
+
+  IF v_offer.max_redemptions_per_day IS NOT NULL AND (
+    SELECT count(*) FROM public.redemptions r
+    JOIN public.offer_claims c ON c.id = r.claim_id
+    WHERE c.offer_id = v_offer.id
+      AND (r.redeemed_at AT TIME ZONE v_time_zone)::date = (now() AT TIME ZONE v_time_zone)::date
+  ) >= v_offer.max_redemptions_per_day THEN
+    RAISE EXCEPTION 'offer_cap_reached' USING ERRCODE = 'P0001', DETAIL = 'daily';
+  END IF;
+
+  IF v_offer.max_redemptions_per_student_week IS NOT NULL AND (
+    SELECT count(*) FROM public.redemptions r
+    JOIN public.offer_claims c ON c.id = r.claim_id
+    WHERE c.offer_id = v_offer.id
+      AND c.student_id = v_student_id
+      AND r.redeemed_at > now() - interval '7 days'
+  ) >= v_offer.max_redemptions_per_student_week THEN
+    RAISE EXCEPTION 'offer_cap_reached' USING ERRCODE = 'P0001', DETAIL = 'student_weekly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Deactivate an offer once its total cap is used up and tell the merchant when a cap is hit
+CREATE OR REPLACE FUNCTION handle_offer_cap_usage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offer public.offers%ROWTYPE;
+  v_time_zone text;
+  v_total integer;
+  v_today integer;
+BEGIN
+  SELECT o.* INTO v_offer
+  FROM public.offers o
+  JOIN public.offer_claims c ON c.offer_id = o.id
+  WHERE c.id = NEW.claim_id;
+
+  IF v_offer.max_redemptions IS NULL AND v_offer.max_redemptions_per_day IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(timezone, 'Europe/Madrid') INTO v_time_zone FROM public.merchants WHERE id = v_offer.merchant_id;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE (r.redeemed_at AT TIME ZONE v_time_zone)::date = (now() AT TIME ZONE v_time_zone)::date)
+  INTO v_total, v_today
+  FROM public.redemptions r
+  JOIN public.offer_claims c ON c.id = r.claim_id
+  WHERE c.offer_id = v_offer.id;
+
+  IF v_offer.max_redemptions IS NOT NULL AND v_total >= v_offer.max_redemptions THEN
+    UPDATE public.offers SET is_active = false WHERE id = v_offer.id;
+
+    INSERT INTO public.merchant_notifications (merchant_id, type, payload)
+    VALUES (
+      v_offer.merchant_id,
+      'offer_cap_reached',
+      jsonb_build_object('offer_id', v_offer.id, 'offer_title', v_offer.title, 'cap', 'total', 'limit', v_offer.max_redemptions)
+    );
+  ELSIF v_offer.max_redemptions_per_day IS NOT NULL AND v_today = v_offer.max_redemptions_per_day THEN
+    INSERT INTO public.merchant_notifications (merchant_id, type, payload)
+    VALUES (
+      v_offer.merchant_id,
+      'offer_cap_reached',
+      jsonb_build_object('offer_id', v_offer.id, 'offer_title', v_offer.title, 'cap', 'daily', 'limit', v_offer.max_redemptions_per_day)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS redemptions_enforce_offer_caps ON public.redemptions;
+CREATE TRIGGER redemptions_enforce_offer_caps
+BEFORE INSERT ON public.redemptions
+FOR EACH ROW EXECUTE FUNCTION enforce_offer_caps();
+
+DROP TRIGGER IF EXISTS redemptions_offer_cap_usage ON public.redemptions;
+CREATE TRIGGER redemptions_offer_cap_usage
+AFTER INSERT ON public.redemptions
+FOR EACH ROW EXECUTE FUNCTION handle_offer_cap_usage();
+
+-- Monthly spend budget (EUR, NULL = no budget). When this month's charges reach it, every active offer
+-- is paused and flagged so it can be switched back on at the next cycle or when the budget is raised.
+ALTER TABLE public.merchants ADD COLUMN IF NOT EXISTS monthly_budget numeric CHECK (monthly_budget > 0);
+ALTER TABLE public.merchants ADD COLUMN IF NOT EXISTS budget_paused_at timestamp with time zone;
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS paused_by_budget boolean NOT NULL DEFAULT false;
+
+-- EUR charged per redemption. The one place the price is set: budget checks use it here and the
+-- app reads it over RPC (fetchChargePerRedemption in lib/metrics.ts) for charges, exports and invoices.
+CREATE OR REPLACE FUNCTION charge_per_redemption()
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 1::numeric;
+$$;
+
+-- This local month's redemption charges for a merchant (apply_monthly_budget, set_monthly_budget)
+CREATE OR REPLACE FUNCTION monthly_charges(p_merchant_id bigint)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT count(*) * charge_per_redemption()
+  FROM public.merchants m
+  JOIN public.offers o ON o.merchant_id = m.id
+  JOIN public.offer_claims c ON c.offer_id = o.id
+  JOIN public.redemptions r ON r.claim_id = c.id
+  WHERE m.id = p_merchant_id
+    AND date_trunc('month', r.redeemed_at AT TIME ZONE COALESCE(m.timezone, 'Europe/Madrid'))
+      = date_trunc('month', now() AT TIME ZONE COALESCE(m.timezone, 'Europe/Madrid'));
+$$;
+
+REVOKE EXECUTE ON FUNCTION monthly_charges(bigint) FROM PUBLIC, anon, authenticated;
+
+-- Pause every active offer once this month's charges reach the budget and notify the merchant.
+-- Shared by the redemptions trigger and set_monthly_budget(); returns the offers paused.
+CREATE OR REPLACE FUNCTION apply_monthly_budget(p_merchant_id bigint)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_merchant public.merchants%ROWTYPE;
+  v_time_zone text;
+  v_charges numeric;
+  v_paused integer;
+BEGIN
+  SELECT m.* INTO v_merchant
+  FROM public.merchants m
+  WHERE m.id = p_merchant_id
+  FOR UPDATE;
+
+  IF v_merchant.monthly_budget IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  v_time_zone := COALESCE(v_merchant.timezone, 'Europe/Madrid');
+
+  -- Already paused this cycle: catch offers switched on or created since, without notifying again.
+  -- A pause from an earlier local month is over even if the resume job hasn't run yet.
+  IF v_merchant.budget_paused_at IS NOT NULL
+    AND date_trunc('month', v_merchant.budget_paused_at AT TIME ZONE v_time_zone) = date_trunc('month', now() AT TIME ZONE v_time_zone)
+  THEN
+    UPDATE public.offers
+    SET is_active = false, paused_by_budget = true
+    WHERE merchant_id = v_merchant.id AND is_active AND NOT deleted;
+    RETURN 0;
+  END IF;
+
+  v_charges := monthly_charges(v_merchant.id);
+
+  IF v_charges < v_merchant.monthly_budget THEN
+    RETURN 0;
+  END IF;
+
+  WITH paused AS (
+    UPDATE public.offers
+    SET is_active = false, paused_by_budget = true
+    WHERE merchant_id = v_merchant.id AND is_active AND NOT deleted
+    RETURNING id
+  )
+  SELECT count(*) INTO v_paused FROM paused;
+
+  UPDATE public.merchants SET budget_paused_at = now() WHERE id = v_merchant.id;
+
+  INSERT INTO public.merchant_notifications (merchant_id, type, payload)
+  VALUES (
+    v_merchant.id,
+    'budget_reached',
+    jsonb_build_object('budget', v_merchant.monthly_budget, 'charges', v_charges, 'paused_offers', v_paused)
+  );
+
+  RETURN v_paused;
+END;
+$$;
+
+-- Only reachable through the trigger and set_monthly_budget(), which check the caller
+REVOKE EXECUTE ON FUNCTION apply_monthly_budget(bigint) FROM PUBLIC, anon, authenticated;
+
+-- Switch back on the offers the budget paused and clear the merchant's pause, in one transaction.
+-- Used by set_monthly_budget(), resume_expired_budget_pause() and the cycle job; returns the offers resumed.
+CREATE OR REPLACE FUNCTION resume_monthly_budget(p_merchant_id bigint)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_resumed integer;
+BEGIN
+  UPDATE public.merchants SET budget_paused_at = NULL WHERE id = p_merchant_id;
+
+  WITH resumed AS (
+    UPDATE public.offers
+    SET is_active = true, paused_by_budget = false
+    WHERE merchant_id = p_merchant_id AND paused_by_budget AND NOT deleted
+    RETURNING id
+  )
+  SELECT count(*) INTO v_resumed FROM resumed;
+
+  RETURN v_resumed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resume_monthly_budget(bigint) FROM PUBLIC, anon, authenticated;
+
+-- Budget changes and resumes from the dashboard are the owner's (lib/budget.ts)
+CREATE OR REPLACE FUNCTION assert_merchant_owner(p_merchant_id bigint)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.merchants
+    WHERE id = p_merchant_id AND owner_user_id = current_user_id()
+  ) AND p_merchant_id NOT IN (SELECT staff_merchant_ids(ARRAY['owner'])) THEN
+    RAISE EXCEPTION 'owner_only' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_monthly_budget()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM apply_monthly_budget(o.merchant_id)
+  FROM public.offers o
+  JOIN public.offer_claims c ON c.offer_id = o.id
+  WHERE c.id = NEW.claim_id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Save the monthly budget (NULL removes it) and settle the pause in the same transaction: at or
+-- below this month's charges the active offers are paused straight away, as the redemptions
+-- trigger would; above them (or without a budget) offers the old budget paused are resumed.
+CREATE OR REPLACE FUNCTION set_monthly_budget(p_merchant_id bigint, p_budget numeric)
+RETURNS TABLE (resumed_offers integer, paused_offers integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM assert_merchant_owner(p_merchant_id);
+
+  UPDATE public.merchants SET monthly_budget = p_budget WHERE id = p_merchant_id;
+
+  IF p_budget IS NOT NULL AND monthly_charges(p_merchant_id) >= p_budget THEN
+    RETURN QUERY SELECT 0, apply_monthly_budget(p_merchant_id);
+  ELSE
+    RETURN QUERY SELECT resume_monthly_budget(p_merchant_id), 0;
+  END IF;
+END;
+$$;
+
+-- Catch-up for the cycle job below when the dashboard loads first: resumes only a pause from an
+-- earlier local month, so it is safe to call on every load.
+CREATE OR REPLACE FUNCTION resume_expired_budget_pause(p_merchant_id bigint)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_expired boolean;
+BEGIN
+  PERFORM assert_merchant_owner(p_merchant_id);
+
+  SELECT date_trunc('month', m.budget_paused_at AT TIME ZONE COALESCE(m.timezone, 'Europe/Madrid'))
+    < date_trunc('month', now() AT TIME ZONE COALESCE(m.timezone, 'Europe/Madrid'))
+  INTO v_expired
+  FROM public.merchants m
+  WHERE m.id = p_merchant_id
+  FOR UPDATE;
+
+  RETURN CASE WHEN v_expired THEN resume_monthly_budget(p_merchant_id) ELSE 0 END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS redemptions_monthly_budget ON public.redemptions;
+CREATE TRIGGER redemptions_monthly_budget
+AFTER INSERT ON public.redemptions
+FOR EACH ROW EXECUTE FUNCTION handle_monthly_budget();
+
+-- New billing cycle: switch budget-paused offers back on (lib/budget.ts also does this lazily on load).
+-- Months follow each merchant's time zone, so the job runs hourly and only resumes merchants
+-- whose local month has changed since the pause.
+SELECT cron.schedule(
+  'resume-budget-paused-offers',
+  '5 * * * *',
+  $$
+    SELECT resume_monthly_budget(m.id)
+    FROM public.merchants m
+    WHERE m.budget_paused_at IS NOT NULL
+      AND date_trunc('month', m.budget_paused_at AT TIME ZONE COALESCE(m.timezone, 'Europe/Madrid'))
+        < date_trunc('month', now() AT TIME ZONE COALESCE(m.timezone, 'Europe/Madrid'));
+  $$
+);
+
+-- Balance ledger behind merchants.balance_cents, written by the billing webhook (top-ups, subscription
+-- payments, refunds) and used for monthly statements. amount_cents is signed: credits > 0, debits < 0.
+CREATE TABLE IF NOT EXISTS public.merchant_balance_transactions (
+  id bigserial PRIMARY KEY,
+  merchant_id bigint NOT NULL REFERENCES public.merchants(id),
+  type text NOT NULL CHECK (type = ANY (ARRAY['top_up'::text, 'charge'::text, 'refund'::text, 'adjustment'::text])),
+  amount_cents integer NOT NULL,
+  balance_after_cents integer,
+  description text,
+  stripe_reference text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS merchant_balance_transactions_merchant_id_idx
+  ON public.merchant_balance_transactions(merchant_id, created_at);
+
+ALTER TABLE public.merchant_balance_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Merchants read own balance transactions" ON public.merchant_balance_transactions;
+
+CREATE POLICY "Merchants read own balance transactions"
+ON public.merchant_balance_transactions
+FOR SELECT
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+-- Offer templates: reusable offer setups saved per merchant to prefill the offer forms.
+-- scaling_curve is NULL for single-offer templates and set for tier ladders.
+CREATE TABLE IF NOT EXISTS public.offer_templates (
+  id bigserial PRIMARY KEY,
+  merchant_id bigint NOT NULL REFERENCES public.merchants(id),
+  name text NOT NULL,
+  description text,
+  discount_type text NOT NULL CHECK (discount_type = ANY (ARRAY['percent'::text, 'coupon'::text])),
+  discount_value numeric NOT NULL,
+  min_followers integer NOT NULL DEFAULT 0,
+  scaling_curve text CHECK (scaling_curve = ANY (ARRAY['linear'::text, 'geometric'::text, 'custom'::text])),
+  curve_factor numeric,
+  schedule jsonb,
+  max_redemptions integer CHECK (max_redemptions > 0),
+  max_redemptions_per_day integer CHECK (max_redemptions_per_day > 0),
+  max_redemptions_per_student_week integer CHECK (max_redemptions_per_student_week > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS offer_templates_merchant_id_idx ON public.offer_templates(merchant_id);
+
+ALTER TABLE public.offer_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Merchants manage own offer templates" ON public.offer_templates;
+
+CREATE POLICY "Merchants manage own offer templates"
+ON public.offer_templates
+FOR ALL
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+)
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+-- Offer trash: soft-deleted offers stay restorable until they are purged, by the merchant or
+-- automatically after the retention period (OFFER_TRASH_RETENTION_DAYS in lib/offers.ts).
+-- Offers with claims keep their row for billing and redemption history and are only marked purged.
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone;
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS purged_at timestamp with time zone;
+
+-- Offers already in the trash start their retention period now
+UPDATE public.offers SET deleted_at = now() WHERE deleted AND deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS offers_trash_idx ON public.offers(merchant_id, deleted_at) WHERE deleted AND purged_at IS NULL;
+
+CREATE OR REPLACE FUNCTION stamp_offer_deleted_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.deleted AND NOT OLD.deleted THEN
+    NEW.deleted_at := now();
+  ELSIF NOT NEW.deleted THEN
+    NEW.deleted_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS offers_stamp_deleted_at ON public.offers;
+CREATE TRIGGER offers_stamp_deleted_at
+BEFORE UPDATE OF deleted ON public.offers
+FOR EACH ROW EXECUTE FUNCTION stamp_offer_deleted_at();
+
+DROP POLICY IF EXISTS "Merchants purge own deleted offers" ON public.offers;
+
+CREATE POLICY "Merchants purge own deleted offers"
+ON public.offers
+FOR DELETE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+  AND deleted = true
+);
+
+-- Runs with the caller's rights, so merchants can only purge their own trashed offers
+CREATE OR REPLACE FUNCTION purge_offers(p_offer_ids bigint[])
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purged integer;
+BEGIN
+  UPDATE public.offers
+  SET purged_at = now()
+  WHERE id = ANY (p_offer_ids) AND deleted AND purged_at IS NULL;
+  GET DIAGNOSTICS v_purged = ROW_COUNT;
+
+  DELETE FROM public.offers o
+  WHERE o.id = ANY (p_offer_ids)
+    AND o.deleted
+    AND NOT EXISTS (SELECT 1 FROM public.offer_claims c WHERE c.offer_id = o.id)
+    AND NOT EXISTS (SELECT 1 FROM public.reports r WHERE r.reported_offer_id = o.id);
+
+  RETURN v_purged;
+END;
+$$;
+
+SELECT cron.schedule(
+  'purge-trashed-offers',
+  '30 3 * * *',
+  $$
+    SELECT purge_offers(ARRAY(
+      SELECT id FROM public.offers WHERE deleted AND purged_at IS NULL AND deleted_at < now() - interval '30 days'
+    ));
+  $$
+);
+
+-- Offer history: one row per create / update / activate / deactivate / delete / restore / purge,
+-- written by a trigger so every path (forms, bulk actions, cron, budget pauses) is covered.
+-- changes holds the tracked fields that moved: { field: { from, to } }.
+-- No foreign key on offer_id: the history outlives purged offers.
+CREATE TABLE IF NOT EXISTS public.offer_history (
+  id bigserial PRIMARY KEY,
+  offer_id bigint NOT NULL,
+  merchant_id bigint NOT NULL REFERENCES public.merchants(id),
+  action text NOT NULL CHECK (action = ANY (ARRAY['create'::text, 'update'::text, 'activate'::text, 'deactivate'::text, 'delete'::text, 'restore'::text, 'purge'::text])),
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  actor_user_id bigint REFERENCES public.users(id),
+  actor_email text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS offer_history_offer_id_idx ON public.offer_history(offer_id, created_at DESC);
+
+ALTER TABLE public.offer_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Merchants read own offer history" ON public.offer_history;
+
+CREATE POLICY "Merchants read own offer history"
+ON public.offer_history
+FOR SELECT
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+CREATE OR REPLACE FUNCTION record_offer_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_fields text[] := ARRAY[
+    'title', 'description', 'discount_type', 'discount_value', 'min_followers', 'start_at', 'end_at', 'schedule',
+    'max_redemptions', 'max_redemptions_per_day', 'max_redemptions_per_student_week', 'is_active', 'paused_by_budget',
+    'location_ids'
+  ];
+  v_field text;
+  v_old jsonb := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END;
+  v_new jsonb := to_jsonb(NEW);
+  v_changes jsonb := '{}'::jsonb;
+  v_action text;
+  v_actor bigint := current_user_id();
+BEGIN
+  FOREACH v_field IN ARRAY v_fields LOOP
+    IF v_old -> v_field IS DISTINCT FROM v_new -> v_field THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_field,
+        jsonb_build_object('from', v_old -> v_field, 'to', v_new -> v_field)
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'create';
+  ELSIF NEW.purged_at IS NOT NULL AND OLD.purged_at IS NULL THEN
+    v_action := 'purge';
+  ELSIF NEW.deleted AND NOT OLD.deleted THEN
+    v_action := 'delete';
+  ELSIF OLD.deleted AND NOT NEW.deleted THEN
+    v_action := 'restore';
+  ELSIF v_changes = '{}'::jsonb THEN
+    RETURN NEW;
+  ELSIF v_changes ? 'is_active' AND (v_changes - 'paused_by_budget' - 'is_active') = '{}'::jsonb THEN
+    v_action := CASE WHEN NEW.is_active THEN 'activate' ELSE 'deactivate' END;
+  ELSE
+    v_action := 'update';
+  END IF;
+
+  -- Budget pauses run inside whoever's redemption crossed the budget; they are the system's doing.
+  -- Switching a paused offer back on by hand clears the flag too, and stays the user's.
+  IF NEW.paused_by_budget AND NOT OLD.paused_by_budget THEN
+    v_actor := NULL;
+  END IF;
+
+  INSERT INTO public.offer_history (offer_id, merchant_id, action, changes, actor_user_id, actor_email)
+  VALUES (
+    NEW.id,
+    NEW.merchant_id,
+    v_action,
+    v_changes,
+    v_actor,
+    (SELECT email FROM public.users WHERE id = v_actor)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS offers_record_history ON public.offers;
+CREATE TRIGGER offers_record_history
+AFTER INSERT OR UPDATE ON public.offers
+FOR EACH ROW EXECUTE FUNCTION record_offer_history();
+
+-- Merchant locations: the shops of a merchant. merchants keeps the legal / billing address;
+-- each location has its own address, opening hours and visibility in the student app.
+-- opening_hours uses the offers.schedule window shape: { windows: [{ days, start, end }] }.
+CREATE TABLE IF NOT EXISTS public.merchant_locations (
+  id bigserial PRIMARY KEY,
+  merchant_id bigint NOT NULL REFERENCES public.merchants(id),
+  name text NOT NULL,
+  street text,
+  city text,
+  postal_code text,
+  country text,
+  opening_hours jsonb,
+  is_visible boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS merchant_locations_merchant_id_idx ON public.merchant_locations(merchant_id);
+
+-- Every existing merchant starts with one location at its current address
+INSERT INTO public.merchant_locations (merchant_id, name, street, city, postal_code, country)
+SELECT m.id, m.name, m.street, m.city, m.postal_code, m.country
+FROM public.merchants m
+WHERE NOT EXISTS (SELECT 1 FROM public.merchant_locations l WHERE l.merchant_id = m.id);
+
+ALTER TABLE public.merchant_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Merchants manage own locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Students see visible locations" ON public.merchant_locations;
+
+CREATE POLICY "Merchants manage own locations"
+ON public.merchant_locations
+FOR ALL
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+)
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+CREATE POLICY "Students see visible locations"
+ON public.merchant_locations
+FOR SELECT
+TO authenticated
+USING (is_visible);
+
+-- Offers apply at every location unless location_ids lists the ones they are limited to
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS location_ids bigint[];
+ALTER TABLE public.offers DROP CONSTRAINT IF EXISTS offers_location_ids_not_empty;
+ALTER TABLE public.offers ADD CONSTRAINT offers_location_ids_not_empty
+  CHECK (location_ids IS NULL OR cardinality(location_ids) > 0);
+
+-- Where a redemption was validated; NULL for redemptions from before locations existed
+ALTER TABLE public.redemptions ADD COLUMN IF NOT EXISTS location_id bigint REFERENCES public.merchant_locations(id);
+
+CREATE INDEX IF NOT EXISTS redemptions_location_id_idx ON public.redemptions(location_id);
+
+-- Reject redemptions recorded at another merchant's location or at one the offer doesn't apply to
+-- (lib/redemptions.ts maps the DETAIL)
+CREATE OR REPLACE FUNCTION enforce_redemption_location()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offer public.offers%ROWTYPE;
+BEGIN
+  IF NEW.location_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT o.* INTO v_offer
+  FROM public.offers o
+  JOIN public.offer_claims c ON c.offer_id = o.id
+  WHERE c.id = NEW.claim_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.merchant_locations
+    WHERE id = NEW.location_id AND merchant_id = v_offer.merchant_id
+  ) OR (v_offer.location_ids IS NOT NULL AND NOT NEW.location_id = ANY (v_offer.location_ids)) THEN
+    RAISE EXCEPTION 'offer_wrong_location' USING ERRCODE = 'P0001', DETAIL = 'location';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS redemptions_enforce_location ON public.redemptions;
+CREATE TRIGGER redemptions_enforce_location
+BEFORE INSERT ON public.redemptions
+FOR EACH ROW EXECUTE FUNCTION enforce_redemption_location();
+
+-- Whether an offers.schedule is open at a local wall-clock time: not a blackout date and, when it
+-- has windows, inside one. Same rules as getOfferLiveState / isWithinWindows in lib/offer-schedule.ts,
+-- including windows that run past midnight.
+CREATE OR REPLACE FUNCTION offer_schedule_open(p_schedule jsonb, p_local timestamp)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH local_now AS (
+    SELECT extract(dow FROM p_local)::int AS weekday,
+           (extract(hour FROM p_local) * 60 + extract(minute FROM p_local))::int AS minutes
+  ), windows AS (
+    SELECT w -> 'days' AS days,
+           split_part(w ->> 'start', ':', 1)::int * 60 + split_part(w ->> 'start', ':', 2)::int AS start_minutes,
+           split_part(w ->> 'end', ':', 1)::int * 60 + split_part(w ->> 'end', ':', 2)::int AS end_minutes
+    FROM jsonb_array_elements(COALESCE(p_schedule -> 'windows', '[]'::jsonb)) w
+  )
+  SELECT NOT (COALESCE(p_schedule -> 'blackout_dates', '[]'::jsonb) ? to_char(p_local, 'YYYY-MM-DD'))
+    AND (
+      NOT EXISTS (SELECT 1 FROM windows)
+      OR EXISTS (
+        SELECT 1
+        FROM windows w, local_now n
+        WHERE CASE
+          WHEN w.end_minutes > w.start_minutes THEN
+            w.days @> to_jsonb(n.weekday) AND n.minutes >= w.start_minutes AND n.minutes < w.end_minutes
+          ELSE
+            (w.days @> to_jsonb(n.weekday) AND n.minutes >= w.start_minutes)
+            OR (w.days @> to_jsonb((n.weekday + 6) % 7) AND n.minutes < w.end_minutes)
+        END
+      )
+    );
+$$;
+
+-- Only open claims on live offers can be redeemed, whichever client inserts the row. The scan
+-- page checks the same before offering to redeem (checkClaimEligibility in lib/redemptions.ts);
+-- the DETAIL carries its reason so the app can say which check failed. Caps and locations have
+-- their own triggers, and a second redemption of a claim hits the unique index.
+CREATE OR REPLACE FUNCTION enforce_redemption_offer_live()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_claim public.offer_claims%ROWTYPE;
+  v_offer public.offers%ROWTYPE;
+  v_time_zone text;
+  v_followers integer;
+BEGIN
+  SELECT c.* INTO v_claim FROM public.offer_claims c WHERE c.id = NEW.claim_id;
+  SELECT o.* INTO v_offer FROM public.offers o WHERE o.id = v_claim.offer_id;
+
+  IF NOT v_offer.is_active OR v_offer.deleted THEN
+    RAISE EXCEPTION 'offer_not_live' USING ERRCODE = 'P0001', DETAIL = 'offer_inactive';
+  END IF;
+
+  IF v_offer.start_at IS NOT NULL AND v_offer.start_at > now() THEN
+    RAISE EXCEPTION 'offer_not_live' USING ERRCODE = 'P0001', DETAIL = 'offer_not_started';
+  END IF;
+
+  IF v_offer.end_at IS NOT NULL AND v_offer.end_at <= now() THEN
+    RAISE EXCEPTION 'offer_not_live' USING ERRCODE = 'P0001', DETAIL = 'offer_ended';
+  END IF;
+
+  SELECT COALESCE(timezone, 'Europe/Madrid') INTO v_time_zone FROM public.merchants WHERE id = v_offer.merchant_id;
+
+  IF NOT offer_schedule_open(v_offer.schedule, now() AT TIME ZONE v_time_zone) THEN
+    RAISE EXCEPTION 'offer_not_live' USING ERRCODE = 'P0001', DETAIL = 'outside_schedule';
+  END IF;
+
+  IF v_claim.qr_expires_at IS NOT NULL AND v_claim.qr_expires_at <= now() THEN
+    RAISE EXCEPTION 'claim_not_redeemable' USING ERRCODE = 'P0001', DETAIL = 'qr_expired';
+  END IF;
+
+  IF v_claim.status IN ('expired', 'canceled') THEN
+    RAISE EXCEPTION 'claim_not_redeemable' USING ERRCODE = 'P0001', DETAIL = 'claim_closed';
+  END IF;
+
+  -- Verified count first, as on the scan page; students without a profile aren't blocked
+  SELECT COALESCE(sp.verified_followers_count, sp.followers_count) INTO v_followers
+  FROM public.student_profiles sp
+  WHERE sp.user_id = v_claim.student_id;
+
+  IF v_followers < v_offer.min_followers THEN
+    RAISE EXCEPTION 'claim_not_redeemable' USING ERRCODE = 'P0001', DETAIL = 'insufficient_followers';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS redemptions_enforce_offer_live ON public.redemptions;
+CREATE TRIGGER redemptions_enforce_offer_live
+BEFORE INSERT ON public.redemptions
+FOR EACH ROW EXECUTE FUNCTION enforce_redemption_offer_live();
+
+-- Team members: staff invited by email to work on a merchant account. The account owner
+-- (merchants.owner_user_id) is implied and has no row here. user_id is set when the invitee
+-- signs in with the invited email (accept_merchant_invites).
+--   owner   – everything, including billing, profile and the team
+--   manager – offers, locations, redemptions and analytics
+--   cashier – validating redemptions only
+CREATE TABLE IF NOT EXISTS public.merchant_members (
+  id bigserial PRIMARY KEY,
+  merchant_id bigint NOT NULL REFERENCES public.merchants(id),
+  email text NOT NULL,
+  role text NOT NULL CHECK (role = ANY (ARRAY['owner'::text, 'manager'::text, 'cashier'::text])),
+  user_id bigint REFERENCES public.users(id),
+  invited_by_user_id bigint REFERENCES public.users(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  accepted_at timestamp with time zone
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS merchant_members_merchant_email_key
+  ON public.merchant_members(merchant_id, lower(email));
+CREATE INDEX IF NOT EXISTS merchant_members_user_id_idx ON public.merchant_members(user_id);
+
+-- Merchants the current user works on as a team member with one of the given roles.
+-- SECURITY DEFINER so policies on merchant_members don't recurse.
+CREATE OR REPLACE FUNCTION staff_merchant_ids(p_roles text[])
+RETURNS SETOF bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT merchant_id FROM public.merchant_members
+  WHERE user_id = current_user_id() AND role = ANY (p_roles);
+$$;
+
+-- Link pending invites to the signed-in user once they sign in with the invited email
+CREATE OR REPLACE FUNCTION accept_merchant_invites()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_accepted integer;
+BEGIN
+  UPDATE public.merchant_members
+  SET user_id = current_user_id(), accepted_at = now()
+  WHERE user_id IS NULL
+    AND lower(email) = (SELECT lower(email) FROM public.users WHERE id = current_user_id());
+  GET DIAGNOSTICS v_accepted = ROW_COUNT;
+  RETURN v_accepted;
+END;
+$$;
+
+-- Invited staff sign up as merchant users; don't give them an empty merchant account of their own
+CREATE OR REPLACE FUNCTION skip_merchant_for_invited_staff()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.merchant_members mm
+    JOIN public.users u ON lower(u.email) = lower(mm.email)
+    WHERE u.id = NEW.owner_user_id AND mm.user_id IS NULL
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS merchants_skip_invited_staff ON public.merchants;
+CREATE TRIGGER merchants_skip_invited_staff
+BEFORE INSERT ON public.merchants
+FOR EACH ROW EXECUTE FUNCTION skip_merchant_for_invited_staff();
+
+ALTER TABLE public.merchant_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners manage team members" ON public.merchant_members;
+DROP POLICY IF EXISTS "Members see own membership" ON public.merchant_members;
+
+CREATE POLICY "Owners manage team members"
+ON public.merchant_members
+FOR ALL
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+  OR merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner']))
+)
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+  OR merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner']))
+);
+
+CREATE POLICY "Members see own membership"
+ON public.merchant_members
+FOR SELECT
+TO authenticated
+USING (user_id = current_user_id());
+
+-- Staff access, on top of the owner policies above
+DROP POLICY IF EXISTS "Staff see their merchant" ON public.merchants;
+DROP POLICY IF EXISTS "Staff owners update their merchant" ON public.merchants;
+DROP POLICY IF EXISTS "Staff manage offers" ON public.offers;
+DROP POLICY IF EXISTS "Cashiers see offers" ON public.offers;
+DROP POLICY IF EXISTS "Staff select claims" ON public.offer_claims;
+DROP POLICY IF EXISTS "Staff validate claims" ON public.offer_claims;
+DROP POLICY IF EXISTS "Staff select redemptions" ON public.redemptions;
+DROP POLICY IF EXISTS "Staff insert redemptions" ON public.redemptions;
+DROP POLICY IF EXISTS "Staff manage offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Staff manage offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Staff read offer history" ON public.offer_history;
+DROP POLICY IF EXISTS "Staff manage locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Cashiers see locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Staff owners read notifications" ON public.merchant_notifications;
+DROP POLICY IF EXISTS "Staff owners mark notifications read" ON public.merchant_notifications;
+DROP POLICY IF EXISTS "Staff owners read balance transactions" ON public.merchant_balance_transactions;
+
+CREATE POLICY "Staff see their merchant"
+ON public.merchants
+FOR SELECT
+TO authenticated
+USING (id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager', 'cashier'])));
+
+CREATE POLICY "Staff owners update their merchant"
+ON public.merchants
+FOR UPDATE
+TO authenticated
+USING (id IN (SELECT staff_merchant_ids(ARRAY['owner'])))
+WITH CHECK (id IN (SELECT staff_merchant_ids(ARRAY['owner'])));
+
+CREATE POLICY "Staff manage offers"
+ON public.offers
+FOR ALL
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])))
+WITH CHECK (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])));
+
+-- The scan page reads the claimed offer to check eligibility
+CREATE POLICY "Cashiers see offers"
+ON public.offers
+FOR SELECT
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['cashier'])));
+
+CREATE POLICY "Staff select claims"
+ON public.offer_claims
+FOR SELECT
+TO authenticated
+USING (
+  offer_id IN (
+    SELECT id FROM public.offers
+    WHERE merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager', 'cashier']))
+  )
+);
+
+CREATE POLICY "Staff validate claims"
+ON public.offer_claims
+FOR UPDATE
+TO authenticated
+USING (
+  offer_id IN (
+    SELECT id FROM public.offers
+    WHERE merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager', 'cashier']))
+  )
+)
+WITH CHECK (status = 'validated');
+
+CREATE POLICY "Staff select redemptions"
+ON public.redemptions
+FOR SELECT
+TO authenticated
+USING (
+  claim_id IN (
+    SELECT c.id FROM public.offer_claims c
+    JOIN public.offers o ON o.id = c.offer_id
+    WHERE o.merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager', 'cashier']))
+  )
+);
+
+CREATE POLICY "Staff insert redemptions"
+ON public.redemptions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  claim_id IN (
+    SELECT c.id FROM public.offer_claims c
+    JOIN public.offers o ON o.id = c.offer_id
+    WHERE o.merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager', 'cashier']))
+  )
+);
+
+CREATE POLICY "Staff manage offer families"
+ON public.offer_families
+FOR ALL
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])))
+WITH CHECK (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])));
+
+CREATE POLICY "Staff manage offer templates"
+ON public.offer_templates
+FOR ALL
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])))
+WITH CHECK (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])));
+
+CREATE POLICY "Staff read offer history"
+ON public.offer_history
+FOR SELECT
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])));
+
+CREATE POLICY "Staff manage locations"
+ON public.merchant_locations
+FOR ALL
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])))
+WITH CHECK (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])));
+
+-- Cashiers pick the location they scan at, hidden ones included
+CREATE POLICY "Cashiers see locations"
+ON public.merchant_locations
+FOR SELECT
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['cashier'])));
+
+CREATE POLICY "Staff owners read notifications"
+ON public.merchant_notifications
+FOR SELECT
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner'])));
+
+CREATE POLICY "Staff owners mark notifications read"
+ON public.merchant_notifications
+FOR UPDATE
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner'])))
+WITH CHECK (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner'])));
+
+CREATE POLICY "Staff owners read balance transactions"
+ON public.merchant_balance_transactions
+FOR SELECT
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner'])));
+
+-- Admin console (/admin): ops staff with users.role = 'admin' read every merchant account,
+-- suspend / reactivate merchants and review flagged redemptions. Admins only get SELECT
+-- policies on merchant data, so viewing a merchant's dashboard is read-only.
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.users WHERE id = current_user_id() AND role = 'admin' AND is_active);
+$$;
+
+ALTER TABLE public.merchants ADD COLUMN IF NOT EXISTS suspended_at timestamp with time zone;
+ALTER TABLE public.merchants ADD COLUMN IF NOT EXISTS suspension_reason text;
+
+-- The app has always written 'trial' and 'suspended'; allow them alongside the Stripe statuses
+ALTER TABLE public.merchants DROP CONSTRAINT IF EXISTS merchants_subscription_status_check;
+ALTER TABLE public.merchants ADD CONSTRAINT merchants_subscription_status_check
+  CHECK (subscription_status = ANY (ARRAY['active'::text, 'trial'::text, 'trialing'::text, 'past_due'::text, 'canceled'::text, 'inactive'::text, 'suspended'::text]));
+
+-- Suspending hides the merchant's offers from students and blocks editing them (see the offer policies below).
+-- Reactivating restores 'active' while the paid period lasts, 'inactive' otherwise.
+CREATE OR REPLACE FUNCTION set_merchant_suspended(p_merchant_id bigint, p_suspended boolean, p_reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'admin_only' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_suspended THEN
+    UPDATE public.merchants
+    SET subscription_status = 'suspended', suspended_at = now(), suspension_reason = NULLIF(trim(p_reason), '')
+    WHERE id = p_merchant_id;
+  ELSE
+    UPDATE public.merchants
+    SET subscription_status = CASE
+          WHEN subscription_valid_until > now() THEN 'active'
+          ELSE 'inactive'
+        END,
+        suspended_at = NULL,
+        suspension_reason = NULL
+    WHERE id = p_merchant_id AND subscription_status = 'suspended';
+  END IF;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Students see active offers" ON public.offers;
+
+CREATE POLICY "Students see active offers"
+ON public.offers
+FOR SELECT
+TO authenticated
+USING (
+  is_active = true
+  AND deleted = false
+  AND start_at <= now()
+  AND (end_at IS NULL OR end_at > now())
+  AND merchant_id IN (
+    SELECT id FROM public.merchants WHERE is_visible = true AND subscription_status <> 'suspended'
+  )
+);
+
+DROP POLICY IF EXISTS "Admins read users" ON public.users;
+DROP POLICY IF EXISTS "Admins read merchants" ON public.merchants;
+DROP POLICY IF EXISTS "Admins read offers" ON public.offers;
+DROP POLICY IF EXISTS "Admins read claims" ON public.offer_claims;
+DROP POLICY IF EXISTS "Admins read redemptions" ON public.redemptions;
+DROP POLICY IF EXISTS "Admins read student profiles" ON public.student_profiles;
+DROP POLICY IF EXISTS "Admins read offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Admins read offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Admins read offer history" ON public.offer_history;
+DROP POLICY IF EXISTS "Admins read locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Admins read team members" ON public.merchant_members;
+DROP POLICY IF EXISTS "Admins read balance transactions" ON public.merchant_balance_transactions;
+DROP POLICY IF EXISTS "Admins read reports" ON public.reports;
+DROP POLICY IF EXISTS "Admins review reports" ON public.reports;
+
+CREATE POLICY "Admins read users"
+ON public.users
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read merchants"
+ON public.merchants
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read offers"
+ON public.offers
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read claims"
+ON public.offer_claims
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read redemptions"
+ON public.redemptions
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read student profiles"
+ON public.student_profiles
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read offer families"
+ON public.offer_families
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read offer templates"
+ON public.offer_templates
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read offer history"
+ON public.offer_history
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read locations"
+ON public.merchant_locations
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read team members"
+ON public.merchant_members
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins read balance transactions"
+ON public.merchant_balance_transactions
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+-- Flagged redemptions: student and merchant reports against a claim
+CREATE POLICY "Admins read reports"
+ON public.reports
+FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins review reports"
+ON public.reports
+FOR UPDATE
+TO authenticated
+USING (is_admin())
+WITH CHECK (is_admin() AND reviewed_by = current_user_id());
+
+CREATE INDEX IF NOT EXISTS reports_reported_claim_id_idx ON public.reports(reported_claim_id) WHERE reported_claim_id IS NOT NULL;
+
+-- Suspension is only lifted by admins (set_merchant_suspended) or the service role (billing
+-- webhooks). Owners can update their merchant row for the profile page, so without this they
+-- could PATCH subscription_status back to 'active' themselves. Sessions without a JWT role
+-- (migrations, cron) are trusted.
+CREATE OR REPLACE FUNCTION protect_merchant_suspension()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.subscription_status IS DISTINCT FROM OLD.subscription_status
+      OR NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+      OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason)
+    AND coalesce(auth.role(), 'service_role') <> 'service_role'
+    AND NOT is_admin()
+  THEN
+    RAISE EXCEPTION 'subscription_status_read_only' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS merchants_protect_suspension ON public.merchants;
+CREATE TRIGGER merchants_protect_suspension
+BEFORE UPDATE ON public.merchants
+FOR EACH ROW EXECUTE FUNCTION protect_merchant_suspension();
+
+-- Suspended merchants can still see their offers but not change them, whichever client they use.
+-- "Staff manage offers" covered SELECT too, so it is split into a read and a write policy.
+DROP POLICY IF EXISTS "Merchants update own offers" ON public.offers;
+DROP POLICY IF EXISTS "Merchants insert own offers" ON public.offers;
+DROP POLICY IF EXISTS "Merchants purge own deleted offers" ON public.offers;
+DROP POLICY IF EXISTS "Staff manage offers" ON public.offers;
+DROP POLICY IF EXISTS "Staff see offers" ON public.offers;
+DROP POLICY IF EXISTS "Staff insert offers" ON public.offers;
+DROP POLICY IF EXISTS "Staff update offers" ON public.offers;
+DROP POLICY IF EXISTS "Staff delete offers" ON public.offers;
+
+CREATE POLICY "Merchants update own offers"
+ON public.offers
+FOR UPDATE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+)
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Merchants insert own offers"
+ON public.offers
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+  AND deleted = false
+);
+
+CREATE POLICY "Merchants purge own deleted offers"
+ON public.offers
+FOR DELETE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+  AND deleted = true
+);
+
+CREATE POLICY "Staff see offers"
+ON public.offers
+FOR SELECT
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])));
+
+CREATE POLICY "Staff insert offers"
+ON public.offers
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+CREATE POLICY "Staff update offers"
+ON public.offers
+FOR UPDATE
+TO authenticated
+USING (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+)
+WITH CHECK (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+CREATE POLICY "Staff delete offers"
+ON public.offers
+FOR DELETE
+TO authenticated
+USING (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+-- The same for the rest of the offer setup and for validating: suspended merchants keep read
+-- access, but families, templates and locations can't change and no redemptions are recorded.
+DROP POLICY IF EXISTS "Merchants insert redemptions on own offers" ON public.redemptions;
+DROP POLICY IF EXISTS "Staff insert redemptions" ON public.redemptions;
+
+CREATE POLICY "Merchants insert redemptions on own offers"
+ON public.redemptions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  claim_id IN (
+    SELECT c.id FROM public.offer_claims c
+    JOIN public.offers o ON o.id = c.offer_id
+    JOIN public.merchants m ON m.id = o.merchant_id
+    WHERE m.owner_user_id = current_user_id() AND m.subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Staff insert redemptions"
+ON public.redemptions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  claim_id IN (
+    SELECT c.id FROM public.offer_claims c
+    JOIN public.offers o ON o.id = c.offer_id
+    WHERE o.merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager', 'cashier']))
+      AND o.merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+  )
+);
+
+DROP POLICY IF EXISTS "Merchants manage own offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Staff manage offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Merchants see own offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Merchants insert own offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Merchants update own offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Merchants delete own offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Staff see offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Staff insert offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Staff update offer families" ON public.offer_families;
+DROP POLICY IF EXISTS "Staff delete offer families" ON public.offer_families;
+
+CREATE POLICY "Merchants see own offer families"
+ON public.offer_families
+FOR SELECT
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+CREATE POLICY "Merchants insert own offer families"
+ON public.offer_families
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Merchants update own offer families"
+ON public.offer_families
+FOR UPDATE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+)
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Merchants delete own offer families"
+ON public.offer_families
+FOR DELETE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Staff see offer families"
+ON public.offer_families
+FOR SELECT
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])));
+
+CREATE POLICY "Staff insert offer families"
+ON public.offer_families
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+CREATE POLICY "Staff update offer families"
+ON public.offer_families
+FOR UPDATE
+TO authenticated
+USING (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+)
+WITH CHECK (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+CREATE POLICY "Staff delete offer families"
+ON public.offer_families
+FOR DELETE
+TO authenticated
+USING (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+DROP POLICY IF EXISTS "Merchants manage own offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Staff manage offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Merchants see own offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Merchants insert own offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Merchants update own offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Merchants delete own offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Staff see offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Staff insert offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Staff update offer templates" ON public.offer_templates;
+DROP POLICY IF EXISTS "Staff delete offer templates" ON public.offer_templates;
+
+CREATE POLICY "Merchants see own offer templates"
+ON public.offer_templates
+FOR SELECT
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+CREATE POLICY "Merchants insert own offer templates"
+ON public.offer_templates
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Merchants update own offer templates"
+ON public.offer_templates
+FOR UPDATE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+)
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Merchants delete own offer templates"
+ON public.offer_templates
+FOR DELETE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Staff see offer templates"
+ON public.offer_templates
+FOR SELECT
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])));
+
+CREATE POLICY "Staff insert offer templates"
+ON public.offer_templates
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+CREATE POLICY "Staff update offer templates"
+ON public.offer_templates
+FOR UPDATE
+TO authenticated
+USING (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+)
+WITH CHECK (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+CREATE POLICY "Staff delete offer templates"
+ON public.offer_templates
+FOR DELETE
+TO authenticated
+USING (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+DROP POLICY IF EXISTS "Merchants manage own locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Staff manage locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Merchants see own locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Merchants insert own locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Merchants update own locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Merchants delete own locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Staff see locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Staff insert locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Staff update locations" ON public.merchant_locations;
+DROP POLICY IF EXISTS "Staff delete locations" ON public.merchant_locations;
+
+CREATE POLICY "Merchants see own locations"
+ON public.merchant_locations
+FOR SELECT
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id()
+  )
+);
+
+CREATE POLICY "Merchants insert own locations"
+ON public.merchant_locations
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Merchants update own locations"
+ON public.merchant_locations
+FOR UPDATE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+)
+WITH CHECK (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Merchants delete own locations"
+ON public.merchant_locations
+FOR DELETE
+TO authenticated
+USING (
+  merchant_id IN (
+    SELECT id FROM public.merchants
+    WHERE owner_user_id = current_user_id() AND subscription_status <> 'suspended'
+  )
+);
+
+CREATE POLICY "Staff see locations"
+ON public.merchant_locations
+FOR SELECT
+TO authenticated
+USING (merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager'])));
+
+CREATE POLICY "Staff insert locations"
+ON public.merchant_locations
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+CREATE POLICY "Staff update locations"
+ON public.merchant_locations
+FOR UPDATE
+TO authenticated
+USING (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+)
+WITH CHECK (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+CREATE POLICY "Staff delete locations"
+ON public.merchant_locations
+FOR DELETE
+TO authenticated
+USING (
+  merchant_id IN (SELECT staff_merchant_ids(ARRAY['owner', 'manager']))
+  AND merchant_id IN (SELECT id FROM public.merchants WHERE subscription_status <> 'suspended')
+);
+
+-- Role-aware routing (middleware.js): everything the middleware needs to route a request in
+-- one round trip. Read-only: pending team invites are accepted at sign-in and onboarding
+-- (accept_merchant_invites), not on every request.
+--   user_role           – users.role, NULL when the auth user has no users row
+--   merchant_id         – the merchant owned, otherwise the first one joined as staff
+--   merchant_role       – 'owner', 'manager' or 'cashier'
+--   subscription_status – that merchant's status ('suspended' restricts the dashboard)
+CREATE OR REPLACE FUNCTION get_route_context()
+RETURNS TABLE (user_role text, merchant_id bigint, merchant_role text, subscription_status text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id bigint := current_user_id();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN QUERY SELECT NULL::text, NULL::bigint, NULL::text, NULL::text;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT u.role, m.id, m.member_role, m.subscription_status
+  FROM public.users u
+  LEFT JOIN LATERAL (
+    SELECT mo.id, 'owner'::text AS member_role, mo.subscription_status, 0 AS rank, mo.created_at AS joined_at
+    FROM public.merchants mo
+    WHERE mo.owner_user_id = u.id
+    UNION ALL
+    SELECT ms.id, mm.role, ms.subscription_status, 1, mm.accepted_at
+    FROM public.merchant_members mm
+    JOIN public.merchants ms ON ms.id = mm.merchant_id
+    WHERE mm.user_id = u.id
+    ORDER BY rank, joined_at
+    LIMIT 1
+  ) m ON true
+  WHERE u.id = v_user_id;
+END;
+$$;
+
+-- Onboarding: merchant users without a merchant row (the signup trigger skipped or failed)
+-- create their account themselves. Returns the new merchant's id.
+CREATE OR REPLACE FUNCTION create_merchant_account(p_name text, p_legal_name text DEFAULT NULL)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id bigint := current_user_id();
+  v_merchant_id bigint;
+BEGIN
+  IF v_user_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.users WHERE id = v_user_id AND role = 'merchant'
+  ) THEN
+    RAISE EXCEPTION 'merchant_only' USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'name_required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_merchant_id FROM public.merchants WHERE owner_user_id = v_user_id;
+  IF v_merchant_id IS NOT NULL THEN
+    RETURN v_merchant_id;
+  END IF;
+
+  INSERT INTO public.merchants (owner_user_id, name, legal_name)
+  VALUES (v_user_id, trim(p_name), NULLIF(trim(p_legal_name), ''))
+  RETURNING id INTO v_merchant_id;
+
+  RETURN v_merchant_id;
+END;
+$$;
+
+-- Save an edited offer ladder in one transaction (saveOfferFamily in lib/offers.ts): the family
+-- row, then its tiers matched to the live offers by follower threshold. Matching offers are
+-- updated, new tiers inserted and offers no longer in the ladder soft-deleted. p_tiers holds
+-- offer rows as toOfferRow builds them. Runs as the caller, so the offer policies (suspension
+-- included) and triggers apply as for single writes. Returns { family, offers }.
+CREATE OR REPLACE FUNCTION save_offer_family(
+  p_merchant_id bigint,
+  p_family_id bigint,
+  p_family jsonb,
+  p_tiers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_family public.offer_families%ROWTYPE;
+  v_tier public.offers%ROWTYPE;
+  v_offer public.offers%ROWTYPE;
+  v_offer_id bigint;
+  v_saved bigint[] := ARRAY[]::bigint[];
+  v_offers jsonb := '[]'::jsonb;
+BEGIN
+  UPDATE public.offer_families
+  SET name = trim(p_family ->> 'name'),
+      discount_type = p_family ->> 'discount_type',
+      scaling_curve = p_family ->> 'scaling_curve',
+      curve_factor = (p_family ->> 'curve_factor')::numeric
+  WHERE id = p_family_id AND merchant_id = p_merchant_id
+  RETURNING * INTO v_family;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'family_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_tier IN
+    SELECT * FROM jsonb_populate_recordset(NULL::public.offers, p_tiers)
+  LOOP
+    SELECT o.id INTO v_offer_id
+    FROM public.offers o
+    WHERE o.family_id = p_family_id
+      AND o.merchant_id = p_merchant_id
+      AND NOT o.deleted
+      AND o.min_followers = v_tier.min_followers
+      AND NOT o.id = ANY (v_saved)
+    ORDER BY o.id
+    LIMIT 1;
+
+    IF v_offer_id IS NULL THEN
+      INSERT INTO public.offers (
+        merchant_id, family_id, title, description, discount_type, discount_value, min_followers,
+        start_at, end_at, schedule, max_redemptions, max_redemptions_per_day,
+        max_redemptions_per_student_week, is_active, location_ids
+      )
+      VALUES (
+        p_merchant_id, p_family_id, v_tier.title, v_tier.description, v_tier.discount_type,
+        v_tier.discount_value, v_tier.min_followers, v_tier.start_at, v_tier.end_at, v_tier.schedule,
+        v_tier.max_redemptions, v_tier.max_redemptions_per_day, v_tier.max_redemptions_per_student_week,
+        v_tier.is_active, v_tier.location_ids
+      )
+      RETURNING * INTO v_offer;
+    ELSE
+      UPDATE public.offers
+      SET title = v_tier.title,
+          description = v_tier.description,
+          discount_type = v_tier.discount_type,
+          discount_value = v_tier.discount_value,
+          start_at = v_tier.start_at,
+          end_at = v_tier.end_at,
+          schedule = v_tier.schedule,
+          max_redemptions = v_tier.max_redemptions,
+          max_redemptions_per_day = v_tier.max_redemptions_per_day,
+          max_redemptions_per_student_week = v_tier.max_redemptions_per_student_week,
+          is_active = v_tier.is_active,
+          paused_by_budget = false,
+          location_ids = v_tier.location_ids
+      WHERE id = v_offer_id
+      RETURNING * INTO v_offer;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'offer_not_found' USING ERRCODE = 'P0002';
+      END IF;
+    END IF;
+
+    v_saved := v_saved || v_offer.id;
+    v_offers := v_offers || to_jsonb(v_offer);
+  END LOOP;
+
+  UPDATE public.offers
+  SET deleted = true
+  WHERE family_id = p_family_id
+    AND merchant_id = p_merchant_id
+    AND NOT deleted
+    AND NOT id = ANY (v_saved);
+
+  RETURN jsonb_build_object('family', to_jsonb(v_family), 'offers', v_offers);
+END;
+$$;
@@ -0,0 +1,305 @@
+import { supabase } from './supabase'
+import { listDays } from './billing-periods'
+import { LanguageCode, TranslationParams, localeMap, translate } from './i18n'
+import { fetchChargePerRedemption, fetchRedemptionTimestamps, getDateKey } from './metrics'
+import { getZonedParts } from './offer-schedule'
+import { getTierForFollowers } from './offer-tiers'
+import { DiscountType, listOffers } from './offers'
+import { RedemptionLedgerRow, fetchRedemptionLedgerRange } from './redemptions'
+import { XlsxColumnFormat, renderXlsx, toExcelSerial } from './xlsx'
+
+/**
+ * Bookkeeping exports of redemptions, offers and daily charges as CSV or XLSX.
+ * Ranges are calendar days in the merchant's time zone, like the billing metrics.
+ */
+
+export type ExportDataset = 'redemptions' | 'offers' | 'charges'
+export type ExportFormat = 'csv' | 'xlsx'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx']
+
+export interface ExportRange {
+  /** YYYY-MM-DD, inclusive */
+  from: string
+  /** YYYY-MM-DD, inclusive */
+  to: string
+}
+
+export interface ExportOptions {
+  language: LanguageCode
+  timeZone?: string
+}
+
+export interface ExportTable {
+  name: string
+  columns: Array<{ header: string; format: XlsxColumnFormat }>
+  /** Dates are YYYY-MM-DD, datetimes ISO timestamps */
+  rows: Array<Array<string | number | null>>
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+// UTC bounds padded by a day on each side; rows are then filtered on their local day
+function getRangeBounds({ from, to }: ExportRange) {
+  const since = new Date(`${from}T00:00:00Z`)
+  since.setUTCDate(since.getUTCDate() - 1)
+  const until = new Date(`${to}T00:00:00Z`)
+  until.setUTCDate(until.getUTCDate() + 2)
+  return { since: since.toISOString(), until: until.toISOString() }
+}
+
+const isInRange = (timestamp: string, range: ExportRange, timeZone?: string) => {
+  const day = getDateKey(new Date(timestamp), timeZone)
+  return day >= range.from && day <= range.to
+}
+
+function createLabels(language: LanguageCode) {
+  const currency = new Intl.NumberFormat(localeMap[language], { style: 'currency', currency: 'EUR' })
+  const t = (key: string, replacements?: TranslationParams) => translate(language, key, replacements)
+
+  return {
+    t,
+    discount: (type: DiscountType, value: number) =>
+      type === 'percent'
+        ? t('offers.discountPercent', { value })
+        : t('offers.discountFixed', { amount: currency.format(value) }),
+    tier: (minFollowers: number) => {
+      const tier = getTierForFollowers(minFollowers)
+      return tier ? `${tier.label} ${t('offers.newFormFollowers')}` : t('redemptions.tierAll')
+    },
+  }
+}
+
+async function buildRedemptionsTable(merchantId: number, range: ExportRange, options: ExportOptions) {
+  const { since, until } = getRangeBounds(range)
+  const [ledger, chargePerRedemption] = await Promise.all([
+    fetchRedemptionLedgerRange(merchantId, since, until),
+    fetchChargePerRedemption(supabase),
+  ])
+  const rows = ledger.filter((row) => isInRange(row.redeemed_at, range, options.timeZone))
+  const { t, discount, tier } = createLabels(options.language)
+
+  const studentName = (row: RedemptionLedgerRow) =>
+    row.student?.instagram_handle ? `@${row.student.instagram_handle.replace(/^@/, '')}` : row.student?.email ?? null
+
+  return {
+    name: t('export.datasetRedemptions'),
+    columns: [
+      { header: t('export.columnRedeemedAt'), format: 'datetime' },
+      { header: t('export.columnRedemptionId'), format: 'integer' },
+      { header: t('export.columnOffer'), format: 'text' },
+      { header: t('export.columnDiscount'), format: 'text' },
+      { header: t('export.columnTier'), format: 'text' },
+      { header: t('export.columnStudent'), format: 'text' },
+      { header: t('export.columnStudentEmail'), format: 'text' },
+      { header: t('export.columnClaimId'), format: 'integer' },
+      { header: t('export.columnValidatedBy'), format: 'text' },
+      { header: t('export.columnCharge'), format: 'currency' },
+    ],
+    rows: rows.map((row) => [
+      row.redeemed_at,
+      row.id,
+      row.offer.title,
+      discount(row.offer.discount_type, row.offer.discount_value),
+      tier(row.offer.min_followers),
+      studentName(row),
+      row.student?.email ?? null,
+      row.claim.id,
+      row.redeemed_by_email,
+      chargePerRedemption,
+    ]),
+  } satisfies ExportTable
+}
+
+async function buildOffersTable(merchantId: number, range: ExportRange, options: ExportOptions) {
+  const { since, until } = getRangeBounds(range)
+  const [offers, redemptions, chargePerRedemption] = await Promise.all([
+    listOffers(merchantId),
+    fetchRedemptionLedgerRange(merchantId, since, until),
+    fetchChargePerRedemption(supabase),
+  ])
+  const { t, discount } = createLabels(options.language)
+
+  const counts = new Map<number, number>()
+  for (const row of redemptions) {
+    if (isInRange(row.redeemed_at, range, options.timeZone)) {
+      counts.set(row.offer.id, (counts.get(row.offer.id) || 0) + 1)
+    }
+  }
+
+  const status = (offer: (typeof offers)[number]) =>
+    offer.paused_by_budget
+      ? t('offers.liveState_budget_paused')
+      : offer.is_active
+        ? t('common.active')
+        : t('common.inactive')
+
+  return {
+    name: t('export.datasetOffers'),
+    columns: [
+      { header: t('export.columnOfferId'), format: 'integer' },
+      { header: t('export.columnOffer'), format: 'text' },
+      { header: t('export.columnDiscount'), format: 'text' },
+      { header: t('export.columnMinFollowers'), format: 'integer' },
+      { header: t('export.columnStatus'), format: 'text' },
+      { header: t('export.columnCreatedAt'), format: 'date' },
+      { header: t('export.columnRedemptions'), format: 'integer' },
+      { header: t('export.columnCharges'), format: 'currency' },
+    ],
+    rows: offers.map((offer) => {
+      const count = counts.get(offer.id) || 0
+      return [
+        offer.id,
+        offer.title,
+        discount(offer.discount_type, offer.discount_value),
+        offer.min_followers,
+        status(offer),
+        getDateKey(new Date(offer.created_at), options.timeZone),
+        count,
+        count * chargePerRedemption,
+      ]
+    }),
+  } satisfies ExportTable
+}
+
+async function buildChargesTable(merchantId: number, range: ExportRange, options: ExportOptions) {
+  const { since, until } = getRangeBounds(range)
+  const [timestamps, chargePerRedemption] = await Promise.all([
+    fetchRedemptionTimestamps(supabase, merchantId, since, until),
+    fetchChargePerRedemption(supabase),
+  ])
+  const { t } = createLabels(options.language)
+
+  const counts = new Map<string, number>()
+  for (const redeemedAt of timestamps) {
+    const day = getDateKey(new Date(redeemedAt), options.timeZone)
+    counts.set(day, (counts.get(day) || 0) + 1)
+  }
+
+  return {
+    name: t('export.datasetCharges'),
+    columns: [
+      { header: t('export.columnDate'), format: 'date' },
+      { header: t('export.columnRedemptions'), format: 'integer' },
+      { header: t('export.columnCharges'), format: 'currency' },
+    ],
+    rows: listDays(range).map((day) => {
+      const count = counts.get(day) || 0
+      return [day, count, count * chargePerRedemption]
+    }),
+  } satisfies ExportTable
+}
+
+/**
+ * Load a dataset for the range with headers in the export language
+ */
+export async function buildExportTable(
+  dataset: ExportDataset,
+  merchantId: number,
+  range: ExportRange,
+  options: ExportOptions
+): Promise<ExportTable> {
+  switch (dataset) {
+    case 'redemptions':
+      return buildRedemptionsTable(merchantId, range, options)
+    case 'offers':
+      return buildOffersTable(merchantId, range, options)
+    case 'charges':
+      return buildChargesTable(merchantId, range, options)
+  }
+}
+
+/**
+ * CSV with locale-formatted numbers and dates. Locales with a decimal comma use
+ * semicolons as separators, which is what spreadsheet apps expect there.
+ */
+export function toCsv(table: ExportTable, options: ExportOptions) {
+  const locale = localeMap[options.language]
+  const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value
+  const delimiter = decimal === ',' ? ';' : ','
+
+  const integerFormatter = new Intl.NumberFormat(locale, { useGrouping: false })
+  const amountFormatter = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    useGrouping: false,
+  })
+  const dateFormatter = new Intl.DateTimeFormat(locale, { dateStyle: 'short', timeZone: 'UTC' })
+  const dateTimeFormatter = new Intl.DateTimeFormat(locale, {
+    dateStyle: 'short',
+    timeStyle: 'short',
+    timeZone: options.timeZone,
+  })
+
+  const formatValue = (value: string | number | null, format: XlsxColumnFormat) => {
+    if (value === null) return ''
+    if (typeof value === 'number') {
+      return format === 'currency' ? amountFormatter.format(value) : integerFormatter.format(value)
+    }
+    if (format === 'date') return dateFormatter.format(new Date(`${value}T00:00:00Z`))
+    if (format === 'datetime') return dateTimeFormatter.format(new Date(value))
+    // Keep spreadsheet apps from evaluating user-entered text as formulas
+    return /^[=+\-@]/.test(value) ? `'${value}` : value
+  }
+
+  const quote = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+  const lines = [
+    table.columns.map((column) => quote(column.header)).join(delimiter),
+    ...table.rows.map((row) =>
+      row.map((value, index) => quote(formatValue(value, table.columns[index].format))).join(delimiter)
+    ),
+  ]
+
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\ufeff${lines.join('\r\n')}\r\n`
+}
+
+/**
+ * XLSX with native numbers and dates; datetimes are converted to the merchant's wall clock
+ */
+export function toXlsx(table: ExportTable, options: ExportOptions) {
+  const toSerial = (value: string | number | null, format: XlsxColumnFormat) => {
+    if (typeof value !== 'string') return value
+    if (format === 'date') return toExcelSerial(value)
+    if (format === 'datetime') {
+      const { dateKey, minutes } = getZonedParts(new Date(value), options.timeZone)
+      return toExcelSerial(dateKey, minutes)
+    }
+    return value
+  }
+
+  return renderXlsx({
+    name: table.name,
+    columns: table.columns,
+    rows: table.rows.map((row) => row.map((value, index) => toSerial(value, table.columns[index].format))),
+  })
+}
+
+export function getExportFilename(dataset: ExportDataset, range: ExportRange, format: ExportFormat) {
+  return `ovio-${dataset}-${range.from}_${range.to}.${format}`
+}
+
+/**
+ * Serialise the table and hand it to the browser as a download
+ */
+export function downloadExport(
+  table: ExportTable,
+  format: ExportFormat,
+  filename: string,
+  options: ExportOptions
+) {
+  const content = format === 'csv' ? toCsv(table, options) : toXlsx(table, options)
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
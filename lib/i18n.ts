@@ -38,6 +38,8 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       openMenu: 'Open menu',
       closeMenu: 'Close menu',
       requiredField: 'This field is required',
+      loadMore: 'Load more',
+      pageNumber: 'Page {{page}}',
     },
     navigation: {
       brandTagline: 'Control panel',
@@ -51,6 +53,13 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       logout: 'Logout',
       collapseSidebar: 'Collapse sidebar',
       expandSidebar: 'Expand sidebar',
+      redemptions: 'Redemptions',
+      scan: 'Scan',
+      analytics: 'Analytics',
+      locations: 'Locations',
+      locationSwitcher: 'Location',
+      allLocations: 'All locations',
+      team: 'Team',
     },
     auth: {
       heroTitle: 'Welcome back to your control panel',
@@ -180,6 +189,20 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       whatsNextAddPayment: 'Add a payment method so you are ready to subscribe.',
       whatsNextAllGood: 'You are all set! Keep monitoring performance from here.',
       loading: 'Loading dashboard…',
+      liveActivity: 'Live activity',
+      liveActivityDescription: 'Redemptions appear here the moment students use your offers.',
+      liveBadge: 'Live',
+      liveActivityEmpty: 'No redemptions yet. Keep this page open to see them as they happen.',
+      liveActivityItem: '{{student}} redeemed {{offer}}',
+      liveRedemptionToast: '{{student}} just redeemed {{offer}}',
+      viewAllRedemptionsLink: 'View all redemptions →',
+      trendsTitle: 'Redemption trends',
+      trendsDescription: 'Daily redemptions of your {{count}} busiest offers.',
+      trendsWindowLabel: 'Time range',
+      trendsWindow: '{{days}} days',
+      trendsChartTitle: 'Daily redemptions per offer over the last {{days}} days',
+      trendsEmpty: 'No redemptions in the last {{days}} days.',
+      trendsError: 'Could not load redemption trends',
     },
     offers: {
       title: 'Offers',
@@ -196,7 +219,6 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       activate: 'Activate',
       deactivate: 'Deactivate',
       delete: 'Delete',
-      deleteConfirm: 'Are you sure you want to delete this offer?',
       deleteSuccess: 'Offer deleted successfully',
       deleteError: 'Failed to delete offer',
       statusUpdated: 'Offer {{status}} successfully',
@@ -245,15 +267,11 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       newFormTitle: 'Create New Offer',
       newFormDescription: 'Set your offer details. Title and description will be auto-generated.',
       newFormDiscountType: 'Discount Type',
-      newFormDiscountValue: 'Discount Value',
-      newFormMinFollowers: 'Minimum Followers',
       newFormStartDate: 'Start Date',
       newFormEndDate: 'End Date (Optional)',
       newFormCancel: 'Cancel',
-      newFormCreate: 'Create Offer',
       newFormCreating: 'Creating...',
       newFormClose: 'Close',
-      newFormPreview: 'Preview',
       newFormFollowers: 'followers',
       newFormValidationDiscount: 'Discount must be between 5-100% in increments of 5',
       newFormValidationFixed: 'Discount must be at least €1',
@@ -262,12 +280,215 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       newFormValidationError: 'Please fix the errors below',
       newFormSuccess: 'Successfully created {{count}} offer{{plural}}',
       newFormError: 'Failed to create offers',
-      newFormScalingTitle: 'Auto-adapt for Higher Tiers?',
-      newFormScalingDescription: 'We can automatically create additional offers for higher follower tiers with increased discounts.',
-      newFormScalingBaseOffer: 'Base Offer',
-      newFormScalingAutoGenerated: 'Auto-generated Offer',
-      newFormScalingCancel: 'No, just create base offer',
-      newFormScalingConfirm: 'Yes, create {{count}} offers',
+      errorNotFound: 'This offer no longer exists or belongs to another business',
+      errorForbidden: 'You are not allowed to change this offer',
+      errorInvalid: 'Some offer details are invalid. Check the form and try again.',
+      ladderEditTitle: 'Edit offer family',
+      ladderFamilyName: 'Family name',
+      ladderFamilyNameHint: 'Offers created together are grouped and managed as one family.',
+      ladderValidationName: 'Give this family a name',
+      ladderBaseTier: 'Starting tier',
+      ladderBaseDiscount: 'Starting discount',
+      ladderCurve: 'Scaling curve',
+      ladderCurve_linear: 'Linear',
+      ladderCurve_geometric: 'Geometric',
+      ladderCurve_custom: 'Custom',
+      ladderCurveHint_linear: 'Adds the same step at every higher tier.',
+      ladderCurveHint_geometric: 'Multiplies the discount at every higher tier.',
+      ladderCurveHint_custom: "Set each tier's discount by hand.",
+      ladderLinearStep: 'Step per tier',
+      ladderGeometricRatio: 'Multiplier per tier',
+      ladderTitle: 'Tier ladder',
+      ladderDescription: "Every tier of the family side by side. Edit a tier's discount to fine-tune it, or switch tiers off.",
+      ladderTierDiscount: 'Discount for {{tier}} followers',
+      ladderTierBase: 'Base',
+      ladderTierOff: 'Off',
+      ladderDecreasingWarning: 'Some higher tiers get a smaller discount than the tier below them.',
+      ladderMatchTitle: 'Which offer would a student see?',
+      ladderMatchFollowers: 'Student follower count',
+      ladderMatchResult: 'A student with {{followers}} followers sees "{{offer}}" ({{tier}} tier).',
+      ladderMatchNone: "A student with {{followers}} followers doesn't qualify for any tier yet.",
+      ladderCreate: 'Create {{count}} offer(s)',
+      ladderSave: 'Save ladder',
+      ladderSaved: 'Offer family updated',
+      familiesTitle: 'Offer families',
+      familiesDescription: 'Tier ladders you created together. Edit the whole ladder or pause every tier at once.',
+      familySummary: '{{count}} tiers · {{curve}} curve',
+      familyEditLadder: 'Edit ladder',
+      familyActivateAll: 'Activate all tiers',
+      familyDeactivateAll: 'Deactivate all tiers',
+      familyDelete: 'Delete family',
+      familyDeleteConfirm: 'Delete this family and its {{count}} offers?',
+      familyDeleteSuccess: 'Offer family deleted',
+      familyStatusUpdated: 'Offer family {{status}}',
+      tableHeaderSchedule: 'Schedule',
+      scheduleTitle: 'Only at certain times',
+      scheduleAlways: 'The offer is available all day, every day between its dates.',
+      scheduleTimeZone: 'Times are in {{timeZone}}.',
+      schedulePreset_weekdays: 'Weekdays',
+      schedulePreset_weekends: 'Weekends',
+      schedulePreset_everyday: 'Every day',
+      scheduleRemoveWindow: 'Remove',
+      scheduleFrom: 'From',
+      scheduleTo: 'To',
+      scheduleOvernight: 'Ends after midnight, on the following day.',
+      scheduleAddWindow: '+ Add time window',
+      scheduleBlackoutDates: 'Blackout dates',
+      scheduleAddBlackout: 'Add date',
+      scheduleRemoveBlackout: 'Remove date',
+      scheduleNoBlackouts: 'No blackout dates.',
+      scheduleError_no_days: 'Pick at least one day for each time window.',
+      scheduleError_invalid_time: 'Enter a valid start and end time.',
+      scheduleError_same_time: "A time window can't start and end at the same time.",
+      scheduleError_invalid_date: 'One of the blackout dates is invalid.',
+      scheduleInvalid: 'Check the schedule settings',
+      scheduleAnyTime: 'Any time',
+      scheduleBlackoutCount: '{{count}} blackout date(s)',
+      liveState_live: 'Live now',
+      liveState_not_started: 'Scheduled',
+      liveState_ended: 'Ended',
+      liveState_blackout: 'Blackout today',
+      liveState_outside_window: 'Outside hours',
+      tableHeaderCaps: 'Limits',
+      capsTitle: 'Redemption limits',
+      capsDescription: 'Leave a field empty for no limit. The offer switches off automatically once its total limit is reached.',
+      capsLadderNote: 'Limits apply to each tier separately.',
+      capTotal: 'Total redemptions',
+      capTotalHint: 'Over the whole life of the offer',
+      capDaily: 'Per day',
+      capDailyHint: 'Resets at midnight in your time zone',
+      capStudentWeekly: 'Per student per week',
+      capStudentWeeklyHint: 'Over any 7 days',
+      capUnlimited: 'Unlimited',
+      capTotalShort: 'Total',
+      capDailyShort: 'Today',
+      capStudentWeeklySummary: 'Max {{count}} per student / week',
+      capReachedActivateError: 'This offer has reached its total limit. Raise the limit before activating it again.',
+      liveState_budget_paused: 'Paused (budget)',
+      budgetPausedActivateError: 'Your monthly budget has been reached. Raise it on the billing page to activate offers again.',
+      duplicate: 'Duplicate',
+      duplicateTitle: '{{title}} (copy)',
+      duplicateFormTitle: 'Duplicate offer',
+      templatesTitle: 'Templates',
+      templatesDescription: 'Start from a common setup or one you saved.',
+      templatesSaveDescription: 'Keep this setup to reuse it for new offers.',
+      templatesBrowse: 'Browse templates',
+      templatesHide: 'Hide templates',
+      templateSave: 'Save as template',
+      templatesBuiltIn: 'Starter templates',
+      templatesSaved: 'Your templates',
+      templatesSavedEmpty: 'Templates you save appear here.',
+      templateSummary: '{{discount}} · {{tier}} followers',
+      templateLadderSummary: '{{discount}} from {{tier}} followers, rising per tier',
+      templateApplied: 'Template “{{name}}” applied',
+      templateNamePrompt: 'Template name',
+      templateSaved: 'Template “{{name}}” saved',
+      templateSaveError: 'Could not save the template',
+      templateDeleteConfirm: 'Delete the template “{{name}}”? Offers created from it are not affected.',
+      templateDeleted: 'Template deleted',
+      templateDeleteError: 'Could not delete the template',
+      templateDelete: 'Delete template {{name}}',
+      template_student_lunch_name: 'Student lunch -15%',
+      template_student_lunch_description: '15% off your lunch on weekdays from 12:00 to 15:30.',
+      template_free_coffee_name: 'Free coffee for 10k+ followers',
+      template_free_coffee_description: 'A coffee on us, once a week, for creators with 10,000+ followers.',
+      template_happy_hour_name: 'Weekday happy hour -20%',
+      template_happy_hour_description: '20% off on weekdays from 17:00 to 19:00.',
+      template_creator_ladder_name: 'Creator ladder',
+      template_creator_ladder_description: 'The more followers you have, the bigger the discount.',
+      bulkSelectAll: 'Select all offers',
+      bulkSelectOffer: 'Select {{title}}',
+      bulkSelected: '{{count}} selected',
+      bulkClear: 'Clear selection',
+      bulkEndDate: 'End date',
+      bulkApply: 'Apply',
+      bulkClearEndDate: 'Remove end date',
+      bulkDiscountDelta: 'Change discount by',
+      bulkDiscountDeltaHelp: 'Added to each offer in its own unit (percentage points or euros), then kept within the allowed range. Use a negative number to lower discounts.',
+      bulkDone_activate: '{{count}} offers activated',
+      bulkDone_deactivate: '{{count}} offers deactivated',
+      bulkDone_delete: '{{count}} offers deleted',
+      bulkDone_end_date: 'End date updated on {{count}} offers',
+      bulkDone_discount_delta: 'Discount updated on {{count}} offers',
+      bulkSkipped: '{{count}} skipped: already set, over their total limit or starting after the end date',
+      bulkNothingToDo: 'Nothing to change for the selected offers.',
+      undo: 'Undo',
+      bulkUndone: 'Changes undone',
+      bulkError: "We couldn't update the selected offers.",
+      bulkUndoError: "We couldn't undo the changes.",
+      trash: 'Trash',
+      trashTitle: 'Trash',
+      trashSubtitle: 'Deleted offers stay here for {{days}} days before they are removed for good.',
+      trashBack: 'Back to offers',
+      trashHint: 'Moved to the trash for {{days}} days.',
+      trashDeletedOn: 'Deleted {{date}}',
+      trashPurgeOn: 'Removed for good on {{date}}',
+      trashEmptyTitle: 'The trash is empty',
+      trashEmptyDescription: 'Offers you delete show up here and can be restored.',
+      restore: 'Restore',
+      restoreSuccess: 'Offer restored',
+      restoreError: "We couldn't restore the offer.",
+      purge: 'Delete forever',
+      purgeConfirm: "Delete \"{{title}}\" forever? This can't be undone.",
+      emptyTrash: 'Empty trash',
+      purgeAllConfirm: "Delete all {{count}} offers in the trash forever? This can't be undone.",
+      purgeSuccess: '{{count}} offers deleted forever',
+      purgeError: "We couldn't delete the offers.",
+      tabDetails: 'Details',
+      tabHistory: 'History',
+      historyEmpty: 'No changes recorded for this offer yet.',
+      historyError: "We couldn't load this offer's history.",
+      historyRetry: 'Try again',
+      historyBy: 'By {{name}}',
+      historyBySystem: 'By the system',
+      historyAction_create: 'Created',
+      historyAction_update: 'Edited',
+      historyAction_activate: 'Activated',
+      historyAction_deactivate: 'Deactivated',
+      historyAction_delete: 'Moved to the trash',
+      historyAction_restore: 'Restored',
+      historyAction_purge: 'Deleted forever',
+      historyField_title: 'Title',
+      historyField_description: 'Description',
+      historyField_discount_type: 'Discount type',
+      historyField_discount_value: 'Discount',
+      historyField_min_followers: 'Minimum followers',
+      historyField_start_at: 'Start date',
+      historyField_end_at: 'End date',
+      historyField_schedule: 'Schedule',
+      historyField_max_redemptions: 'Total limit',
+      historyField_max_redemptions_per_day: 'Daily limit',
+      historyField_max_redemptions_per_student_week: 'Weekly limit per student',
+      historyField_is_active: 'Active',
+      historyField_paused_by_budget: 'Paused by budget',
+      filterSearch: 'Search offers',
+      filterStatus: 'Status',
+      filterType: 'Type',
+      filterTier: 'Tier',
+      filterDates: 'Dates',
+      filterAll: 'All',
+      filterDates_live: 'Running',
+      filterDates_upcoming: 'Upcoming',
+      filterDates_expired: 'Expired',
+      filterClear: 'Clear filters',
+      filterNoMatches: 'No offers match these filters.',
+      sortBy: 'Sort by',
+      sortAscending: 'Ascending order',
+      sortDescending: 'Descending order',
+      sort_min_followers: 'Followers',
+      sort_title: 'Title',
+      sort_discount_value: 'Discount',
+      sort_start_at: 'Start date',
+      sort_end_at: 'End date',
+      sort_created_at: 'Created',
+      bulkSelectPage: 'Select all offers on this page',
+      locationsTitle: 'Locations',
+      locationsDescription: 'Where students can redeem this offer.',
+      locationsAll: 'All locations',
+      locationsSome: 'Only some locations',
+      locationsCount: '{{count}} locations',
+      validationLocations: 'Choose at least one location',
+      historyField_location_ids: 'Locations',
     },
     billing: {
       title: 'Billing',
@@ -286,7 +507,7 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       subscriptionEndedOn: 'Subscription ended on {{date}}',
       planInactiveLabel: 'Subscription inactive',
       planNewLabel: 'No active plan',
-      chargesTitle: 'Coupon charges this month',
+      chargesTitle: 'Coupon charges',
       chargesDescription: 'Charges are calculated at {{amount}} per validated redemption.',
       chargesSummary: '{{count}} coupons redeemed = {{amount}} billed',
       chargesTrendTitle: 'Current month trend',
@@ -330,6 +551,50 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       topUpButton: 'Add credit',
       topUpMinimumError: 'Please choose a top-up amount before continuing.',
       noRenewalYet: 'No renewal scheduled',
+      budgetTitle: 'Monthly budget',
+      budgetDescription: 'Set a ceiling for redemption charges each month. When it is reached, all your active offers are paused until the next month or until you raise the budget.',
+      budgetLabel: 'Budget per month (€)',
+      budgetPlaceholder: 'No budget',
+      budgetSave: 'Save budget',
+      budgetRemove: 'Remove budget',
+      budgetUsed: '{{charges}} of {{budget}} spent this month',
+      budgetProjected: 'Projected by the end of the month at the current pace: {{amount}}',
+      budgetPausedNotice: 'Your monthly budget has been reached and your offers are paused. Raise the budget to switch them back on now.',
+      budgetSaved: 'Monthly budget saved',
+      budgetSavedResumed: 'Monthly budget saved. {{count}} paused offer(s) are active again.',
+      budgetRemoved: 'Monthly budget removed',
+      budgetSaveError: 'Could not save the monthly budget',
+      budgetInvalid: 'Enter an amount above zero',
+      budgetWarningBanner: 'You have spent {{charges}} of your {{budget}} monthly budget (projected {{projected}} by the end of the month). Offers will pause when the budget is reached.',
+      budgetReachedBanner: 'You have reached your monthly budget of {{budget}}. Your offers are about to be paused.',
+      budgetPausedBanner: 'Your offers are paused: the monthly budget of {{budget}} has been reached. They resume next month, or raise the budget to resume them now.',
+      budgetManageLink: 'Manage budget',
+      statementsDescription: 'Monthly statements of your redemptions, charges and balance movements. Download the PDF invoice of any closed month.',
+      statementsFetchError: 'Failed to load your statements',
+      lastPaymentLabel: 'Last payment',
+      statementsMonth: 'Month',
+      statementsRedemptions: 'Redemptions',
+      statementsCharges: 'Charges',
+      statementsTopUps: 'Top-ups',
+      statementsMovement: 'Balance movement',
+      statementsClosingBalance: 'Closing balance',
+      statementsInvoice: 'Invoice',
+      statementsInProgress: 'In progress',
+      statementsDownload: 'Download PDF',
+      periodLabel: 'Period',
+      periodCurrentMonth: 'This month',
+      periodYearToDate: 'Year to date',
+      periodCustom: 'Custom range…',
+      periodFrom: 'From',
+      periodTo: 'To',
+      periodApply: 'Apply',
+      periodInvalidRange: 'Choose a start date on or before the end date, and not in the future.',
+      periodRangeTooLong: 'Choose a range of at most {{days}} days.',
+      periodComparedWith: '{{current}}, compared with {{previous}}',
+      periodPreviousValue: 'Previous period: {{value}}',
+      chartTitle: '{{metric}} per day',
+      chartMetricLabel: 'Chart values',
+      budgetSavedPaused: "Monthly budget saved. This month's charges already reach it, so {{count}} offer(s) are paused until next month.",
     },
     profile: {
       title: 'Profile',
@@ -388,6 +653,323 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       reactivateCta: 'Reactivate account',
       reactivateSuccess: 'Account reactivated successfully',
       reactivateError: 'Failed to reactivate account',
+      timezone: 'Time zone',
+      timezoneHint: 'Used for offer schedules and happy hours.',
+    },
+    redemptions: {
+      title: 'Redemptions',
+      subtitle: 'Every validated redemption, with the student and offer behind it.',
+      filterOffer: 'Offer',
+      filterAllOffers: 'All offers',
+      filterTier: 'Follower tier',
+      filterAllTiers: 'All tiers',
+      filterFrom: 'From',
+      filterTo: 'To',
+      resetFilters: 'Reset filters',
+      resultsRange: 'Showing redemptions {{from}}–{{to}}',
+      tableHeaderDate: 'Redeemed',
+      tableHeaderStudent: 'Student',
+      tableHeaderOffer: 'Offer',
+      tableHeaderTier: 'Tier',
+      viewDetails: 'Details',
+      tierAll: 'All followers',
+      unknownStudent: 'Unknown student',
+      emptyTitle: 'No redemptions found',
+      emptyDescription: 'Redemptions appear here as soon as students use your offers in store.',
+      emptyFilteredDescription: 'No redemptions match these filters. Try widening the date range.',
+      fetchError: 'Failed to fetch redemptions',
+      detailTitle: 'Redemption #{{id}}',
+      detailRedeemedAt: 'Redeemed at',
+      detailRedeemedBy: 'Validated by',
+      detailStudent: 'Student',
+      detailStudentEmail: 'Student email',
+      detailFollowers: 'Followers',
+      detailOffer: 'Offer',
+      detailDiscount: 'Discount',
+      detailTier: 'Follower tier',
+      detailClaimId: 'Claim',
+      detailClaimStatus: 'Claim status',
+      detailClaimedAt: 'Claimed at',
+      detailQrCode: 'QR code',
+      detailLocation: 'Location',
+    },
+    scan: {
+      title: 'Scan & validate',
+      subtitle: "Scan a student's QR code or type the code to check the claim and record the redemption.",
+      cameraTitle: 'Camera',
+      cameraDescription: "Point the camera at the QR code shown on the student's phone.",
+      cameraUnsupported: "This browser can't scan QR codes with the camera. Enter the code manually below.",
+      cameraDenied: 'Camera access was denied. Allow camera access in your browser settings or enter the code manually.',
+      cameraError: 'The camera could not be started. Enter the code manually below.',
+      manualLabel: 'Enter code manually',
+      manualPlaceholder: 'Claim code',
+      manualSubmit: 'Look up',
+      idleTitle: 'Waiting for a code',
+      idleDescription: 'Scan a QR code or enter a claim code to see the student, offer and eligibility.',
+      notFoundTitle: 'Claim not found',
+      notFoundDescription: 'No claim for your offers matches the code "{{code}}".',
+      claimLabel: 'Claim #{{id}}',
+      statusEligible: 'Eligible',
+      statusIneligible: 'Not eligible',
+      statusRedeemed: 'Redeemed',
+      checkOfferActive: 'Offer is active',
+      checkOfferStarted: 'Offer has started',
+      checkOfferNotEnded: 'Offer has not ended',
+      checkQrValid: 'QR code has not expired',
+      checkClaimOpen: 'Claim is still open',
+      checkFollowers: 'Student meets the follower tier',
+      checkNotRedeemed: 'Not redeemed yet',
+      redeem: 'Validate redemption',
+      redeeming: 'Validating...',
+      redeemSuccess: 'Redemption recorded',
+      redeemError: 'Could not record the redemption',
+      alreadyRedeemedToast: 'This claim has already been redeemed',
+      lookupError: 'Could not look up this code',
+      redeemedAt: 'Redemption recorded on {{date}}.',
+      scanNext: 'Scan next',
+      checkSchedule: "Within the offer's hours",
+      checkCapTotal: 'Total limit not reached',
+      checkCapDaily: 'Daily limit not reached',
+      checkCapStudentWeekly: "Student's weekly limit not reached",
+      capReachedToast_total: 'This offer has reached its total limit',
+      capReachedToast_daily: 'This offer has reached its limit for today',
+      capReachedToast_student_weekly: 'This student has reached the weekly limit for this offer',
+      checkLocation: 'Valid at this location',
+      wrongLocationToast: "This offer isn't valid at this location",
+      locationLabel: 'Scanning at {{name}}',
+      chooseLocation: "Choose the location you're scanning at in the header before validating.",
+      unavailableToast_offer_inactive: 'This offer is no longer active',
+      unavailableToast_offer_not_started: "This offer hasn't started yet",
+      unavailableToast_offer_ended: 'This offer has ended',
+      unavailableToast_outside_schedule: "This offer isn't available at this time",
+      unavailableToast_qr_expired: 'This QR code has expired',
+      unavailableToast_claim_closed: 'This claim has expired or was canceled',
+      unavailableToast_insufficient_followers: "This student doesn't have enough followers for this offer",
+    },
+    notifications: {
+      title: 'Notifications',
+      empty: 'No notifications yet.',
+      offerCapReached_total: '"{{offer}}" reached its limit of {{limit}} redemptions and was deactivated.',
+      offerCapReached_daily: '"{{offer}}" reached its limit of {{limit}} redemptions for today. It will be available again tomorrow.',
+      budgetReached: 'Your monthly budget of {{budget}} was reached. {{count}} offer(s) were paused.',
+    },
+    invoice: {
+      title: 'Invoice',
+      number: 'No. {{number}}',
+      issuedOn: 'Issued on {{date}}',
+      period: 'Period: {{period}}',
+      from: 'FROM',
+      billTo: 'BILL TO',
+      vatNumber: 'VAT: {{vat}}',
+      description: 'Description',
+      quantity: 'Qty',
+      unitPrice: 'Unit price',
+      amount: 'Amount',
+      redemptionsLine: 'Validated redemptions – {{period}}',
+      total: 'Total',
+      balanceTitle: 'BALANCE SUMMARY',
+      topUps: 'Top-ups',
+      balanceMovement: 'Balance movement',
+      closingBalance: 'Closing balance',
+      footer: 'Charges were deducted from your prepaid balance. Thank you for using Ovio.',
+    },
+    export: {
+      button: 'Export',
+      title_redemptions: 'Export redemptions',
+      title_offers: 'Export offers',
+      title_charges: 'Export daily charges',
+      description: 'Choose a date range and a file format. Dates and amounts follow your language settings.',
+      from: 'From',
+      to: 'To',
+      format: 'Format',
+      format_csv: 'CSV',
+      format_xlsx: 'Excel (XLSX)',
+      download: 'Download',
+      exporting: 'Preparing file…',
+      invalidRange: 'Choose a start date before the end date.',
+      success: 'Exported {{count}} rows',
+      error: 'Failed to export data',
+      datasetRedemptions: 'Redemptions',
+      datasetOffers: 'Offers',
+      datasetCharges: 'Daily charges',
+      columnRedeemedAt: 'Redeemed at',
+      columnRedemptionId: 'Redemption ID',
+      columnOfferId: 'Offer ID',
+      columnOffer: 'Offer',
+      columnDiscount: 'Discount',
+      columnTier: 'Tier',
+      columnMinFollowers: 'Minimum followers',
+      columnStatus: 'Status',
+      columnCreatedAt: 'Created on',
+      columnStudent: 'Student',
+      columnStudentEmail: 'Student email',
+      columnClaimId: 'Claim ID',
+      columnValidatedBy: 'Validated by',
+      columnCharge: 'Charge (EUR)',
+      columnDate: 'Date',
+      columnRedemptions: 'Redemptions',
+      columnCharges: 'Charges (EUR)',
+    },
+    charts: {
+      showTable: 'Show data table',
+      tableLabel: 'Date',
+    },
+    analytics: {
+      title: 'Offer analytics',
+      subtitle: 'See which offers bring students in, who redeems them and when.',
+      filterOffer: 'Offer',
+      filterAllOffers: 'All offers',
+      windowLabel: 'Time range',
+      window: '{{days}} days',
+      fetchError: 'Could not load analytics',
+      emptyTitle: 'No offers yet',
+      emptyDescription: 'Create an offer to start collecting analytics.',
+      redemptions: 'Redemptions',
+      claims: 'Claims',
+      conversion: 'Conversion',
+      conversionHint: '{{redeemed}} of {{claims}} claims redeemed',
+      costPerRedemption: 'Cost per redemption',
+      totalCost: '{{amount}} in total',
+      offersTitle: 'Performance by offer',
+      costExplanation: 'Cost includes the {{amount}} charge per redemption plus the coupon value of fixed-amount offers. Percentage discounts depend on the basket and are not included.',
+      tableOffer: 'Offer',
+      tableTotalCost: 'Total cost',
+      deletedOffer: 'Deleted',
+      tiersTitle: 'Redemptions by follower tier',
+      tiersDescription: "Based on each student's follower count when you view this page.",
+      tierBelow: 'Under {{label}} followers or unknown',
+      heatmapTitle: 'Redemptions by day and hour',
+      heatmapDescription: 'Darker cells mean more redemptions, in your business time zone.',
+      heatmapCell: '{{day}} {{hour}}: {{count}} redemptions',
+    },
+    locations: {
+      title: 'Locations',
+      subtitle: 'Manage your shops, their addresses and opening hours.',
+      add: 'Add location',
+      createTitle: 'New location',
+      editTitle: 'Edit location',
+      edit: 'Edit',
+      empty: 'No locations yet.',
+      name: 'Name',
+      street: 'Street address',
+      postalCode: 'Postal code',
+      city: 'City',
+      country: 'Country',
+      visible: 'Visible to students',
+      visibleDescription: "Hidden locations stay in your history but don't appear in the student app.",
+      hidden: 'Hidden',
+      hide: 'Hide',
+      show: 'Show',
+      noAddress: 'No address',
+      hoursTitle: 'Opening hours',
+      hoursAlways: 'No opening hours set',
+      hoursClosedDates: 'Closed dates',
+      hoursNoClosedDates: 'No closed dates',
+      validationName: 'Enter a name for this location',
+      createSuccess: 'Location added',
+      saveSuccess: 'Location saved',
+      saveError: 'Could not save the location',
+      unassigned: 'Unassigned',
+      breakdownTitle: 'By location',
+      breakdownValue: '{{count}} · {{amount}}',
+    },
+    team: {
+      title: 'Team',
+      subtitle: 'Invite staff and choose what each of them can do.',
+      inviteTitle: 'Invite a team member',
+      inviteEmail: 'Email',
+      role: 'Role',
+      invite: 'Send invite',
+      inviting: 'Sending…',
+      role_owner: 'Owner',
+      role_manager: 'Manager',
+      role_cashier: 'Cashier',
+      roleDescription_owner: 'Everything, including billing, profile and the team',
+      roleDescription_manager: 'Offers, locations, redemptions and analytics',
+      roleDescription_cashier: 'Validating redemptions only',
+      membersTitle: 'Members',
+      empty: 'No team members yet. Invite someone above.',
+      pending: 'Invite pending',
+      invitedOn: 'Invited {{date}}',
+      joinedOn: 'Joined {{date}}',
+      remove: 'Remove',
+      removeTitle: 'Remove team member?',
+      removeConfirm: '{{email}} will lose access to this account.',
+      inviteSuccess: 'Invite sent to {{email}}',
+      inviteAlreadyMember: 'This email is already on the team',
+      inviteError: 'Could not send the invite',
+      roleUpdated: 'Role updated',
+      removeSuccess: '{{email}} was removed from the team',
+      updateError: 'Could not update the team',
+      fetchError: 'Could not load the team',
+      noAccessTitle: "You don't have access to this page",
+      noAccessDescription: 'Ask the account owner if you need it.',
+      noAccessLink: 'Go to your home page',
+    },
+    admin: {
+      navMerchants: 'Merchants',
+      navFlagged: 'Flagged redemptions',
+      merchantsTitle: 'Merchants',
+      merchantsSubtitle: 'Search merchant accounts, check their subscription and balance, and suspend accounts that break the rules.',
+      search: 'Search',
+      searchPlaceholder: 'Name, legal name or ID',
+      status: 'Status',
+      allStatuses: 'All statuses',
+      merchant: 'Merchant',
+      validUntil: 'Paid until',
+      balance: 'Balance',
+      actions: 'Actions',
+      merchantsEmpty: 'No merchants match these filters.',
+      fetchError: 'Could not load the admin data',
+      status_active: 'Active',
+      status_trial: 'Trial',
+      status_trialing: 'Trialing',
+      status_past_due: 'Past due',
+      status_inactive: 'Inactive',
+      status_canceled: 'Canceled',
+      status_suspended: 'Suspended',
+      viewDashboard: 'View dashboard',
+      suspend: 'Suspend',
+      reactivate: 'Reactivate',
+      suspendTitle: 'Suspend merchant',
+      suspendConfirm: "{{name}}'s offers will be hidden from students until the account is reactivated.",
+      suspendReason: 'Reason (optional)',
+      suspendSuccess: '{{name}} suspended',
+      reactivateSuccess: '{{name}} reactivated',
+      suspendError: 'Could not update the merchant',
+      impersonationBanner: 'Viewing {{name}} as admin — read-only',
+      impersonationExit: 'Back to admin',
+      impersonationError: "Could not open this merchant's dashboard",
+      flaggedTitle: 'Flagged redemptions',
+      flaggedSubtitle: 'Reports filed against redeemed claims. Review each one and record the outcome.',
+      flaggedEmpty: 'No flagged redemptions with this status.',
+      flaggedClaim: 'Claim #{{claim}} by {{student}}, redeemed {{date}}',
+      flaggedBy: 'Reported by {{email}}',
+      unknownOffer: 'Deleted offer',
+      report_pending: 'Pending',
+      report_in_review: 'In review',
+      report_resolved: 'Resolved',
+      report_rejected: 'Rejected',
+      review_in_review: 'Mark in review',
+      review_resolved: 'Resolve',
+      review_rejected: 'Reject',
+      reviewSuccess: 'Report updated',
+      reviewError: 'Could not update the report',
+      category_fraud: 'Fraud',
+      category_spam: 'Spam',
+      category_inappropriate: 'Inappropriate',
+      category_fake_profile: 'Fake profile',
+      category_other: 'Other',
+    },
+    onboarding: {
+      title: 'Set up your business',
+      subtitle: "Your account doesn't have a business yet. Add it to start publishing offers.",
+      name: 'Business name',
+      legalName: 'Legal name (optional)',
+      nameRequired: 'Enter your business name',
+      submit: 'Create business',
+      success: 'Your business is ready',
+      error: 'Could not create your business. Please try again.',
     },
     toasts: {
       genericError: 'Something went wrong',
@@ -416,6 +998,8 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       openMenu: 'Abrir menú',
       closeMenu: 'Cerrar menú',
       requiredField: 'Este campo es obligatorio',
+      loadMore: 'Cargar más',
+      pageNumber: 'Página {{page}}',
     },
     navigation: {
       brandTagline: 'Panel de control',
@@ -429,6 +1013,13 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       logout: 'Salir',
       collapseSidebar: 'Contraer menú',
       expandSidebar: 'Expandir menú',
+      redemptions: 'Canjes',
+      scan: 'Escanear',
+      analytics: 'Analíticas',
+      locations: 'Locales',
+      locationSwitcher: 'Local',
+      allLocations: 'Todos los locales',
+      team: 'Equipo',
     },
     auth: {
       heroTitle: 'Bienvenido de nuevo a tu panel de control',
@@ -557,6 +1148,20 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       whatsNextAddPayment: 'Añade un método de pago para estar listo para suscribirte.',
       whatsNextAllGood: '¡Todo listo! Sigue monitorizando tu rendimiento aquí.',
       loading: 'Cargando panel…',
+      liveActivity: 'Actividad en directo',
+      liveActivityDescription: 'Los canjes aparecen aquí en cuanto los estudiantes usan tus ofertas.',
+      liveBadge: 'En directo',
+      liveActivityEmpty: 'Aún no hay canjes. Deja esta página abierta para verlos al momento.',
+      liveActivityItem: '{{student}} canjeó {{offer}}',
+      liveRedemptionToast: '{{student}} acaba de canjear {{offer}}',
+      viewAllRedemptionsLink: 'Ver todos los canjes →',
+      trendsTitle: 'Tendencia de canjes',
+      trendsDescription: 'Canjes diarios de tus {{count}} ofertas más activas.',
+      trendsWindowLabel: 'Periodo',
+      trendsWindow: '{{days}} días',
+      trendsChartTitle: 'Canjes diarios por oferta en los últimos {{days}} días',
+      trendsEmpty: 'No hay canjes en los últimos {{days}} días.',
+      trendsError: 'No se pudo cargar la tendencia de canjes',
     },
     offers: {
       title: 'Ofertas',
@@ -573,7 +1178,6 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       activate: 'Activar',
       deactivate: 'Desactivar',
       delete: 'Eliminar',
-      deleteConfirm: '¿Seguro que quieres eliminar esta oferta?',
       deleteSuccess: 'Oferta eliminada correctamente',
       deleteError: 'Error al eliminar la oferta',
       statusUpdated: 'Oferta {{status}} correctamente',
@@ -622,15 +1226,11 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       newFormTitle: 'Crear Nueva Oferta',
       newFormDescription: 'Configura los detalles de tu oferta. El título y la descripción se generarán automáticamente.',
       newFormDiscountType: 'Tipo de Descuento',
-      newFormDiscountValue: 'Valor del Descuento',
-      newFormMinFollowers: 'Seguidores Mínimos',
       newFormStartDate: 'Fecha de Inicio',
       newFormEndDate: 'Fecha de Fin (Opcional)',
       newFormCancel: 'Cancelar',
-      newFormCreate: 'Crear Oferta',
       newFormCreating: 'Creando...',
       newFormClose: 'Cerrar',
-      newFormPreview: 'Vista Previa',
       newFormFollowers: 'seguidores',
       newFormValidationDiscount: 'El descuento debe estar entre 5-100% en incrementos de 5',
       newFormValidationFixed: 'El descuento debe ser al menos de 1€',
@@ -639,12 +1239,215 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       newFormValidationError: 'Por favor corrige los errores a continuación',
       newFormSuccess: 'Se crearon {{count}} oferta{{plural}} correctamente',
       newFormError: 'Error al crear las ofertas',
-      newFormScalingTitle: '¿Adaptar automáticamente para Niveles Superiores?',
-      newFormScalingDescription: 'Podemos crear automáticamente ofertas adicionales para niveles de seguidores superiores con descuentos aumentados.',
-      newFormScalingBaseOffer: 'Oferta Base',
-      newFormScalingAutoGenerated: 'Oferta Auto-generada',
-      newFormScalingCancel: 'No, solo crear oferta base',
-      newFormScalingConfirm: 'Sí, crear {{count}} ofertas',
+      errorNotFound: 'Esta oferta ya no existe o pertenece a otro negocio',
+      errorForbidden: 'No tienes permiso para modificar esta oferta',
+      errorInvalid: 'Algunos datos de la oferta no son válidos. Revisa el formulario e inténtalo de nuevo.',
+      ladderEditTitle: 'Editar familia de ofertas',
+      ladderFamilyName: 'Nombre de la familia',
+      ladderFamilyNameHint: 'Las ofertas creadas juntas se agrupan y gestionan como una sola familia.',
+      ladderValidationName: 'Ponle un nombre a esta familia',
+      ladderBaseTier: 'Nivel inicial',
+      ladderBaseDiscount: 'Descuento inicial',
+      ladderCurve: 'Curva de escalado',
+      ladderCurve_linear: 'Lineal',
+      ladderCurve_geometric: 'Geométrica',
+      ladderCurve_custom: 'Personalizada',
+      ladderCurveHint_linear: 'Suma el mismo incremento en cada nivel superior.',
+      ladderCurveHint_geometric: 'Multiplica el descuento en cada nivel superior.',
+      ladderCurveHint_custom: 'Define a mano el descuento de cada nivel.',
+      ladderLinearStep: 'Incremento por nivel',
+      ladderGeometricRatio: 'Multiplicador por nivel',
+      ladderTitle: 'Escalera de niveles',
+      ladderDescription: 'Todos los niveles de la familia lado a lado. Edita el descuento de un nivel para ajustarlo o desactívalo.',
+      ladderTierDiscount: 'Descuento para {{tier}} seguidores',
+      ladderTierBase: 'Base',
+      ladderTierOff: 'Desactivado',
+      ladderDecreasingWarning: 'Algunos niveles superiores tienen un descuento menor que el nivel anterior.',
+      ladderMatchTitle: '¿Qué oferta vería un estudiante?',
+      ladderMatchFollowers: 'Seguidores del estudiante',
+      ladderMatchResult: 'Un estudiante con {{followers}} seguidores ve "{{offer}}" (nivel {{tier}}).',
+      ladderMatchNone: 'Un estudiante con {{followers}} seguidores aún no accede a ningún nivel.',
+      ladderCreate: 'Crear {{count}} oferta(s)',
+      ladderSave: 'Guardar escalera',
+      ladderSaved: 'Familia de ofertas actualizada',
+      familiesTitle: 'Familias de ofertas',
+      familiesDescription: 'Escaleras de niveles creadas juntas. Edita toda la escalera o pausa todos los niveles a la vez.',
+      familySummary: '{{count}} niveles · curva {{curve}}',
+      familyEditLadder: 'Editar escalera',
+      familyActivateAll: 'Activar todos los niveles',
+      familyDeactivateAll: 'Desactivar todos los niveles',
+      familyDelete: 'Eliminar familia',
+      familyDeleteConfirm: '¿Eliminar esta familia y sus {{count}} ofertas?',
+      familyDeleteSuccess: 'Familia de ofertas eliminada',
+      familyStatusUpdated: 'Familia de ofertas {{status}}',
+      tableHeaderSchedule: 'Horario',
+      scheduleTitle: 'Solo en ciertos horarios',
+      scheduleAlways: 'La oferta está disponible todo el día, todos los días entre sus fechas.',
+      scheduleTimeZone: 'Horas en {{timeZone}}.',
+      schedulePreset_weekdays: 'Entre semana',
+      schedulePreset_weekends: 'Fines de semana',
+      schedulePreset_everyday: 'Todos los días',
+      scheduleRemoveWindow: 'Quitar',
+      scheduleFrom: 'Desde',
+      scheduleTo: 'Hasta',
+      scheduleOvernight: 'Termina después de medianoche, al día siguiente.',
+      scheduleAddWindow: '+ Añadir franja horaria',
+      scheduleBlackoutDates: 'Fechas bloqueadas',
+      scheduleAddBlackout: 'Añadir fecha',
+      scheduleRemoveBlackout: 'Quitar fecha',
+      scheduleNoBlackouts: 'Sin fechas bloqueadas.',
+      scheduleError_no_days: 'Elige al menos un día para cada franja horaria.',
+      scheduleError_invalid_time: 'Introduce una hora de inicio y de fin válidas.',
+      scheduleError_same_time: 'Una franja no puede empezar y terminar a la misma hora.',
+      scheduleError_invalid_date: 'Una de las fechas bloqueadas no es válida.',
+      scheduleInvalid: 'Revisa la configuración del horario',
+      scheduleAnyTime: 'Cualquier hora',
+      scheduleBlackoutCount: '{{count}} fecha(s) bloqueada(s)',
+      liveState_live: 'Activa ahora',
+      liveState_not_started: 'Programada',
+      liveState_ended: 'Finalizada',
+      liveState_blackout: 'Bloqueada hoy',
+      liveState_outside_window: 'Fuera de horario',
+      tableHeaderCaps: 'Límites',
+      capsTitle: 'Límites de canjes',
+      capsDescription: 'Deja un campo vacío para no poner límite. La oferta se desactiva automáticamente al alcanzar su límite total.',
+      capsLadderNote: 'Los límites se aplican a cada nivel por separado.',
+      capTotal: 'Canjes totales',
+      capTotalHint: 'Durante toda la vida de la oferta',
+      capDaily: 'Por día',
+      capDailyHint: 'Se reinicia a medianoche en tu zona horaria',
+      capStudentWeekly: 'Por estudiante y semana',
+      capStudentWeeklyHint: 'En cualquier periodo de 7 días',
+      capUnlimited: 'Sin límite',
+      capTotalShort: 'Total',
+      capDailyShort: 'Hoy',
+      capStudentWeeklySummary: 'Máx. {{count}} por estudiante / semana',
+      capReachedActivateError: 'Esta oferta ha alcanzado su límite total. Aumenta el límite antes de volver a activarla.',
+      liveState_budget_paused: 'En pausa (presupuesto)',
+      budgetPausedActivateError: 'Has alcanzado tu presupuesto mensual. Auméntalo en la página de facturación para volver a activar ofertas.',
+      duplicate: 'Duplicar',
+      duplicateTitle: '{{title}} (copia)',
+      duplicateFormTitle: 'Duplicar oferta',
+      templatesTitle: 'Plantillas',
+      templatesDescription: 'Empieza con una configuración habitual o con una que hayas guardado.',
+      templatesSaveDescription: 'Guarda esta configuración para reutilizarla en nuevas ofertas.',
+      templatesBrowse: 'Ver plantillas',
+      templatesHide: 'Ocultar plantillas',
+      templateSave: 'Guardar como plantilla',
+      templatesBuiltIn: 'Plantillas de inicio',
+      templatesSaved: 'Tus plantillas',
+      templatesSavedEmpty: 'Las plantillas que guardes aparecerán aquí.',
+      templateSummary: '{{discount}} · {{tier}} seguidores',
+      templateLadderSummary: '{{discount}} desde {{tier}} seguidores, aumentando por nivel',
+      templateApplied: 'Plantilla «{{name}}» aplicada',
+      templateNamePrompt: 'Nombre de la plantilla',
+      templateSaved: 'Plantilla «{{name}}» guardada',
+      templateSaveError: 'No se pudo guardar la plantilla',
+      templateDeleteConfirm: '¿Eliminar la plantilla «{{name}}»? Las ofertas creadas con ella no cambian.',
+      templateDeleted: 'Plantilla eliminada',
+      templateDeleteError: 'No se pudo eliminar la plantilla',
+      templateDelete: 'Eliminar la plantilla {{name}}',
+      template_student_lunch_name: 'Menú estudiante -15%',
+      template_student_lunch_description: '15% de descuento en tu comida de lunes a viernes de 12:00 a 15:30.',
+      template_free_coffee_name: 'Café gratis para +10k seguidores',
+      template_free_coffee_description: 'Un café por nuestra cuenta, una vez por semana, para creadores con más de 10.000 seguidores.',
+      template_happy_hour_name: 'Happy hour entre semana -20%',
+      template_happy_hour_description: '20% de descuento de lunes a viernes de 17:00 a 19:00.',
+      template_creator_ladder_name: 'Escalera de creadores',
+      template_creator_ladder_description: 'Cuantos más seguidores tengas, mayor será el descuento.',
+      bulkSelectAll: 'Seleccionar todas las ofertas',
+      bulkSelectOffer: 'Seleccionar {{title}}',
+      bulkSelected: '{{count}} seleccionadas',
+      bulkClear: 'Borrar selección',
+      bulkEndDate: 'Fecha de fin',
+      bulkApply: 'Aplicar',
+      bulkClearEndDate: 'Quitar fecha de fin',
+      bulkDiscountDelta: 'Cambiar descuento en',
+      bulkDiscountDeltaHelp: 'Se suma a cada oferta en su propia unidad (puntos porcentuales o euros) y se mantiene dentro del rango permitido. Usa un número negativo para bajar los descuentos.',
+      bulkDone_activate: '{{count}} ofertas activadas',
+      bulkDone_deactivate: '{{count}} ofertas desactivadas',
+      bulkDone_delete: '{{count}} ofertas eliminadas',
+      bulkDone_end_date: 'Fecha de fin actualizada en {{count}} ofertas',
+      bulkDone_discount_delta: 'Descuento actualizado en {{count}} ofertas',
+      bulkSkipped: '{{count}} omitidas: ya estaban así, superaron su límite total o empiezan después de la fecha de fin',
+      bulkNothingToDo: 'No hay nada que cambiar en las ofertas seleccionadas.',
+      undo: 'Deshacer',
+      bulkUndone: 'Cambios deshechos',
+      bulkError: 'No hemos podido actualizar las ofertas seleccionadas.',
+      bulkUndoError: 'No hemos podido deshacer los cambios.',
+      trash: 'Papelera',
+      trashTitle: 'Papelera',
+      trashSubtitle: 'Las ofertas eliminadas se quedan aquí {{days}} días antes de borrarse definitivamente.',
+      trashBack: 'Volver a ofertas',
+      trashHint: 'Movida a la papelera durante {{days}} días.',
+      trashDeletedOn: 'Eliminada el {{date}}',
+      trashPurgeOn: 'Se borrará definitivamente el {{date}}',
+      trashEmptyTitle: 'La papelera está vacía',
+      trashEmptyDescription: 'Las ofertas que elimines aparecerán aquí y podrás restaurarlas.',
+      restore: 'Restaurar',
+      restoreSuccess: 'Oferta restaurada',
+      restoreError: 'No hemos podido restaurar la oferta.',
+      purge: 'Eliminar definitivamente',
+      purgeConfirm: '¿Eliminar "{{title}}" definitivamente? No se puede deshacer.',
+      emptyTrash: 'Vaciar papelera',
+      purgeAllConfirm: '¿Eliminar definitivamente las {{count}} ofertas de la papelera? No se puede deshacer.',
+      purgeSuccess: '{{count}} ofertas eliminadas definitivamente',
+      purgeError: 'No hemos podido eliminar las ofertas.',
+      tabDetails: 'Detalles',
+      tabHistory: 'Historial',
+      historyEmpty: 'Todavía no hay cambios registrados para esta oferta.',
+      historyError: 'No hemos podido cargar el historial de esta oferta.',
+      historyRetry: 'Reintentar',
+      historyBy: 'Por {{name}}',
+      historyBySystem: 'Por el sistema',
+      historyAction_create: 'Creada',
+      historyAction_update: 'Editada',
+      historyAction_activate: 'Activada',
+      historyAction_deactivate: 'Desactivada',
+      historyAction_delete: 'Movida a la papelera',
+      historyAction_restore: 'Restaurada',
+      historyAction_purge: 'Eliminada definitivamente',
+      historyField_title: 'Título',
+      historyField_description: 'Descripción',
+      historyField_discount_type: 'Tipo de descuento',
+      historyField_discount_value: 'Descuento',
+      historyField_min_followers: 'Seguidores mínimos',
+      historyField_start_at: 'Fecha de inicio',
+      historyField_end_at: 'Fecha de fin',
+      historyField_schedule: 'Horario',
+      historyField_max_redemptions: 'Límite total',
+      historyField_max_redemptions_per_day: 'Límite diario',
+      historyField_max_redemptions_per_student_week: 'Límite semanal por estudiante',
+      historyField_is_active: 'Activa',
+      historyField_paused_by_budget: 'Pausada por presupuesto',
+      filterSearch: 'Buscar ofertas',
+      filterStatus: 'Estado',
+      filterType: 'Tipo',
+      filterTier: 'Nivel',
+      filterDates: 'Fechas',
+      filterAll: 'Todas',
+      filterDates_live: 'En curso',
+      filterDates_upcoming: 'Próximas',
+      filterDates_expired: 'Caducadas',
+      filterClear: 'Borrar filtros',
+      filterNoMatches: 'Ninguna oferta coincide con estos filtros.',
+      sortBy: 'Ordenar por',
+      sortAscending: 'Orden ascendente',
+      sortDescending: 'Orden descendente',
+      sort_min_followers: 'Seguidores',
+      sort_title: 'Título',
+      sort_discount_value: 'Descuento',
+      sort_start_at: 'Fecha de inicio',
+      sort_end_at: 'Fecha de fin',
+      sort_created_at: 'Creación',
+      bulkSelectPage: 'Seleccionar todas las ofertas de esta página',
+      locationsTitle: 'Locales',
+      locationsDescription: 'Dónde pueden canjear esta oferta los estudiantes.',
+      locationsAll: 'Todos los locales',
+      locationsSome: 'Solo algunos locales',
+      locationsCount: '{{count}} locales',
+      validationLocations: 'Elige al menos un local',
+      historyField_location_ids: 'Locales',
     },
     billing: {
       title: 'Facturación',
@@ -663,7 +1466,7 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       subscriptionEndedOn: 'La suscripción terminó el {{date}}',
       planInactiveLabel: 'Suscripción inactiva',
       planNewLabel: 'Sin plan activo',
-      chargesTitle: 'Cargos por cupones este mes',
+      chargesTitle: 'Cargos por cupones',
       chargesDescription: 'El cargo es de {{amount}} por redención validada.',
       chargesSummary: '{{count}} cupones canjeados = {{amount}} facturados',
       chargesTrendTitle: 'Tendencia del mes actual',
@@ -707,6 +1510,50 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       topUpButton: 'Añadir saldo',
       topUpMinimumError: 'Elige un importe para recargar antes de continuar.',
       noRenewalYet: 'Sin renovación programada',
+      budgetTitle: 'Presupuesto mensual',
+      budgetDescription: 'Fija un tope para los cargos por canje de cada mes. Al alcanzarlo, todas tus ofertas activas se pausan hasta el mes siguiente o hasta que aumentes el presupuesto.',
+      budgetLabel: 'Presupuesto mensual (€)',
+      budgetPlaceholder: 'Sin presupuesto',
+      budgetSave: 'Guardar presupuesto',
+      budgetRemove: 'Quitar presupuesto',
+      budgetUsed: '{{charges}} de {{budget}} gastados este mes',
+      budgetProjected: 'Previsión a final de mes al ritmo actual: {{amount}}',
+      budgetPausedNotice: 'Has alcanzado tu presupuesto mensual y tus ofertas están en pausa. Aumenta el presupuesto para reactivarlas ahora.',
+      budgetSaved: 'Presupuesto mensual guardado',
+      budgetSavedResumed: 'Presupuesto mensual guardado. {{count}} oferta(s) en pausa vuelven a estar activas.',
+      budgetRemoved: 'Presupuesto mensual eliminado',
+      budgetSaveError: 'No se pudo guardar el presupuesto mensual',
+      budgetInvalid: 'Introduce un importe mayor que cero',
+      budgetWarningBanner: 'Has gastado {{charges}} de tu presupuesto mensual de {{budget}} (previsión de {{projected}} a final de mes). Las ofertas se pausarán al alcanzar el presupuesto.',
+      budgetReachedBanner: 'Has alcanzado tu presupuesto mensual de {{budget}}. Tus ofertas se van a pausar.',
+      budgetPausedBanner: 'Tus ofertas están en pausa: se ha alcanzado el presupuesto mensual de {{budget}}. Se reanudarán el mes que viene, o aumenta el presupuesto para reanudarlas ya.',
+      budgetManageLink: 'Gestionar presupuesto',
+      statementsDescription: 'Extractos mensuales de tus validaciones, cargos y movimientos de saldo. Descarga la factura en PDF de cualquier mes cerrado.',
+      statementsFetchError: 'No se pudieron cargar tus extractos',
+      lastPaymentLabel: 'Último pago',
+      statementsMonth: 'Mes',
+      statementsRedemptions: 'Validaciones',
+      statementsCharges: 'Cargos',
+      statementsTopUps: 'Recargas',
+      statementsMovement: 'Movimiento de saldo',
+      statementsClosingBalance: 'Saldo final',
+      statementsInvoice: 'Factura',
+      statementsInProgress: 'En curso',
+      statementsDownload: 'Descargar PDF',
+      periodLabel: 'Periodo',
+      periodCurrentMonth: 'Este mes',
+      periodYearToDate: 'En lo que va de año',
+      periodCustom: 'Rango personalizado…',
+      periodFrom: 'Desde',
+      periodTo: 'Hasta',
+      periodApply: 'Aplicar',
+      periodInvalidRange: 'Elige una fecha de inicio anterior o igual a la de fin y que no sea futura.',
+      periodRangeTooLong: 'Elige un rango de {{days}} días como máximo.',
+      periodComparedWith: '{{current}}, comparado con {{previous}}',
+      periodPreviousValue: 'Periodo anterior: {{value}}',
+      chartTitle: '{{metric}} por día',
+      chartMetricLabel: 'Valores del gráfico',
+      budgetSavedPaused: 'Presupuesto mensual guardado. Los cargos de este mes ya lo alcanzan, así que {{count}} oferta(s) quedan en pausa hasta el próximo mes.',
     },
     profile: {
       title: 'Perfil',
@@ -765,6 +1612,323 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       reactivateCta: 'Reactivar cuenta',
       reactivateSuccess: 'Cuenta reactivada correctamente',
       reactivateError: 'Error al reactivar la cuenta',
+      timezone: 'Zona horaria',
+      timezoneHint: 'Se usa para los horarios de las ofertas y las happy hours.',
+    },
+    redemptions: {
+      title: 'Canjes',
+      subtitle: 'Cada canje validado, con el estudiante y la oferta correspondientes.',
+      filterOffer: 'Oferta',
+      filterAllOffers: 'Todas las ofertas',
+      filterTier: 'Nivel de seguidores',
+      filterAllTiers: 'Todos los niveles',
+      filterFrom: 'Desde',
+      filterTo: 'Hasta',
+      resetFilters: 'Restablecer filtros',
+      resultsRange: 'Mostrando canjes {{from}}–{{to}}',
+      tableHeaderDate: 'Canjeado',
+      tableHeaderStudent: 'Estudiante',
+      tableHeaderOffer: 'Oferta',
+      tableHeaderTier: 'Nivel',
+      viewDetails: 'Detalles',
+      tierAll: 'Todos los seguidores',
+      unknownStudent: 'Estudiante desconocido',
+      emptyTitle: 'No se encontraron canjes',
+      emptyDescription: 'Los canjes aparecen aquí en cuanto los estudiantes usan tus ofertas en tienda.',
+      emptyFilteredDescription: 'Ningún canje coincide con estos filtros. Prueba a ampliar el rango de fechas.',
+      fetchError: 'No se pudieron cargar los canjes',
+      detailTitle: 'Canje n.º {{id}}',
+      detailRedeemedAt: 'Canjeado el',
+      detailRedeemedBy: 'Validado por',
+      detailStudent: 'Estudiante',
+      detailStudentEmail: 'Email del estudiante',
+      detailFollowers: 'Seguidores',
+      detailOffer: 'Oferta',
+      detailDiscount: 'Descuento',
+      detailTier: 'Nivel de seguidores',
+      detailClaimId: 'Reclamación',
+      detailClaimStatus: 'Estado de la reclamación',
+      detailClaimedAt: 'Reclamado el',
+      detailQrCode: 'Código QR',
+      detailLocation: 'Local',
+    },
+    scan: {
+      title: 'Escanear y validar',
+      subtitle: 'Escanea el código QR del estudiante o escribe el código para comprobar la reclamación y registrar el canje.',
+      cameraTitle: 'Cámara',
+      cameraDescription: 'Apunta la cámara al código QR que aparece en el móvil del estudiante.',
+      cameraUnsupported: 'Este navegador no puede escanear códigos QR con la cámara. Introduce el código manualmente abajo.',
+      cameraDenied: 'Se denegó el acceso a la cámara. Permite el acceso en la configuración del navegador o introduce el código manualmente.',
+      cameraError: 'No se pudo iniciar la cámara. Introduce el código manualmente abajo.',
+      manualLabel: 'Introducir código manualmente',
+      manualPlaceholder: 'Código de reclamación',
+      manualSubmit: 'Buscar',
+      idleTitle: 'Esperando un código',
+      idleDescription: 'Escanea un código QR o introduce un código para ver el estudiante, la oferta y la elegibilidad.',
+      notFoundTitle: 'Reclamación no encontrada',
+      notFoundDescription: 'Ninguna reclamación de tus ofertas coincide con el código "{{code}}".',
+      claimLabel: 'Reclamación #{{id}}',
+      statusEligible: 'Válida',
+      statusIneligible: 'No válida',
+      statusRedeemed: 'Canjeada',
+      checkOfferActive: 'La oferta está activa',
+      checkOfferStarted: 'La oferta ha comenzado',
+      checkOfferNotEnded: 'La oferta no ha finalizado',
+      checkQrValid: 'El código QR no ha caducado',
+      checkClaimOpen: 'La reclamación sigue abierta',
+      checkFollowers: 'El estudiante cumple el nivel de seguidores',
+      checkNotRedeemed: 'Aún no canjeada',
+      redeem: 'Validar canje',
+      redeeming: 'Validando...',
+      redeemSuccess: 'Canje registrado',
+      redeemError: 'No se pudo registrar el canje',
+      alreadyRedeemedToast: 'Esta reclamación ya ha sido canjeada',
+      lookupError: 'No se pudo buscar este código',
+      redeemedAt: 'Canje registrado el {{date}}.',
+      scanNext: 'Escanear siguiente',
+      checkSchedule: 'Dentro del horario de la oferta',
+      checkCapTotal: 'Límite total no alcanzado',
+      checkCapDaily: 'Límite diario no alcanzado',
+      checkCapStudentWeekly: 'Límite semanal del estudiante no alcanzado',
+      capReachedToast_total: 'Esta oferta ha alcanzado su límite total',
+      capReachedToast_daily: 'Esta oferta ha alcanzado su límite de hoy',
+      capReachedToast_student_weekly: 'Este estudiante ha alcanzado el límite semanal de esta oferta',
+      checkLocation: 'Válida en este local',
+      wrongLocationToast: 'Esta oferta no es válida en este local',
+      locationLabel: 'Escaneando en {{name}}',
+      chooseLocation: 'Elige en la cabecera el local en el que escaneas antes de validar.',
+      unavailableToast_offer_inactive: 'Esta oferta ya no está activa',
+      unavailableToast_offer_not_started: 'Esta oferta aún no ha empezado',
+      unavailableToast_offer_ended: 'Esta oferta ha finalizado',
+      unavailableToast_outside_schedule: 'Esta oferta no está disponible en este horario',
+      unavailableToast_qr_expired: 'Este código QR ha caducado',
+      unavailableToast_claim_closed: 'Esta solicitud ha caducado o se ha cancelado',
+      unavailableToast_insufficient_followers: 'Este estudiante no tiene suficientes seguidores para esta oferta',
+    },
+    notifications: {
+      title: 'Notificaciones',
+      empty: 'Aún no hay notificaciones.',
+      offerCapReached_total: '«{{offer}}» alcanzó su límite de {{limit}} canjes y se ha desactivado.',
+      offerCapReached_daily: '«{{offer}}» alcanzó su límite de {{limit}} canjes por hoy. Volverá a estar disponible mañana.',
+      budgetReached: 'Se alcanzó tu presupuesto mensual de {{budget}}. Se pausaron {{count}} oferta(s).',
+    },
+    invoice: {
+      title: 'Factura',
+      number: 'N.º {{number}}',
+      issuedOn: 'Emitida el {{date}}',
+      period: 'Periodo: {{period}}',
+      from: 'EMISOR',
+      billTo: 'FACTURAR A',
+      vatNumber: 'NIF/IVA: {{vat}}',
+      description: 'Concepto',
+      quantity: 'Cant.',
+      unitPrice: 'Precio unitario',
+      amount: 'Importe',
+      redemptionsLine: 'Validaciones confirmadas – {{period}}',
+      total: 'Total',
+      balanceTitle: 'RESUMEN DE SALDO',
+      topUps: 'Recargas',
+      balanceMovement: 'Movimiento de saldo',
+      closingBalance: 'Saldo final',
+      footer: 'Los cargos se descontaron de tu saldo prepagado. Gracias por usar Ovio.',
+    },
+    export: {
+      button: 'Exportar',
+      title_redemptions: 'Exportar validaciones',
+      title_offers: 'Exportar ofertas',
+      title_charges: 'Exportar cargos diarios',
+      description: 'Elige un rango de fechas y un formato. Las fechas e importes siguen tu idioma.',
+      from: 'Desde',
+      to: 'Hasta',
+      format: 'Formato',
+      format_csv: 'CSV',
+      format_xlsx: 'Excel (XLSX)',
+      download: 'Descargar',
+      exporting: 'Preparando archivo…',
+      invalidRange: 'Elige una fecha de inicio anterior a la de fin.',
+      success: '{{count}} filas exportadas',
+      error: 'No se pudieron exportar los datos',
+      datasetRedemptions: 'Validaciones',
+      datasetOffers: 'Ofertas',
+      datasetCharges: 'Cargos diarios',
+      columnRedeemedAt: 'Validada el',
+      columnRedemptionId: 'ID de validación',
+      columnOfferId: 'ID de oferta',
+      columnOffer: 'Oferta',
+      columnDiscount: 'Descuento',
+      columnTier: 'Nivel',
+      columnMinFollowers: 'Seguidores mínimos',
+      columnStatus: 'Estado',
+      columnCreatedAt: 'Creada el',
+      columnStudent: 'Estudiante',
+      columnStudentEmail: 'Email del estudiante',
+      columnClaimId: 'ID de reclamación',
+      columnValidatedBy: 'Validada por',
+      columnCharge: 'Cargo (EUR)',
+      columnDate: 'Fecha',
+      columnRedemptions: 'Validaciones',
+      columnCharges: 'Cargos (EUR)',
+    },
+    charts: {
+      showTable: 'Mostrar tabla de datos',
+      tableLabel: 'Fecha',
+    },
+    analytics: {
+      title: 'Analíticas de ofertas',
+      subtitle: 'Descubre qué ofertas atraen a estudiantes, quién las canjea y cuándo.',
+      filterOffer: 'Oferta',
+      filterAllOffers: 'Todas las ofertas',
+      windowLabel: 'Periodo',
+      window: '{{days}} días',
+      fetchError: 'No se pudieron cargar las analíticas',
+      emptyTitle: 'Aún no hay ofertas',
+      emptyDescription: 'Crea una oferta para empezar a recopilar analíticas.',
+      redemptions: 'Canjes',
+      claims: 'Solicitudes',
+      conversion: 'Conversión',
+      conversionHint: '{{redeemed}} de {{claims}} solicitudes canjeadas',
+      costPerRedemption: 'Coste por canje',
+      totalCost: '{{amount}} en total',
+      offersTitle: 'Rendimiento por oferta',
+      costExplanation: 'El coste incluye el cargo de {{amount}} por canje más el valor del cupón en ofertas de importe fijo. Los descuentos porcentuales dependen de la compra y no se incluyen.',
+      tableOffer: 'Oferta',
+      tableTotalCost: 'Coste total',
+      deletedOffer: 'Eliminada',
+      tiersTitle: 'Canjes por nivel de seguidores',
+      tiersDescription: 'Según el número de seguidores actual de cada estudiante.',
+      tierBelow: 'Menos de {{label}} seguidores o desconocido',
+      heatmapTitle: 'Canjes por día y hora',
+      heatmapDescription: 'Cuanto más oscura la celda, más canjes, en la zona horaria de tu negocio.',
+      heatmapCell: '{{day}} {{hour}}: {{count}} canjes',
+    },
+    locations: {
+      title: 'Locales',
+      subtitle: 'Gestiona tus tiendas, sus direcciones y horarios de apertura.',
+      add: 'Añadir local',
+      createTitle: 'Nuevo local',
+      editTitle: 'Editar local',
+      edit: 'Editar',
+      empty: 'Todavía no hay locales.',
+      name: 'Nombre',
+      street: 'Dirección',
+      postalCode: 'Código postal',
+      city: 'Ciudad',
+      country: 'País',
+      visible: 'Visible para los estudiantes',
+      visibleDescription: 'Los locales ocultos se mantienen en tu historial pero no aparecen en la app de estudiantes.',
+      hidden: 'Oculto',
+      hide: 'Ocultar',
+      show: 'Mostrar',
+      noAddress: 'Sin dirección',
+      hoursTitle: 'Horario de apertura',
+      hoursAlways: 'Sin horario de apertura',
+      hoursClosedDates: 'Días cerrado',
+      hoursNoClosedDates: 'Sin días cerrado',
+      validationName: 'Introduce un nombre para este local',
+      createSuccess: 'Local añadido',
+      saveSuccess: 'Local guardado',
+      saveError: 'No se pudo guardar el local',
+      unassigned: 'Sin asignar',
+      breakdownTitle: 'Por local',
+      breakdownValue: '{{count}} · {{amount}}',
+    },
+    team: {
+      title: 'Equipo',
+      subtitle: 'Invita a tu personal y elige qué puede hacer cada persona.',
+      inviteTitle: 'Invitar a un miembro',
+      inviteEmail: 'Email',
+      role: 'Rol',
+      invite: 'Enviar invitación',
+      inviting: 'Enviando…',
+      role_owner: 'Propietario',
+      role_manager: 'Gerente',
+      role_cashier: 'Cajero',
+      roleDescription_owner: 'Todo, incluida la facturación, el perfil y el equipo',
+      roleDescription_manager: 'Ofertas, locales, canjes y analíticas',
+      roleDescription_cashier: 'Solo validar canjes',
+      membersTitle: 'Miembros',
+      empty: 'Todavía no hay miembros. Invita a alguien arriba.',
+      pending: 'Invitación pendiente',
+      invitedOn: 'Invitado el {{date}}',
+      joinedOn: 'Se unió el {{date}}',
+      remove: 'Eliminar',
+      removeTitle: '¿Eliminar al miembro?',
+      removeConfirm: '{{email}} perderá el acceso a esta cuenta.',
+      inviteSuccess: 'Invitación enviada a {{email}}',
+      inviteAlreadyMember: 'Este email ya forma parte del equipo',
+      inviteError: 'No se pudo enviar la invitación',
+      roleUpdated: 'Rol actualizado',
+      removeSuccess: '{{email}} se ha eliminado del equipo',
+      updateError: 'No se pudo actualizar el equipo',
+      fetchError: 'No se pudo cargar el equipo',
+      noAccessTitle: 'No tienes acceso a esta página',
+      noAccessDescription: 'Pídeselo al propietario de la cuenta si lo necesitas.',
+      noAccessLink: 'Ir a tu página de inicio',
+    },
+    admin: {
+      navMerchants: 'Comercios',
+      navFlagged: 'Canjes reportados',
+      merchantsTitle: 'Comercios',
+      merchantsSubtitle: 'Busca cuentas de comercios, revisa su suscripción y saldo, y suspende las cuentas que incumplan las normas.',
+      search: 'Buscar',
+      searchPlaceholder: 'Nombre, razón social o ID',
+      status: 'Estado',
+      allStatuses: 'Todos los estados',
+      merchant: 'Comercio',
+      validUntil: 'Pagado hasta',
+      balance: 'Saldo',
+      actions: 'Acciones',
+      merchantsEmpty: 'Ningún comercio coincide con estos filtros.',
+      fetchError: 'No se pudieron cargar los datos de administración',
+      status_active: 'Activo',
+      status_trial: 'Prueba',
+      status_trialing: 'En prueba',
+      status_past_due: 'Pago pendiente',
+      status_inactive: 'Inactivo',
+      status_canceled: 'Cancelado',
+      status_suspended: 'Suspendido',
+      viewDashboard: 'Ver panel',
+      suspend: 'Suspender',
+      reactivate: 'Reactivar',
+      suspendTitle: 'Suspender comercio',
+      suspendConfirm: 'Las ofertas de {{name}} dejarán de mostrarse a los estudiantes hasta que se reactive la cuenta.',
+      suspendReason: 'Motivo (opcional)',
+      suspendSuccess: '{{name}} suspendido',
+      reactivateSuccess: '{{name}} reactivado',
+      suspendError: 'No se pudo actualizar el comercio',
+      impersonationBanner: 'Viendo {{name}} como administrador — solo lectura',
+      impersonationExit: 'Volver a administración',
+      impersonationError: 'No se pudo abrir el panel de este comercio',
+      flaggedTitle: 'Canjes reportados',
+      flaggedSubtitle: 'Reportes presentados sobre reclamaciones canjeadas. Revisa cada uno y registra el resultado.',
+      flaggedEmpty: 'No hay canjes reportados con este estado.',
+      flaggedClaim: 'Reclamación #{{claim}} de {{student}}, canjeada el {{date}}',
+      flaggedBy: 'Reportado por {{email}}',
+      unknownOffer: 'Oferta eliminada',
+      report_pending: 'Pendiente',
+      report_in_review: 'En revisión',
+      report_resolved: 'Resuelto',
+      report_rejected: 'Rechazado',
+      review_in_review: 'Marcar en revisión',
+      review_resolved: 'Resolver',
+      review_rejected: 'Rechazar',
+      reviewSuccess: 'Reporte actualizado',
+      reviewError: 'No se pudo actualizar el reporte',
+      category_fraud: 'Fraude',
+      category_spam: 'Spam',
+      category_inappropriate: 'Inapropiado',
+      category_fake_profile: 'Perfil falso',
+      category_other: 'Otro',
+    },
+    onboarding: {
+      title: 'Configura tu negocio',
+      subtitle: 'Tu cuenta aún no tiene un negocio. Añádelo para empezar a publicar ofertas.',
+      name: 'Nombre del negocio',
+      legalName: 'Razón social (opcional)',
+      nameRequired: 'Introduce el nombre de tu negocio',
+      submit: 'Crear negocio',
+      success: 'Tu negocio está listo',
+      error: 'No se pudo crear tu negocio. Inténtalo de nuevo.',
     },
     toasts: {
       genericError: 'Algo salió mal',
@@ -793,6 +1957,8 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       openMenu: 'Ouvrir le menu',
       closeMenu: 'Fermer le menu',
       requiredField: 'Ce champ est requis',
+      loadMore: 'Charger plus',
+      pageNumber: 'Page {{page}}',
     },
     navigation: {
       brandTagline: 'Tableau de bord',
@@ -806,6 +1972,13 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       logout: 'Déconnexion',
       collapseSidebar: 'Réduire le menu',
       expandSidebar: 'Développer le menu',
+      redemptions: 'Utilisations',
+      scan: 'Scanner',
+      analytics: 'Statistiques',
+      locations: 'Établissements',
+      locationSwitcher: 'Établissement',
+      allLocations: 'Tous les établissements',
+      team: 'Équipe',
     },
     auth: {
       heroTitle: 'Bienvenue sur votre tableau de bord',
@@ -934,6 +2107,20 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       whatsNextAddPayment: 'Ajoutez un moyen de paiement pour être prêt à vous abonner.',
       whatsNextAllGood: 'Tout est prêt ! Continuez à suivre vos performances ici.',
       loading: 'Chargement du tableau de bord…',
+      liveActivity: 'Activité en direct',
+      liveActivityDescription: 'Les utilisations apparaissent ici dès que les étudiants utilisent vos offres.',
+      liveBadge: 'En direct',
+      liveActivityEmpty: "Aucune utilisation pour l'instant. Gardez cette page ouverte pour les voir en temps réel.",
+      liveActivityItem: '{{student}} a utilisé {{offer}}',
+      liveRedemptionToast: "{{student}} vient d'utiliser {{offer}}",
+      viewAllRedemptionsLink: 'Voir toutes les utilisations →',
+      trendsTitle: 'Tendance des utilisations',
+      trendsDescription: 'Utilisations quotidiennes de vos {{count}} offres les plus actives.',
+      trendsWindowLabel: 'Période',
+      trendsWindow: '{{days}} jours',
+      trendsChartTitle: 'Utilisations quotidiennes par offre sur les {{days}} derniers jours',
+      trendsEmpty: 'Aucune utilisation sur les {{days}} derniers jours.',
+      trendsError: 'Impossible de charger la tendance des utilisations',
     },
     offers: {
       title: 'Offres',
@@ -950,7 +2137,6 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       activate: 'Activer',
       deactivate: 'Désactiver',
       delete: 'Supprimer',
-      deleteConfirm: 'Voulez-vous vraiment supprimer cette offre ?',
       deleteSuccess: 'Offre supprimée',
       deleteError: 'Erreur lors de la suppression',
       statusUpdated: 'Offre {{status}}',
@@ -999,15 +2185,11 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       newFormTitle: 'Créer une Nouvelle Offre',
       newFormDescription: 'Configurez les détails de votre offre. Le titre et la description seront générés automatiquement.',
       newFormDiscountType: 'Type de Réduction',
-      newFormDiscountValue: 'Valeur de la Réduction',
-      newFormMinFollowers: 'Followers Minimum',
       newFormStartDate: 'Date de Début',
       newFormEndDate: 'Date de Fin (Optionnel)',
       newFormCancel: 'Annuler',
-      newFormCreate: 'Créer l\'Offre',
       newFormCreating: 'Création...',
       newFormClose: 'Fermer',
-      newFormPreview: 'Aperçu',
       newFormFollowers: 'followers',
       newFormValidationDiscount: 'La réduction doit être entre 5-100% par incréments de 5',
       newFormValidationFixed: 'La réduction doit être d\'au moins 1€',
@@ -1016,12 +2198,215 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       newFormValidationError: 'Veuillez corriger les erreurs ci-dessous',
       newFormSuccess: '{{count}} offre{{plural}} créée{{plural}} avec succès',
       newFormError: 'Échec de la création des offres',
-      newFormScalingTitle: 'Adapter automatiquement pour les Niveaux Supérieurs ?',
-      newFormScalingDescription: 'Nous pouvons créer automatiquement des offres supplémentaires pour les niveaux de followers supérieurs avec des réductions augmentées.',
-      newFormScalingBaseOffer: 'Offre de Base',
-      newFormScalingAutoGenerated: 'Offre Auto-générée',
-      newFormScalingCancel: 'Non, créer seulement l\'offre de base',
-      newFormScalingConfirm: 'Oui, créer {{count}} offres',
+      errorNotFound: "Cette offre n'existe plus ou appartient à un autre commerce",
+      errorForbidden: "Vous n'êtes pas autorisé à modifier cette offre",
+      errorInvalid: "Certaines informations de l'offre sont invalides. Vérifiez le formulaire et réessayez.",
+      ladderEditTitle: "Modifier la famille d'offres",
+      ladderFamilyName: 'Nom de la famille',
+      ladderFamilyNameHint: 'Les offres créées ensemble sont regroupées et gérées comme une seule famille.',
+      ladderValidationName: 'Donnez un nom à cette famille',
+      ladderBaseTier: 'Palier de départ',
+      ladderBaseDiscount: 'Réduction de départ',
+      ladderCurve: 'Courbe de progression',
+      ladderCurve_linear: 'Linéaire',
+      ladderCurve_geometric: 'Géométrique',
+      ladderCurve_custom: 'Personnalisée',
+      ladderCurveHint_linear: 'Ajoute le même pas à chaque palier supérieur.',
+      ladderCurveHint_geometric: 'Multiplie la réduction à chaque palier supérieur.',
+      ladderCurveHint_custom: 'Définissez la réduction de chaque palier à la main.',
+      ladderLinearStep: 'Pas par palier',
+      ladderGeometricRatio: 'Multiplicateur par palier',
+      ladderTitle: 'Échelle des paliers',
+      ladderDescription: "Tous les paliers de la famille côte à côte. Modifiez la réduction d'un palier pour l'ajuster, ou désactivez-le.",
+      ladderTierDiscount: 'Réduction pour {{tier}} abonnés',
+      ladderTierBase: 'Base',
+      ladderTierOff: 'Désactivé',
+      ladderDecreasingWarning: 'Certains paliers supérieurs ont une réduction plus faible que le palier précédent.',
+      ladderMatchTitle: 'Quelle offre verrait un étudiant ?',
+      ladderMatchFollowers: "Nombre d'abonnés de l'étudiant",
+      ladderMatchResult: 'Un étudiant avec {{followers}} abonnés voit « {{offer}} » (palier {{tier}}).',
+      ladderMatchNone: "Un étudiant avec {{followers}} abonnés n'atteint encore aucun palier.",
+      ladderCreate: 'Créer {{count}} offre(s)',
+      ladderSave: "Enregistrer l'échelle",
+      ladderSaved: "Famille d'offres mise à jour",
+      familiesTitle: "Familles d'offres",
+      familiesDescription: "Les échelles de paliers créées ensemble. Modifiez toute l'échelle ou mettez tous les paliers en pause d'un coup.",
+      familySummary: '{{count}} paliers · courbe {{curve}}',
+      familyEditLadder: "Modifier l'échelle",
+      familyActivateAll: 'Activer tous les paliers',
+      familyDeactivateAll: 'Désactiver tous les paliers',
+      familyDelete: 'Supprimer la famille',
+      familyDeleteConfirm: 'Supprimer cette famille et ses {{count}} offres ?',
+      familyDeleteSuccess: "Famille d'offres supprimée",
+      familyStatusUpdated: "Famille d'offres {{status}}",
+      tableHeaderSchedule: 'Horaires',
+      scheduleTitle: 'Seulement à certaines heures',
+      scheduleAlways: "L'offre est disponible toute la journée, tous les jours entre ses dates.",
+      scheduleTimeZone: 'Heures exprimées en {{timeZone}}.',
+      schedulePreset_weekdays: 'En semaine',
+      schedulePreset_weekends: 'Week-ends',
+      schedulePreset_everyday: 'Tous les jours',
+      scheduleRemoveWindow: 'Retirer',
+      scheduleFrom: 'De',
+      scheduleTo: 'À',
+      scheduleOvernight: 'Se termine après minuit, le lendemain.',
+      scheduleAddWindow: '+ Ajouter un créneau',
+      scheduleBlackoutDates: 'Dates exclues',
+      scheduleAddBlackout: 'Ajouter la date',
+      scheduleRemoveBlackout: 'Retirer la date',
+      scheduleNoBlackouts: 'Aucune date exclue.',
+      scheduleError_no_days: 'Choisissez au moins un jour pour chaque créneau.',
+      scheduleError_invalid_time: 'Saisissez une heure de début et de fin valides.',
+      scheduleError_same_time: 'Un créneau ne peut pas commencer et finir à la même heure.',
+      scheduleError_invalid_date: "L'une des dates exclues est invalide.",
+      scheduleInvalid: "Vérifiez les réglages d'horaires",
+      scheduleAnyTime: 'À toute heure',
+      scheduleBlackoutCount: '{{count}} date(s) exclue(s)',
+      liveState_live: 'En cours',
+      liveState_not_started: 'Programmée',
+      liveState_ended: 'Terminée',
+      liveState_blackout: "Exclue aujourd'hui",
+      liveState_outside_window: 'Hors horaires',
+      tableHeaderCaps: 'Limites',
+      capsTitle: "Limites d'utilisation",
+      capsDescription: "Laissez un champ vide pour ne fixer aucune limite. L'offre se désactive automatiquement une fois sa limite totale atteinte.",
+      capsLadderNote: "Les limites s'appliquent à chaque palier séparément.",
+      capTotal: 'Utilisations totales',
+      capTotalHint: "Sur toute la durée de l'offre",
+      capDaily: 'Par jour',
+      capDailyHint: 'Remise à zéro à minuit dans votre fuseau horaire',
+      capStudentWeekly: 'Par étudiant et par semaine',
+      capStudentWeeklyHint: 'Sur 7 jours glissants',
+      capUnlimited: 'Illimité',
+      capTotalShort: 'Total',
+      capDailyShort: "Aujourd'hui",
+      capStudentWeeklySummary: 'Max {{count}} par étudiant / semaine',
+      capReachedActivateError: 'Cette offre a atteint sa limite totale. Augmentez la limite avant de la réactiver.',
+      liveState_budget_paused: 'En pause (budget)',
+      budgetPausedActivateError: 'Votre budget mensuel est atteint. Augmentez-le sur la page de facturation pour réactiver des offres.',
+      duplicate: 'Dupliquer',
+      duplicateTitle: '{{title}} (copie)',
+      duplicateFormTitle: "Dupliquer l'offre",
+      templatesTitle: 'Modèles',
+      templatesDescription: "Partez d'une configuration courante ou d'un modèle enregistré.",
+      templatesSaveDescription: 'Gardez cette configuration pour la réutiliser sur de nouvelles offres.',
+      templatesBrowse: 'Voir les modèles',
+      templatesHide: 'Masquer les modèles',
+      templateSave: 'Enregistrer comme modèle',
+      templatesBuiltIn: 'Modèles de départ',
+      templatesSaved: 'Vos modèles',
+      templatesSavedEmpty: 'Les modèles que vous enregistrez apparaissent ici.',
+      templateSummary: '{{discount}} · {{tier}} abonnés',
+      templateLadderSummary: '{{discount}} dès {{tier}} abonnés, en hausse à chaque palier',
+      templateApplied: 'Modèle « {{name}} » appliqué',
+      templateNamePrompt: 'Nom du modèle',
+      templateSaved: 'Modèle « {{name}} » enregistré',
+      templateSaveError: "Impossible d'enregistrer le modèle",
+      templateDeleteConfirm: 'Supprimer le modèle « {{name}} » ? Les offres créées à partir de celui-ci ne changent pas.',
+      templateDeleted: 'Modèle supprimé',
+      templateDeleteError: 'Impossible de supprimer le modèle',
+      templateDelete: 'Supprimer le modèle {{name}}',
+      template_student_lunch_name: 'Déjeuner étudiant -15 %',
+      template_student_lunch_description: '15 % de réduction sur votre déjeuner en semaine de 12:00 à 15:30.',
+      template_free_coffee_name: 'Café offert dès 10k abonnés',
+      template_free_coffee_description: 'Un café offert, une fois par semaine, aux créateurs de plus de 10 000 abonnés.',
+      template_happy_hour_name: 'Happy hour en semaine -20 %',
+      template_happy_hour_description: '20 % de réduction en semaine de 17:00 à 19:00.',
+      template_creator_ladder_name: 'Échelle créateurs',
+      template_creator_ladder_description: "Plus vous avez d'abonnés, plus la réduction est grande.",
+      bulkSelectAll: 'Sélectionner toutes les offres',
+      bulkSelectOffer: 'Sélectionner {{title}}',
+      bulkSelected: '{{count}} sélectionnées',
+      bulkClear: 'Effacer la sélection',
+      bulkEndDate: 'Date de fin',
+      bulkApply: 'Appliquer',
+      bulkClearEndDate: 'Retirer la date de fin',
+      bulkDiscountDelta: 'Modifier la remise de',
+      bulkDiscountDeltaHelp: 'Ajouté à chaque offre dans son unité (points de pourcentage ou euros), puis maintenu dans la plage autorisée. Utilisez un nombre négatif pour baisser les remises.',
+      bulkDone_activate: '{{count}} offres activées',
+      bulkDone_deactivate: '{{count}} offres désactivées',
+      bulkDone_delete: '{{count}} offres supprimées',
+      bulkDone_end_date: 'Date de fin mise à jour sur {{count}} offres',
+      bulkDone_discount_delta: 'Remise mise à jour sur {{count}} offres',
+      bulkSkipped: '{{count}} ignorées : déjà à jour, limite totale atteinte ou début après la date de fin',
+      bulkNothingToDo: 'Rien à modifier pour les offres sélectionnées.',
+      undo: 'Annuler',
+      bulkUndone: 'Modifications annulées',
+      bulkError: 'Impossible de mettre à jour les offres sélectionnées.',
+      bulkUndoError: "Impossible d'annuler les modifications.",
+      trash: 'Corbeille',
+      trashTitle: 'Corbeille',
+      trashSubtitle: "Les offres supprimées restent ici {{days}} jours avant d'être effacées définitivement.",
+      trashBack: 'Retour aux offres',
+      trashHint: 'Placée dans la corbeille pendant {{days}} jours.',
+      trashDeletedOn: 'Supprimée le {{date}}',
+      trashPurgeOn: 'Effacée définitivement le {{date}}',
+      trashEmptyTitle: 'La corbeille est vide',
+      trashEmptyDescription: 'Les offres que vous supprimez apparaissent ici et peuvent être restaurées.',
+      restore: 'Restaurer',
+      restoreSuccess: 'Offre restaurée',
+      restoreError: "Impossible de restaurer l'offre.",
+      purge: 'Supprimer définitivement',
+      purgeConfirm: 'Supprimer « {{title}} » définitivement ? Cette action est irréversible.',
+      emptyTrash: 'Vider la corbeille',
+      purgeAllConfirm: 'Supprimer définitivement les {{count}} offres de la corbeille ? Cette action est irréversible.',
+      purgeSuccess: '{{count}} offres supprimées définitivement',
+      purgeError: 'Impossible de supprimer les offres.',
+      tabDetails: 'Détails',
+      tabHistory: 'Historique',
+      historyEmpty: 'Aucune modification enregistrée pour cette offre.',
+      historyError: "Impossible de charger l'historique de cette offre.",
+      historyRetry: 'Réessayer',
+      historyBy: 'Par {{name}}',
+      historyBySystem: 'Par le système',
+      historyAction_create: 'Créée',
+      historyAction_update: 'Modifiée',
+      historyAction_activate: 'Activée',
+      historyAction_deactivate: 'Désactivée',
+      historyAction_delete: 'Placée dans la corbeille',
+      historyAction_restore: 'Restaurée',
+      historyAction_purge: 'Supprimée définitivement',
+      historyField_title: 'Titre',
+      historyField_description: 'Description',
+      historyField_discount_type: 'Type de remise',
+      historyField_discount_value: 'Remise',
+      historyField_min_followers: 'Abonnés minimum',
+      historyField_start_at: 'Date de début',
+      historyField_end_at: 'Date de fin',
+      historyField_schedule: 'Horaires',
+      historyField_max_redemptions: 'Limite totale',
+      historyField_max_redemptions_per_day: 'Limite quotidienne',
+      historyField_max_redemptions_per_student_week: 'Limite hebdomadaire par étudiant',
+      historyField_is_active: 'Active',
+      historyField_paused_by_budget: 'En pause (budget)',
+      filterSearch: 'Rechercher des offres',
+      filterStatus: 'Statut',
+      filterType: 'Type',
+      filterTier: 'Palier',
+      filterDates: 'Dates',
+      filterAll: 'Toutes',
+      filterDates_live: 'En cours',
+      filterDates_upcoming: 'À venir',
+      filterDates_expired: 'Expirées',
+      filterClear: 'Effacer les filtres',
+      filterNoMatches: 'Aucune offre ne correspond à ces filtres.',
+      sortBy: 'Trier par',
+      sortAscending: 'Ordre croissant',
+      sortDescending: 'Ordre décroissant',
+      sort_min_followers: 'Abonnés',
+      sort_title: 'Titre',
+      sort_discount_value: 'Remise',
+      sort_start_at: 'Date de début',
+      sort_end_at: 'Date de fin',
+      sort_created_at: 'Création',
+      bulkSelectPage: 'Sélectionner toutes les offres de cette page',
+      locationsTitle: 'Établissements',
+      locationsDescription: 'Où les étudiants peuvent utiliser cette offre.',
+      locationsAll: 'Tous les établissements',
+      locationsSome: 'Certains établissements seulement',
+      locationsCount: '{{count}} établissements',
+      validationLocations: 'Choisissez au moins un établissement',
+      historyField_location_ids: 'Établissements',
     },
     billing: {
       title: 'Facturation',
@@ -1040,7 +2425,7 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       subscriptionEndedOn: 'L’abonnement s’est terminé le {{date}}',
       planInactiveLabel: 'Abonnement inactif',
       planNewLabel: 'Aucun abonnement actif',
-      chargesTitle: 'Frais de coupons ce mois-ci',
+      chargesTitle: 'Frais de coupons',
       chargesDescription: '{{amount}} par coupon validé.',
       chargesSummary: '{{count}} coupons validés = {{amount}} facturés',
       chargesTrendTitle: 'Tendance du mois en cours',
@@ -1084,6 +2469,50 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       topUpButton: 'Ajouter du crédit',
       topUpMinimumError: 'Choisissez un montant à recharger avant de continuer.',
       noRenewalYet: 'Aucun renouvellement planifié',
+      budgetTitle: 'Budget mensuel',
+      budgetDescription: "Fixez un plafond pour les frais d'utilisation de chaque mois. Une fois atteint, toutes vos offres actives sont mises en pause jusqu'au mois suivant ou jusqu'à ce que vous augmentiez le budget.",
+      budgetLabel: 'Budget par mois (€)',
+      budgetPlaceholder: 'Aucun budget',
+      budgetSave: 'Enregistrer le budget',
+      budgetRemove: 'Supprimer le budget',
+      budgetUsed: '{{charges}} sur {{budget}} dépensés ce mois-ci',
+      budgetProjected: 'Prévision en fin de mois au rythme actuel : {{amount}}',
+      budgetPausedNotice: 'Votre budget mensuel est atteint et vos offres sont en pause. Augmentez le budget pour les réactiver dès maintenant.',
+      budgetSaved: 'Budget mensuel enregistré',
+      budgetSavedResumed: 'Budget mensuel enregistré. {{count}} offre(s) en pause sont de nouveau actives.',
+      budgetRemoved: 'Budget mensuel supprimé',
+      budgetSaveError: "Impossible d'enregistrer le budget mensuel",
+      budgetInvalid: 'Saisissez un montant supérieur à zéro',
+      budgetWarningBanner: 'Vous avez dépensé {{charges}} sur votre budget mensuel de {{budget}} (prévision de {{projected}} en fin de mois). Les offres seront mises en pause une fois le budget atteint.',
+      budgetReachedBanner: 'Vous avez atteint votre budget mensuel de {{budget}}. Vos offres vont être mises en pause.',
+      budgetPausedBanner: 'Vos offres sont en pause : le budget mensuel de {{budget}} est atteint. Elles reprendront le mois prochain, ou augmentez le budget pour les relancer maintenant.',
+      budgetManageLink: 'Gérer le budget',
+      statementsDescription: 'Relevés mensuels de vos validations, frais et mouvements de solde. Téléchargez la facture PDF de chaque mois clôturé.',
+      statementsFetchError: 'Impossible de charger vos relevés',
+      lastPaymentLabel: 'Dernier paiement',
+      statementsMonth: 'Mois',
+      statementsRedemptions: 'Validations',
+      statementsCharges: 'Frais',
+      statementsTopUps: 'Recharges',
+      statementsMovement: 'Mouvement du solde',
+      statementsClosingBalance: 'Solde de clôture',
+      statementsInvoice: 'Facture',
+      statementsInProgress: 'En cours',
+      statementsDownload: 'Télécharger le PDF',
+      periodLabel: 'Période',
+      periodCurrentMonth: 'Ce mois-ci',
+      periodYearToDate: 'Depuis le début de l’année',
+      periodCustom: 'Période personnalisée…',
+      periodFrom: 'Du',
+      periodTo: 'Au',
+      periodApply: 'Appliquer',
+      periodInvalidRange: 'Choisissez une date de début antérieure ou égale à la date de fin, et non future.',
+      periodRangeTooLong: 'Choisissez une période de {{days}} jours maximum.',
+      periodComparedWith: '{{current}}, comparé à {{previous}}',
+      periodPreviousValue: 'Période précédente : {{value}}',
+      chartTitle: '{{metric}} par jour',
+      chartMetricLabel: 'Valeurs du graphique',
+      budgetSavedPaused: "Budget mensuel enregistré. Les frais de ce mois l'atteignent déjà, donc {{count}} offre(s) sont en pause jusqu'au mois prochain.",
     },
     profile: {
       title: 'Profil',
@@ -1142,6 +2571,323 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       reactivateCta: 'Réactiver le compte',
       reactivateSuccess: 'Compte réactivé',
       reactivateError: 'Échec de la réactivation',
+      timezone: 'Fuseau horaire',
+      timezoneHint: 'Utilisé pour les horaires des offres et les happy hours.',
+    },
+    redemptions: {
+      title: 'Utilisations',
+      subtitle: "Chaque utilisation validée, avec l'étudiant et l'offre concernés.",
+      filterOffer: 'Offre',
+      filterAllOffers: 'Toutes les offres',
+      filterTier: "Palier d'abonnés",
+      filterAllTiers: 'Tous les paliers',
+      filterFrom: 'Du',
+      filterTo: 'Au',
+      resetFilters: 'Réinitialiser les filtres',
+      resultsRange: 'Utilisations {{from}}–{{to}}',
+      tableHeaderDate: 'Utilisée le',
+      tableHeaderStudent: 'Étudiant',
+      tableHeaderOffer: 'Offre',
+      tableHeaderTier: 'Palier',
+      viewDetails: 'Détails',
+      tierAll: 'Tous les abonnés',
+      unknownStudent: 'Étudiant inconnu',
+      emptyTitle: 'Aucune utilisation trouvée',
+      emptyDescription: 'Les utilisations apparaissent ici dès que les étudiants utilisent vos offres en boutique.',
+      emptyFilteredDescription: "Aucune utilisation ne correspond à ces filtres. Essayez d'élargir la période.",
+      fetchError: 'Impossible de récupérer les utilisations',
+      detailTitle: 'Utilisation n° {{id}}',
+      detailRedeemedAt: 'Utilisée le',
+      detailRedeemedBy: 'Validée par',
+      detailStudent: 'Étudiant',
+      detailStudentEmail: "E-mail de l'étudiant",
+      detailFollowers: 'Abonnés',
+      detailOffer: 'Offre',
+      detailDiscount: 'Réduction',
+      detailTier: "Palier d'abonnés",
+      detailClaimId: 'Réservation',
+      detailClaimStatus: 'Statut de la réservation',
+      detailClaimedAt: 'Réservée le',
+      detailQrCode: 'Code QR',
+      detailLocation: 'Établissement',
+    },
+    scan: {
+      title: 'Scanner et valider',
+      subtitle: "Scannez le QR code de l'étudiant ou saisissez le code pour vérifier la réclamation et enregistrer l'utilisation.",
+      cameraTitle: 'Caméra',
+      cameraDescription: "Dirigez la caméra vers le QR code affiché sur le téléphone de l'étudiant.",
+      cameraUnsupported: 'Ce navigateur ne peut pas scanner de QR codes avec la caméra. Saisissez le code manuellement ci-dessous.',
+      cameraDenied: "L'accès à la caméra a été refusé. Autorisez-le dans les réglages du navigateur ou saisissez le code manuellement.",
+      cameraError: 'Impossible de démarrer la caméra. Saisissez le code manuellement ci-dessous.',
+      manualLabel: 'Saisir le code manuellement',
+      manualPlaceholder: 'Code de réclamation',
+      manualSubmit: 'Rechercher',
+      idleTitle: "En attente d'un code",
+      idleDescription: "Scannez un QR code ou saisissez un code pour voir l'étudiant, l'offre et l'éligibilité.",
+      notFoundTitle: 'Réclamation introuvable',
+      notFoundDescription: 'Aucune réclamation de vos offres ne correspond au code « {{code}} ».',
+      claimLabel: 'Réclamation n°{{id}}',
+      statusEligible: 'Éligible',
+      statusIneligible: 'Non éligible',
+      statusRedeemed: 'Utilisée',
+      checkOfferActive: "L'offre est active",
+      checkOfferStarted: "L'offre a commencé",
+      checkOfferNotEnded: "L'offre n'est pas terminée",
+      checkQrValid: "Le QR code n'a pas expiré",
+      checkClaimOpen: 'La réclamation est toujours ouverte',
+      checkFollowers: "L'étudiant atteint le palier d'abonnés",
+      checkNotRedeemed: 'Pas encore utilisée',
+      redeem: "Valider l'utilisation",
+      redeeming: 'Validation...',
+      redeemSuccess: 'Utilisation enregistrée',
+      redeemError: "Impossible d'enregistrer l'utilisation",
+      alreadyRedeemedToast: 'Cette réclamation a déjà été utilisée',
+      lookupError: 'Impossible de rechercher ce code',
+      redeemedAt: 'Utilisation enregistrée le {{date}}.',
+      scanNext: 'Scanner le suivant',
+      checkSchedule: "Dans les horaires de l'offre",
+      checkCapTotal: 'Limite totale non atteinte',
+      checkCapDaily: 'Limite journalière non atteinte',
+      checkCapStudentWeekly: "Limite hebdomadaire de l'étudiant non atteinte",
+      capReachedToast_total: 'Cette offre a atteint sa limite totale',
+      capReachedToast_daily: "Cette offre a atteint sa limite pour aujourd'hui",
+      capReachedToast_student_weekly: 'Cet étudiant a atteint la limite hebdomadaire de cette offre',
+      checkLocation: 'Valable dans cet établissement',
+      wrongLocationToast: "Cette offre n'est pas valable dans cet établissement",
+      locationLabel: 'Scan à {{name}}',
+      chooseLocation: "Choisissez dans l'en-tête l'établissement où vous scannez avant de valider.",
+      unavailableToast_offer_inactive: "Cette offre n'est plus active",
+      unavailableToast_offer_not_started: "Cette offre n'a pas encore commencé",
+      unavailableToast_offer_ended: 'Cette offre est terminée',
+      unavailableToast_outside_schedule: "Cette offre n'est pas disponible à cette heure",
+      unavailableToast_qr_expired: 'Ce code QR a expiré',
+      unavailableToast_claim_closed: 'Cette réclamation a expiré ou a été annulée',
+      unavailableToast_insufficient_followers: "Cet étudiant n'a pas assez d'abonnés pour cette offre",
+    },
+    notifications: {
+      title: 'Notifications',
+      empty: 'Aucune notification pour le moment.',
+      offerCapReached_total: '« {{offer}} » a atteint sa limite de {{limit}} utilisations et a été désactivée.',
+      offerCapReached_daily: "« {{offer}} » a atteint sa limite de {{limit}} utilisations pour aujourd'hui. Elle sera de nouveau disponible demain.",
+      budgetReached: 'Votre budget mensuel de {{budget}} est atteint. {{count}} offre(s) ont été mises en pause.',
+    },
+    invoice: {
+      title: 'Facture',
+      number: 'N° {{number}}',
+      issuedOn: 'Émise le {{date}}',
+      period: 'Période : {{period}}',
+      from: 'ÉMETTEUR',
+      billTo: 'FACTURÉ À',
+      vatNumber: 'TVA : {{vat}}',
+      description: 'Description',
+      quantity: 'Qté',
+      unitPrice: 'Prix unitaire',
+      amount: 'Montant',
+      redemptionsLine: 'Validations confirmées – {{period}}',
+      total: 'Total',
+      balanceTitle: 'RÉSUMÉ DU SOLDE',
+      topUps: 'Recharges',
+      balanceMovement: 'Mouvement du solde',
+      closingBalance: 'Solde de clôture',
+      footer: 'Les frais ont été déduits de votre solde prépayé. Merci d’utiliser Ovio.',
+    },
+    export: {
+      button: 'Exporter',
+      title_redemptions: 'Exporter les validations',
+      title_offers: 'Exporter les offres',
+      title_charges: 'Exporter les frais journaliers',
+      description: 'Choisissez une période et un format. Les dates et montants suivent votre langue.',
+      from: 'Du',
+      to: 'Au',
+      format: 'Format',
+      format_csv: 'CSV',
+      format_xlsx: 'Excel (XLSX)',
+      download: 'Télécharger',
+      exporting: 'Préparation du fichier…',
+      invalidRange: 'Choisissez une date de début antérieure à la date de fin.',
+      success: '{{count}} lignes exportées',
+      error: 'Impossible d’exporter les données',
+      datasetRedemptions: 'Validations',
+      datasetOffers: 'Offres',
+      datasetCharges: 'Frais journaliers',
+      columnRedeemedAt: 'Validée le',
+      columnRedemptionId: 'ID de validation',
+      columnOfferId: 'ID de l’offre',
+      columnOffer: 'Offre',
+      columnDiscount: 'Réduction',
+      columnTier: 'Palier',
+      columnMinFollowers: 'Abonnés minimum',
+      columnStatus: 'Statut',
+      columnCreatedAt: 'Créée le',
+      columnStudent: 'Étudiant',
+      columnStudentEmail: 'E-mail de l’étudiant',
+      columnClaimId: 'ID de réclamation',
+      columnValidatedBy: 'Validée par',
+      columnCharge: 'Frais (EUR)',
+      columnDate: 'Date',
+      columnRedemptions: 'Validations',
+      columnCharges: 'Frais (EUR)',
+    },
+    charts: {
+      showTable: 'Afficher le tableau de données',
+      tableLabel: 'Date',
+    },
+    analytics: {
+      title: 'Statistiques des offres',
+      subtitle: 'Découvrez quelles offres attirent les étudiants, qui les utilise et quand.',
+      filterOffer: 'Offre',
+      filterAllOffers: 'Toutes les offres',
+      windowLabel: 'Période',
+      window: '{{days}} jours',
+      fetchError: 'Impossible de charger les statistiques',
+      emptyTitle: "Aucune offre pour l'instant",
+      emptyDescription: 'Créez une offre pour commencer à collecter des statistiques.',
+      redemptions: 'Validations',
+      claims: 'Demandes',
+      conversion: 'Conversion',
+      conversionHint: '{{redeemed}} demandes validées sur {{claims}}',
+      costPerRedemption: 'Coût par validation',
+      totalCost: '{{amount}} au total',
+      offersTitle: 'Performance par offre',
+      costExplanation: 'Le coût comprend les frais de {{amount}} par validation et la valeur du coupon pour les offres à montant fixe. Les réductions en pourcentage dépendent du panier et ne sont pas incluses.',
+      tableOffer: 'Offre',
+      tableTotalCost: 'Coût total',
+      deletedOffer: 'Supprimée',
+      tiersTitle: "Validations par palier d'abonnés",
+      tiersDescription: "D'après le nombre d'abonnés actuel de chaque étudiant.",
+      tierBelow: 'Moins de {{label}} abonnés ou inconnu',
+      heatmapTitle: 'Validations par jour et par heure',
+      heatmapDescription: 'Plus la case est foncée, plus il y a de validations, dans le fuseau horaire de votre commerce.',
+      heatmapCell: '{{day}} {{hour}} : {{count}} validations',
+    },
+    locations: {
+      title: 'Établissements',
+      subtitle: "Gérez vos boutiques, leurs adresses et leurs horaires d'ouverture.",
+      add: 'Ajouter un établissement',
+      createTitle: 'Nouvel établissement',
+      editTitle: "Modifier l'établissement",
+      edit: 'Modifier',
+      empty: 'Aucun établissement pour le moment.',
+      name: 'Nom',
+      street: 'Adresse',
+      postalCode: 'Code postal',
+      city: 'Ville',
+      country: 'Pays',
+      visible: 'Visible par les étudiants',
+      visibleDescription: "Les établissements masqués restent dans votre historique mais n'apparaissent pas dans l'app étudiante.",
+      hidden: 'Masqué',
+      hide: 'Masquer',
+      show: 'Afficher',
+      noAddress: "Pas d'adresse",
+      hoursTitle: "Horaires d'ouverture",
+      hoursAlways: "Aucun horaire d'ouverture",
+      hoursClosedDates: 'Jours de fermeture',
+      hoursNoClosedDates: 'Aucun jour de fermeture',
+      validationName: 'Saisissez un nom pour cet établissement',
+      createSuccess: 'Établissement ajouté',
+      saveSuccess: 'Établissement enregistré',
+      saveError: "Impossible d'enregistrer l'établissement",
+      unassigned: 'Non attribué',
+      breakdownTitle: 'Par établissement',
+      breakdownValue: '{{count}} · {{amount}}',
+    },
+    team: {
+      title: 'Équipe',
+      subtitle: 'Invitez votre personnel et choisissez ce que chacun peut faire.',
+      inviteTitle: 'Inviter un membre',
+      inviteEmail: 'E-mail',
+      role: 'Rôle',
+      invite: "Envoyer l'invitation",
+      inviting: 'Envoi…',
+      role_owner: 'Propriétaire',
+      role_manager: 'Responsable',
+      role_cashier: 'Caissier',
+      roleDescription_owner: "Tout, y compris la facturation, le profil et l'équipe",
+      roleDescription_manager: 'Offres, établissements, utilisations et statistiques',
+      roleDescription_cashier: 'Validation des utilisations uniquement',
+      membersTitle: 'Membres',
+      empty: "Aucun membre pour le moment. Invitez quelqu'un ci-dessus.",
+      pending: 'Invitation en attente',
+      invitedOn: 'Invité le {{date}}',
+      joinedOn: 'Arrivé le {{date}}',
+      remove: 'Retirer',
+      removeTitle: 'Retirer ce membre ?',
+      removeConfirm: "{{email}} perdra l'accès à ce compte.",
+      inviteSuccess: 'Invitation envoyée à {{email}}',
+      inviteAlreadyMember: "Cet e-mail fait déjà partie de l'équipe",
+      inviteError: "Impossible d'envoyer l'invitation",
+      roleUpdated: 'Rôle mis à jour',
+      removeSuccess: "{{email}} a été retiré de l'équipe",
+      updateError: "Impossible de mettre à jour l'équipe",
+      fetchError: "Impossible de charger l'équipe",
+      noAccessTitle: "Vous n'avez pas accès à cette page",
+      noAccessDescription: 'Demandez au propriétaire du compte si vous en avez besoin.',
+      noAccessLink: "Aller à votre page d'accueil",
+    },
+    admin: {
+      navMerchants: 'Commerçants',
+      navFlagged: 'Utilisations signalées',
+      merchantsTitle: 'Commerçants',
+      merchantsSubtitle: 'Recherchez les comptes commerçants, vérifiez leur abonnement et leur solde, et suspendez les comptes qui enfreignent les règles.',
+      search: 'Rechercher',
+      searchPlaceholder: 'Nom, raison sociale ou ID',
+      status: 'Statut',
+      allStatuses: 'Tous les statuts',
+      merchant: 'Commerçant',
+      validUntil: "Payé jusqu'au",
+      balance: 'Solde',
+      actions: 'Actions',
+      merchantsEmpty: 'Aucun commerçant ne correspond à ces filtres.',
+      fetchError: "Impossible de charger les données d'administration",
+      status_active: 'Actif',
+      status_trial: 'Essai',
+      status_trialing: 'En essai',
+      status_past_due: 'Paiement en retard',
+      status_inactive: 'Inactif',
+      status_canceled: 'Annulé',
+      status_suspended: 'Suspendu',
+      viewDashboard: 'Voir le tableau de bord',
+      suspend: 'Suspendre',
+      reactivate: 'Réactiver',
+      suspendTitle: 'Suspendre le commerçant',
+      suspendConfirm: "Les offres de {{name}} seront masquées aux étudiants jusqu'à la réactivation du compte.",
+      suspendReason: 'Motif (facultatif)',
+      suspendSuccess: '{{name}} suspendu',
+      reactivateSuccess: '{{name}} réactivé',
+      suspendError: 'Impossible de mettre à jour le commerçant',
+      impersonationBanner: "Vous consultez {{name}} en tant qu'administrateur — lecture seule",
+      impersonationExit: "Retour à l'administration",
+      impersonationError: "Impossible d'ouvrir le tableau de bord de ce commerçant",
+      flaggedTitle: 'Utilisations signalées',
+      flaggedSubtitle: 'Signalements visant des réclamations utilisées. Examinez chacun et enregistrez la décision.',
+      flaggedEmpty: 'Aucune utilisation signalée avec ce statut.',
+      flaggedClaim: 'Réclamation n°{{claim}} par {{student}}, utilisée le {{date}}',
+      flaggedBy: 'Signalé par {{email}}',
+      unknownOffer: 'Offre supprimée',
+      report_pending: 'En attente',
+      report_in_review: "En cours d'examen",
+      report_resolved: 'Résolu',
+      report_rejected: 'Rejeté',
+      review_in_review: 'Mettre en examen',
+      review_resolved: 'Résoudre',
+      review_rejected: 'Rejeter',
+      reviewSuccess: 'Signalement mis à jour',
+      reviewError: 'Impossible de mettre à jour le signalement',
+      category_fraud: 'Fraude',
+      category_spam: 'Spam',
+      category_inappropriate: 'Inapproprié',
+      category_fake_profile: 'Faux profil',
+      category_other: 'Autre',
+    },
+    onboarding: {
+      title: 'Configurez votre commerce',
+      subtitle: "Votre compte n'a pas encore de commerce. Ajoutez-le pour commencer à publier des offres.",
+      name: 'Nom du commerce',
+      legalName: 'Raison sociale (facultatif)',
+      nameRequired: 'Saisissez le nom de votre commerce',
+      submit: 'Créer le commerce',
+      success: 'Votre commerce est prêt',
+      error: 'Impossible de créer votre commerce. Veuillez réessayer.',
     },
     toasts: {
       genericError: 'Un problème est survenu',
@@ -1170,6 +2916,8 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       openMenu: 'Obrir el menú',
       closeMenu: 'Tancar el menú',
       requiredField: 'Aquest camp és obligatori',
+      loadMore: "Carrega'n més",
+      pageNumber: 'Pàgina {{page}}',
     },
     navigation: {
       brandTagline: 'Quadre de comandament',
@@ -1183,6 +2931,13 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       logout: 'Sortir',
       collapseSidebar: 'Contraure el menú',
       expandSidebar: 'Expandir el menú',
+      redemptions: 'Bescanvis',
+      scan: 'Escanejar',
+      analytics: 'Analítiques',
+      locations: 'Locals',
+      locationSwitcher: 'Local',
+      allLocations: 'Tots els locals',
+      team: 'Equip',
     },
     auth: {
       heroTitle: 'Ben tornat al teu quadre de comandament',
@@ -1297,6 +3052,20 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       todoCheckBilling: 'Revisa la facturació i confirma la pròxima renovació.',
       todoSupport: 'Dubtes? Contacta amb suport des del perfil.',
       loading: 'Carregant el quadre…',
+      liveActivity: 'Activitat en directe',
+      liveActivityDescription: 'Els bescanvis apareixen aquí quan els estudiants fan servir les teves ofertes.',
+      liveBadge: 'En directe',
+      liveActivityEmpty: "Encara no hi ha bescanvis. Deixa aquesta pàgina oberta per veure'ls al moment.",
+      liveActivityItem: '{{student}} ha bescanviat {{offer}}',
+      liveRedemptionToast: '{{student}} acaba de bescanviar {{offer}}',
+      viewAllRedemptionsLink: 'Veure tots els bescanvis →',
+      trendsTitle: 'Tendència de bescanvis',
+      trendsDescription: 'Bescanvis diaris de les teves {{count}} ofertes més actives.',
+      trendsWindowLabel: 'Període',
+      trendsWindow: '{{days}} dies',
+      trendsChartTitle: 'Bescanvis diaris per oferta en els últims {{days}} dies',
+      trendsEmpty: 'No hi ha bescanvis en els últims {{days}} dies.',
+      trendsError: "No s'ha pogut carregar la tendència de bescanvis",
     },
     offers: {
       title: 'Ofertes',
@@ -1313,7 +3082,6 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       activate: 'Activar',
       deactivate: 'Desactivar',
       delete: 'Eliminar',
-      deleteConfirm: 'Segur que vols eliminar aquesta oferta?',
       deleteSuccess: 'Oferta eliminada correctament',
       deleteError: 'Error en eliminar l’oferta',
       statusUpdated: 'Oferta {{status}} correctament',
@@ -1362,15 +3130,11 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       newFormTitle: 'Crear Nova Oferta',
       newFormDescription: 'Configura els detalls de la teva oferta. El títol i la descripció es generaran automàticament.',
       newFormDiscountType: 'Tipus de Descompte',
-      newFormDiscountValue: 'Valor del Descompte',
-      newFormMinFollowers: 'Seguidors Mínims',
       newFormStartDate: 'Data d\'Inici',
       newFormEndDate: 'Data de Fi (Opcional)',
       newFormCancel: 'Cancel·lar',
-      newFormCreate: 'Crear Oferta',
       newFormCreating: 'Creant...',
       newFormClose: 'Tancar',
-      newFormPreview: 'Vista Prèvia',
       newFormFollowers: 'seguidors',
       newFormValidationDiscount: 'El descompte ha d\'estar entre 5-100% en increments de 5',
       newFormValidationFixed: 'El descompte ha de ser almenys d\'1€',
@@ -1379,12 +3143,215 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       newFormValidationError: 'Si us plau, corregeix els errors a continuació',
       newFormSuccess: 'S\'han creat {{count}} oferta{{plural}} correctament',
       newFormError: 'Error en crear les ofertes',
-      newFormScalingTitle: 'Adaptar automàticament per a Nivells Superiors?',
-      newFormScalingDescription: 'Podem crear automàticament ofertes addicionals per a nivells de seguidors superiors amb descomptes augmentats.',
-      newFormScalingBaseOffer: 'Oferta Base',
-      newFormScalingAutoGenerated: 'Oferta Auto-generada',
-      newFormScalingCancel: 'No, només crear oferta base',
-      newFormScalingConfirm: 'Sí, crear {{count}} ofertes',
+      errorNotFound: 'Aquesta oferta ja no existeix o pertany a un altre negoci',
+      errorForbidden: 'No tens permís per modificar aquesta oferta',
+      errorInvalid: "Algunes dades de l'oferta no són vàlides. Revisa el formulari i torna-ho a provar.",
+      ladderEditTitle: "Editar família d'ofertes",
+      ladderFamilyName: 'Nom de la família',
+      ladderFamilyNameHint: "Les ofertes creades juntes s'agrupen i es gestionen com una sola família.",
+      ladderValidationName: 'Posa un nom a aquesta família',
+      ladderBaseTier: 'Nivell inicial',
+      ladderBaseDiscount: 'Descompte inicial',
+      ladderCurve: "Corba d'escalat",
+      ladderCurve_linear: 'Lineal',
+      ladderCurve_geometric: 'Geomètrica',
+      ladderCurve_custom: 'Personalitzada',
+      ladderCurveHint_linear: 'Suma el mateix increment a cada nivell superior.',
+      ladderCurveHint_geometric: 'Multiplica el descompte a cada nivell superior.',
+      ladderCurveHint_custom: 'Defineix a mà el descompte de cada nivell.',
+      ladderLinearStep: 'Increment per nivell',
+      ladderGeometricRatio: 'Multiplicador per nivell',
+      ladderTitle: 'Escala de nivells',
+      ladderDescription: "Tots els nivells de la família un al costat de l'altre. Edita el descompte d'un nivell per ajustar-lo o desactiva'l.",
+      ladderTierDiscount: 'Descompte per a {{tier}} seguidors',
+      ladderTierBase: 'Base',
+      ladderTierOff: 'Desactivat',
+      ladderDecreasingWarning: 'Alguns nivells superiors tenen un descompte menor que el nivell anterior.',
+      ladderMatchTitle: 'Quina oferta veuria un estudiant?',
+      ladderMatchFollowers: "Seguidors de l'estudiant",
+      ladderMatchResult: 'Un estudiant amb {{followers}} seguidors veu "{{offer}}" (nivell {{tier}}).',
+      ladderMatchNone: 'Un estudiant amb {{followers}} seguidors encara no accedeix a cap nivell.',
+      ladderCreate: 'Crear {{count}} oferta(es)',
+      ladderSave: "Desar l'escala",
+      ladderSaved: "Família d'ofertes actualitzada",
+      familiesTitle: "Famílies d'ofertes",
+      familiesDescription: "Escales de nivells creades juntes. Edita tota l'escala o posa en pausa tots els nivells alhora.",
+      familySummary: '{{count}} nivells · corba {{curve}}',
+      familyEditLadder: 'Editar escala',
+      familyActivateAll: 'Activar tots els nivells',
+      familyDeactivateAll: 'Desactivar tots els nivells',
+      familyDelete: 'Eliminar família',
+      familyDeleteConfirm: 'Eliminar aquesta família i les seves {{count}} ofertes?',
+      familyDeleteSuccess: "Família d'ofertes eliminada",
+      familyStatusUpdated: "Família d'ofertes {{status}}",
+      tableHeaderSchedule: 'Horari',
+      scheduleTitle: 'Només en certs horaris',
+      scheduleAlways: "L'oferta està disponible tot el dia, cada dia entre les seves dates.",
+      scheduleTimeZone: 'Hores en {{timeZone}}.',
+      schedulePreset_weekdays: 'Entre setmana',
+      schedulePreset_weekends: 'Caps de setmana',
+      schedulePreset_everyday: 'Cada dia',
+      scheduleRemoveWindow: 'Treure',
+      scheduleFrom: 'Des de',
+      scheduleTo: 'Fins a',
+      scheduleOvernight: "Acaba després de mitjanit, l'endemà.",
+      scheduleAddWindow: '+ Afegir franja horària',
+      scheduleBlackoutDates: 'Dates bloquejades',
+      scheduleAddBlackout: 'Afegir data',
+      scheduleRemoveBlackout: 'Treure data',
+      scheduleNoBlackouts: 'Sense dates bloquejades.',
+      scheduleError_no_days: 'Tria almenys un dia per a cada franja horària.',
+      scheduleError_invalid_time: "Introdueix una hora d'inici i de final vàlides.",
+      scheduleError_same_time: 'Una franja no pot començar i acabar a la mateixa hora.',
+      scheduleError_invalid_date: 'Una de les dates bloquejades no és vàlida.',
+      scheduleInvalid: "Revisa la configuració de l'horari",
+      scheduleAnyTime: 'Qualsevol hora',
+      scheduleBlackoutCount: '{{count}} data(es) bloquejada(es)',
+      liveState_live: 'Activa ara',
+      liveState_not_started: 'Programada',
+      liveState_ended: 'Finalitzada',
+      liveState_blackout: 'Bloquejada avui',
+      liveState_outside_window: "Fora d'horari",
+      tableHeaderCaps: 'Límits',
+      capsTitle: 'Límits de bescanvis',
+      capsDescription: "Deixa un camp buit per no posar cap límit. L'oferta es desactiva automàticament quan arriba al límit total.",
+      capsLadderNote: "Els límits s'apliquen a cada nivell per separat.",
+      capTotal: 'Bescanvis totals',
+      capTotalHint: "Durant tota la vida de l'oferta",
+      capDaily: 'Per dia',
+      capDailyHint: 'Es reinicia a mitjanit a la teva zona horària',
+      capStudentWeekly: 'Per estudiant i setmana',
+      capStudentWeeklyHint: 'En qualsevol període de 7 dies',
+      capUnlimited: 'Sense límit',
+      capTotalShort: 'Total',
+      capDailyShort: 'Avui',
+      capStudentWeeklySummary: 'Màx. {{count}} per estudiant / setmana',
+      capReachedActivateError: 'Aquesta oferta ha arribat al límit total. Augmenta el límit abans de tornar-la a activar.',
+      liveState_budget_paused: 'En pausa (pressupost)',
+      budgetPausedActivateError: "Has arribat al pressupost mensual. Augmenta'l a la pàgina de facturació per tornar a activar ofertes.",
+      duplicate: 'Duplica',
+      duplicateTitle: '{{title}} (còpia)',
+      duplicateFormTitle: "Duplica l'oferta",
+      templatesTitle: 'Plantilles',
+      templatesDescription: 'Comença amb una configuració habitual o amb una que hagis desat.',
+      templatesSaveDescription: 'Desa aquesta configuració per reutilitzar-la en noves ofertes.',
+      templatesBrowse: 'Mostra les plantilles',
+      templatesHide: 'Amaga les plantilles',
+      templateSave: 'Desa com a plantilla',
+      templatesBuiltIn: "Plantilles d'inici",
+      templatesSaved: 'Les teves plantilles',
+      templatesSavedEmpty: 'Les plantilles que desis apareixeran aquí.',
+      templateSummary: '{{discount}} · {{tier}} seguidors',
+      templateLadderSummary: '{{discount}} des de {{tier}} seguidors, augmentant per nivell',
+      templateApplied: 'Plantilla «{{name}}» aplicada',
+      templateNamePrompt: 'Nom de la plantilla',
+      templateSaved: 'Plantilla «{{name}}» desada',
+      templateSaveError: "No s'ha pogut desar la plantilla",
+      templateDeleteConfirm: 'Vols eliminar la plantilla «{{name}}»? Les ofertes creades amb ella no canvien.',
+      templateDeleted: 'Plantilla eliminada',
+      templateDeleteError: "No s'ha pogut eliminar la plantilla",
+      templateDelete: 'Elimina la plantilla {{name}}',
+      template_student_lunch_name: "Dinar d'estudiant -15%",
+      template_student_lunch_description: '15% de descompte al teu dinar de dilluns a divendres de 12:00 a 15:30.',
+      template_free_coffee_name: 'Cafè gratis per a +10k seguidors',
+      template_free_coffee_description: 'Un cafè per compte nostre, un cop per setmana, per a creadors amb més de 10.000 seguidors.',
+      template_happy_hour_name: 'Happy hour entre setmana -20%',
+      template_happy_hour_description: '20% de descompte de dilluns a divendres de 17:00 a 19:00.',
+      template_creator_ladder_name: 'Escala de creadors',
+      template_creator_ladder_description: 'Com més seguidors tinguis, més gran serà el descompte.',
+      bulkSelectAll: 'Seleccionar totes les ofertes',
+      bulkSelectOffer: 'Seleccionar {{title}}',
+      bulkSelected: '{{count}} seleccionades',
+      bulkClear: 'Esborrar la selecció',
+      bulkEndDate: 'Data de fi',
+      bulkApply: 'Aplicar',
+      bulkClearEndDate: 'Treure la data de fi',
+      bulkDiscountDelta: 'Canviar el descompte en',
+      bulkDiscountDeltaHelp: "S'afegeix a cada oferta en la seva pròpia unitat (punts percentuals o euros) i es manté dins del rang permès. Fes servir un nombre negatiu per baixar els descomptes.",
+      bulkDone_activate: '{{count}} ofertes activades',
+      bulkDone_deactivate: '{{count}} ofertes desactivades',
+      bulkDone_delete: '{{count}} ofertes eliminades',
+      bulkDone_end_date: 'Data de fi actualitzada en {{count}} ofertes',
+      bulkDone_discount_delta: 'Descompte actualitzat en {{count}} ofertes',
+      bulkSkipped: '{{count}} omeses: ja hi eren, han superat el límit total o comencen després de la data de fi',
+      bulkNothingToDo: 'No hi ha res a canviar a les ofertes seleccionades.',
+      undo: 'Desfer',
+      bulkUndone: 'Canvis desfets',
+      bulkError: 'No hem pogut actualitzar les ofertes seleccionades.',
+      bulkUndoError: 'No hem pogut desfer els canvis.',
+      trash: 'Paperera',
+      trashTitle: 'Paperera',
+      trashSubtitle: "Les ofertes eliminades es queden aquí {{days}} dies abans d'esborrar-se definitivament.",
+      trashBack: 'Tornar a les ofertes',
+      trashHint: 'Moguda a la paperera durant {{days}} dies.',
+      trashDeletedOn: 'Eliminada el {{date}}',
+      trashPurgeOn: "S'esborrarà definitivament el {{date}}",
+      trashEmptyTitle: 'La paperera és buida',
+      trashEmptyDescription: 'Les ofertes que eliminis apareixeran aquí i les podràs restaurar.',
+      restore: 'Restaurar',
+      restoreSuccess: 'Oferta restaurada',
+      restoreError: "No hem pogut restaurar l'oferta.",
+      purge: 'Eliminar definitivament',
+      purgeConfirm: 'Eliminar "{{title}}" definitivament? No es pot desfer.',
+      emptyTrash: 'Buidar la paperera',
+      purgeAllConfirm: 'Eliminar definitivament les {{count}} ofertes de la paperera? No es pot desfer.',
+      purgeSuccess: '{{count}} ofertes eliminades definitivament',
+      purgeError: 'No hem pogut eliminar les ofertes.',
+      tabDetails: 'Detalls',
+      tabHistory: 'Historial',
+      historyEmpty: 'Encara no hi ha canvis registrats per a aquesta oferta.',
+      historyError: "No hem pogut carregar l'historial d'aquesta oferta.",
+      historyRetry: 'Tornar-ho a provar',
+      historyBy: 'Per {{name}}',
+      historyBySystem: 'Pel sistema',
+      historyAction_create: 'Creada',
+      historyAction_update: 'Editada',
+      historyAction_activate: 'Activada',
+      historyAction_deactivate: 'Desactivada',
+      historyAction_delete: 'Moguda a la paperera',
+      historyAction_restore: 'Restaurada',
+      historyAction_purge: 'Eliminada definitivament',
+      historyField_title: 'Títol',
+      historyField_description: 'Descripció',
+      historyField_discount_type: 'Tipus de descompte',
+      historyField_discount_value: 'Descompte',
+      historyField_min_followers: 'Seguidors mínims',
+      historyField_start_at: "Data d'inici",
+      historyField_end_at: 'Data de fi',
+      historyField_schedule: 'Horari',
+      historyField_max_redemptions: 'Límit total',
+      historyField_max_redemptions_per_day: 'Límit diari',
+      historyField_max_redemptions_per_student_week: 'Límit setmanal per estudiant',
+      historyField_is_active: 'Activa',
+      historyField_paused_by_budget: 'En pausa pel pressupost',
+      filterSearch: 'Cercar ofertes',
+      filterStatus: 'Estat',
+      filterType: 'Tipus',
+      filterTier: 'Nivell',
+      filterDates: 'Dates',
+      filterAll: 'Totes',
+      filterDates_live: 'En curs',
+      filterDates_upcoming: 'Properes',
+      filterDates_expired: 'Caducades',
+      filterClear: 'Esborrar els filtres',
+      filterNoMatches: 'Cap oferta coincideix amb aquests filtres.',
+      sortBy: 'Ordenar per',
+      sortAscending: 'Ordre ascendent',
+      sortDescending: 'Ordre descendent',
+      sort_min_followers: 'Seguidors',
+      sort_title: 'Títol',
+      sort_discount_value: 'Descompte',
+      sort_start_at: "Data d'inici",
+      sort_end_at: 'Data de fi',
+      sort_created_at: 'Creació',
+      bulkSelectPage: "Selecciona totes les ofertes d'aquesta pàgina",
+      locationsTitle: 'Locals',
+      locationsDescription: 'On poden bescanviar aquesta oferta els estudiants.',
+      locationsAll: 'Tots els locals',
+      locationsSome: 'Només alguns locals',
+      locationsCount: '{{count}} locals',
+      validationLocations: 'Tria almenys un local',
+      historyField_location_ids: 'Locals',
     },
     billing: {
       title: 'Facturació',
@@ -1403,7 +3370,7 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       subscriptionEndedOn: 'La subscripció va finalitzar el {{date}}',
       planInactiveLabel: 'Subscripció inactiva',
       planNewLabel: 'Cap pla actiu',
-      chargesTitle: 'Càrrecs per cupons aquest mes',
+      chargesTitle: 'Càrrecs per cupons',
       chargesDescription: '{{amount}} per redempció validada.',
       chargesSummary: '{{count}} cupons canjeats = {{amount}} facturats',
       chargesTrendTitle: 'Tendència del mes en curs',
@@ -1447,6 +3414,50 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       topUpButton: 'Afegir crèdit',
       topUpMinimumError: 'Tria un import per recarregar abans de continuar.',
       noRenewalYet: 'Sense renovació programada',
+      budgetTitle: 'Pressupost mensual',
+      budgetDescription: "Fixa un límit per als càrrecs per bescanvi de cada mes. Quan s'arriba, totes les teves ofertes actives es posen en pausa fins al mes següent o fins que augmentis el pressupost.",
+      budgetLabel: 'Pressupost mensual (€)',
+      budgetPlaceholder: 'Sense pressupost',
+      budgetSave: 'Desa el pressupost',
+      budgetRemove: 'Elimina el pressupost',
+      budgetUsed: '{{charges}} de {{budget}} gastats aquest mes',
+      budgetProjected: 'Previsió a final de mes al ritme actual: {{amount}}',
+      budgetPausedNotice: 'Has arribat al pressupost mensual i les teves ofertes estan en pausa. Augmenta el pressupost per reactivar-les ara.',
+      budgetSaved: 'Pressupost mensual desat',
+      budgetSavedResumed: 'Pressupost mensual desat. {{count}} oferta(es) en pausa tornen a estar actives.',
+      budgetRemoved: 'Pressupost mensual eliminat',
+      budgetSaveError: "No s'ha pogut desar el pressupost mensual",
+      budgetInvalid: 'Introdueix un import superior a zero',
+      budgetWarningBanner: "Has gastat {{charges}} del teu pressupost mensual de {{budget}} (previsió de {{projected}} a final de mes). Les ofertes es posaran en pausa quan s'arribi al pressupost.",
+      budgetReachedBanner: 'Has arribat al pressupost mensual de {{budget}}. Les teves ofertes es posaran en pausa.',
+      budgetPausedBanner: "Les teves ofertes estan en pausa: s'ha arribat al pressupost mensual de {{budget}}. Es reprendran el mes vinent, o augmenta el pressupost per reprendre-les ara.",
+      budgetManageLink: 'Gestiona el pressupost',
+      statementsDescription: 'Extractes mensuals de les teves validacions, càrrecs i moviments de saldo. Descarrega la factura en PDF de qualsevol mes tancat.',
+      statementsFetchError: 'No s’han pogut carregar els teus extractes',
+      lastPaymentLabel: 'Últim pagament',
+      statementsMonth: 'Mes',
+      statementsRedemptions: 'Validacions',
+      statementsCharges: 'Càrrecs',
+      statementsTopUps: 'Recàrregues',
+      statementsMovement: 'Moviment de saldo',
+      statementsClosingBalance: 'Saldo final',
+      statementsInvoice: 'Factura',
+      statementsInProgress: 'En curs',
+      statementsDownload: 'Descarregar PDF',
+      periodLabel: 'Període',
+      periodCurrentMonth: 'Aquest mes',
+      periodYearToDate: 'En el que va d’any',
+      periodCustom: 'Interval personalitzat…',
+      periodFrom: 'Des de',
+      periodTo: 'Fins a',
+      periodApply: 'Aplicar',
+      periodInvalidRange: 'Tria una data d’inici anterior o igual a la de final i que no sigui futura.',
+      periodRangeTooLong: 'Tria un interval de {{days}} dies com a màxim.',
+      periodComparedWith: '{{current}}, comparat amb {{previous}}',
+      periodPreviousValue: 'Període anterior: {{value}}',
+      chartTitle: '{{metric}} per dia',
+      chartMetricLabel: 'Valors del gràfic',
+      budgetSavedPaused: "Pressupost mensual desat. Els càrrecs d'aquest mes ja l'assoleixen, així que {{count}} oferta(es) queden en pausa fins al mes vinent.",
     },
     profile: {
       title: 'Perfil',
@@ -1505,9 +3516,367 @@ export const translations: Record<LanguageCode, Record<string, unknown>> = {
       reactivateCta: 'Reactivar el compte',
       reactivateSuccess: 'Compte reactivat correctament',
       reactivateError: 'Error en reactivar el compte',
+      timezone: 'Zona horària',
+      timezoneHint: "S'utilitza per als horaris de les ofertes i les happy hours.",
+    },
+    redemptions: {
+      title: 'Bescanvis',
+      subtitle: "Cada bescanvi validat, amb l'estudiant i l'oferta corresponents.",
+      filterOffer: 'Oferta',
+      filterAllOffers: 'Totes les ofertes',
+      filterTier: 'Nivell de seguidors',
+      filterAllTiers: 'Tots els nivells',
+      filterFrom: 'Des de',
+      filterTo: 'Fins a',
+      resetFilters: 'Restableix els filtres',
+      resultsRange: 'Mostrant bescanvis {{from}}–{{to}}',
+      tableHeaderDate: 'Bescanviat',
+      tableHeaderStudent: 'Estudiant',
+      tableHeaderOffer: 'Oferta',
+      tableHeaderTier: 'Nivell',
+      viewDetails: 'Detalls',
+      tierAll: 'Tots els seguidors',
+      unknownStudent: 'Estudiant desconegut',
+      emptyTitle: "No s'han trobat bescanvis",
+      emptyDescription: 'Els bescanvis apareixen aquí tan bon punt els estudiants fan servir les teves ofertes a la botiga.',
+      emptyFilteredDescription: "Cap bescanvi coincideix amb aquests filtres. Prova d'ampliar el rang de dates.",
+      fetchError: "No s'han pogut carregar els bescanvis",
+      detailTitle: 'Bescanvi núm. {{id}}',
+      detailRedeemedAt: 'Bescanviat el',
+      detailRedeemedBy: 'Validat per',
+      detailStudent: 'Estudiant',
+      detailStudentEmail: "Correu de l'estudiant",
+      detailFollowers: 'Seguidors',
+      detailOffer: 'Oferta',
+      detailDiscount: 'Descompte',
+      detailTier: 'Nivell de seguidors',
+      detailClaimId: 'Reclamació',
+      detailClaimStatus: 'Estat de la reclamació',
+      detailClaimedAt: 'Reclamat el',
+      detailQrCode: 'Codi QR',
+      detailLocation: 'Local',
+    },
+    scan: {
+      title: 'Escanejar i validar',
+      subtitle: "Escaneja el codi QR de l'estudiant o escriu el codi per comprovar la reclamació i registrar el bescanvi.",
+      cameraTitle: 'Càmera',
+      cameraDescription: "Apunta la càmera al codi QR que apareix al mòbil de l'estudiant.",
+      cameraUnsupported: 'Aquest navegador no pot escanejar codis QR amb la càmera. Introdueix el codi manualment a sota.',
+      cameraDenied: "S'ha denegat l'accés a la càmera. Permet l'accés a la configuració del navegador o introdueix el codi manualment.",
+      cameraError: "No s'ha pogut iniciar la càmera. Introdueix el codi manualment a sota.",
+      manualLabel: 'Introduir el codi manualment',
+      manualPlaceholder: 'Codi de reclamació',
+      manualSubmit: 'Cercar',
+      idleTitle: 'Esperant un codi',
+      idleDescription: "Escaneja un codi QR o introdueix un codi per veure l'estudiant, l'oferta i l'elegibilitat.",
+      notFoundTitle: 'Reclamació no trobada',
+      notFoundDescription: 'Cap reclamació de les teves ofertes coincideix amb el codi "{{code}}".',
+      claimLabel: 'Reclamació #{{id}}',
+      statusEligible: 'Vàlida',
+      statusIneligible: 'No vàlida',
+      statusRedeemed: 'Bescanviada',
+      checkOfferActive: "L'oferta està activa",
+      checkOfferStarted: "L'oferta ha començat",
+      checkOfferNotEnded: "L'oferta no ha acabat",
+      checkQrValid: 'El codi QR no ha caducat',
+      checkClaimOpen: 'La reclamació continua oberta',
+      checkFollowers: "L'estudiant compleix el nivell de seguidors",
+      checkNotRedeemed: 'Encara no bescanviada',
+      redeem: 'Validar bescanvi',
+      redeeming: 'Validant...',
+      redeemSuccess: 'Bescanvi registrat',
+      redeemError: "No s'ha pogut registrar el bescanvi",
+      alreadyRedeemedToast: "Aquesta reclamació ja s'ha bescanviat",
+      lookupError: "No s'ha pogut cercar aquest codi",
+      redeemedAt: 'Bescanvi registrat el {{date}}.',
+      scanNext: 'Escanejar el següent',
+      checkSchedule: "Dins de l'horari de l'oferta",
+      checkCapTotal: 'Límit total no assolit',
+      checkCapDaily: 'Límit diari no assolit',
+      checkCapStudentWeekly: "Límit setmanal de l'estudiant no assolit",
+      capReachedToast_total: 'Aquesta oferta ha arribat al límit total',
+      capReachedToast_daily: "Aquesta oferta ha arribat al límit d'avui",
+      capReachedToast_student_weekly: "Aquest estudiant ha arribat al límit setmanal d'aquesta oferta",
+      checkLocation: 'Vàlida en aquest local',
+      wrongLocationToast: 'Aquesta oferta no és vàlida en aquest local',
+      locationLabel: 'Escanejant a {{name}}',
+      chooseLocation: 'Tria a la capçalera el local on escaneges abans de validar.',
+      unavailableToast_offer_inactive: 'Aquesta oferta ja no està activa',
+      unavailableToast_offer_not_started: 'Aquesta oferta encara no ha començat',
+      unavailableToast_offer_ended: 'Aquesta oferta ha finalitzat',
+      unavailableToast_outside_schedule: 'Aquesta oferta no està disponible en aquest horari',
+      unavailableToast_qr_expired: 'Aquest codi QR ha caducat',
+      unavailableToast_claim_closed: "Aquesta sol·licitud ha caducat o s'ha cancel·lat",
+      unavailableToast_insufficient_followers: 'Aquest estudiant no té prou seguidors per a aquesta oferta',
+    },
+    notifications: {
+      title: 'Notificacions',
+      empty: 'Encara no hi ha notificacions.',
+      offerCapReached_total: "«{{offer}}» ha arribat al límit de {{limit}} bescanvis i s'ha desactivat.",
+      offerCapReached_daily: "«{{offer}}» ha arribat al límit de {{limit}} bescanvis d'avui. Tornarà a estar disponible demà.",
+      budgetReached: "S'ha arribat al teu pressupost mensual de {{budget}}. S'han posat en pausa {{count}} oferta(es).",
+    },
+    invoice: {
+      title: 'Factura',
+      number: 'Núm. {{number}}',
+      issuedOn: 'Emesa el {{date}}',
+      period: 'Període: {{period}}',
+      from: 'EMISSOR',
+      billTo: 'FACTURAR A',
+      vatNumber: 'NIF/IVA: {{vat}}',
+      description: 'Concepte',
+      quantity: 'Quant.',
+      unitPrice: 'Preu unitari',
+      amount: 'Import',
+      redemptionsLine: 'Validacions confirmades – {{period}}',
+      total: 'Total',
+      balanceTitle: 'RESUM DEL SALDO',
+      topUps: 'Recàrregues',
+      balanceMovement: 'Moviment de saldo',
+      closingBalance: 'Saldo final',
+      footer: 'Els càrrecs s’han descomptat del teu saldo prepagat. Gràcies per fer servir Ovio.',
+    },
+    export: {
+      button: 'Exportar',
+      title_redemptions: 'Exportar validacions',
+      title_offers: 'Exportar ofertes',
+      title_charges: 'Exportar càrrecs diaris',
+      description: 'Tria un interval de dates i un format. Les dates i els imports segueixen el teu idioma.',
+      from: 'Des de',
+      to: 'Fins a',
+      format: 'Format',
+      format_csv: 'CSV',
+      format_xlsx: 'Excel (XLSX)',
+      download: 'Descarregar',
+      exporting: 'Preparant el fitxer…',
+      invalidRange: 'Tria una data d’inici anterior a la de final.',
+      success: '{{count}} files exportades',
+      error: 'No s’han pogut exportar les dades',
+      datasetRedemptions: 'Validacions',
+      datasetOffers: 'Ofertes',
+      datasetCharges: 'Càrrecs diaris',
+      columnRedeemedAt: 'Validada el',
+      columnRedemptionId: 'ID de validació',
+      columnOfferId: 'ID d’oferta',
+      columnOffer: 'Oferta',
+      columnDiscount: 'Descompte',
+      columnTier: 'Nivell',
+      columnMinFollowers: 'Seguidors mínims',
+      columnStatus: 'Estat',
+      columnCreatedAt: 'Creada el',
+      columnStudent: 'Estudiant',
+      columnStudentEmail: 'Correu de l’estudiant',
+      columnClaimId: 'ID de reclamació',
+      columnValidatedBy: 'Validada per',
+      columnCharge: 'Càrrec (EUR)',
+      columnDate: 'Data',
+      columnRedemptions: 'Validacions',
+      columnCharges: 'Càrrecs (EUR)',
+    },
+    charts: {
+      showTable: 'Mostra la taula de dades',
+      tableLabel: 'Data',
+    },
+    analytics: {
+      title: "Analítiques d'ofertes",
+      subtitle: 'Descobreix quines ofertes atrauen estudiants, qui les bescanvia i quan.',
+      filterOffer: 'Oferta',
+      filterAllOffers: 'Totes les ofertes',
+      windowLabel: 'Període',
+      window: '{{days}} dies',
+      fetchError: "No s'han pogut carregar les analítiques",
+      emptyTitle: 'Encara no hi ha ofertes',
+      emptyDescription: 'Crea una oferta per començar a recollir analítiques.',
+      redemptions: 'Bescanvis',
+      claims: 'Sol·licituds',
+      conversion: 'Conversió',
+      conversionHint: '{{redeemed}} de {{claims}} sol·licituds bescanviades',
+      costPerRedemption: 'Cost per bescanvi',
+      totalCost: '{{amount}} en total',
+      offersTitle: 'Rendiment per oferta',
+      costExplanation: "El cost inclou el càrrec de {{amount}} per bescanvi més el valor del cupó a les ofertes d'import fix. Els descomptes percentuals depenen de la compra i no s'hi inclouen.",
+      tableOffer: 'Oferta',
+      tableTotalCost: 'Cost total',
+      deletedOffer: 'Eliminada',
+      tiersTitle: 'Bescanvis per nivell de seguidors',
+      tiersDescription: 'Segons el nombre de seguidors actual de cada estudiant.',
+      tierBelow: 'Menys de {{label}} seguidors o desconegut',
+      heatmapTitle: 'Bescanvis per dia i hora',
+      heatmapDescription: 'Com més fosca és la cel·la, més bescanvis, a la zona horària del teu negoci.',
+      heatmapCell: '{{day}} {{hour}}: {{count}} bescanvis',
+    },
+    locations: {
+      title: 'Locals',
+      subtitle: "Gestiona les teves botigues, les seves adreces i horaris d'obertura.",
+      add: 'Afegir local',
+      createTitle: 'Nou local',
+      editTitle: 'Editar local',
+      edit: 'Editar',
+      empty: 'Encara no hi ha locals.',
+      name: 'Nom',
+      street: 'Adreça',
+      postalCode: 'Codi postal',
+      city: 'Ciutat',
+      country: 'País',
+      visible: 'Visible per als estudiants',
+      visibleDescription: "Els locals ocults es mantenen al teu historial però no apareixen a l'app d'estudiants.",
+      hidden: 'Ocult',
+      hide: 'Amagar',
+      show: 'Mostrar',
+      noAddress: 'Sense adreça',
+      hoursTitle: "Horari d'obertura",
+      hoursAlways: "Sense horari d'obertura",
+      hoursClosedDates: 'Dies tancat',
+      hoursNoClosedDates: 'Sense dies tancat',
+      validationName: 'Introdueix un nom per a aquest local',
+      createSuccess: 'Local afegit',
+      saveSuccess: 'Local desat',
+      saveError: "No s'ha pogut desar el local",
+      unassigned: 'Sense assignar',
+      breakdownTitle: 'Per local',
+      breakdownValue: '{{count}} · {{amount}}',
+    },
+    team: {
+      title: 'Equip',
+      subtitle: 'Convida el teu personal i tria què pot fer cada persona.',
+      inviteTitle: 'Convidar un membre',
+      inviteEmail: 'Correu electrònic',
+      role: 'Rol',
+      invite: 'Enviar invitació',
+      inviting: 'Enviant…',
+      role_owner: 'Propietari',
+      role_manager: 'Gerent',
+      role_cashier: 'Caixer',
+      roleDescription_owner: "Tot, inclosa la facturació, el perfil i l'equip",
+      roleDescription_manager: 'Ofertes, locals, bescanvis i analítiques',
+      roleDescription_cashier: 'Només validar bescanvis',
+      membersTitle: 'Membres',
+      empty: 'Encara no hi ha membres. Convida algú a dalt.',
+      pending: 'Invitació pendent',
+      invitedOn: 'Convidat el {{date}}',
+      joinedOn: "S'hi va unir el {{date}}",
+      remove: 'Eliminar',
+      removeTitle: 'Eliminar el membre?',
+      removeConfirm: "{{email}} perdrà l'accés a aquest compte.",
+      inviteSuccess: 'Invitació enviada a {{email}}',
+      inviteAlreadyMember: "Aquest correu ja forma part de l'equip",
+      inviteError: "No s'ha pogut enviar la invitació",
+      roleUpdated: 'Rol actualitzat',
+      removeSuccess: "{{email}} s'ha eliminat de l'equip",
+      updateError: "No s'ha pogut actualitzar l'equip",
+      fetchError: "No s'ha pogut carregar l'equip",
+      noAccessTitle: 'No tens accés a aquesta pàgina',
+      noAccessDescription: 'Demana-ho al propietari del compte si ho necessites.',
+      noAccessLink: "Anar a la teva pàgina d'inici",
+    },
+    admin: {
+      navMerchants: 'Comerços',
+      navFlagged: 'Bescanvis reportats',
+      merchantsTitle: 'Comerços',
+      merchantsSubtitle: "Cerca comptes de comerços, revisa'n la subscripció i el saldo, i suspèn els comptes que incompleixin les normes.",
+      search: 'Cerca',
+      searchPlaceholder: 'Nom, raó social o ID',
+      status: 'Estat',
+      allStatuses: 'Tots els estats',
+      merchant: 'Comerç',
+      validUntil: 'Pagat fins al',
+      balance: 'Saldo',
+      actions: 'Accions',
+      merchantsEmpty: 'Cap comerç coincideix amb aquests filtres.',
+      fetchError: "No s'han pogut carregar les dades d'administració",
+      status_active: 'Actiu',
+      status_trial: 'Prova',
+      status_trialing: 'En prova',
+      status_past_due: 'Pagament pendent',
+      status_inactive: 'Inactiu',
+      status_canceled: 'Cancel·lat',
+      status_suspended: 'Suspès',
+      viewDashboard: 'Veure el tauler',
+      suspend: 'Suspèn',
+      reactivate: 'Reactiva',
+      suspendTitle: 'Suspèn el comerç',
+      suspendConfirm: 'Les ofertes de {{name}} deixaran de mostrar-se als estudiants fins que es reactivi el compte.',
+      suspendReason: 'Motiu (opcional)',
+      suspendSuccess: '{{name}} suspès',
+      reactivateSuccess: '{{name}} reactivat',
+      suspendError: "No s'ha pogut actualitzar el comerç",
+      impersonationBanner: 'Veient {{name}} com a administrador — només lectura',
+      impersonationExit: "Torna a l'administració",
+      impersonationError: "No s'ha pogut obrir el tauler d'aquest comerç",
+      flaggedTitle: 'Bescanvis reportats',
+      flaggedSubtitle: "Reports presentats sobre reclamacions bescanviades. Revisa'ls un per un i registra'n el resultat.",
+      flaggedEmpty: 'No hi ha bescanvis reportats amb aquest estat.',
+      flaggedClaim: 'Reclamació #{{claim}} de {{student}}, bescanviada el {{date}}',
+      flaggedBy: 'Reportat per {{email}}',
+      unknownOffer: 'Oferta eliminada',
+      report_pending: 'Pendent',
+      report_in_review: 'En revisió',
+      report_resolved: 'Resolt',
+      report_rejected: 'Rebutjat',
+      review_in_review: 'Marca en revisió',
+      review_resolved: 'Resol',
+      review_rejected: 'Rebutja',
+      reviewSuccess: 'Report actualitzat',
+      reviewError: "No s'ha pogut actualitzar el report",
+      category_fraud: 'Frau',
+      category_spam: 'Correu brossa',
+      category_inappropriate: 'Inadequat',
+      category_fake_profile: 'Perfil fals',
+      category_other: 'Altres',
+    },
+    onboarding: {
+      title: 'Configura el teu negoci',
+      subtitle: 'El teu compte encara no té cap negoci. Afegeix-lo per començar a publicar ofertes.',
+      name: 'Nom del negoci',
+      legalName: 'Raó social (opcional)',
+      nameRequired: 'Introdueix el nom del teu negoci',
+      submit: 'Crea el negoci',
+      success: 'El teu negoci està a punt',
+      error: "No s'ha pogut crear el teu negoci. Torna-ho a provar.",
     },
     toasts: {
       genericError: 'S’ha produït un error',
     },
   },
 }
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en'
+
+export type TranslationParams = Record<string, string | number>
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return LANGUAGE_OPTIONS.some((option) => option.code === value)
+}
+
+function resolveTranslation(code: LanguageCode, key: string): string | undefined {
+  let current: unknown = translations[code]
+
+  for (const segment of key.split('.')) {
+    if (current && typeof current === 'object' && segment in current) {
+      current = (current as Record<string, unknown>)[segment]
+    } else {
+      return undefined
+    }
+  }
+
+  return typeof current === 'string' ? current : undefined
+}
+
+/**
+ * Translate a key outside React (server routes, generated documents),
+ * falling back to English and then to the key itself
+ */
+export function translate(language: LanguageCode, key: string, replacements?: TranslationParams) {
+  const direct = resolveTranslation(language, key)
+  const fallback = language === DEFAULT_LANGUAGE ? undefined : resolveTranslation(DEFAULT_LANGUAGE, key)
+  const template = direct ?? fallback ?? key
+
+  if (!replacements) {
+    return template
+  }
+
+  return template.replace(/\{\{(\w+)\}\}/g, (_, token) => {
+    const value = replacements[token]
+    return value !== undefined ? String(value) : ''
+  })
+}
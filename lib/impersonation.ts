@@ -0,0 +1,42 @@
+/**
+ * Read-only impersonation from the admin console: an admin picks a merchant and the dashboard
+ * loads that account instead of their own. Kept in a session cookie so middleware.js lets the
+ * admin onto /dashboard while it is set; it ends with the browser session.
+ * Row-level security only gives admins SELECT access, so nothing can be changed meanwhile.
+ */
+
+export const IMPERSONATION_COOKIE = 'ovio-impersonate'
+
+/**
+ * Merchant id from the cookie's value, or null when it is missing or malformed
+ */
+export function parseImpersonatedMerchantId(value: string | null | undefined): number | null {
+  const merchantId = Number(value)
+  return Number.isInteger(merchantId) && merchantId > 0 ? merchantId : null
+}
+
+export function getImpersonatedMerchantId(): number | null {
+  if (typeof document === 'undefined') return null
+  const entry = document.cookie
+    .split('; ')
+    .find((cookie) => cookie.startsWith(`${IMPERSONATION_COOKIE}=`))
+  return parseImpersonatedMerchantId(entry?.slice(IMPERSONATION_COOKIE.length + 1))
+}
+
+export function setImpersonatedMerchantId(merchantId: number | null) {
+  if (typeof document === 'undefined') return
+  document.cookie = merchantId === null
+    ? `${IMPERSONATION_COOKIE}=; path=/; max-age=0; samesite=lax`
+    : `${IMPERSONATION_COOKIE}=${merchantId}; path=/; samesite=lax`
+}
+
+/**
+ * Point a merchant API request at the impersonated account; the routes only honour it for admins
+ */
+export function withImpersonation(params: URLSearchParams) {
+  const merchantId = getImpersonatedMerchantId()
+  if (merchantId !== null) {
+    params.set('merchant_id', String(merchantId))
+  }
+  return params
+}
@@ -0,0 +1,126 @@
+import type { Merchant } from './auth'
+import { LanguageCode, TranslationParams, localeMap, translate } from './i18n'
+import { A4_WIDTH, PdfColor, renderPdf } from './pdf'
+import { MonthlyStatement, getInvoiceNumber } from './statements'
+
+export type InvoiceMerchant = Pick<
+  Merchant,
+  'id' | 'name' | 'legal_name' | 'vat_number' | 'street' | 'postal_code' | 'city' | 'country' | 'contact_email'
+>
+
+const MARGIN = 50
+const RIGHT = A4_WIDTH - MARGIN
+const MUTED: PdfColor = [107, 114, 128]
+const ACCENT: PdfColor = [37, 99, 235]
+const HEADER_FILL: PdfColor = [243, 244, 246]
+
+// Issuer details come from the deployment so they can change without a release
+function getIssuerLines() {
+  const name = process.env.INVOICE_ISSUER_NAME || 'Ovio'
+  const details = (process.env.INVOICE_ISSUER_DETAILS || '')
+    .split('|')
+    .map((line) => line.trim())
+    .filter(Boolean)
+  return [name, ...details]
+}
+
+function getMerchantLines(merchant: InvoiceMerchant, language: LanguageCode) {
+  const cityLine = [merchant.postal_code, merchant.city].filter(Boolean).join(' ')
+  const streetLines = merchant.street?.split('\n').map((line) => line.trim()) ?? []
+  return [
+    merchant.legal_name || merchant.name,
+    ...streetLines,
+    cityLine,
+    merchant.country,
+    merchant.vat_number ? translate(language, 'invoice.vatNumber', { vat: merchant.vat_number }) : null,
+    merchant.contact_email,
+  ].filter((line): line is string => Boolean(line))
+}
+
+/**
+ * Render the invoice for a closed month as PDF bytes
+ */
+export function renderInvoicePdf(options: {
+  merchant: InvoiceMerchant
+  statement: MonthlyStatement
+  language: LanguageCode
+  issuedAt?: Date
+}): Uint8Array {
+  const { merchant, statement, language } = options
+  const locale = localeMap[language]
+  const t = (key: string, replacements?: TranslationParams) =>
+    translate(language, `invoice.${key}`, replacements)
+
+  const currency = new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' })
+  const dateFormatter = new Intl.DateTimeFormat(locale, { dateStyle: 'long' })
+  const [year, month] = statement.month.split('-').map(Number)
+  const period = new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' }).format(
+    new Date(Date.UTC(year, month - 1, 1))
+  )
+  const invoiceNumber = getInvoiceNumber(merchant.id, statement.month)
+
+  return renderPdf(
+    [
+      (page) => {
+        // Header
+        page.text(MARGIN, 70, t('title'), { size: 24, bold: true, color: ACCENT })
+        page.text(RIGHT, 62, t('number', { number: invoiceNumber }), { align: 'right', bold: true })
+        page.text(RIGHT, 78, t('issuedOn', { date: dateFormatter.format(options.issuedAt ?? new Date()) }), {
+          align: 'right',
+          color: MUTED,
+        })
+        page.text(RIGHT, 94, t('period', { period }), { align: 'right', color: MUTED })
+
+        // Parties
+        let y = 140
+        page.text(MARGIN, y, t('from'), { size: 9, bold: true, color: MUTED })
+        page.text(320, y, t('billTo'), { size: 9, bold: true, color: MUTED })
+        getIssuerLines().forEach((line, index) => {
+          page.text(MARGIN, y + 18 + index * 14, line, { bold: index === 0 })
+        })
+        getMerchantLines(merchant, language).forEach((line, index) => {
+          page.text(320, y + 18 + index * 14, line, { bold: index === 0 })
+        })
+
+        // Line items
+        y = 270
+        page.rect(MARGIN, y, RIGHT - MARGIN, 24, HEADER_FILL)
+        page.text(MARGIN + 10, y + 16, t('description'), { size: 9, bold: true })
+        page.text(360, y + 16, t('quantity'), { size: 9, bold: true, align: 'right' })
+        page.text(450, y + 16, t('unitPrice'), { size: 9, bold: true, align: 'right' })
+        page.text(RIGHT - 10, y + 16, t('amount'), { size: 9, bold: true, align: 'right' })
+
+        y += 44
+        page.text(MARGIN + 10, y, t('redemptionsLine', { period }))
+        page.text(360, y, String(statement.redemptions), { align: 'right' })
+        page.text(450, y, currency.format(statement.chargePerRedemption), { align: 'right' })
+        page.text(RIGHT - 10, y, currency.format(statement.charges), { align: 'right' })
+        page.line(MARGIN, y + 14, RIGHT, y + 14)
+
+        y += 40
+        page.text(450, y, t('total'), { bold: true, align: 'right' })
+        page.text(RIGHT - 10, y, currency.format(statement.charges), { bold: true, align: 'right', size: 12 })
+
+        // Balance summary
+        y += 50
+        page.text(MARGIN, y, t('balanceTitle'), { size: 9, bold: true, color: MUTED })
+        const balanceRows: Array<[string, string]> = [
+          [t('topUps'), currency.format(statement.topUps)],
+          [t('balanceMovement'), currency.format(statement.balanceMovement)],
+          [
+            t('closingBalance'),
+            statement.closingBalance !== null ? currency.format(statement.closingBalance) : '—',
+          ],
+        ]
+        balanceRows.forEach(([label, value], index) => {
+          const rowY = y + 20 + index * 18
+          page.text(MARGIN, rowY, label)
+          page.text(RIGHT - 10, rowY, value, { align: 'right' })
+        })
+
+        page.text(MARGIN, 790, t('footer'), { size: 8, color: MUTED })
+      },
+    ],
+    { title: `${t('title')} ${invoiceNumber}` }
+  )
+}
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { OfferSchedule, normalizeSchedule } from './offer-schedule'
+
+/**
+ * A merchant's shops. The merchant row keeps the legal / billing address; each location
+ * has its own address, opening hours and visibility in the student app. Offers apply at
+ * every location unless they list the ones they are limited to (`location_ids`).
+ */
+
+/** Weekly opening windows, with closed days as blackout dates */
+export type OpeningHours = OfferSchedule
+
+export interface MerchantLocation {
+  id: number
+  merchant_id: number
+  name: string
+  /** Street lines separated by newlines, as on the merchant profile */
+  street: string | null
+  city: string | null
+  postal_code: string | null
+  country: string | null
+  opening_hours: OpeningHours | null
+  is_visible: boolean
+  created_at: string
+}
+
+export interface LocationInput {
+  name: string
+  street: string | null
+  city: string | null
+  postal_code: string | null
+  country: string | null
+  opening_hours: OpeningHours | null
+  is_visible: boolean
+}
+
+/**
+ * Cookie remembering the location chosen in the switcher. Per merchant so shared devices
+ * at different shops keep their own choice; a cookie so server-rendered pages see it too.
+ */
+export function getLocationCookieName(merchantId: number) {
+  return `ovio-location-${merchantId}`
+}
+
+const LOCATION_COLUMNS = 'id, merchant_id, name, street, city, postal_code, country, opening_hours, is_visible, created_at'
+
+// Copy only writable fields so a location can't be moved to another merchant
+function toLocationRow(input: Partial<LocationInput>) {
+  const row: Partial<LocationInput> = {}
+  if (input.name !== undefined) row.name = input.name.trim()
+  if (input.street !== undefined) row.street = input.street?.trim() || null
+  if (input.city !== undefined) row.city = input.city?.trim() || null
+  if (input.postal_code !== undefined) row.postal_code = input.postal_code?.trim() || null
+  if (input.country !== undefined) row.country = input.country?.trim() || null
+  if (input.opening_hours !== undefined) row.opening_hours = normalizeSchedule(input.opening_hours)
+  if (input.is_visible !== undefined) row.is_visible = input.is_visible
+  return row
+}
+
+/**
+ * The merchant's locations, oldest first
+ */
+export async function listLocations(merchantId: number, client: SupabaseClient = supabase): Promise<MerchantLocation[]> {
+  const { data, error } = await client
+    .from('merchant_locations')
+    .select(LOCATION_COLUMNS)
+    .eq('merchant_id', merchantId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as MerchantLocation[]
+}
+
+export async function createLocation(merchantId: number, input: LocationInput): Promise<MerchantLocation> {
+  const { data, error } = await supabase
+    .from('merchant_locations')
+    .insert({ ...toLocationRow(input), merchant_id: merchantId })
+    .select(LOCATION_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return data as MerchantLocation
+}
+
+export async function updateLocation(
+  merchantId: number,
+  locationId: number,
+  changes: Partial<LocationInput>
+): Promise<MerchantLocation> {
+  const { data, error } = await supabase
+    .from('merchant_locations')
+    .update(toLocationRow(changes))
+    .eq('id', locationId)
+    .eq('merchant_id', merchantId)
+    .select(LOCATION_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return data as MerchantLocation
+}
+
+/**
+ * Whether an offer applies at a location; every offer applies when no location is chosen
+ */
+export function isOfferAtLocation(offer: { location_ids: number[] | null }, locationId: number | null) {
+  return locationId === null || offer.location_ids === null || offer.location_ids.includes(locationId)
+}
+
+/**
+ * One-line address, e.g. "Carrer Major 1, 08001 Barcelona"
+ */
+export function formatLocationAddress(location: Pick<MerchantLocation, 'street' | 'city' | 'postal_code'>) {
+  const street = location.street?.split('\n').map((line) => line.trim()).filter(Boolean).join(', ')
+  const place = [location.postal_code, location.city].filter(Boolean).join(' ')
+  return [street, place].filter(Boolean).join(', ')
+}
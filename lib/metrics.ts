@@ -0,0 +1,308 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { withImpersonation } from './impersonation'
+
+export interface DailyChargePoint {
+  date: string
+  redemptions: number
+  charges: number
+}
+
+/** Redemptions and charges at one location; a null locationId gathers redemptions recorded without one */
+export interface LocationTotals {
+  locationId: number | null
+  redemptions: number
+  charges: number
+}
+
+export interface MerchantMetrics {
+  activeOffers: number
+  totalRedemptions: number
+  monthlyRedemptions: number
+  monthlyCharges: number
+  chargePerRedemption: number
+  dailySeries: DailyChargePoint[]
+  /** This month's redemptions by location, busiest first */
+  monthlyByLocation: LocationTotals[]
+  generatedAt: string
+}
+
+export interface RedemptionEvent {
+  redeemedAt: string
+  locationId: number | null
+}
+
+// PostgREST caps responses at 1000 rows by default, so timestamps are read in pages
+const REDEMPTION_BATCH_SIZE = 1000
+
+/**
+ * Format a date as YYYY-MM-DD in the given IANA time zone
+ */
+export function getDateKey(date: Date, timeZone?: string) {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? ''
+  return `${get('year')}-${get('month')}-${get('day')}`
+}
+
+/**
+ * Check that a time zone name is understood by the runtime
+ */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+let chargePerRedemptionRequest: Promise<number> | null = null
+
+/**
+ * EUR charged per redemption. The price lives in the database (charge_per_redemption()) so the
+ * budget trigger and the app charge the same; it is read once per page load or server instance.
+ */
+export function fetchChargePerRedemption(client: SupabaseClient): Promise<number> {
+  if (!chargePerRedemptionRequest) {
+    chargePerRedemptionRequest = Promise.resolve(client.rpc('charge_per_redemption')).then(({ data, error }) => {
+      if (error) throw error
+      return Number(data)
+    })
+    // Retry on the next call instead of caching the failure
+    chargePerRedemptionRequest.catch(() => {
+      chargePerRedemptionRequest = null
+    })
+  }
+  return chargePerRedemptionRequest
+}
+
+/**
+ * Compute dashboard and billing metrics for a merchant.
+ * Redemptions are scoped through claims to the merchant's offers with inner joins,
+ * so no offer id list ever has to be sent in the URL.
+ */
+export async function computeMerchantMetrics(
+  client: SupabaseClient,
+  merchantId: number,
+  options: { timeZone?: string; now?: Date } = {}
+): Promise<MerchantMetrics> {
+  const now = options.now ?? new Date()
+  const timeZone = options.timeZone
+  const todayKey = getDateKey(now, timeZone)
+  const monthPrefix = todayKey.slice(0, 8)
+
+  // Start a day before the local month so its first day is covered in any time zone
+  const lowerBound = new Date(`${monthPrefix}01T00:00:00Z`)
+  lowerBound.setUTCDate(lowerBound.getUTCDate() - 1)
+
+  const [activeOffersResult, totalResult, monthlyEvents, chargePerRedemption] = await Promise.all([
+    client
+      .from('offers')
+      .select('id', { count: 'exact', head: true })
+      .eq('merchant_id', merchantId)
+      .eq('is_active', true)
+      .eq('deleted', false),
+    client
+      .from('redemptions')
+      .select('id, offer_claims!inner(offers!inner(merchant_id))', { count: 'exact', head: true })
+      .eq('offer_claims.offers.merchant_id', merchantId),
+    fetchRedemptionEvents(client, merchantId, lowerBound.toISOString()),
+    fetchChargePerRedemption(client),
+  ])
+
+  if (activeOffersResult.error) throw activeOffersResult.error
+  if (totalResult.error) throw totalResult.error
+
+  const dailyCounts = new Map<string, number>()
+  const locationCounts = new Map<number | null, number>()
+  let monthlyRedemptions = 0
+
+  for (const { redeemedAt, locationId } of monthlyEvents) {
+    const key = getDateKey(new Date(redeemedAt), timeZone)
+    if (!key.startsWith(monthPrefix)) continue
+    monthlyRedemptions += 1
+    dailyCounts.set(key, (dailyCounts.get(key) || 0) + 1)
+    locationCounts.set(locationId, (locationCounts.get(locationId) || 0) + 1)
+  }
+
+  const daysElapsed = Number(todayKey.slice(8, 10))
+  const dailySeries: DailyChargePoint[] = Array.from({ length: daysElapsed }, (_, index) => {
+    const key = `${monthPrefix}${String(index + 1).padStart(2, '0')}`
+    const dayRedemptions = dailyCounts.get(key) || 0
+    return {
+      date: key,
+      redemptions: dayRedemptions,
+      charges: dayRedemptions * chargePerRedemption,
+    }
+  })
+
+  return {
+    activeOffers: activeOffersResult.count || 0,
+    totalRedemptions: totalResult.count || 0,
+    monthlyRedemptions,
+    monthlyCharges: monthlyRedemptions * chargePerRedemption,
+    chargePerRedemption,
+    dailySeries,
+    monthlyByLocation: toLocationTotals(locationCounts, chargePerRedemption),
+    generatedAt: now.toISOString(),
+  }
+}
+
+/**
+ * The same metrics with every charge zeroed, for staff who may not see billing
+ */
+export function withoutCharges(metrics: MerchantMetrics): MerchantMetrics {
+  return {
+    ...metrics,
+    monthlyCharges: 0,
+    chargePerRedemption: 0,
+    dailySeries: metrics.dailySeries.map(point => ({ ...point, charges: 0 })),
+    monthlyByLocation: metrics.monthlyByLocation.map(totals => ({ ...totals, charges: 0 })),
+  }
+}
+
+/**
+ * Per-location totals from redemption counts, busiest location first
+ */
+export function toLocationTotals(counts: Map<number | null, number>, chargePerRedemption: number): LocationTotals[] {
+  return Array.from(counts, ([locationId, redemptions]) => ({
+    locationId,
+    redemptions,
+    charges: redemptions * chargePerRedemption,
+  })).sort((a, b) => b.redemptions - a.redemptions)
+}
+
+/**
+ * Read the merchant's redemption timestamps from `since` (and before `until`, if given), oldest first
+ */
+export async function fetchRedemptionTimestamps(
+  client: SupabaseClient,
+  merchantId: number,
+  since: string,
+  until?: string
+) {
+  const events = await fetchRedemptionEvents(client, merchantId, since, until)
+  return events.map(event => event.redeemedAt)
+}
+
+/**
+ * Read the merchant's redemptions from `since` (and before `until`, if given) with where they
+ * were recorded, oldest first
+ */
+export async function fetchRedemptionEvents(
+  client: SupabaseClient,
+  merchantId: number,
+  since: string,
+  until?: string
+) {
+  const events: RedemptionEvent[] = []
+
+  for (let offset = 0; ; offset += REDEMPTION_BATCH_SIZE) {
+    let query = client
+      .from('redemptions')
+      .select('redeemed_at, location_id, offer_claims!inner(offers!inner(merchant_id))')
+      .eq('offer_claims.offers.merchant_id', merchantId)
+      .gte('redeemed_at', since)
+
+    if (until) {
+      query = query.lt('redeemed_at', until)
+    }
+
+    const { data, error } = await query
+      .order('redeemed_at', { ascending: true })
+      // Redemptions can share a timestamp; the id keeps pages from skipping or repeating rows
+      .order('id', { ascending: true })
+      .range(offset, offset + REDEMPTION_BATCH_SIZE - 1)
+
+    if (error) throw error
+
+    for (const row of data || []) {
+      if (row.redeemed_at) events.push({ redeemedAt: row.redeemed_at, locationId: row.location_id ?? null })
+    }
+
+    if (!data || data.length < REDEMPTION_BATCH_SIZE) break
+  }
+
+  return events
+}
+
+/**
+ * Load merchant metrics from the server route (browser only).
+ * Months and days follow `timeZone`, defaulting to the merchant's.
+ */
+export async function fetchMerchantMetrics(
+  options: { fresh?: boolean; timeZone?: string } = {}
+): Promise<MerchantMetrics> {
+  const params = new URLSearchParams()
+  if (options.timeZone) {
+    params.set('tz', options.timeZone)
+  }
+  if (options.fresh) {
+    params.set('fresh', '1')
+  }
+
+  const response = await fetch(`/api/merchant/metrics?${withImpersonation(params).toString()}`, {
+    credentials: 'same-origin',
+  })
+
+  if (!response.ok) {
+    throw new Error(`Metrics request failed with status ${response.status}`)
+  }
+
+  return response.json()
+}
+
+/**
+ * Add one redemption to a daily series in place of a full refetch
+ */
+export function addRedemptionToSeries(
+  series: DailyChargePoint[],
+  redeemedAt: string,
+  chargePerRedemption: number,
+  timeZone?: string
+) {
+  const key = getDateKey(new Date(redeemedAt), timeZone)
+
+  if (!series.some(point => point.date === key)) {
+    // The page stayed open past midnight: start the new day if it belongs to the same month
+    const last = series[series.length - 1]
+    if (!last || last.date.slice(0, 7) !== key.slice(0, 7) || last.date > key) {
+      return series
+    }
+    return [...series, { date: key, redemptions: 1, charges: chargePerRedemption }]
+  }
+
+  return series.map(point =>
+    point.date === key
+      ? {
+          ...point,
+          redemptions: point.redemptions + 1,
+          charges: point.charges + chargePerRedemption,
+        }
+      : point
+  )
+}
+
+/**
+ * Count one redemption at a location in place of a refetch
+ */
+export function addRedemptionToLocations(
+  totals: LocationTotals[],
+  locationId: number | null,
+  chargePerRedemption: number
+) {
+  const counts = new Map(totals.map(item => [item.locationId, item.redemptions] as const))
+  counts.set(locationId, (counts.get(locationId) || 0) + 1)
+  return toLocationTotals(counts, chargePerRedemption)
+}
+
+/**
+ * Check whether a timestamp falls in the current calendar month
+ */
+export function isInCurrentMonth(timestamp: string, timeZone?: string, now = new Date()) {
+  return getDateKey(new Date(timestamp), timeZone).slice(0, 7) === getDateKey(now, timeZone).slice(0, 7)
+}
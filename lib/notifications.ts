@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { supabase } from './supabase'
+import type { OfferCapKind } from './offer-caps'
+
+export const NOTIFICATIONS_LIMIT = 20
+
+/** Written by the redemptions trigger when an offer hits its total or daily cap */
+export interface OfferCapNotificationPayload {
+  offer_id: number
+  offer_title: string
+  cap: OfferCapKind
+  limit: number
+}
+
+/** Written by the redemptions trigger when the month's charges reach the merchant's budget */
+export interface BudgetNotificationPayload {
+  budget: number
+  charges: number
+  paused_offers: number
+}
+
+interface NotificationBase {
+  id: number
+  merchant_id: number
+  read_at: string | null
+  created_at: string
+}
+
+/** Discriminated by `type`; each type has its own payload shape */
+export type MerchantNotification = NotificationBase &
+  (
+    | { type: 'offer_cap_reached'; payload: OfferCapNotificationPayload }
+    | { type: 'budget_reached'; payload: BudgetNotificationPayload }
+  )
+
+const NOTIFICATION_COLUMNS = 'id, merchant_id, type, payload, read_at, created_at'
+
+/**
+ * Most recent notifications for the merchant, newest first
+ */
+export async function listNotifications(
+  merchantId: number,
+  limit = NOTIFICATIONS_LIMIT
+): Promise<MerchantNotification[]> {
+  const { data, error } = await supabase
+    .from('merchant_notifications')
+    .select(NOTIFICATION_COLUMNS)
+    .eq('merchant_id', merchantId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as MerchantNotification[]
+}
+
+/**
+ * Mark the given notifications as read
+ */
+export async function markNotificationsRead(merchantId: number, ids: number[]): Promise<void> {
+  if (ids.length === 0) return
+
+  const { error } = await supabase
+    .from('merchant_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('merchant_id', merchantId)
+    .in('id', ids)
+    .is('read_at', null)
+
+  if (error) throw error
+}
+
+/**
+ * Load the merchant's notifications and keep them updated in realtime.
+ * `onNotification` fires for notifications created while the page is open.
+ */
+export function useMerchantNotifications(
+  merchantId: number | null | undefined,
+  onNotification?: (notification: MerchantNotification) => void
+) {
+  const [notifications, setNotifications] = useState<MerchantNotification[]>([])
+  const callbackRef = useRef(onNotification)
+
+  useEffect(() => {
+    callbackRef.current = onNotification
+  }, [onNotification])
+
+  useEffect(() => {
+    if (!merchantId) {
+      setNotifications([])
+      return
+    }
+
+    let isMounted = true
+
+    listNotifications(merchantId)
+      .then((rows) => {
+        if (isMounted) setNotifications(rows)
+      })
+      .catch((error) => {
+        console.error('Error loading notifications:', error)
+      })
+
+    const channel = supabase
+      .channel(`merchant-notifications-${merchantId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'merchant_notifications', filter: `merchant_id=eq.${merchantId}` },
+        (payload: { new: MerchantNotification }) => {
+          const notification = payload.new
+          if (!notification?.id || !isMounted) return
+
+          setNotifications((prev) =>
+            prev.some((item) => item.id === notification.id)
+              ? prev
+              : [notification, ...prev].slice(0, NOTIFICATIONS_LIMIT)
+          )
+          callbackRef.current?.(notification)
+        }
+      )
+      .subscribe((status: string) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.warn('Notification subscription status:', status)
+        }
+      })
+
+    return () => {
+      isMounted = false
+      supabase.removeChannel(channel)
+    }
+  }, [merchantId])
+
+  const markAllRead = useCallback(async () => {
+    if (!merchantId) return
+    const unreadIds = notifications.filter((item) => !item.read_at).map((item) => item.id)
+    if (unreadIds.length === 0) return
+
+    const readAt = new Date().toISOString()
+    setNotifications((prev) => prev.map((item) => (unreadIds.includes(item.id) ? { ...item, read_at: readAt } : item)))
+
+    try {
+      await markNotificationsRead(merchantId, unreadIds)
+    } catch (error) {
+      console.error('Error marking notifications as read:', error)
+    }
+  }, [merchantId, notifications])
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((item) => !item.read_at).length,
+    markAllRead,
+  }
+}
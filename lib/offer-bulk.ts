@@ -0,0 +1,97 @@
+import type { Offer, OfferUpdate } from './offers'
+import { EMPTY_USAGE, OfferUsage, getReachedCaps } from './offer-caps'
+import { clampDiscount } from './offer-tiers'
+
+/**
+ * Bulk actions on a selection of offers. Each action is planned up front into the
+ * updates to send and the updates that undo them, so the page can run the batch
+ * in one go and offer an undo for a short while afterwards.
+ */
+
+export type BulkOfferAction =
+  | { type: 'activate' }
+  | { type: 'deactivate' }
+  | { type: 'delete' }
+  /** `endAt` is a date (YYYY-MM-DD) or null to clear the end date */
+  | { type: 'end_date'; endAt: string | null }
+  /** Added to each discount in its own unit: percentage points or euros */
+  | { type: 'discount_delta'; delta: number }
+
+export type BulkSkipReason = 'cap_reached' | 'before_start' | 'unchanged'
+
+export interface BulkOfferPlan {
+  /** Offers the action applies to */
+  offerIds: number[]
+  updates: OfferUpdate[]
+  /** Puts back the previous values of `updates`; deletes are undone by restoring `offerIds` */
+  undo: OfferUpdate[]
+  skipped: Array<{ offerId: number; reason: BulkSkipReason }>
+}
+
+const toDateKey = (value: string | null) => (value ? value.split('T')[0] : null)
+
+export function planBulkOfferAction(
+  offers: Offer[],
+  action: BulkOfferAction,
+  usage: Record<number, OfferUsage> = {}
+): BulkOfferPlan {
+  const plan: BulkOfferPlan = { offerIds: [], updates: [], undo: [], skipped: [] }
+
+  const skip = (offer: Offer, reason: BulkSkipReason) => {
+    plan.skipped.push({ offerId: offer.id, reason })
+  }
+
+  for (const offer of offers) {
+    switch (action.type) {
+      case 'delete':
+        plan.offerIds.push(offer.id)
+        continue
+
+      case 'activate':
+      case 'deactivate': {
+        const isActive = action.type === 'activate'
+        if (offer.is_active === isActive) {
+          skip(offer, 'unchanged')
+          continue
+        }
+        if (isActive && getReachedCaps(offer, usage[offer.id] ?? EMPTY_USAGE).includes('total')) {
+          skip(offer, 'cap_reached')
+          continue
+        }
+        plan.updates.push({ id: offer.id, changes: { is_active: isActive } })
+        plan.undo.push({ id: offer.id, changes: { is_active: offer.is_active } })
+        break
+      }
+
+      case 'end_date': {
+        const start = toDateKey(offer.start_at)
+        if (action.endAt && start && start > action.endAt) {
+          skip(offer, 'before_start')
+          continue
+        }
+        if (toDateKey(offer.end_at) === action.endAt) {
+          skip(offer, 'unchanged')
+          continue
+        }
+        plan.updates.push({ id: offer.id, changes: { end_at: action.endAt } })
+        plan.undo.push({ id: offer.id, changes: { end_at: offer.end_at } })
+        break
+      }
+
+      case 'discount_delta': {
+        const value = clampDiscount(offer.discount_type, offer.discount_value + action.delta)
+        if (value === offer.discount_value) {
+          skip(offer, 'unchanged')
+          continue
+        }
+        plan.updates.push({ id: offer.id, changes: { discount_value: value } })
+        plan.undo.push({ id: offer.id, changes: { discount_value: offer.discount_value } })
+        break
+      }
+    }
+
+    plan.offerIds.push(offer.id)
+  }
+
+  return plan
+}
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import type { Offer } from './offers'
+import { getZonedParts } from './offer-schedule'
+
+/**
+ * Redemption caps per offer. A null cap is unlimited; the database trigger on
+ * `redemptions` is the source of truth, these helpers only mirror it for the UI.
+ */
+
+export type OfferCapKind = 'total' | 'daily' | 'student_weekly'
+
+export type OfferCaps = Pick<Offer, 'max_redemptions' | 'max_redemptions_per_day' | 'max_redemptions_per_student_week'>
+
+export interface OfferUsage {
+  total: number
+  /** Redemptions on the merchant's current local day */
+  today: number
+}
+
+export const NO_CAPS: OfferCaps = {
+  max_redemptions: null,
+  max_redemptions_per_day: null,
+  max_redemptions_per_student_week: null,
+}
+
+export const EMPTY_USAGE: OfferUsage = { total: 0, today: 0 }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// A local day never starts more than 25h ago, even across a DST change
+const TODAY_LOOKBACK_MS = 25 * 60 * 60 * 1000
+
+export function hasCaps(caps: OfferCaps) {
+  return (
+    caps.max_redemptions !== null ||
+    caps.max_redemptions_per_day !== null ||
+    caps.max_redemptions_per_student_week !== null
+  )
+}
+
+/**
+ * Caps must be whole numbers above zero; empty means unlimited
+ */
+export function isValidCap(value: number | null) {
+  return value === null || (Number.isInteger(value) && value > 0)
+}
+
+/**
+ * Parse a cap input, treating blank or zero as unlimited
+ */
+export function parseCap(value: string): number | null {
+  const parsed = parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+/**
+ * Share of a cap already used, clamped to 0–1
+ */
+export function getCapProgress(used: number, cap: number) {
+  return cap > 0 ? Math.min(1, used / cap) : 0
+}
+
+/**
+ * List the offer-wide caps already used up. The per-student cap needs the student's
+ * own count, so it is only checked when `studentWeek` is given.
+ */
+export function getReachedCaps(caps: OfferCaps, usage: OfferUsage & { studentWeek?: number }): OfferCapKind[] {
+  const reached: OfferCapKind[] = []
+
+  if (caps.max_redemptions !== null && usage.total >= caps.max_redemptions) reached.push('total')
+  if (caps.max_redemptions_per_day !== null && usage.today >= caps.max_redemptions_per_day) reached.push('daily')
+  if (
+    caps.max_redemptions_per_student_week !== null &&
+    usage.studentWeek !== undefined &&
+    usage.studentWeek >= caps.max_redemptions_per_student_week
+  ) {
+    reached.push('student_weekly')
+  }
+
+  return reached
+}
+
+/**
+ * Count total and today's redemptions for the merchant's capped offers.
+ * Offers without a total or daily cap are skipped and get no entry.
+ */
+export async function fetchOfferUsage(
+  merchantId: number,
+  offers: Array<OfferCaps & { id: number }>,
+  timeZone?: string | null,
+  now = new Date(),
+  client: SupabaseClient = supabase
+): Promise<Record<number, OfferUsage>> {
+  const capped = offers.filter(offer => offer.max_redemptions !== null || offer.max_redemptions_per_day !== null)
+  if (capped.length === 0) return {}
+
+  const usage: Record<number, OfferUsage> = {}
+  capped.forEach(offer => {
+    usage[offer.id] = { ...EMPTY_USAGE }
+  })
+
+  const totals = await Promise.all(
+    capped
+      .filter(offer => offer.max_redemptions !== null)
+      .map(async offer => {
+        const { count, error } = await client
+          .from('redemptions')
+          .select('id, offer_claims!inner(offer_id, offers!inner(merchant_id))', { count: 'exact', head: true })
+          .eq('offer_claims.offer_id', offer.id)
+          .eq('offer_claims.offers.merchant_id', merchantId)
+
+        if (error) throw error
+        return [offer.id, count ?? 0] as const
+      })
+  )
+
+  totals.forEach(([offerId, count]) => {
+    usage[offerId].total = count
+  })
+
+  const dailyIds = capped.filter(offer => offer.max_redemptions_per_day !== null).map(offer => offer.id)
+
+  if (dailyIds.length > 0) {
+    const { data, error } = await client
+      .from('redemptions')
+      .select('redeemed_at, offer_claims!inner(offer_id, offers!inner(merchant_id))')
+      .in('offer_claims.offer_id', dailyIds)
+      .eq('offer_claims.offers.merchant_id', merchantId)
+      .gte('redeemed_at', new Date(now.getTime() - TODAY_LOOKBACK_MS).toISOString())
+
+    if (error) throw error
+
+    const todayKey = getZonedParts(now, timeZone).dateKey
+
+    for (const row of (data || []) as unknown as Array<{
+      redeemed_at: string
+      offer_claims: { offer_id: number } | { offer_id: number }[]
+    }>) {
+      const claim = Array.isArray(row.offer_claims) ? row.offer_claims[0] : row.offer_claims
+      if (!claim || !usage[claim.offer_id]) continue
+      if (getZonedParts(new Date(row.redeemed_at), timeZone).dateKey === todayKey) {
+        usage[claim.offer_id].today += 1
+      }
+    }
+  }
+
+  return usage
+}
+
+/**
+ * Count a student's redemptions of an offer over the last 7 days
+ */
+export async function countStudentWeeklyRedemptions(offerId: number, studentId: number, now = new Date()) {
+  const { count, error } = await supabase
+    .from('redemptions')
+    .select('id, offer_claims!inner(offer_id, student_id)', { count: 'exact', head: true })
+    .eq('offer_claims.offer_id', offerId)
+    .eq('offer_claims.student_id', studentId)
+    .gte('redeemed_at', new Date(now.getTime() - 7 * DAY_MS).toISOString())
+
+  if (error) throw error
+  return count ?? 0
+}
@@ -0,0 +1,120 @@
+import type { DiscountType, OfferDateState, OfferListQuery, OfferSortField } from './offers'
+import { FOLLOWER_TIERS } from './offer-tiers'
+
+/**
+ * The offers page keeps its search, filters and sort in the query string so a
+ * filtered list can be reloaded, bookmarked and shared. Defaults are left out of the URL.
+ */
+
+export type OfferStatusFilter = 'active' | 'inactive'
+
+export interface OfferFilters {
+  search: string
+  status: OfferStatusFilter | null
+  discountType: DiscountType | null
+  tier: number | null
+  dateState: OfferDateState | null
+  sort: OfferSortField
+  ascending: boolean
+}
+
+export const OFFER_SORT_FIELDS: OfferSortField[] = ['min_followers', 'title', 'discount_value', 'start_at', 'end_at', 'created_at']
+export const OFFER_DATE_STATES: OfferDateState[] = ['live', 'upcoming', 'expired']
+
+export const DEFAULT_OFFER_FILTERS: OfferFilters = {
+  search: '',
+  status: null,
+  discountType: null,
+  tier: null,
+  dateState: null,
+  sort: 'min_followers',
+  ascending: false,
+}
+
+// Query string keys; `view` is already taken by the create form
+const PARAMS = {
+  search: 'q',
+  status: 'status',
+  discountType: 'type',
+  tier: 'tier',
+  dateState: 'dates',
+  sort: 'sort',
+  order: 'order',
+} as const
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[]): T | null =>
+  value !== null && (allowed as readonly string[]).includes(value) ? (value as T) : null
+
+/**
+ * Read filters from the query string, ignoring unknown or malformed values
+ */
+export function parseOfferFilters(params: URLSearchParams): OfferFilters {
+  const tier = Number(params.get(PARAMS.tier))
+  const sort = pick(params.get(PARAMS.sort), OFFER_SORT_FIELDS) ?? DEFAULT_OFFER_FILTERS.sort
+  const order = pick(params.get(PARAMS.order), ['asc', 'desc'] as const)
+
+  return {
+    search: params.get(PARAMS.search) ?? '',
+    status: pick(params.get(PARAMS.status), ['active', 'inactive'] as const),
+    discountType: pick(params.get(PARAMS.discountType), ['percent', 'coupon'] as const),
+    tier: FOLLOWER_TIERS.some((item) => item.value === tier) ? tier : null,
+    dateState: pick(params.get(PARAMS.dateState), OFFER_DATE_STATES),
+    sort,
+    ascending: order ? order === 'asc' : getDefaultAscending(sort),
+  }
+}
+
+/**
+ * Write filters into a copy of `params`, dropping the ones left at their default
+ */
+export function toOfferSearchParams(filters: OfferFilters, params = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const set = (key: string, value: string | null) => {
+    if (value) {
+      next.set(key, value)
+    } else {
+      next.delete(key)
+    }
+  }
+
+  set(PARAMS.search, filters.search.trim() || null)
+  set(PARAMS.status, filters.status)
+  set(PARAMS.discountType, filters.discountType)
+  set(PARAMS.tier, filters.tier !== null ? String(filters.tier) : null)
+  set(PARAMS.dateState, filters.dateState)
+  set(PARAMS.sort, filters.sort !== DEFAULT_OFFER_FILTERS.sort ? filters.sort : null)
+  set(
+    PARAMS.order,
+    filters.ascending !== getDefaultAscending(filters.sort) ? (filters.ascending ? 'asc' : 'desc') : null
+  )
+
+  return next
+}
+
+/**
+ * Text columns read naturally A→Z; numbers and dates start with the largest or latest
+ */
+export function getDefaultAscending(sort: OfferSortField) {
+  return sort === 'title'
+}
+
+/**
+ * Whether any filter narrows the list (sorting doesn't count)
+ */
+export function hasActiveFilters(filters: OfferFilters) {
+  return Boolean(
+    filters.search.trim() || filters.status || filters.discountType || filters.tier !== null || filters.dateState
+  )
+}
+
+export function toOfferListQuery(filters: OfferFilters): OfferListQuery {
+  return {
+    search: filters.search,
+    isActive: filters.status ? filters.status === 'active' : null,
+    discountType: filters.discountType,
+    tier: filters.tier,
+    dateState: filters.dateState,
+    sort: filters.sort,
+    ascending: filters.ascending,
+  }
+}
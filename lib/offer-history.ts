@@ -0,0 +1,81 @@
+import { supabase } from './supabase'
+
+/**
+ * Change history of an offer, written by the offers_record_history trigger on every
+ * insert and update. Entries carry who made the change and the fields that moved.
+ */
+
+export type OfferHistoryAction = 'create' | 'update' | 'activate' | 'deactivate' | 'delete' | 'restore' | 'purge'
+
+/** Fields the trigger compares, in the order the history lists them */
+export const OFFER_HISTORY_FIELDS = [
+  'title',
+  'description',
+  'discount_type',
+  'discount_value',
+  'min_followers',
+  'start_at',
+  'end_at',
+  'schedule',
+  'max_redemptions',
+  'max_redemptions_per_day',
+  'max_redemptions_per_student_week',
+  'is_active',
+  'paused_by_budget',
+  'location_ids',
+] as const
+
+export type OfferHistoryField = (typeof OFFER_HISTORY_FIELDS)[number]
+
+export interface OfferFieldChange {
+  from: unknown
+  to: unknown
+}
+
+export interface OfferHistoryEntry {
+  id: number
+  offer_id: number
+  merchant_id: number
+  action: OfferHistoryAction
+  changes: Partial<Record<OfferHistoryField, OfferFieldChange>>
+  /** Null for changes made by the system, e.g. budget pauses */
+  actor_user_id: number | null
+  actor_email: string | null
+  created_at: string
+}
+
+export const OFFER_HISTORY_LIMIT = 100
+
+const HISTORY_COLUMNS = 'id, offer_id, merchant_id, action, changes, actor_user_id, actor_email, created_at'
+
+/**
+ * Most recent history entries for an offer, newest first
+ */
+export async function listOfferHistory(
+  merchantId: number,
+  offerId: number,
+  limit = OFFER_HISTORY_LIMIT
+): Promise<OfferHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('offer_history')
+    .select(HISTORY_COLUMNS)
+    .eq('merchant_id', merchantId)
+    .eq('offer_id', offerId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as OfferHistoryEntry[]
+}
+
+/**
+ * Changed fields of an entry in display order. Creations list only the fields that were set.
+ */
+export function getChangedFields(entry: OfferHistoryEntry): OfferHistoryField[] {
+  return OFFER_HISTORY_FIELDS.filter((field) => {
+    const change = entry.changes[field]
+    if (!change) return false
+    return entry.action !== 'create' || (change.to !== null && change.to !== '')
+  })
+}
@@ -0,0 +1,211 @@
+import { isValidTimeZone } from './metrics'
+
+/**
+ * Recurring weekly windows ("happy hours") and blackout dates for offers.
+ * Times are wall-clock times in the merchant's time zone.
+ */
+
+export interface ScheduleWindow {
+  /** 0 = Sunday … 6 = Saturday, matching Date#getDay */
+  days: number[]
+  /** HH:MM, 24h */
+  start: string
+  /** HH:MM, 24h; a window ending before its start runs past midnight */
+  end: string
+}
+
+export interface OfferSchedule {
+  windows: ScheduleWindow[]
+  /** YYYY-MM-DD local dates when the offer is off regardless of windows */
+  blackout_dates: string[]
+}
+
+export type OfferLiveState = 'live' | 'inactive' | 'not_started' | 'ended' | 'blackout' | 'outside_window'
+
+interface SchedulableOffer {
+  is_active: boolean
+  start_at: string | null
+  end_at: string | null
+  schedule?: OfferSchedule | null
+}
+
+// Monday-first order used when listing days in the UI
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0]
+
+export const SCHEDULE_PRESETS: Record<'weekdays' | 'weekends' | 'everyday', number[]> = {
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [0, 6],
+  everyday: [0, 1, 2, 3, 4, 5, 6],
+}
+
+export const DEFAULT_TIME_ZONE = 'Europe/Madrid'
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+
+/**
+ * Use the merchant's configured time zone, falling back to DEFAULT_TIME_ZONE like the
+ * database triggers and jobs do, so server, browser and SQL count the same days
+ */
+export function resolveTimeZone(timeZone?: string | null) {
+  if (timeZone && isValidTimeZone(timeZone)) return timeZone
+  return DEFAULT_TIME_ZONE
+}
+
+export function createEmptySchedule(): OfferSchedule {
+  return { windows: [{ days: [...SCHEDULE_PRESETS.weekdays], start: '15:00', end: '18:00' }], blackout_dates: [] }
+}
+
+/**
+ * A schedule only restricts an offer when it has windows or blackout dates
+ */
+export function hasSchedule(schedule?: OfferSchedule | null): schedule is OfferSchedule {
+  return Boolean(schedule && (schedule.windows.length > 0 || schedule.blackout_dates.length > 0))
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Read the local date, weekday and minute of day for an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone?: string | null) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timeZone || undefined,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? ''
+
+  return {
+    dateKey: `${get('year')}-${get('month')}-${get('day')}`,
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  }
+}
+
+/**
+ * Check whether a weekday/minute falls inside any window
+ */
+export function isWithinWindows(windows: ScheduleWindow[], weekday: number, minutes: number) {
+  const previousDay = (weekday + 6) % 7
+
+  return windows.some(window => {
+    const start = toMinutes(window.start)
+    const end = toMinutes(window.end)
+
+    if (end > start) {
+      return window.days.includes(weekday) && minutes >= start && minutes < end
+    }
+
+    // Overnight window: the evening part belongs to the listed day, the early hours to the next one
+    return (window.days.includes(weekday) && minutes >= start) || (window.days.includes(previousDay) && minutes < end)
+  })
+}
+
+/**
+ * Work out whether an offer can be redeemed at a given moment
+ */
+export function getOfferLiveState(
+  offer: SchedulableOffer,
+  timeZone?: string | null,
+  now = new Date()
+): OfferLiveState {
+  if (!offer.is_active) return 'inactive'
+  if (offer.start_at && new Date(offer.start_at).getTime() > now.getTime()) return 'not_started'
+  if (offer.end_at && new Date(offer.end_at).getTime() <= now.getTime()) return 'ended'
+
+  if (!hasSchedule(offer.schedule)) return 'live'
+
+  const { dateKey, weekday, minutes } = getZonedParts(now, timeZone)
+
+  if (offer.schedule.blackout_dates.includes(dateKey)) return 'blackout'
+  if (offer.schedule.windows.length > 0 && !isWithinWindows(offer.schedule.windows, weekday, minutes)) {
+    return 'outside_window'
+  }
+
+  return 'live'
+}
+
+export type ScheduleErrorCode = 'no_days' | 'invalid_time' | 'same_time' | 'invalid_date'
+
+/**
+ * Validate a schedule, returning one error code per problem found
+ */
+export function validateSchedule(schedule: OfferSchedule): ScheduleErrorCode[] {
+  const errors = new Set<ScheduleErrorCode>()
+
+  for (const window of schedule.windows) {
+    if (window.days.length === 0) errors.add('no_days')
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+      errors.add('invalid_time')
+    } else if (window.start === window.end) {
+      errors.add('same_time')
+    }
+  }
+
+  for (const date of schedule.blackout_dates) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) errors.add('invalid_date')
+  }
+
+  return Array.from(errors)
+}
+
+/**
+ * Drop duplicate days/dates and keep everything in a stable order before saving
+ */
+export function normalizeSchedule(schedule?: OfferSchedule | null): OfferSchedule | null {
+  if (!hasSchedule(schedule)) return null
+
+  return {
+    windows: schedule.windows.map(window => ({
+      ...window,
+      days: WEEKDAYS.filter(day => window.days.includes(day)),
+    })),
+    blackout_dates: Array.from(new Set(schedule.blackout_dates)).sort(),
+  }
+}
+
+/**
+ * Format the days of a window as compact ranges, e.g. "Mon–Thu, Sat"
+ */
+export function formatScheduleDays(days: number[], locale: string) {
+  const formatter = new Intl.DateTimeFormat(locale, { weekday: 'short' })
+  // 2024-01-07 was a Sunday, so day n of that week has getDay() === n
+  const dayName = (day: number) => formatter.format(new Date(Date.UTC(2024, 0, 7 + day, 12)))
+  const ordered = WEEKDAYS.filter(day => days.includes(day))
+  const ranges: string[] = []
+
+  let index = 0
+  while (index < ordered.length) {
+    let end = index
+    while (
+      end + 1 < ordered.length &&
+      WEEKDAYS.indexOf(ordered[end + 1]) === WEEKDAYS.indexOf(ordered[end]) + 1
+    ) {
+      end++
+    }
+    ranges.push(
+      end - index >= 2
+        ? `${dayName(ordered[index])}–${dayName(ordered[end])}`
+        : ordered.slice(index, end + 1).map(dayName).join(', ')
+    )
+    index = end + 1
+  }
+
+  return ranges.join(', ')
+}
+
+/**
+ * One line per window, e.g. "Mon–Thu 15:00–18:00"
+ */
+export function formatScheduleWindows(schedule: OfferSchedule, locale: string) {
+  return schedule.windows.map(window => `${formatScheduleDays(window.days, locale)} ${window.start}–${window.end}`)
+}
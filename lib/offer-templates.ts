@@ -0,0 +1,85 @@
+import type { Offer, OfferInput, OfferTemplateFields } from './offers'
+import { SCHEDULE_PRESETS } from './offer-schedule'
+
+/**
+ * Starter templates offered to every merchant next to their saved ones.
+ * Names and student-facing descriptions are translated under `offers.template_<key>_*`.
+ */
+
+export interface BuiltInOfferTemplate extends OfferTemplateFields {
+  key: string
+}
+
+const NO_TEMPLATE_CAPS = {
+  max_redemptions: null,
+  max_redemptions_per_day: null,
+  max_redemptions_per_student_week: null,
+}
+
+export const BUILT_IN_OFFER_TEMPLATES: BuiltInOfferTemplate[] = [
+  {
+    key: 'student_lunch',
+    description: null,
+    discount_type: 'percent',
+    discount_value: 15,
+    min_followers: 500,
+    scaling_curve: null,
+    curve_factor: null,
+    schedule: { windows: [{ days: [...SCHEDULE_PRESETS.weekdays], start: '12:00', end: '15:30' }], blackout_dates: [] },
+    ...NO_TEMPLATE_CAPS,
+  },
+  {
+    key: 'free_coffee',
+    description: null,
+    discount_type: 'coupon',
+    discount_value: 3,
+    min_followers: 10000,
+    scaling_curve: null,
+    curve_factor: null,
+    schedule: null,
+    ...NO_TEMPLATE_CAPS,
+    max_redemptions_per_student_week: 1,
+  },
+  {
+    key: 'happy_hour',
+    description: null,
+    discount_type: 'percent',
+    discount_value: 20,
+    min_followers: 1000,
+    scaling_curve: null,
+    curve_factor: null,
+    schedule: { windows: [{ days: [...SCHEDULE_PRESETS.weekdays], start: '17:00', end: '19:00' }], blackout_dates: [] },
+    ...NO_TEMPLATE_CAPS,
+  },
+  {
+    key: 'creator_ladder',
+    description: null,
+    discount_type: 'percent',
+    discount_value: 10,
+    min_followers: 1000,
+    scaling_curve: 'linear',
+    curve_factor: 5,
+    schedule: null,
+    ...NO_TEMPLATE_CAPS,
+    max_redemptions_per_student_week: 2,
+  },
+]
+
+/**
+ * Prefill for a copy of an offer: the same setup, without the original run's dates
+ */
+export function getDuplicateFields(offer: Offer): Omit<OfferInput, 'start_at' | 'end_at'> {
+  return {
+    title: offer.title,
+    description: offer.description,
+    discount_type: offer.discount_type,
+    discount_value: offer.discount_value,
+    min_followers: offer.min_followers,
+    schedule: offer.schedule,
+    max_redemptions: offer.max_redemptions,
+    max_redemptions_per_day: offer.max_redemptions_per_day,
+    max_redemptions_per_student_week: offer.max_redemptions_per_student_week,
+    is_active: offer.is_active,
+    location_ids: offer.location_ids,
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Follower tiers used to target offers at student creators
+ */
+
+export interface FollowerTier {
+  label: string
+  value: number
+}
+
+export const FOLLOWER_TIERS: FollowerTier[] = [
+  { label: '500+', value: 500 },
+  { label: '1,000+', value: 1000 },
+  { label: '2,000+', value: 2000 },
+  { label: '5,000+', value: 5000 },
+  { label: '10,000+', value: 10000 },
+  { label: '20,000+', value: 20000 },
+  { label: '50,000+', value: 50000 },
+  { label: '100,000+', value: 100000 },
+]
+
+/**
+ * Get the follower range covered by a tier (upper bound is exclusive)
+ */
+export function getTierRange(tierValue: number): { min: number; max: number | null } {
+  const index = FOLLOWER_TIERS.findIndex(tier => tier.value === tierValue)
+  const next = index >= 0 ? FOLLOWER_TIERS[index + 1] : undefined
+  return { min: tierValue, max: next ? next.value : null }
+}
+
+/**
+ * Find the highest tier a follower count qualifies for
+ */
+export function getTierForFollowers(followers: number): FollowerTier | null {
+  let match: FollowerTier | null = null
+  for (const tier of FOLLOWER_TIERS) {
+    if (followers >= tier.value) {
+      match = tier
+    }
+  }
+  return match
+}
+
+export type ScalingCurve = 'linear' | 'geometric' | 'custom'
+
+export const SCALING_CURVES: ScalingCurve[] = ['linear', 'geometric', 'custom']
+
+/**
+ * Discount bounds and default curve factors per discount type.
+ * Linear adds `linearStep` per tier (coupons default to the base amount), geometric multiplies by `geometricRatio`.
+ */
+export const SCALING_RULES = {
+  percent: { min: 5, max: 100, increment: 5, linearStep: 10, geometricRatio: 1.5 },
+  coupon: { min: 1, max: 150, increment: 1, linearStep: null, geometricRatio: 2 },
+} as const
+
+export type DiscountKind = keyof typeof SCALING_RULES
+
+export interface LadderStep {
+  min_followers: number
+  discount_value: number
+  enabled: boolean
+}
+
+/**
+ * Snap a discount to the allowed range and increment for its type
+ */
+export function clampDiscount(discountType: DiscountKind, value: number) {
+  const rule = SCALING_RULES[discountType]
+  const snapped = Math.round(value / rule.increment) * rule.increment
+  return Math.min(rule.max, Math.max(rule.min, snapped))
+}
+
+/**
+ * Check a discount against the bounds used by the offer forms
+ */
+export function isValidDiscount(discountType: DiscountKind, value: number) {
+  const rule = SCALING_RULES[discountType]
+  return value >= rule.min && value <= rule.max && value % rule.increment === 0
+}
+
+/**
+ * Default factor for a curve: the per-tier step for linear, the ratio for geometric
+ */
+export function getDefaultCurveFactor(discountType: DiscountKind, curve: ScalingCurve, baseValue: number) {
+  const rule = SCALING_RULES[discountType]
+  if (curve === 'geometric') return rule.geometricRatio
+  return rule.linearStep ?? baseValue
+}
+
+/**
+ * Build a full ladder across FOLLOWER_TIERS starting at `baseTier`.
+ * Tiers below the base are disabled; `previous` carries over which tiers are switched on
+ * and, for custom curves, their hand-edited discounts.
+ */
+export function buildTierLadder(options: {
+  discountType: DiscountKind
+  baseTier: number
+  baseValue: number
+  curve: ScalingCurve
+  factor: number
+  previous?: LadderStep[]
+}): LadderStep[] {
+  const { discountType, baseTier, baseValue, curve, factor, previous } = options
+  const baseIndex = Math.max(0, FOLLOWER_TIERS.findIndex(tier => tier.value === baseTier))
+
+  return FOLLOWER_TIERS.map((tier, index) => {
+    const steps = index - baseIndex
+    const prior = previous?.find(step => step.min_followers === tier.value)
+
+    if (steps < 0) {
+      return { min_followers: tier.value, discount_value: prior?.discount_value ?? baseValue, enabled: false }
+    }
+
+    let value = baseValue
+    if (curve === 'custom' && prior) {
+      value = prior.discount_value
+    } else if (curve === 'linear') {
+      value = baseValue + steps * factor
+    } else if (curve === 'geometric') {
+      value = baseValue * Math.pow(factor, steps)
+    }
+
+    return {
+      min_followers: tier.value,
+      discount_value: steps === 0 ? baseValue : clampDiscount(discountType, value),
+      enabled: steps === 0 || (prior?.enabled ?? true),
+    }
+  })
+}
+
+/**
+ * Find the ladder step a student with the given follower count would be offered
+ */
+export function matchLadderStep(steps: LadderStep[], followers: number): LadderStep | null {
+  let match: LadderStep | null = null
+  for (const step of steps) {
+    if (step.enabled && followers >= step.min_followers) {
+      if (!match || step.min_followers > match.min_followers) {
+        match = step
+      }
+    }
+  }
+  return match
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { addDays, listDays } from './billing-periods'
+import { getDateKey } from './metrics'
+
+/**
+ * Daily redemptions per offer over a rolling window, for the dashboard trend chart.
+ * Days are calendar days in the merchant's time zone, today included.
+ */
+
+export const TREND_WINDOWS = [30, 90] as const
+export type TrendWindow = (typeof TREND_WINDOWS)[number]
+// Window the dashboard chart opens on
+export const DEFAULT_TREND_WINDOW: TrendWindow = TREND_WINDOWS[0]
+
+export interface OfferTrend {
+  offerId: number
+  title: string
+  total: number
+  /** One count per entry of OfferTrends.days */
+  daily: number[]
+}
+
+export interface OfferTrends {
+  days: string[]
+  /** Busiest offers first */
+  offers: OfferTrend[]
+}
+
+const TREND_BATCH_SIZE = 1000
+
+interface RawTrendRow {
+  redeemed_at: string
+  offer_claims:
+    | { offer_id: number; offers: { title: string } | { title: string }[] | null }
+    | Array<{ offer_id: number; offers: { title: string } | { title: string }[] | null }>
+}
+
+export async function fetchOfferTrends(
+  merchantId: number,
+  windowDays: TrendWindow,
+  timeZone?: string,
+  now = new Date(),
+  client: SupabaseClient = supabase
+): Promise<OfferTrends> {
+  const today = getDateKey(now, timeZone)
+  const days = listDays({ from: addDays(today, -(windowDays - 1)), to: today })
+  const dayIndex = new Map(days.map((day, index) => [day, index]))
+
+  // Padded by a day so the first local day is covered in any time zone
+  const since = new Date(`${addDays(days[0], -1)}T00:00:00Z`).toISOString()
+  const trends = new Map<number, OfferTrend>()
+
+  for (let offset = 0; ; offset += TREND_BATCH_SIZE) {
+    const { data, error } = await client
+      .from('redemptions')
+      .select('redeemed_at, offer_claims!inner(offer_id, offers!inner(merchant_id, title))')
+      .eq('offer_claims.offers.merchant_id', merchantId)
+      .gte('redeemed_at', since)
+      .order('redeemed_at', { ascending: true })
+      .range(offset, offset + TREND_BATCH_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    const batch = (data || []) as unknown as RawTrendRow[]
+
+    for (const row of batch) {
+      const claim = Array.isArray(row.offer_claims) ? row.offer_claims[0] : row.offer_claims
+      const index = dayIndex.get(getDateKey(new Date(row.redeemed_at), timeZone))
+      if (!claim || index === undefined) continue
+
+      const offer = Array.isArray(claim.offers) ? claim.offers[0] : claim.offers
+      let trend = trends.get(claim.offer_id)
+      if (!trend) {
+        trend = { offerId: claim.offer_id, title: offer?.title ?? '', total: 0, daily: days.map(() => 0) }
+        trends.set(claim.offer_id, trend)
+      }
+      trend.total += 1
+      trend.daily[index] += 1
+    }
+
+    if (batch.length < TREND_BATCH_SIZE) {
+      break
+    }
+  }
+
+  return {
+    days,
+    offers: Array.from(trends.values()).sort((a, b) => b.total - a.total),
+  }
+}
+
+/**
+ * Count a live redemption in the trends in place of a refetch
+ */
+export function addRedemptionToTrends(
+  trends: OfferTrends,
+  redemption: { redeemed_at: string; offer: { id: number; title: string } },
+  timeZone?: string
+): OfferTrends {
+  const index = trends.days.indexOf(getDateKey(new Date(redemption.redeemed_at), timeZone))
+  if (index === -1) return trends
+
+  const existing = trends.offers.find((trend) => trend.offerId === redemption.offer.id)
+  const base = existing ?? {
+    offerId: redemption.offer.id,
+    title: redemption.offer.title,
+    total: 0,
+    daily: trends.days.map(() => 0),
+  }
+  const updated = {
+    ...base,
+    total: base.total + 1,
+    daily: base.daily.map((count, dayIndex) => (dayIndex === index ? count + 1 : count)),
+  }
+
+  return {
+    ...trends,
+    offers: [...trends.offers.filter((trend) => trend.offerId !== updated.offerId), updated].sort(
+      (a, b) => b.total - a.total
+    ),
+  }
+}
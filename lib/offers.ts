@@ -0,0 +1,682 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { CursorPage, PageRequest, decodeCursor, encodeCursor, quoteFilterValue, toCursorPage } from './pagination'
+import { ScalingCurve, getTierRange } from './offer-tiers'
+import { OfferSchedule, normalizeSchedule } from './offer-schedule'
+
+export type DiscountType = 'percent' | 'coupon'
+
+export interface Offer {
+  id: number
+  merchant_id: number
+  title: string
+  description: string | null
+  discount_type: DiscountType
+  discount_value: number
+  min_followers: number
+  start_at: string | null
+  end_at: string | null
+  schedule: OfferSchedule | null
+  max_redemptions: number | null
+  max_redemptions_per_day: number | null
+  max_redemptions_per_student_week: number | null
+  is_active: boolean
+  /** Switched off by the monthly budget; turned back on when the budget allows it */
+  paused_by_budget: boolean
+  created_at: string
+  deleted: boolean
+  /** When the offer went to the trash; null while it is live */
+  deleted_at: string | null
+  family_id: number | null
+  /** Locations the offer is limited to; null means every location */
+  location_ids: number[] | null
+}
+
+/** Fields a merchant can set on an offer; ownership and lifecycle columns are managed here */
+export interface OfferInput {
+  title: string
+  description: string | null
+  discount_type: DiscountType
+  discount_value: number
+  min_followers: number
+  start_at: string | null
+  end_at: string | null
+  schedule: OfferSchedule | null
+  max_redemptions: number | null
+  max_redemptions_per_day: number | null
+  max_redemptions_per_student_week: number | null
+  is_active: boolean
+  location_ids: number[] | null
+}
+
+export type OfferSortField = 'title' | 'discount_value' | 'min_followers' | 'start_at' | 'end_at' | 'created_at'
+
+/** Where an offer's dates put it right now, ignoring its weekly schedule */
+export type OfferDateState = 'live' | 'upcoming' | 'expired'
+
+/** Search, filters and order for the offers list; unset filters match everything */
+export interface OfferListQuery {
+  /** Matched against title and description */
+  search?: string
+  isActive?: boolean | null
+  discountType?: DiscountType | null
+  /** A FOLLOWER_TIERS value: offers whose minimum falls within that tier */
+  tier?: number | null
+  dateState?: OfferDateState | null
+  /** Offers that apply at this location, including those for every location */
+  locationId?: number | null
+  sort?: OfferSortField
+  ascending?: boolean
+}
+
+/** Changes for one offer within a batch */
+export interface OfferUpdate {
+  id: number
+  changes: Partial<OfferInput>
+}
+
+/** A ladder of offers across follower tiers that are created and edited together */
+export interface OfferFamily {
+  id: number
+  merchant_id: number
+  name: string
+  discount_type: DiscountType
+  scaling_curve: ScalingCurve
+  curve_factor: number | null
+  created_at: string
+}
+
+export interface OfferFamilyInput {
+  name: string
+  discount_type: DiscountType
+  scaling_curve: ScalingCurve
+  curve_factor: number | null
+}
+
+/** Offer setup saved to prefill the offer forms; no scaling curve means a single offer */
+export interface OfferTemplateFields {
+  description: string | null
+  discount_type: DiscountType
+  discount_value: number
+  min_followers: number
+  scaling_curve: ScalingCurve | null
+  curve_factor: number | null
+  schedule: OfferSchedule | null
+  max_redemptions: number | null
+  max_redemptions_per_day: number | null
+  max_redemptions_per_student_week: number | null
+}
+
+export interface OfferTemplateInput extends OfferTemplateFields {
+  name: string
+}
+
+export interface OfferTemplate extends OfferTemplateInput {
+  id: number
+  merchant_id: number
+  created_at: string
+}
+
+export type OfferErrorCode = 'not_found' | 'forbidden' | 'invalid' | 'unknown'
+
+export class OfferError extends Error {
+  code: OfferErrorCode
+
+  constructor(code: OfferErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = 'OfferError'
+    this.code = code
+  }
+}
+
+const OFFER_COLUMNS =
+  'id, merchant_id, title, description, discount_type, discount_value, min_followers, start_at, end_at, schedule, ' +
+  'max_redemptions, max_redemptions_per_day, max_redemptions_per_student_week, is_active, paused_by_budget, created_at, deleted, deleted_at, family_id, ' +
+  'location_ids'
+
+const FAMILY_COLUMNS = 'id, merchant_id, name, discount_type, scaling_curve, curve_factor, created_at'
+
+const TEMPLATE_COLUMNS =
+  'id, merchant_id, name, description, discount_type, discount_value, min_followers, scaling_curve, curve_factor, schedule, ' +
+  'max_redemptions, max_redemptions_per_day, max_redemptions_per_student_week, created_at'
+
+/** Days a deleted offer stays in the trash before it is purged (see purge-trashed-offers in the schema) */
+export const OFFER_TRASH_RETENTION_DAYS = 30
+
+export const OFFERS_PAGE_SIZE = 25
+
+// Postgres / PostgREST error codes worth telling apart in the UI
+const FORBIDDEN_CODES = ['42501']
+const INVALID_CODES = ['22P02', '23502', '23514']
+// Raised by save_offer_family when the family or one of its offers is gone
+const NOT_FOUND_CODE = 'P0002'
+
+function toOfferError(error: PostgrestError, action: string): OfferError {
+  if (FORBIDDEN_CODES.includes(error.code)) {
+    return new OfferError('forbidden', `Not allowed to ${action} this offer`, { cause: error })
+  }
+  if (INVALID_CODES.includes(error.code)) {
+    return new OfferError('invalid', error.message, { cause: error })
+  }
+  return new OfferError('unknown', error.message, { cause: error })
+}
+
+const notFound = (offerId: number) => new OfferError('not_found', `Offer ${offerId} not found`)
+const familyNotFound = (familyId: number) => new OfferError('not_found', `Offer family ${familyId} not found`)
+const templateNotFound = (templateId: number) => new OfferError('not_found', `Offer template ${templateId} not found`)
+
+// Copy only writable fields so callers can't move an offer to another merchant or undelete it by accident
+function toOfferRow(input: Partial<OfferInput>) {
+  const row: Partial<OfferInput> & Pick<Partial<Offer>, 'paused_by_budget'> = {}
+  if (input.title !== undefined) row.title = input.title.trim()
+  if (input.description !== undefined) row.description = input.description || null
+  if (input.discount_type !== undefined) row.discount_type = input.discount_type
+  if (input.discount_value !== undefined) row.discount_value = input.discount_value
+  if (input.min_followers !== undefined) row.min_followers = input.min_followers
+  if (input.start_at !== undefined) row.start_at = input.start_at || null
+  if (input.end_at !== undefined) row.end_at = input.end_at || null
+  if (input.schedule !== undefined) row.schedule = normalizeSchedule(input.schedule)
+  if (input.max_redemptions !== undefined) row.max_redemptions = input.max_redemptions || null
+  if (input.max_redemptions_per_day !== undefined) row.max_redemptions_per_day = input.max_redemptions_per_day || null
+  if (input.max_redemptions_per_student_week !== undefined) {
+    row.max_redemptions_per_student_week = input.max_redemptions_per_student_week || null
+  }
+  if (input.is_active !== undefined) {
+    row.is_active = input.is_active
+    // Switched by hand, so the budget job must not pause or resume it on its own
+    row.paused_by_budget = false
+  }
+  if (input.location_ids !== undefined) {
+    row.location_ids = input.location_ids && input.location_ids.length > 0 ? Array.from(new Set(input.location_ids)) : null
+  }
+  return row
+}
+
+// Quoted for PostgREST's or() syntax, with LIKE wildcards taken literally
+const toIlikePattern = (search: string) =>
+  `"%${search.replace(/[\\%_]/g, (char) => `\\${char}`).replace(/"/g, '\\"')}%"`
+
+function buildOffersQuery(merchantId: number, query: OfferListQuery, now: Date, client: SupabaseClient = supabase) {
+  let request = client
+    .from('offers')
+    .select(OFFER_COLUMNS)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', false)
+
+  const search = query.search?.trim()
+  if (search) {
+    const pattern = toIlikePattern(search)
+    request = request.or(`title.ilike.${pattern},description.ilike.${pattern}`)
+  }
+  if (query.isActive !== undefined && query.isActive !== null) {
+    request = request.eq('is_active', query.isActive)
+  }
+  if (query.discountType) {
+    request = request.eq('discount_type', query.discountType)
+  }
+  if (query.locationId !== undefined && query.locationId !== null) {
+    request = request.or(`location_ids.is.null,location_ids.cs.{${query.locationId}}`)
+  }
+  if (query.tier !== undefined && query.tier !== null) {
+    const range = getTierRange(query.tier)
+    request = request.gte('min_followers', range.min)
+    if (range.max !== null) request = request.lt('min_followers', range.max)
+  }
+
+  // Same boundaries as getOfferLiveState: started at start_at, ended from end_at on
+  const nowIso = now.toISOString()
+  if (query.dateState === 'live') {
+    request = request.or(`start_at.is.null,start_at.lte.${nowIso}`).or(`end_at.is.null,end_at.gt.${nowIso}`)
+  } else if (query.dateState === 'upcoming') {
+    request = request.gt('start_at', nowIso)
+  } else if (query.dateState === 'expired') {
+    request = request.lte('end_at', nowIso)
+  }
+
+  return request
+}
+
+/**
+ * List the merchant's offers, highest follower tier first unless the query sorts otherwise
+ */
+export async function listOffers(merchantId: number, query: OfferListQuery = {}, now = new Date()): Promise<Offer[]> {
+  const { data, error } = await buildOffersQuery(merchantId, query, now)
+    .order(query.sort ?? 'min_followers', { ascending: query.ascending ?? false, nullsFirst: false })
+    .order('id', { ascending: true })
+
+  if (error) throw toOfferError(error, 'list')
+  return (data || []) as unknown as Offer[]
+}
+
+/**
+ * One page of listOffers. The cursor holds the last offer's sort value and id; offers
+ * without a value for the sort column (start or end date) come last, as in listOffers.
+ */
+export async function listOffersPage(
+  merchantId: number,
+  query: OfferListQuery,
+  { cursor, pageSize }: PageRequest,
+  now = new Date(),
+  client: SupabaseClient = supabase
+): Promise<CursorPage<Offer>> {
+  const sort = query.sort ?? 'min_followers'
+  const ascending = query.ascending ?? false
+  let request = buildOffersQuery(merchantId, query, now, client)
+
+  const after = decodeCursor(cursor)
+  if (after) {
+    const [value, id] = after
+    if (value === null) {
+      request = request.is(sort, null).gt('id', id)
+    } else {
+      const quoted = quoteFilterValue(value)
+      request = request.or(
+        `${sort}.${ascending ? 'gt' : 'lt'}.${quoted},and(${sort}.eq.${quoted},id.gt.${id}),${sort}.is.null`
+      )
+    }
+  }
+
+  const { data, error } = await request
+    .order(sort, { ascending, nullsFirst: false })
+    .order('id', { ascending: true })
+    .limit(pageSize + 1)
+
+  if (error) throw toOfferError(error, 'list')
+  return toCursorPage((data || []) as unknown as Offer[], pageSize, (offer) => encodeCursor([offer[sort], offer.id]))
+}
+
+/**
+ * List the offers that belong to a family, by family and lowest tier first.
+ * Family cards need whole ladders whatever the list's filters are.
+ */
+export async function listFamilyOffers(merchantId: number, client: SupabaseClient = supabase): Promise<Offer[]> {
+  const { data, error } = await client
+    .from('offers')
+    .select(OFFER_COLUMNS)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', false)
+    .not('family_id', 'is', null)
+    .order('family_id', { ascending: true })
+    .order('min_followers', { ascending: true })
+
+  if (error) throw toOfferError(error, 'list')
+  return (data || []) as unknown as Offer[]
+}
+
+/**
+ * Fetch a single offer owned by the merchant
+ */
+export async function getOffer(merchantId: number, offerId: number): Promise<Offer> {
+  const { data, error } = await supabase
+    .from('offers')
+    .select(OFFER_COLUMNS)
+    .eq('id', offerId)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', false)
+    .maybeSingle()
+
+  if (error) throw toOfferError(error, 'read')
+  if (!data) throw notFound(offerId)
+  return data as Offer
+}
+
+/**
+ * Create several offers for the merchant in one insert
+ */
+export async function createOffers(
+  merchantId: number,
+  inputs: OfferInput[],
+  options: { familyId?: number | null } = {}
+): Promise<Offer[]> {
+  if (inputs.length === 0) return []
+
+  const rows = inputs.map((input) => ({
+    ...toOfferRow(input),
+    merchant_id: merchantId,
+    family_id: options.familyId ?? null,
+  }))
+
+  const { data, error } = await supabase
+    .from('offers')
+    .insert(rows)
+    .select(OFFER_COLUMNS)
+
+  if (error) throw toOfferError(error, 'create')
+  return (data || []) as Offer[]
+}
+
+/**
+ * Create one offer for the merchant
+ */
+export async function createOffer(merchantId: number, input: OfferInput): Promise<Offer> {
+  const [offer] = await createOffers(merchantId, [input])
+  return offer
+}
+
+/**
+ * Update an offer owned by the merchant
+ */
+export async function updateOffer(
+  merchantId: number,
+  offerId: number,
+  changes: Partial<OfferInput>
+): Promise<Offer> {
+  const { data, error } = await supabase
+    .from('offers')
+    .update(toOfferRow(changes))
+    .eq('id', offerId)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', false)
+    .select(OFFER_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw toOfferError(error, 'update')
+  if (!data) throw notFound(offerId)
+  return data as Offer
+}
+
+/**
+ * Activate or deactivate an offer
+ */
+export async function setOfferActive(merchantId: number, offerId: number, isActive: boolean): Promise<Offer> {
+  return updateOffer(merchantId, offerId, { is_active: isActive })
+}
+
+async function setOfferDeleted(merchantId: number, offerId: number, deleted: boolean) {
+  const { error, count } = await supabase
+    .from('offers')
+    .update({ deleted }, { count: 'exact' })
+    .eq('id', offerId)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', !deleted)
+    .is('purged_at', null)
+
+  if (error) throw toOfferError(error, deleted ? 'delete' : 'restore')
+  if (!count) throw notFound(offerId)
+}
+
+/**
+ * Hide an offer from the merchant and students without removing its claims history
+ */
+export async function softDeleteOffer(merchantId: number, offerId: number): Promise<void> {
+  await setOfferDeleted(merchantId, offerId, true)
+}
+
+/**
+ * Bring back a soft-deleted offer
+ */
+export async function restoreOffer(merchantId: number, offerId: number): Promise<void> {
+  await setOfferDeleted(merchantId, offerId, false)
+}
+
+/**
+ * List the offers in the merchant's trash, most recently deleted first
+ */
+export async function listDeletedOffers(merchantId: number): Promise<Offer[]> {
+  const { data, error } = await supabase
+    .from('offers')
+    .select(OFFER_COLUMNS)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', true)
+    .is('purged_at', null)
+    .order('deleted_at', { ascending: false })
+
+  if (error) throw toOfferError(error, 'list')
+  return (data || []) as Offer[]
+}
+
+/**
+ * Permanently remove offers from the trash. Offers with claims keep their row for
+ * billing history but can no longer be restored. Returns how many were purged.
+ */
+export async function purgeOffers(merchantId: number, offerIds: number[]): Promise<number> {
+  if (offerIds.length === 0) return 0
+
+  // purge_offers runs under the caller's RLS; the merchant filter keeps the ids honest
+  const { data: owned, error: lookupError } = await supabase
+    .from('offers')
+    .select('id')
+    .in('id', offerIds)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', true)
+
+  if (lookupError) throw toOfferError(lookupError, 'purge')
+  const ownedIds = ((owned || []) as Array<{ id: number }>).map((row) => row.id)
+  if (ownedIds.length === 0) return 0
+
+  const { data, error } = await supabase.rpc('purge_offers', { p_offer_ids: ownedIds })
+
+  if (error) throw toOfferError(error, 'purge')
+  return Number(data) || 0
+}
+
+/**
+ * When a trashed offer will be purged automatically
+ */
+export function getOfferPurgeDate(offer: Pick<Offer, 'deleted_at'>): Date | null {
+  if (!offer.deleted_at) return null
+  const purgeAt = new Date(offer.deleted_at)
+  purgeAt.setDate(purgeAt.getDate() + OFFER_TRASH_RETENTION_DAYS)
+  return purgeAt
+}
+
+/**
+ * Apply a batch of offer updates. Offers receiving identical changes share a single
+ * request, so "activate 20 offers" is one update and a discount delta one per resulting value.
+ */
+export async function updateOffersBatch(merchantId: number, updates: OfferUpdate[]): Promise<Offer[]> {
+  const groups = new Map<string, { row: Partial<OfferInput>; ids: number[] }>()
+
+  for (const update of updates) {
+    const row = toOfferRow(update.changes)
+    const key = JSON.stringify(row)
+    const group = groups.get(key)
+    if (group) {
+      group.ids.push(update.id)
+    } else {
+      groups.set(key, { row, ids: [update.id] })
+    }
+  }
+
+  const results = await Promise.all(
+    Array.from(groups.values()).map(async ({ row, ids }) => {
+      const { data, error } = await supabase
+        .from('offers')
+        .update(row)
+        .in('id', ids)
+        .eq('merchant_id', merchantId)
+        .eq('deleted', false)
+        .select(OFFER_COLUMNS)
+
+      if (error) throw toOfferError(error, 'update')
+      return (data || []) as Offer[]
+    })
+  )
+
+  return results.flat()
+}
+
+async function setOffersDeleted(merchantId: number, offerIds: number[], deleted: boolean) {
+  const { error } = await supabase
+    .from('offers')
+    .update({ deleted })
+    .in('id', offerIds)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', !deleted)
+    .is('purged_at', null)
+
+  if (error) throw toOfferError(error, deleted ? 'delete' : 'restore')
+}
+
+/**
+ * Soft-delete several offers in one request
+ */
+export async function softDeleteOffers(merchantId: number, offerIds: number[]): Promise<void> {
+  if (offerIds.length === 0) return
+  await setOffersDeleted(merchantId, offerIds, true)
+}
+
+/**
+ * Bring back several soft-deleted offers in one request
+ */
+export async function restoreOffers(merchantId: number, offerIds: number[]): Promise<void> {
+  if (offerIds.length === 0) return
+  await setOffersDeleted(merchantId, offerIds, false)
+}
+
+/**
+ * Activate or deactivate every offer in a family
+ */
+export async function setOfferFamilyActive(merchantId: number, familyId: number, isActive: boolean): Promise<Offer[]> {
+  const { data, error } = await supabase
+    .from('offers')
+    .update({ is_active: isActive, paused_by_budget: false })
+    .eq('family_id', familyId)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', false)
+    .select(OFFER_COLUMNS)
+
+  if (error) throw toOfferError(error, 'update')
+  return (data || []) as Offer[]
+}
+
+/**
+ * Soft-delete every offer in a family; the family row stays for history
+ */
+export async function softDeleteOfferFamily(merchantId: number, familyId: number): Promise<void> {
+  const { error, count } = await supabase
+    .from('offers')
+    .update({ deleted: true }, { count: 'exact' })
+    .eq('family_id', familyId)
+    .eq('merchant_id', merchantId)
+    .eq('deleted', false)
+
+  if (error) throw toOfferError(error, 'delete')
+  if (!count) throw familyNotFound(familyId)
+}
+
+/**
+ * List the merchant's offer families
+ */
+export async function listOfferFamilies(merchantId: number, client: SupabaseClient = supabase): Promise<OfferFamily[]> {
+  const { data, error } = await client
+    .from('offer_families')
+    .select(FAMILY_COLUMNS)
+    .eq('merchant_id', merchantId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw toOfferError(error, 'list')
+  return (data || []) as OfferFamily[]
+}
+
+/**
+ * Create a family and its tier offers
+ */
+export async function createOfferFamily(
+  merchantId: number,
+  family: OfferFamilyInput,
+  tiers: OfferInput[]
+): Promise<{ family: OfferFamily; offers: Offer[] }> {
+  const { data, error } = await supabase
+    .from('offer_families')
+    .insert({ ...family, name: family.name.trim(), merchant_id: merchantId })
+    .select(FAMILY_COLUMNS)
+    .single()
+
+  if (error) throw toOfferError(error, 'create')
+
+  try {
+    const offers = await createOffers(merchantId, tiers, { familyId: data.id })
+    return { family: data as OfferFamily, offers }
+  } catch (offersError) {
+    // Don't leave an empty family behind if the tier insert was rejected
+    await supabase.from('offer_families').delete().eq('id', data.id).eq('merchant_id', merchantId)
+    throw offersError
+  }
+}
+
+/**
+ * Save an edited ladder in one transaction (save_offer_family): tiers are matched to existing
+ * offers by follower threshold, new tiers are inserted and tiers no longer in the ladder are
+ * soft-deleted. A failure leaves the family and every tier as they were.
+ */
+export async function saveOfferFamily(
+  merchantId: number,
+  familyId: number,
+  family: OfferFamilyInput,
+  tiers: OfferInput[]
+): Promise<{ family: OfferFamily; offers: Offer[] }> {
+  const { data, error } = await supabase.rpc('save_offer_family', {
+    p_merchant_id: merchantId,
+    p_family_id: familyId,
+    p_family: { ...family, name: family.name.trim() },
+    p_tiers: tiers.map(toOfferRow),
+  })
+
+  if (error) {
+    if (error.code === NOT_FOUND_CODE) throw familyNotFound(familyId)
+    throw toOfferError(error, 'update')
+  }
+  return data as { family: OfferFamily; offers: Offer[] }
+}
+
+/**
+ * List the merchant's saved offer templates, newest first
+ */
+export async function listOfferTemplates(merchantId: number): Promise<OfferTemplate[]> {
+  const { data, error } = await supabase
+    .from('offer_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('merchant_id', merchantId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw toOfferError(error, 'list')
+  return (data || []) as OfferTemplate[]
+}
+
+/**
+ * Save an offer setup as a template for the merchant
+ */
+export async function createOfferTemplate(merchantId: number, input: OfferTemplateInput): Promise<OfferTemplate> {
+  const { data, error } = await supabase
+    .from('offer_templates')
+    .insert({
+      ...input,
+      name: input.name.trim(),
+      description: input.description || null,
+      schedule: normalizeSchedule(input.schedule),
+      curve_factor: input.scaling_curve ? input.curve_factor : null,
+      merchant_id: merchantId,
+    })
+    .select(TEMPLATE_COLUMNS)
+    .single()
+
+  if (error) throw toOfferError(error, 'create')
+  return data as OfferTemplate
+}
+
+/**
+ * Remove a saved template; offers created from it are not affected
+ */
+export async function deleteOfferTemplate(merchantId: number, templateId: number): Promise<void> {
+  const { error, count } = await supabase
+    .from('offer_templates')
+    .delete({ count: 'exact' })
+    .eq('id', templateId)
+    .eq('merchant_id', merchantId)
+
+  if (error) throw toOfferError(error, 'delete')
+  if (!count) throw templateNotFound(templateId)
+}
+
+/**
+ * Translation key for an offer error, falling back to the action's generic message
+ */
+export function getOfferErrorKey(error: unknown, fallbackKey: string): string {
+  if (error instanceof OfferError) {
+    if (error.code === 'not_found') return 'offers.errorNotFound'
+    if (error.code === 'forbidden') return 'offers.errorForbidden'
+    if (error.code === 'invalid') return 'offers.errorInvalid'
+  }
+  return fallbackKey
+}
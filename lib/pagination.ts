@@ -0,0 +1,157 @@
+import { useCallback, useMemo, useRef, useState } from 'react'
+
+/**
+ * Cursor (keyset) pagination: a page ends with an opaque cursor naming the last row's
+ * sort key, and the next page starts strictly after it. Unlike offsets, pages stay
+ * stable while rows are added or removed and deep pages cost the same as the first.
+ */
+
+/** Opaque position after the last row of a page */
+export type PageCursor = string
+
+export interface CursorPage<T> {
+  rows: T[]
+  /** Null once the last row has been read */
+  nextCursor: PageCursor | null
+}
+
+export interface PageRequest {
+  cursor?: PageCursor | null
+  pageSize: number
+}
+
+type CursorValue = string | number | null
+
+export function encodeCursor(values: CursorValue[]): PageCursor {
+  return btoa(encodeURIComponent(JSON.stringify(values)))
+}
+
+/**
+ * Decode a cursor, or null when it is malformed (e.g. edited by hand)
+ */
+export function decodeCursor(cursor: PageCursor | null | undefined): CursorValue[] | null {
+  if (!cursor) return null
+  try {
+    const values = JSON.parse(decodeURIComponent(atob(cursor)))
+    return Array.isArray(values) ? values : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Quote a value for PostgREST's or()/and() filter syntax
+ */
+export function quoteFilterValue(value: string | number) {
+  return typeof value === 'number' ? String(value) : `"${value.replace(/["\\]/g, (char) => `\\${char}`)}"`
+}
+
+/**
+ * Read one more row than asked for to learn whether another page follows
+ */
+export function toCursorPage<T>(rows: T[], pageSize: number, getCursor: (row: T) => PageCursor): CursorPage<T> {
+  if (rows.length <= pageSize) {
+    return { rows, nextCursor: null }
+  }
+  const page = rows.slice(0, pageSize)
+  return { rows: page, nextCursor: getCursor(page[page.length - 1]) }
+}
+
+/**
+ * Rows loaded page by page from a cursor-paginated source. Desktop tables show one
+ * page at a time (`visibleRows`); mobile lists show every loaded row and call
+ * `loadMore` as the user scrolls. Loaders resolve to the rows they fetched, or null when
+ * there was nothing to fetch or the response was stale, and reject on error.
+ * `initialPage` seeds the first page when it was already loaded on the server.
+ */
+export function useCursorPagination<T>(
+  fetchPage: (request: PageRequest) => Promise<CursorPage<T>>,
+  pageSize: number,
+  initialPage?: CursorPage<T> | null
+) {
+  const [rows, setRows] = useState<T[]>(initialPage?.rows ?? [])
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(initialPage?.nextCursor ?? null)
+  const [page, setPage] = useState(0)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // Responses from before a reset (e.g. a filter change) are dropped
+  const requestRef = useRef(0)
+
+  const load = useCallback(
+    async (size: number, keepPage: boolean) => {
+      const request = ++requestRef.current
+      const result = await fetchPage({ pageSize: size })
+      if (request !== requestRef.current) return null
+
+      setRows(result.rows)
+      setNextCursor(result.nextCursor)
+      if (!keepPage) setPage(0)
+      return result.rows
+    },
+    [fetchPage]
+  )
+
+  /** Start over from the first page */
+  const reset = useCallback(() => load(pageSize, false), [load, pageSize])
+
+  /** Refetch everything loaded so far, keeping the current page */
+  const reload = useCallback(
+    () => load(Math.max(pageSize, Math.ceil(rows.length / pageSize) * pageSize), true),
+    [load, pageSize, rows.length]
+  )
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return null
+    const request = requestRef.current
+    try {
+      setLoadingMore(true)
+      const result = await fetchPage({ cursor: nextCursor, pageSize })
+      if (request !== requestRef.current) return null
+
+      setRows((prev) => [...prev, ...result.rows])
+      setNextCursor(result.nextCursor)
+      return result.rows
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [fetchPage, nextCursor, loadingMore, pageSize])
+
+  // Deletions can leave the current page empty; fall back to the last one with rows
+  const lastLoadedPage = Math.max(0, Math.ceil(rows.length / pageSize) - 1)
+  const currentPage = Math.min(page, lastLoadedPage)
+  const hasNextPage = (currentPage + 1) * pageSize < rows.length || nextCursor !== null
+
+  const nextPage = useCallback(async () => {
+    let loaded: T[] | null = null
+    if ((currentPage + 1) * pageSize >= rows.length) {
+      if (!nextCursor) return null
+      loaded = await loadMore()
+      if (!loaded) return null
+    }
+    setPage(currentPage + 1)
+    return loaded
+  }, [currentPage, pageSize, rows.length, nextCursor, loadMore])
+
+  const previousPage = useCallback(() => {
+    setPage(Math.max(0, currentPage - 1))
+  }, [currentPage])
+
+  const visibleRows = useMemo(
+    () => rows.slice(currentPage * pageSize, (currentPage + 1) * pageSize),
+    [rows, currentPage, pageSize]
+  )
+
+  return {
+    rows,
+    setRows,
+    visibleRows,
+    page: currentPage,
+    hasMore: nextCursor !== null,
+    hasNextPage,
+    loadingMore,
+    reset,
+    reload,
+    loadMore,
+    nextPage,
+    previousPage,
+  }
+}
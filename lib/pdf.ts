@@ -0,0 +1,160 @@
+/**
+ * Minimal PDF writer for generated documents (invoices): one or more A4 pages
+ * with text in the standard Helvetica fonts, lines and filled rectangles.
+ * Text is encoded as WinAnsi, which covers the characters of our four languages.
+ */
+
+export const A4_WIDTH = 595
+export const A4_HEIGHT = 842
+
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  align?: 'left' | 'right'
+  color?: PdfColor
+}
+
+export interface PdfPage {
+  /** Draw text with its baseline at y, measured from the top of the page */
+  text: (x: number, y: number, value: string, options?: PdfTextOptions) => void
+  line: (x1: number, y1: number, x2: number, y2: number, options?: { width?: number; color?: PdfColor }) => void
+  rect: (x: number, y: number, width: number, height: number, fill: PdfColor) => void
+}
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126; other characters use an average width
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+]
+const DEFAULT_WIDTH = 556
+// Bold glyphs run slightly wider; close enough for right-aligned figures
+const BOLD_FACTOR = 1.06
+
+// Characters whose WinAnsi code differs from their Unicode code point
+const WIN_ANSI_OVERRIDES: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '→': 0x3e,
+}
+
+const toWinAnsi = (char: string) => {
+  if (char in WIN_ANSI_OVERRIDES) return WIN_ANSI_OVERRIDES[char]
+  const code = char.codePointAt(0) ?? 0x3f
+  // Intl formatters use narrow no-break spaces as group separators
+  if (code === 0x202f || code === 0x2009) return 0x20
+  return code <= 0xff ? code : 0x3f
+}
+
+const escapeText = (value: string) =>
+  Array.from(value)
+    .map((char) => {
+      const code = toWinAnsi(char)
+      if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`
+      if (code < 0x20 || code > 0x7e) return `\\${code.toString(8).padStart(3, '0')}`
+      return String.fromCharCode(code)
+    })
+    .join('')
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString()
+const formatColor = (color: PdfColor) => color.map((channel) => formatNumber(channel / 255)).join(' ')
+
+/**
+ * Width of a string in points for the given font size
+ */
+export function measureText(value: string, size: number, bold = false) {
+  const units = Array.from(value).reduce((sum, char) => {
+    const code = char.charCodeAt(0)
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH)
+  }, 0)
+  return (units * size * (bold ? BOLD_FACTOR : 1)) / 1000
+}
+
+/**
+ * Lay out pages with `draw` callbacks and serialise them to PDF bytes
+ */
+export function renderPdf(pages: Array<(page: PdfPage) => void>, info: { title?: string } = {}): Uint8Array {
+  const contents = pages.map((draw) => {
+    const ops: string[] = []
+
+    draw({
+      text: (x, y, value, options = {}) => {
+        const size = options.size ?? 10
+        const left = options.align === 'right' ? x - measureText(value, size, options.bold) : x
+        ops.push(
+          'BT',
+          `${formatColor(options.color ?? [17, 24, 39])} rg`,
+          `/${options.bold ? 'F2' : 'F1'} ${size} Tf`,
+          `${formatNumber(left)} ${formatNumber(A4_HEIGHT - y)} Td`,
+          `(${escapeText(value)}) Tj`,
+          'ET'
+        )
+      },
+      line: (x1, y1, x2, y2, options = {}) => {
+        ops.push(
+          `${formatColor(options.color ?? [229, 231, 235])} RG`,
+          `${formatNumber(options.width ?? 1)} w`,
+          `${formatNumber(x1)} ${formatNumber(A4_HEIGHT - y1)} m`,
+          `${formatNumber(x2)} ${formatNumber(A4_HEIGHT - y2)} l`,
+          'S'
+        )
+      },
+      rect: (x, y, width, height, fill) => {
+        ops.push(
+          `${formatColor(fill)} rg`,
+          `${formatNumber(x)} ${formatNumber(A4_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`,
+          'f'
+        )
+      },
+    })
+
+    return ops.join('\n')
+  })
+
+  // Objects: 1 catalog, 2 page tree, 3–4 fonts, 5 info, then a page and a content stream per page
+  const firstPageObject = 6
+  const pageObjects = pages.map((_, index) => firstPageObject + index * 2)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageObjects.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Producer (Ovio Merchant)${info.title ? ` /Title (${escapeText(info.title)})` : ''} >>`,
+  ]
+
+  contents.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjects[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  // Everything above is ASCII, so string offsets are byte offsets
+  let output = '%PDF-1.4\n'
+  const offsets = objects.map((body, index) => {
+    const offset = output.length
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return new TextEncoder().encode(output)
+}
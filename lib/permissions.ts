@@ -0,0 +1,65 @@
+/**
+ * What each staff role may do, and which permission each dashboard page needs. Kept apart
+ * from lib/team.ts, which talks to Supabase, so middleware.js can check routes too.
+ */
+
+export type MerchantRole = 'owner' | 'manager' | 'cashier'
+
+export const MERCHANT_ROLES: MerchantRole[] = ['owner', 'manager', 'cashier']
+
+export type MerchantPermission =
+  | 'validate_redemptions'
+  | 'view_redemptions'
+  | 'manage_offers'
+  | 'manage_locations'
+  | 'view_analytics'
+  | 'view_billing'
+  | 'manage_profile'
+  | 'manage_team'
+
+const ROLE_PERMISSIONS: Record<MerchantRole, MerchantPermission[]> = {
+  owner: [
+    'validate_redemptions',
+    'view_redemptions',
+    'manage_offers',
+    'manage_locations',
+    'view_analytics',
+    'view_billing',
+    'manage_profile',
+    'manage_team',
+  ],
+  manager: ['validate_redemptions', 'view_redemptions', 'manage_offers', 'manage_locations', 'view_analytics'],
+  cashier: ['validate_redemptions'],
+}
+
+// Matched in order, so '/dashboard' comes last; the dashboard home shows offer and redemption stats
+const ROUTE_PERMISSIONS: [string, MerchantPermission][] = [
+  ['/dashboard/scan', 'validate_redemptions'],
+  ['/dashboard/redemptions', 'view_redemptions'],
+  ['/dashboard/offers', 'manage_offers'],
+  ['/dashboard/locations', 'manage_locations'],
+  ['/dashboard/analytics', 'view_analytics'],
+  ['/dashboard/billing', 'view_billing'],
+  ['/dashboard/profile', 'manage_profile'],
+  ['/dashboard/team', 'manage_team'],
+  ['/dashboard', 'view_redemptions'],
+]
+
+export function hasPermission(role: MerchantRole | null | undefined, permission: MerchantPermission) {
+  return Boolean(role && ROLE_PERMISSIONS[role].includes(permission))
+}
+
+/**
+ * Permission needed to open a dashboard page, or null for pages outside the dashboard
+ */
+export function getRoutePermission(pathname: string): MerchantPermission | null {
+  const match = ROUTE_PERMISSIONS.find(([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+  return match ? match[1] : null
+}
+
+/**
+ * Where a member lands after signing in: the dashboard, or the scanner for cashiers
+ */
+export function getHomePath(role: MerchantRole | null | undefined) {
+  return hasPermission(role, 'view_redemptions') ? '/dashboard' : '/dashboard/scan'
+}
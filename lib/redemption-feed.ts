@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react'
+import { supabase } from './supabase'
+import { RedemptionLedgerRow, fetchRedemptionById } from './redemptions'
+
+interface RedemptionInsertPayload {
+  new: {
+    id?: number
+  }
+}
+
+/**
+ * Subscribe to new redemptions on the merchant's offers.
+ * Realtime inserts only carry the claim id, so each one is re-read through the
+ * ledger query to scope it to the merchant and to get the student and offer.
+ */
+export function useRedemptionFeed(
+  merchantId: number | null | undefined,
+  onRedemption: (row: RedemptionLedgerRow) => void
+) {
+  const callbackRef = useRef(onRedemption)
+
+  useEffect(() => {
+    callbackRef.current = onRedemption
+  }, [onRedemption])
+
+  useEffect(() => {
+    if (!merchantId) return
+
+    let isMounted = true
+    const seen = new Set<number>()
+
+    const channel = supabase
+      .channel(`merchant-redemptions-${merchantId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'redemptions' },
+        (payload: RedemptionInsertPayload) => {
+          const redemptionId = payload.new?.id
+          if (!redemptionId || seen.has(redemptionId)) return
+          seen.add(redemptionId)
+
+          fetchRedemptionById(merchantId, redemptionId)
+            .then((row) => {
+              if (row && isMounted) {
+                callbackRef.current(row)
+              }
+            })
+            .catch((error) => {
+              console.error('Error loading realtime redemption:', error)
+            })
+        }
+      )
+      .subscribe((status: string) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.warn('Redemption feed subscription status:', status)
+        }
+      })
+
+    return () => {
+      isMounted = false
+      supabase.removeChannel(channel)
+    }
+  }, [merchantId])
+}
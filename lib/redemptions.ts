@@ -0,0 +1,555 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { CursorPage, PageRequest, decodeCursor, encodeCursor, quoteFilterValue, toCursorPage } from './pagination'
+import { getTierRange } from './offer-tiers'
+import type { Offer } from './offers'
+import { getOfferLiveState } from './offer-schedule'
+import { isOfferAtLocation } from './locations'
+import {
+  EMPTY_USAGE,
+  OfferCapKind,
+  OfferUsage,
+  countStudentWeeklyRedemptions,
+  fetchOfferUsage,
+  getReachedCaps,
+  hasCaps,
+} from './offer-caps'
+
+export const LEDGER_PAGE_SIZE = 25
+// Latest redemptions on the dashboard
+export const ACTIVITY_FEED_SIZE = 8
+
+export interface RedemptionLedgerFilters {
+  offerId?: number | null
+  tier?: number | null
+  from?: string | null
+  to?: string | null
+  locationId?: number | null
+}
+
+export interface RedemptionLedgerRow {
+  id: number
+  redeemed_at: string
+  redeemed_by_email: string | null
+  /** Null for redemptions recorded before the merchant had locations */
+  location_id: number | null
+  claim: {
+    id: number
+    status: string
+    qr_code: string | null
+    created_at: string
+  }
+  offer: Pick<Offer, 'id' | 'title' | 'discount_type' | 'discount_value' | 'min_followers'>
+  student: {
+    id: number
+    email: string | null
+    instagram_handle: string | null
+    followers_count: number | null
+    verified_followers_count: number | null
+  } | null
+}
+
+const LEDGER_SELECT = `
+  id,
+  redeemed_at,
+  location_id,
+  redeemed_by:users!redemptions_redeemed_by_user_id_fkey(email),
+  offer_claims!inner(
+    id,
+    status,
+    qr_code,
+    created_at,
+    student:users!offer_claims_student_id_fkey(
+      id,
+      email,
+      student_profiles(instagram_handle, followers_count, verified_followers_count)
+    ),
+    offers!inner(id, merchant_id, title, discount_type, discount_value, min_followers)
+  )
+`
+
+// PostgREST returns embedded relations as objects or single-item arrays depending on the FK
+const pickOne = <T>(value: T | T[] | null | undefined): T | null => {
+  if (Array.isArray(value)) return value[0] ?? null
+  return value ?? null
+}
+
+// Date inputs give local calendar days; convert them to timestamp bounds
+const startOfDayIso = (day: string) => new Date(`${day}T00:00:00`).toISOString()
+const startOfNextDayIso = (day: string) => {
+  const date = new Date(`${day}T00:00:00`)
+  date.setDate(date.getDate() + 1)
+  return date.toISOString()
+}
+
+type OneOrMany<T> = T | T[] | null
+
+interface RawStudent {
+  id: number
+  email: string | null
+  student_profiles: OneOrMany<{
+    instagram_handle: string | null
+    followers_count: number | null
+    verified_followers_count: number | null
+  }>
+}
+
+interface RawLedgerRow {
+  id: number
+  redeemed_at: string
+  location_id: number | null
+  redeemed_by: OneOrMany<{ email: string | null }>
+  offer_claims: OneOrMany<{
+    id: number
+    status: string
+    qr_code: string | null
+    created_at: string
+    student: OneOrMany<RawStudent>
+    offers: OneOrMany<RedemptionLedgerRow['offer']>
+  }>
+}
+
+function mapStudent(student: RawStudent | null): RedemptionLedgerRow['student'] {
+  if (!student) return null
+  const profile = pickOne(student.student_profiles)
+  return {
+    id: student.id,
+    email: student.email ?? null,
+    instagram_handle: profile?.instagram_handle ?? null,
+    followers_count: profile?.followers_count ?? null,
+    verified_followers_count: profile?.verified_followers_count ?? null,
+  }
+}
+
+function mapLedgerRow(row: RawLedgerRow): RedemptionLedgerRow {
+  const claim = pickOne(row.offer_claims)
+  const offer = pickOne(claim?.offers)
+  const student = pickOne(claim?.student)
+  const redeemedBy = pickOne(row.redeemed_by)
+
+  return {
+    id: row.id,
+    redeemed_at: row.redeemed_at,
+    redeemed_by_email: redeemedBy?.email ?? null,
+    location_id: row.location_id ?? null,
+    claim: {
+      id: claim?.id ?? 0,
+      status: claim?.status ?? '',
+      qr_code: claim?.qr_code ?? null,
+      created_at: claim?.created_at ?? row.redeemed_at,
+    },
+    offer: {
+      id: offer?.id ?? 0,
+      title: offer?.title ?? '',
+      discount_type: offer?.discount_type ?? 'percent',
+      discount_value: offer?.discount_value ?? 0,
+      min_followers: offer?.min_followers ?? 0,
+    },
+    student: mapStudent(student),
+  }
+}
+
+/**
+ * Fetch one page of the merchant's redemption ledger, newest first.
+ * The cursor holds the last row's redeemed_at and id.
+ */
+export async function fetchRedemptionLedger(
+  merchantId: number,
+  filters: RedemptionLedgerFilters = {},
+  { cursor, pageSize }: PageRequest = { pageSize: LEDGER_PAGE_SIZE },
+  client: SupabaseClient = supabase
+): Promise<CursorPage<RedemptionLedgerRow>> {
+  let query = client
+    .from('redemptions')
+    .select(LEDGER_SELECT)
+    .eq('offer_claims.offers.merchant_id', merchantId)
+
+  if (filters.offerId) {
+    query = query.eq('offer_claims.offers.id', filters.offerId)
+  }
+
+  if (filters.tier) {
+    const { min, max } = getTierRange(filters.tier)
+    query = query.gte('offer_claims.offers.min_followers', min)
+    if (max !== null) {
+      query = query.lt('offer_claims.offers.min_followers', max)
+    }
+  }
+
+  if (filters.from) {
+    query = query.gte('redeemed_at', startOfDayIso(filters.from))
+  }
+
+  if (filters.to) {
+    query = query.lt('redeemed_at', startOfNextDayIso(filters.to))
+  }
+
+  if (filters.locationId) {
+    query = query.eq('location_id', filters.locationId)
+  }
+
+  const after = decodeCursor(cursor)
+  if (after) {
+    const [redeemedAt, id] = after
+    const quoted = quoteFilterValue(String(redeemedAt))
+    query = query.or(`redeemed_at.lt.${quoted},and(redeemed_at.eq.${quoted},id.lt.${id})`)
+  }
+
+  const { data, error } = await query
+    .order('redeemed_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize + 1)
+
+  if (error) {
+    throw error
+  }
+
+  const rows = ((data || []) as unknown as RawLedgerRow[]).map(mapLedgerRow)
+  return toCursorPage(rows, pageSize, (row) => encodeCursor([row.redeemed_at, row.id]))
+}
+
+/**
+ * Fetch a single ledger row, or null if it does not belong to the merchant
+ */
+export async function fetchRedemptionById(merchantId: number, redemptionId: number): Promise<RedemptionLedgerRow | null> {
+  const { data, error } = await supabase
+    .from('redemptions')
+    .select(LEDGER_SELECT)
+    .eq('id', redemptionId)
+    .eq('offer_claims.offers.merchant_id', merchantId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data ? mapLedgerRow(data as unknown as RawLedgerRow) : null
+}
+
+// PostgREST caps responses at 1000 rows, so full ranges are read in batches
+const LEDGER_BATCH_SIZE = 1000
+
+/**
+ * Fetch every ledger row redeemed between two timestamps (until excluded), oldest first
+ */
+export async function fetchRedemptionLedgerRange(
+  merchantId: number,
+  since: string,
+  until: string
+): Promise<RedemptionLedgerRow[]> {
+  const rows: RedemptionLedgerRow[] = []
+
+  for (let offset = 0; ; offset += LEDGER_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('redemptions')
+      .select(LEDGER_SELECT)
+      .eq('offer_claims.offers.merchant_id', merchantId)
+      .gte('redeemed_at', since)
+      .lt('redeemed_at', until)
+      .order('redeemed_at', { ascending: true })
+      // Redemptions can share a timestamp; the id keeps pages from skipping or repeating rows
+      .order('id', { ascending: true })
+      .range(offset, offset + LEDGER_BATCH_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    const batch = (data || []) as unknown as RawLedgerRow[]
+    rows.push(...batch.map(mapLedgerRow))
+
+    if (batch.length < LEDGER_BATCH_SIZE) {
+      return rows
+    }
+  }
+}
+
+export type ClaimIneligibilityReason =
+  | 'offer_inactive'
+  | 'offer_not_started'
+  | 'offer_ended'
+  | 'outside_schedule'
+  | 'qr_expired'
+  | 'claim_closed'
+  | 'insufficient_followers'
+  | 'already_redeemed'
+  | 'cap_total'
+  | 'cap_daily'
+  | 'cap_student_weekly'
+  | 'wrong_location'
+
+/** Reasons the database refuses a redemption for an offer that isn't live or a claim that can't be redeemed */
+export type OfferUnavailableReason = Extract<
+  ClaimIneligibilityReason,
+  | 'offer_inactive'
+  | 'offer_not_started'
+  | 'offer_ended'
+  | 'outside_schedule'
+  | 'qr_expired'
+  | 'claim_closed'
+  | 'insufficient_followers'
+>
+
+export interface ClaimLookup {
+  claim: {
+    id: number
+    status: string
+    qr_code: string | null
+    qr_expires_at: string | null
+    created_at: string
+  }
+  offer: RedemptionLedgerRow['offer'] &
+    Pick<
+      Offer,
+      | 'is_active'
+      | 'deleted'
+      | 'start_at'
+      | 'end_at'
+      | 'schedule'
+      | 'max_redemptions'
+      | 'max_redemptions_per_day'
+      | 'max_redemptions_per_student_week'
+      | 'location_ids'
+    >
+  student: RedemptionLedgerRow['student']
+  redemption: { id: number; redeemed_at: string } | null
+  /** Redemptions counted against the offer's caps; zero when the offer has none */
+  usage: OfferUsage & { studentWeek: number }
+}
+
+export interface ClaimEligibility {
+  eligible: boolean
+  reasons: ClaimIneligibilityReason[]
+}
+
+export type RedeemClaimResult =
+  | { status: 'redeemed'; redemption: { id: number; redeemed_at: string } }
+  | { status: 'already_redeemed' }
+  | { status: 'cap_reached'; cap: OfferCapKind }
+  | { status: 'wrong_location' }
+  | { status: 'offer_unavailable'; reason: OfferUnavailableReason }
+
+const CLAIM_LOOKUP_SELECT = `
+  id,
+  status,
+  qr_code,
+  qr_expires_at,
+  created_at,
+  student:users!offer_claims_student_id_fkey(
+    id,
+    email,
+    student_profiles(instagram_handle, followers_count, verified_followers_count)
+  ),
+  offers!inner(
+    id, merchant_id, title, discount_type, discount_value, min_followers, is_active, deleted, start_at, end_at, schedule,
+    max_redemptions, max_redemptions_per_day, max_redemptions_per_student_week, location_ids
+  ),
+  redemptions(id, redeemed_at)
+`
+
+// Postgres unique_violation: redemptions.claim_id is unique
+const UNIQUE_VIOLATION = '23505'
+// Raised by the enforce_offer_caps trigger, with the cap kind in the error details,
+// by enforce_redemption_location with 'location' and by enforce_redemption_offer_live
+// with the reason the offer isn't live
+const CAP_REACHED = 'P0001'
+const CAP_KINDS: OfferCapKind[] = ['total', 'daily', 'student_weekly']
+const WRONG_LOCATION = 'location'
+const UNAVAILABLE_REASONS: OfferUnavailableReason[] = [
+  'offer_inactive',
+  'offer_not_started',
+  'offer_ended',
+  'outside_schedule',
+  'qr_expired',
+  'claim_closed',
+  'insufficient_followers',
+]
+
+interface RawClaimLookup {
+  id: number
+  status: string
+  qr_code: string | null
+  qr_expires_at: string | null
+  created_at: string
+  student: OneOrMany<RawStudent>
+  offers: OneOrMany<ClaimLookup['offer']>
+  redemptions: OneOrMany<{ id: number; redeemed_at: string }>
+}
+
+/**
+ * Extract the claim code from a scanned QR payload.
+ * Codes may be encoded raw or inside a link (`?code=…` or as the last path segment).
+ */
+export function normalizeClaimCode(raw: string): string {
+  const value = raw.trim()
+  if (!value) return ''
+
+  try {
+    const url = new URL(value)
+    const fromQuery = url.searchParams.get('code')
+    if (fromQuery) return fromQuery.trim()
+    const segments = url.pathname.split('/').filter(Boolean)
+    return segments.length > 0 ? decodeURIComponent(segments[segments.length - 1]) : value
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Look up a claim by its QR code, scoped to the merchant's offers.
+ * Cap usage is counted in the merchant's time zone when the offer has caps.
+ */
+export async function lookupClaimByCode(
+  merchantId: number,
+  code: string,
+  timeZone?: string | null
+): Promise<ClaimLookup | null> {
+  const normalized = normalizeClaimCode(code)
+  if (!normalized) return null
+
+  const { data, error } = await supabase
+    .from('offer_claims')
+    .select(CLAIM_LOOKUP_SELECT)
+    .eq('qr_code', normalized)
+    .eq('offers.merchant_id', merchantId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (!data) return null
+
+  const raw = data as unknown as RawClaimLookup
+  const offer = pickOne(raw.offers)
+  const student = pickOne(raw.student)
+
+  if (!offer) return null
+
+  const usage = { ...EMPTY_USAGE, studentWeek: 0 }
+
+  if (hasCaps(offer)) {
+    const [offerUsage, studentWeek] = await Promise.all([
+      fetchOfferUsage(merchantId, [offer], timeZone),
+      student && offer.max_redemptions_per_student_week !== null
+        ? countStudentWeeklyRedemptions(offer.id, student.id)
+        : Promise.resolve(0),
+    ])
+    Object.assign(usage, offerUsage[offer.id], { studentWeek })
+  }
+
+  return {
+    claim: {
+      id: raw.id,
+      status: raw.status,
+      qr_code: raw.qr_code,
+      qr_expires_at: raw.qr_expires_at,
+      created_at: raw.created_at,
+    },
+    offer,
+    student: mapStudent(student),
+    redemption: pickOne(raw.redemptions),
+    usage,
+  }
+}
+
+/**
+ * Check whether a claim can be redeemed right now, at `locationId` when the merchant is at one.
+ * Recurring windows and blackout dates are evaluated in the merchant's time zone.
+ */
+export function checkClaimEligibility(
+  lookup: ClaimLookup,
+  now = new Date(),
+  timeZone?: string | null,
+  locationId: number | null = null
+): ClaimEligibility {
+  const reasons: ClaimIneligibilityReason[] = []
+  const time = now.getTime()
+  const { claim, offer, student, redemption, usage } = lookup
+
+  if (!offer.is_active || offer.deleted) {
+    reasons.push('offer_inactive')
+  }
+
+  if (offer.start_at && new Date(offer.start_at).getTime() > time) {
+    reasons.push('offer_not_started')
+  }
+
+  if (offer.end_at && new Date(offer.end_at).getTime() <= time) {
+    reasons.push('offer_ended')
+  }
+
+  const scheduleState = getOfferLiveState({ ...offer, is_active: true, start_at: null, end_at: null }, timeZone, now)
+  if (scheduleState === 'blackout' || scheduleState === 'outside_window') {
+    reasons.push('outside_schedule')
+  }
+
+  if (!isOfferAtLocation(offer, locationId)) {
+    reasons.push('wrong_location')
+  }
+
+  if (claim.qr_expires_at && new Date(claim.qr_expires_at).getTime() <= time) {
+    reasons.push('qr_expired')
+  }
+
+  if (claim.status === 'expired' || claim.status === 'canceled') {
+    reasons.push('claim_closed')
+  }
+
+  const followers = student?.verified_followers_count ?? student?.followers_count ?? null
+  if (followers !== null && followers < offer.min_followers) {
+    reasons.push('insufficient_followers')
+  }
+
+  if (redemption || claim.status === 'validated') {
+    reasons.push('already_redeemed')
+  } else {
+    // A redeemed claim is already counted in its own usage, so caps only matter before redemption
+    getReachedCaps(offer, usage).forEach((cap) => reasons.push(`cap_${cap}`))
+  }
+
+  return { eligible: reasons.length === 0, reasons }
+}
+
+/**
+ * Record a redemption for a claim at a location and mark the claim as validated
+ */
+export async function redeemClaim(
+  claimId: number,
+  redeemedByUserId: number | null,
+  locationId: number | null
+): Promise<RedeemClaimResult> {
+  const { data, error } = await supabase
+    .from('redemptions')
+    .insert({ claim_id: claimId, redeemed_by_user_id: redeemedByUserId, location_id: locationId })
+    .select('id, redeemed_at')
+    .single()
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return { status: 'already_redeemed' }
+    }
+    if (error.code === CAP_REACHED && CAP_KINDS.includes(error.details as OfferCapKind)) {
+      return { status: 'cap_reached', cap: error.details as OfferCapKind }
+    }
+    if (error.code === CAP_REACHED && error.details === WRONG_LOCATION) {
+      return { status: 'wrong_location' }
+    }
+    if (error.code === CAP_REACHED && UNAVAILABLE_REASONS.includes(error.details as OfferUnavailableReason)) {
+      return { status: 'offer_unavailable', reason: error.details as OfferUnavailableReason }
+    }
+    throw error
+  }
+
+  const { error: claimError } = await supabase
+    .from('offer_claims')
+    .update({ status: 'validated' })
+    .eq('id', claimId)
+
+  if (claimError) {
+    // The redemption is recorded; the claim status is informational only
+    console.error('Error marking claim as validated:', claimError)
+  }
+
+  return { status: 'redeemed', redemption: data }
+}
@@ -0,0 +1,10 @@
+/**
+ * Dashboard pages a suspended merchant can still open: the overview, billing and profile,
+ * so they can see why and sort it out. middleware.js sends everything else to /dashboard.
+ */
+
+const SUSPENDED_PATHS = ['/dashboard/billing', '/dashboard/profile']
+
+export function isAllowedWhileSuspended(pathname: string) {
+  return pathname === '/dashboard' || SUSPENDED_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`))
+}
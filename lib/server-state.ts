@@ -0,0 +1,80 @@
+import { cookies } from 'next/headers'
+import { cache } from 'react'
+import { AuthUser, InitialAuthState, getImpersonatedMembership, getMerchantMembership, getUserRecord } from './auth'
+import { IMPERSONATION_COOKIE, parseImpersonatedMerchantId } from './impersonation'
+import { MerchantLocation, getLocationCookieName, listLocations } from './locations'
+import { getMerchantLogoUrl } from './storage'
+import { createServerComponentClient } from './supabase-server'
+
+/**
+ * Initial state for the client providers, read once per request in the root layout and
+ * again (from React's cache) by server-rendered pages. Mirrors what AuthProvider and
+ * LocationProvider would otherwise load in the browser after hydration.
+ */
+
+export interface InitialLocationState {
+  locations: MerchantLocation[]
+  selectedLocationId: number | null
+}
+
+const SIGNED_OUT: InitialAuthState = { user: null, userRecord: null, merchant: null, role: null, readOnly: false }
+
+export const getServerAuthState = cache(async (): Promise<InitialAuthState> => {
+  const client = await createServerComponentClient()
+  const { data: { user }, error } = await client.auth.getUser()
+
+  if (error || !user) return SIGNED_OUT
+
+  try {
+    const [userRecord, ownMembership] = await Promise.all([
+      getUserRecord(user.id, client),
+      getMerchantMembership(user.id, client),
+    ])
+    // Admins viewing a merchant from the admin console (lib/impersonation.ts)
+    const impersonatedId = userRecord?.role === 'admin'
+      ? parseImpersonatedMerchantId((await cookies()).get(IMPERSONATION_COOKIE)?.value)
+      : null
+    const membership = impersonatedId !== null
+      ? await getImpersonatedMembership(impersonatedId, client)
+      : ownMembership
+
+    let merchant = membership?.merchant ?? null
+    if (merchant?.logo_url && !merchant.logo_url.startsWith('http')) {
+      try {
+        merchant = { ...merchant, logo_signed_url: await getMerchantLogoUrl(merchant.logo_url, undefined, client) }
+      } catch (logoError) {
+        console.error('Error generating merchant logo URL:', logoError)
+      }
+    }
+
+    return {
+      user: user as AuthUser,
+      userRecord,
+      merchant,
+      role: membership?.role ?? null,
+      readOnly: Boolean(membership?.readOnly),
+    }
+  } catch (loadError) {
+    // The browser loads it again once it has the session
+    console.error('Error loading auth data on the server:', loadError)
+    return { ...SIGNED_OUT, user: user as AuthUser }
+  }
+})
+
+export const getServerLocationState = cache(async (): Promise<InitialLocationState | null> => {
+  const { merchant } = await getServerAuthState()
+  if (!merchant) return null
+
+  try {
+    const client = await createServerComponentClient()
+    const locations = await listLocations(merchant.id, client)
+    const stored = Number((await cookies()).get(getLocationCookieName(merchant.id))?.value)
+    return {
+      locations,
+      selectedLocationId: locations.some((location) => location.id === stored) ? stored : null,
+    }
+  } catch (error) {
+    console.error('Error fetching locations on the server:', error)
+    return null
+  }
+})
@@ -0,0 +1,225 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Merchant } from './auth'
+import { fetchChargePerRedemption, fetchRedemptionTimestamps, getDateKey } from './metrics'
+import { withImpersonation } from './impersonation'
+
+export type BalanceTransactionType = 'top_up' | 'charge' | 'refund' | 'adjustment'
+
+export interface BalanceTransaction {
+  id: number
+  type: BalanceTransactionType
+  /** Signed: credits are positive, debits negative */
+  amount_cents: number
+  balance_after_cents: number | null
+  description: string | null
+  created_at: string
+}
+
+export interface MonthlyStatement {
+  /** YYYY-MM in the merchant's time zone */
+  month: string
+  redemptions: number
+  /** EUR */
+  charges: number
+  /** EUR, the unit price behind `charges` */
+  chargePerRedemption: number
+  /** EUR credited by top-ups */
+  topUps: number
+  /** EUR, net change of the balance over the month */
+  balanceMovement: number
+  /** EUR, last known balance at the end of the month; null before the first recorded movement */
+  closingBalance: number | null
+  /** The month is still running, so it has no invoice yet */
+  isCurrent: boolean
+}
+
+export interface StatementsSummary {
+  statements: MonthlyStatement[]
+  /** EUR */
+  balance: number
+  lastPaymentAt: string | null
+}
+
+export type StatementMerchant = Pick<Merchant, 'id' | 'balance_cents' | 'last_payment_at' | 'created_at'>
+
+export const STATEMENT_MONTHS = 12
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+const TRANSACTION_COLUMNS = 'id, type, amount_cents, balance_after_cents, description, created_at'
+
+export function isStatementMonth(value: string) {
+  return MONTH_PATTERN.test(value)
+}
+
+/**
+ * Move a YYYY-MM month by a number of months
+ */
+export function shiftMonth(month: string, delta: number) {
+  const [year, monthIndex] = month.split('-').map(Number)
+  const date = new Date(Date.UTC(year, monthIndex - 1 + delta, 1))
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * Invoice numbers are stable per merchant and month, e.g. OVIO-42-202501
+ */
+export function getInvoiceNumber(merchantId: number, month: string) {
+  return `OVIO-${merchantId}-${month.replace('-', '')}`
+}
+
+// UTC bounds padded by a day on each side so every local day of the range is covered
+function getMonthRangeBounds(fromMonth: string, toMonth: string) {
+  const [fromYear, fromIndex] = fromMonth.split('-').map(Number)
+  const [toYear, toIndex] = toMonth.split('-').map(Number)
+  const since = new Date(Date.UTC(fromYear, fromIndex - 1, 1))
+  since.setUTCDate(since.getUTCDate() - 1)
+  const until = new Date(Date.UTC(toYear, toIndex, 1))
+  until.setUTCDate(until.getUTCDate() + 1)
+  return { since: since.toISOString(), until: until.toISOString() }
+}
+
+/**
+ * Build one statement per month from `fromMonth` to `toMonth` (inclusive), newest first.
+ * Redemptions are grouped by the merchant's local month, like the billing metrics.
+ */
+export async function computeMonthlyStatements(
+  client: SupabaseClient,
+  merchant: StatementMerchant,
+  options: { fromMonth: string; toMonth: string; timeZone?: string; now?: Date }
+): Promise<MonthlyStatement[]> {
+  const { fromMonth, toMonth, timeZone } = options
+  const currentMonth = getDateKey(options.now ?? new Date(), timeZone).slice(0, 7)
+  const { since, until } = getMonthRangeBounds(fromMonth, toMonth)
+
+  const [timestamps, transactionsResult, openingResult, chargePerRedemption] = await Promise.all([
+    fetchRedemptionTimestamps(client, merchant.id, since, until),
+    client
+      .from('merchant_balance_transactions')
+      .select(TRANSACTION_COLUMNS)
+      .eq('merchant_id', merchant.id)
+      .gte('created_at', since)
+      .lt('created_at', until)
+      .order('created_at', { ascending: true }),
+    // Last balance before the range, carried into the first month
+    client
+      .from('merchant_balance_transactions')
+      .select('balance_after_cents')
+      .eq('merchant_id', merchant.id)
+      .lt('created_at', since)
+      .not('balance_after_cents', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    fetchChargePerRedemption(client),
+  ])
+
+  if (transactionsResult.error) throw transactionsResult.error
+  if (openingResult.error) throw openingResult.error
+
+  const monthOf = (timestamp: string) => getDateKey(new Date(timestamp), timeZone).slice(0, 7)
+
+  const redemptionCounts = new Map<string, number>()
+  for (const redeemedAt of timestamps) {
+    const month = monthOf(redeemedAt)
+    redemptionCounts.set(month, (redemptionCounts.get(month) || 0) + 1)
+  }
+
+  const transactionsByMonth = new Map<string, BalanceTransaction[]>()
+  let carriedBalance: number | null = openingResult.data?.balance_after_cents ?? null
+
+  for (const transaction of (transactionsResult.data || []) as BalanceTransaction[]) {
+    const month = monthOf(transaction.created_at)
+    // The padded bounds can pick up the edges of neighbouring months
+    if (month < fromMonth) {
+      if (transaction.balance_after_cents !== null) carriedBalance = transaction.balance_after_cents
+      continue
+    }
+    if (month > toMonth) continue
+    transactionsByMonth.set(month, [...(transactionsByMonth.get(month) || []), transaction])
+  }
+
+  const statements: MonthlyStatement[] = []
+
+  for (let month = fromMonth; month <= toMonth; month = shiftMonth(month, 1)) {
+    const transactions = transactionsByMonth.get(month) || []
+    const redemptions = redemptionCounts.get(month) || 0
+    const topUpCents = transactions
+      .filter((transaction) => transaction.type === 'top_up')
+      .reduce((sum, transaction) => sum + transaction.amount_cents, 0)
+    const movementCents = transactions.reduce((sum, transaction) => sum + transaction.amount_cents, 0)
+
+    for (const transaction of transactions) {
+      if (transaction.balance_after_cents !== null) carriedBalance = transaction.balance_after_cents
+    }
+
+    const isCurrent = month === currentMonth
+    // Without a ledger entry the merchant row still knows today's balance
+    const closingCents = isCurrent && merchant.balance_cents != null ? merchant.balance_cents : carriedBalance
+
+    statements.push({
+      month,
+      redemptions,
+      charges: redemptions * chargePerRedemption,
+      chargePerRedemption,
+      topUps: topUpCents / 100,
+      balanceMovement: movementCents / 100,
+      closingBalance: closingCents !== null ? closingCents / 100 : null,
+      isCurrent,
+    })
+  }
+
+  return statements.reverse()
+}
+
+/**
+ * Statements for the last STATEMENT_MONTHS months, starting no earlier than the merchant's sign-up
+ */
+export async function computeStatementsSummary(
+  client: SupabaseClient,
+  merchant: StatementMerchant,
+  options: { timeZone?: string; now?: Date } = {}
+): Promise<StatementsSummary> {
+  const now = options.now ?? new Date()
+  const toMonth = getDateKey(now, options.timeZone).slice(0, 7)
+  const signUpMonth = merchant.created_at ? getDateKey(new Date(merchant.created_at), options.timeZone).slice(0, 7) : null
+  const earliest = shiftMonth(toMonth, -(STATEMENT_MONTHS - 1))
+  const fromMonth = signUpMonth && signUpMonth > earliest ? signUpMonth : earliest
+
+  const statements = await computeMonthlyStatements(client, merchant, { ...options, fromMonth, toMonth, now })
+
+  return {
+    statements,
+    balance: (merchant.balance_cents ?? 0) / 100,
+    lastPaymentAt: merchant.last_payment_at ?? null,
+  }
+}
+
+/**
+ * Load the merchant's statements from the server route (browser only)
+ */
+export async function fetchStatements(options: { timeZone?: string } = {}): Promise<StatementsSummary> {
+  const params = new URLSearchParams({
+    tz: options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+  })
+
+  const response = await fetch(`/api/merchant/statements?${withImpersonation(params).toString()}`, {
+    credentials: 'same-origin',
+  })
+
+  if (!response.ok) {
+    throw new Error(`Statements request failed with status ${response.status}`)
+  }
+
+  return response.json()
+}
+
+/**
+ * Link to the PDF invoice of a closed month; its days follow the merchant's time zone
+ */
+export function getInvoiceUrl(month: string, options: { language?: string } = {}) {
+  const params = new URLSearchParams()
+  if (options.language) {
+    params.set('lang', options.language)
+  }
+  return `/api/merchant/statements/${month}/invoice?${withImpersonation(params).toString()}`
+}
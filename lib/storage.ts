@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from './supabase'
 
 export const MERCHANT_BUCKET = 'merchant-logos'
@@ -74,8 +75,12 @@ export async function createStudentProofSignedUrl(path: string, expiresInSeconds
   return data.signedUrl
 }
 
-export async function getMerchantLogoUrl(path: string, expiresInSeconds = 60 * 60) {
-  const { data, error } = await supabase.storage
+export async function getMerchantLogoUrl(
+  path: string,
+  expiresInSeconds = 60 * 60,
+  client: SupabaseClient = supabase
+) {
+  const { data, error } = await client.storage
     .from(MERCHANT_BUCKET)
     .createSignedUrl(path, expiresInSeconds)
 
@@ -0,0 +1,30 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { cache } from 'react'
+import { AUTH_STORAGE_KEY } from './supabase'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * Server client for Server Components, signed in with the session in the request cookies.
+ * One per request, shared by the layout and the page.
+ * Server Components can't write cookies, so token refreshes are left to middleware.js and
+ * the browser client.
+ */
+export const createServerComponentClient = cache(async () => {
+  const cookieStore = await cookies()
+
+  return createServerClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      storageKey: AUTH_STORAGE_KEY,
+    },
+    cookies: {
+      get(name) {
+        return cookieStore.get(name)?.value
+      },
+      set() {},
+      remove() {},
+    },
+  })
+})
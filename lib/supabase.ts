@@ -1,6 +1,7 @@
 import { createBrowserClient, createServerClient } from '@supabase/ssr'
 import { createClient } from '@supabase/supabase-js'
 import type { GetServerSidePropsContext, NextApiRequest, NextApiResponse } from 'next'
+import type { NextRequest, NextResponse } from 'next/server'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -8,7 +9,7 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 type BrowserSupabaseClient = ReturnType<typeof createBrowserClient>
 
 // Unique storage key so we don’t clash with other clients
-const storageKey = 'ovio-merchant-auth'
+export const AUTH_STORAGE_KEY = 'ovio-merchant-auth'
 
 // ✅ Browser client – only one instance
 const getBrowserSupabaseClient = (): BrowserSupabaseClient => {
@@ -19,7 +20,7 @@ const getBrowserSupabaseClient = (): BrowserSupabaseClient => {
   if (!globalScope.__supabaseClient) {
     globalScope.__supabaseClient = createBrowserClient(supabaseUrl, supabaseAnonKey, {
       auth: {
-        storageKey,
+        storageKey: AUTH_STORAGE_KEY,
         autoRefreshToken: true,
         persistSession: true,
         flowType: 'pkce',
@@ -34,24 +35,40 @@ const getBrowserSupabaseClient = (): BrowserSupabaseClient => {
 // 👉 Use this everywhere in client components
 export const supabase = getBrowserSupabaseClient()
 
-// 👉 Server client for SSR / API handlers
+type ServerRequest = NextApiRequest | GetServerSidePropsContext['req'] | NextRequest
+type ServerResponse = NextApiResponse | GetServerSidePropsContext['res'] | NextResponse
+type CookieSetter = { set: (name: string, value: string, options?: unknown) => void }
+
+const readRequestCookie = (req: ServerRequest, name: string) => {
+  if (!('cookies' in req)) return undefined
+  // App Router requests expose a RequestCookies store, Pages Router requests a plain object
+  if (typeof (req.cookies as NextRequest['cookies']).get === 'function') {
+    return (req.cookies as NextRequest['cookies']).get(name)?.value
+  }
+  return (req.cookies as Partial<Record<string, string>>)[name]
+}
+
+// 👉 Server client for SSR / API handlers / App Router route handlers
 export const createServerSupabaseClient = (
-  req: NextApiRequest | GetServerSidePropsContext['req'],
-  res: NextApiResponse | GetServerSidePropsContext['res']
+  req: ServerRequest,
+  res: ServerResponse
 ) => {
   return createServerClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      storageKey: AUTH_STORAGE_KEY,
+    },
     cookies: {
       get(name) {
-        return 'cookies' in req ? req.cookies[name] : undefined
+        return readRequestCookie(req, name)
       },
       set(name, value, options) {
-        if ('cookies' in res && typeof (res.cookies as { set: (name: string, value: string, options?: unknown) => void }).set === 'function') {
-          (res.cookies as { set: (name: string, value: string, options?: unknown) => void }).set(name, value, options)
+        if ('cookies' in res && typeof (res.cookies as CookieSetter).set === 'function') {
+          (res.cookies as CookieSetter).set(name, value, options)
         }
       },
       remove(name, options) {
-        if ('cookies' in res && typeof (res.cookies as { set: (name: string, value: string, options?: unknown) => void }).set === 'function') {
-          (res.cookies as { set: (name: string, value: string, options?: unknown) => void }).set(name, '', options)
+        if ('cookies' in res && typeof (res.cookies as CookieSetter).set === 'function') {
+          (res.cookies as CookieSetter).set(name, '', options)
         }
       },
     },
@@ -0,0 +1,90 @@
+import type { MerchantRole } from './permissions'
+import { supabase } from './supabase'
+
+/**
+ * Team members and staff roles. The account owner (`merchants.owner_user_id`) always has the
+ * owner role; everyone else is invited by email into `merchant_members` and linked to their
+ * user once they sign in with that address.
+ */
+
+export type { MerchantPermission, MerchantRole } from './permissions'
+export { MERCHANT_ROLES, getHomePath, getRoutePermission, hasPermission } from './permissions'
+
+export interface TeamMember {
+  id: number
+  merchant_id: number
+  email: string
+  role: MerchantRole
+  /** null until the invitee signs in */
+  user_id: number | null
+  invited_by_user_id: number | null
+  created_at: string
+  accepted_at: string | null
+}
+
+export type TeamInviteErrorCode = 'already_member' | 'failed'
+
+export class TeamInviteError extends Error {
+  code: TeamInviteErrorCode
+
+  constructor(code: TeamInviteErrorCode, message: string) {
+    super(message)
+    this.name = 'TeamInviteError'
+    this.code = code
+  }
+}
+
+const MEMBER_COLUMNS = 'id, merchant_id, email, role, user_id, invited_by_user_id, created_at, accepted_at'
+
+export async function listTeamMembers(merchantId: number): Promise<TeamMember[]> {
+  const { data, error } = await supabase
+    .from('merchant_members')
+    .select(MEMBER_COLUMNS)
+    .eq('merchant_id', merchantId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as TeamMember[]
+}
+
+/**
+ * Invite someone by email. The server route records the invite and sends the sign-up email;
+ * it answers 409 when the address is already on the team.
+ */
+export async function inviteTeamMember(email: string, role: MerchantRole): Promise<TeamMember> {
+  const response = await fetch('/api/merchant/team', {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, role }),
+  })
+
+  if (!response.ok) {
+    throw new TeamInviteError(
+      response.status === 409 ? 'already_member' : 'failed',
+      `Team invite request failed with status ${response.status}`
+    )
+  }
+
+  return response.json()
+}
+
+export async function updateTeamMemberRole(merchantId: number, memberId: number, role: MerchantRole) {
+  const { error } = await supabase
+    .from('merchant_members')
+    .update({ role })
+    .eq('id', memberId)
+    .eq('merchant_id', merchantId)
+
+  if (error) throw error
+}
+
+export async function removeTeamMember(merchantId: number, memberId: number) {
+  const { error } = await supabase
+    .from('merchant_members')
+    .delete()
+    .eq('id', memberId)
+    .eq('merchant_id', merchantId)
+
+  if (error) throw error
+}
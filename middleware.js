@@ -1,5 +1,8 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse } from 'next/server'
+import { IMPERSONATION_COOKIE } from '@/lib/impersonation'
+import { getHomePath, getRoutePermission, hasPermission } from '@/lib/permissions'
+import { isAllowedWhileSuspended } from '@/lib/route-access'
 
 export async function middleware(req) {
   const res = NextResponse.next({ request: { headers: req.headers } })
@@ -24,35 +27,97 @@ export async function middleware(req) {
     }
   )
 
-  // Only run auth check for dashboard routes
-  if (!req.nextUrl.pathname.startsWith('/dashboard')) {
+  const { pathname } = req.nextUrl
+  const isAdminRoute = pathname.startsWith('/admin')
+  const isOnboardingRoute = pathname.startsWith('/onboarding')
+
+  // Only run auth check for dashboard, admin and onboarding routes
+  if (!pathname.startsWith('/dashboard') && !isAdminRoute && !isOnboardingRoute) {
     return res
   }
 
+  // Keep any refreshed auth cookies when sending the user elsewhere
+  const redirectTo = (path) => {
+    const redirect = NextResponse.redirect(new URL(path, req.url))
+    res.cookies.getAll().forEach((cookie) => redirect.cookies.set(cookie))
+    return redirect
+  }
+
   const {
     data: { session },
   } = await supabase.auth.getSession()
 
   if (process.env.NODE_ENV === 'development') {
     console.log('Middleware session check:', {
-      path: req.nextUrl.pathname,
+      path: pathname,
       hasSession: !!session,
       userId: session?.user?.id,
       storageKey: 'ovio-merchant-auth'
     })
   }
 
-  // Only protect /dashboard routes
-  if (!session && req.nextUrl.pathname.startsWith('/dashboard')) {
+  if (!session) {
     if (process.env.NODE_ENV === 'development') {
       console.log('No session found, redirecting to /login')
     }
-    return NextResponse.redirect(new URL('/login', req.url))
+    return redirectTo('/login')
+  }
+
+  // Role, merchant membership and subscription status in one call (get_route_context)
+  const { data: context, error } = await supabase.rpc('get_route_context').maybeSingle()
+
+  if (error) {
+    console.error('Error resolving route context:', error)
+    // Without the role and membership there is no telling what the user may open
+    return redirectTo('/unauthorized')
   }
 
-  return res
+  const target = resolveRedirect(pathname, context, req.cookies.has(IMPERSONATION_COOKIE))
+
+  if (process.env.NODE_ENV === 'development' && target) {
+    console.log('Role-based redirect:', { path: pathname, role: context?.user_role, target })
+  }
+
+  return target ? redirectTo(target) : res
+}
+
+/**
+ * Where a request has to go instead, or null when the user may open the page.
+ * The admin console sets IMPERSONATION_COOKIE (lib/impersonation.ts) while an admin views a
+ * merchant dashboard.
+ */
+function resolveRedirect(pathname, context, isImpersonating) {
+  const isAdminRoute = pathname.startsWith('/admin')
+  const isOnboardingRoute = pathname.startsWith('/onboarding')
+  const isSuspended = context?.subscription_status === 'suspended'
+
+  switch (context?.user_role) {
+    case 'admin':
+      if (isAdminRoute) return null
+      return isImpersonating && !isOnboardingRoute ? null : '/admin'
+
+    case 'merchant':
+      if (isAdminRoute) return '/unauthorized'
+      if (!context.merchant_id) return isOnboardingRoute ? null : '/onboarding'
+      if (isOnboardingRoute) return '/dashboard'
+      if (isSuspended && !isAllowedWhileSuspended(pathname)) {
+        return '/dashboard'
+      }
+      // Managers and cashiers only open the pages their role allows (lib/permissions.ts)
+      const permission = getRoutePermission(pathname)
+      if (permission && !hasPermission(context.merchant_role, permission)) {
+        const home = getHomePath(context.merchant_role)
+        // A suspended cashier can't open the scanner either; DashboardLayout shows them the notice
+        return home === pathname || (isSuspended && !isAllowedWhileSuspended(home)) ? null : home
+      }
+      return null
+
+    // Students, and accounts whose users row is missing
+    default:
+      return '/unauthorized'
+  }
 }
 
 export const config = {
-  matcher: ['/dashboard/:path*'],
+  matcher: ['/dashboard/:path*', '/admin/:path*', '/onboarding/:path*'],
 }
\ No newline at end of file